@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+
+import { AssertionEngine, type AssertionResponse } from "../assertions.js";
+import type { EndpointDefinition } from "../types.js";
+
+describe("AssertionEngine", () => {
+  const engine = new AssertionEngine();
+  const evaluate = (
+    assertions: EndpointDefinition["assertions"],
+    response: Partial<AssertionResponse> = {},
+  ) =>
+    engine.evaluate(
+      { id: "endpoint", name: "Endpoint", url: "https://api.test", method: "GET", assertions },
+      { status: 200, headers: {}, data: "", ...response },
+    );
+
+  const body = {
+    user: { id: 7, name: "Ada", roles: ["admin", "dev"] },
+    items: [{ price: 5 }, { price: 12 }],
+  };
+
+  describe("jsonPath", () => {
+    it("checks values", () => {
+      const { assertions, failures } = evaluate(
+        {
+          jsonPath: [
+            { path: "$.user.id", equals: 7 },
+            { path: "$.user.roles", contains: "admin" },
+            { path: "$.user.name", matches: "/^ad/i" },
+            { path: "$.items[*].price", equals: [5, 12] },
+            { path: "$.user.email", exists: false },
+          ],
+        },
+        { data: body },
+      );
+
+      expect(failures).toEqual([]);
+      expect(assertions.jsonPath).toBe(true);
+    });
+
+    it("reports failed comparisons", () => {
+      const { failures } = evaluate(
+        {
+          jsonPath: [
+            { path: "$.user.id", lessThan: 5 },
+            { path: "$.user.email" },
+          ],
+        },
+        { data: JSON.stringify(body) },
+      );
+
+      expect(failures).toEqual([
+        {
+          assertion: "jsonPath",
+          path: "$.user.id",
+          expected: "< 5",
+          actual: 7,
+          message: "value is not less than expected",
+        },
+        {
+          assertion: "jsonPath",
+          path: "$.user.email",
+          expected: "value to exist",
+          actual: undefined,
+          message: "no match",
+        },
+      ]);
+    });
+
+    it.each(["", null])("treats an empty body (%j) as no match", (data) => {
+      const { assertions, failures } = evaluate(
+        { jsonPath: [{ path: "$.id", exists: false }, { path: "$.id" }] },
+        { status: 204, data },
+      );
+
+      expect(assertions.jsonPath).toBe(false);
+      expect(failures).toEqual([
+        expect.objectContaining({ path: "$.id", message: "no match" }),
+      ]);
+    });
+  });
+
+  describe("jmesPath", () => {
+    it("checks values", () => {
+      const { failures } = evaluate(
+        {
+          jmesPath: [
+            { path: "user.name", equals: "Ada" },
+            { path: "length(items)", greaterThan: 1 },
+            { path: "items[?price > `10`].price | [0]", equals: 12 },
+            { path: "user.email", exists: false },
+          ],
+        },
+        { data: body },
+      );
+
+      expect(failures).toEqual([]);
+    });
+
+    it("reports a value that is equal when it must not be", () => {
+      const { failures } = evaluate(
+        { jmesPath: [{ path: "user.id", notEquals: 7 }] },
+        { data: body },
+      );
+
+      expect(failures).toEqual([
+        {
+          assertion: "jmesPath",
+          path: "user.id",
+          expected: "not 7",
+          actual: 7,
+          message: "value is equal",
+        },
+      ]);
+    });
+  });
+
+  describe("bodySchema", () => {
+    const schema = {
+      type: "object",
+      required: ["user"],
+      properties: {
+        user: {
+          type: "object",
+          required: ["id", "email"],
+          properties: { id: { type: "integer" }, email: { type: "string", format: "email" } },
+        },
+      },
+    };
+
+    it("passes a matching body", () => {
+      const { assertions } = evaluate(
+        { bodySchema: schema },
+        { data: { user: { id: 1, email: "ada@example.com" } } },
+      );
+
+      expect(assertions.bodySchema).toBe(true);
+    });
+
+    it("reports each violation with its path", () => {
+      const { failures } = evaluate(
+        { bodySchema: schema },
+        { data: { user: { id: "1", email: "not-an-email" } } },
+      );
+
+      expect(failures.map(({ path, expected, actual }) => ({ path, expected, actual }))).toEqual([
+        { path: "$.user.id", expected: "integer", actual: "1" },
+        { path: "$.user.email", expected: 'format "email"', actual: "not-an-email" },
+      ]);
+    });
+
+    it("resolves $refs to extra schemas by $id", () => {
+      const { failures } = evaluate(
+        {
+          bodySchema: { $ref: "https://schemas.test/user" },
+          schemas: [{ $id: "https://schemas.test/user", type: "object", required: ["id"] }],
+        },
+        { data: {} },
+      );
+
+      expect(failures).toEqual([
+        expect.objectContaining({ assertion: "bodySchema", expected: 'property "id"' }),
+      ]);
+    });
+  });
+
+  describe("headers", () => {
+    const headers = { "content-type": "application/json; charset=utf-8", "set-cookie": ["a=1", "b=2"] };
+
+    it("matches names case-insensitively", () => {
+      const { failures } = evaluate(
+        {
+          headers: [
+            { name: "Content-Type", contains: "application/json" },
+            { name: "Set-Cookie", equals: "a=1, b=2" },
+            { name: "X-Powered-By", exists: false },
+          ],
+        },
+        { headers },
+      );
+
+      expect(failures).toEqual([]);
+    });
+
+    it("reports missing and mismatched headers", () => {
+      const { failures } = evaluate(
+        {
+          headers: [
+            { name: "Cache-Control" },
+            { name: "Content-Type", matches: "^text/" },
+          ],
+        },
+        { headers },
+      );
+
+      expect(failures.map(({ path, message }) => [path, message])).toEqual([
+        ["Cache-Control", "header missing"],
+        ["Content-Type", "header value does not match pattern"],
+      ]);
+    });
+  });
+
+  it("checks body text and status", () => {
+    const { assertions, failures } = evaluate(
+      { bodyContains: ["Ada"], bodyMatches: ["\"id\":\\s*8"] },
+      { status: 500, data: body },
+    );
+
+    expect(assertions).toMatchObject({ statusCode: false, bodyContains: true, bodyMatches: false });
+    expect(failures.map((failure) => failure.assertion)).toEqual(["statusCode", "bodyMatches"]);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createAuthProvider, type AuthRequest } from "../auth.js";
+import { startTestServer, type TestResponse, type TestServer } from "./test-server.js";
+
+describe("OAuth2 client credentials", () => {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const createProvider = async (...responses: TestResponse[]) => {
+    let issued = 0;
+    server = await startTestServer(async () => {
+      // Slow enough for concurrent requests to overlap the token request
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return responses.shift() ?? { status: 200, body: { access_token: `token-${++issued}` } };
+    });
+    const provider = createAuthProvider(
+      {
+        type: "oauth2",
+        tokenUrl: `${server.url}/token`,
+        clientIdEnv: "CLIENT_ID",
+        clientSecretEnv: "CLIENT_SECRET",
+      },
+      { env: { CLIENT_ID: "id", CLIENT_SECRET: "secret" } },
+    );
+    return { provider, requests: server.requests };
+  };
+  const request: AuthRequest = { method: "GET", url: "https://api.test/items", headers: {} };
+
+  it("shares one token request between concurrent requests", async () => {
+    const { provider, requests } = await createProvider();
+
+    const signed = await Promise.all(
+      Array.from({ length: 5 }, () => provider.apply(request)),
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(new Set(signed.map((s) => s.headers.Authorization))).toEqual(
+      new Set(["Bearer token-1"]),
+    );
+  });
+
+  it("shares one refresh of an expired token", async () => {
+    const { provider, requests } = await createProvider({
+      status: 200,
+      body: { access_token: "expiring", expires_in: 0 },
+    });
+    await provider.apply(request);
+
+    const signed = await Promise.all(
+      Array.from({ length: 5 }, () => provider.apply(request)),
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(new Set(signed.map((s) => s.headers.Authorization))).toEqual(
+      new Set(["Bearer token-1"]),
+    );
+  });
+
+  it("does not cache a failed token request", async () => {
+    const { provider, requests } = await createProvider({ status: 500 });
+
+    const failed = await Promise.allSettled([provider.apply(request), provider.apply(request)]);
+    expect(failed.map((outcome) => outcome.status)).toEqual(["rejected", "rejected"]);
+
+    const signed = await provider.apply(request);
+    expect(signed.headers.Authorization).toBe("Bearer token-1");
+    expect(requests).toHaveLength(2);
+  });
+
+  it("refreshes once after concurrent 401s for the same token", async () => {
+    const { provider, requests } = await createProvider();
+    const first = await provider.apply(request);
+
+    provider.invalidate?.(first);
+    provider.invalidate?.(first);
+    const signed = await Promise.all([provider.apply(request), provider.apply(request)]);
+    // A late 401 for the old token keeps the new one
+    provider.invalidate?.(first);
+
+    expect(signed.map((s) => s.headers.Authorization)).toEqual([
+      "Bearer token-2",
+      "Bearer token-2",
+    ]);
+    expect((await provider.apply(request)).headers.Authorization).toBe("Bearer token-2");
+    expect(requests).toHaveLength(2);
+  });
+});
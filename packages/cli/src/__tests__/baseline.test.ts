@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildBaseline,
+  compareWithBaseline,
+  diffSchemas,
+  inferSchema,
+  type JsonSchema,
+} from "../baseline.js";
+import type { CheckResult, Collection, Report } from "../types.js";
+
+describe("inferSchema", () => {
+  it("describes objects, arrays and primitives", () => {
+    expect(inferSchema({ id: 1, tags: ["a"], owner: null })).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        tags: { type: "array", items: { type: "string" } },
+        owner: { type: "null" },
+      },
+      required: ["id", "tags", "owner"],
+    });
+  });
+
+  it("merges array items, making fields missing from some items optional", () => {
+    expect(inferSchema([{ id: 1, note: "x" }, { id: 2, note: null }, { id: 3 }])).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: { id: { type: "number" }, note: { type: ["null", "string"] } },
+        required: ["id"],
+      },
+    });
+  });
+});
+
+describe("diffSchemas", () => {
+  const diff = (before: unknown, after: unknown) =>
+    diffSchemas(inferSchema(before), inferSchema(after));
+
+  it("reports removed, renamed and retyped fields", () => {
+    expect(
+      diff(
+        { id: 1, name: "Ada", email: "ada@example.com", total: 3 },
+        { id: 1, fullName: "Ada", total: "3" },
+      ),
+    ).toEqual([
+      "field $.name renamed to $.fullName",
+      "field $.email removed",
+      "field $.total changed type number → string",
+    ]);
+  });
+
+  it("ignores added fields", () => {
+    expect(diff({ id: 1 }, { id: 1, extra: true })).toEqual([]);
+  });
+
+  it("treats changes to and from null as compatible", () => {
+    expect(diff({ deletedAt: null, owner: null }, { deletedAt: "2026-01-01", owner: { id: 1 } })).toEqual([]);
+    expect(diff({ deletedAt: "2026-01-01" }, { deletedAt: null })).toEqual([]);
+    expect(diff([{ note: null }, { note: "x" }], [{ note: 5 }])).toEqual([
+      "field $[].note changed type string → number",
+    ]);
+  });
+
+  it("reports fields missing from some array items", () => {
+    expect(diff([{ id: 1 }, { id: 2 }], [{ id: 1 }, {}])).toEqual([
+      "field $[].id is missing from some items",
+    ]);
+  });
+
+  it("reports a changed body type", () => {
+    const before: JsonSchema = { type: "array", items: { type: "object" } };
+    expect(diffSchemas(before, { type: "object" })).toEqual([
+      "response body changed type array → object",
+    ]);
+  });
+});
+
+describe("compareWithBaseline", () => {
+  const collection: Collection = {
+    id: "collection",
+    name: "Collection",
+    endpoints: [
+      { id: "users", name: "List users", url: "https://api.test/users", method: "GET" },
+      { id: "health", name: "Health", url: "https://api.test/health", method: "GET" },
+    ],
+  };
+  const report = (...results: Partial<CheckResult>[]): Report => ({
+    collectionId: "collection",
+    environment: "ci",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    results: results.map((result) => ({
+      endpointId: "users",
+      status: "PASSED",
+      actualStatus: 200,
+      responseTime: 100,
+      timestamp: "2026-01-01T00:00:00.000Z",
+      ...result,
+    })),
+    summary: { total: results.length, passed: results.length, failed: 0, errors: 0 },
+  });
+  const baseline = buildBaseline(
+    report({ endpointId: "users" }, { endpointId: "health", responseTime: 10 }),
+    collection,
+    new Map([["users", inferSchema([{ id: 1, name: "Ada" }])]]),
+  );
+
+  it("reports status, shape and latency regressions", () => {
+    const regressions = compareWithBaseline(
+      baseline,
+      report(
+        { endpointId: "users", responseTime: 260 },
+        { endpointId: "health", status: "FAILED", actualStatus: 503 },
+      ),
+      collection,
+      new Map([["users", inferSchema([{ id: "1", name: "Ada" }])]]),
+    );
+
+    expect(regressions).toEqual([
+      "List users: field $[].id changed type number → string",
+      "List users: response time 100ms → 260ms (2.6x baseline)",
+      "Health: status changed 200 → 503",
+    ]);
+  });
+
+  it("ignores small slowdowns and honours the latency threshold", () => {
+    const run = report({ endpointId: "health", responseTime: 45 });
+
+    expect(compareWithBaseline(baseline, run, collection, new Map())).toEqual([]);
+    expect(
+      compareWithBaseline(baseline, report({ endpointId: "users", responseTime: 260 }), collection, new Map(), {
+        latencyThreshold: 3,
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports requests that got no response", () => {
+    expect(
+      compareWithBaseline(
+        baseline,
+        report({ status: "ERROR", actualStatus: undefined, error: "ECONNREFUSED" }),
+        collection,
+        new Map(),
+      ),
+    ).toEqual(["List users: request failed (baseline status 200): ECONNREFUSED"]);
+  });
+
+  it("keeps entries of endpoints without a response when rebuilding", () => {
+    const rebuilt = buildBaseline(
+      report({ endpointId: "users", status: "ERROR", actualStatus: undefined }),
+      collection,
+      new Map(),
+      baseline,
+    );
+
+    expect(rebuilt.endpoints).toEqual(baseline.endpoints);
+  });
+});
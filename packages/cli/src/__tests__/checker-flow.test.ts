@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { EndpointChecker } from "../checker.js";
+import type { EndpointDefinition } from "../types.js";
+import { startTestServer, type TestServer } from "./test-server.js";
+
+describe("EndpointChecker.checkFlow", () => {
+  let server: TestServer;
+  let loginStatus: number;
+
+  beforeEach(async () => {
+    loginStatus = 201;
+    server = await startTestServer((request) => {
+      const route = `${request.method} ${request.url}`;
+      if (route === "POST /login") {
+        return loginStatus < 300
+          ? { status: loginStatus, body: { token: "secret" } }
+          : { status: loginStatus, body: { error: "denied" } };
+      }
+      if (request.headers.authorization !== "Bearer secret") {
+        return { status: 401 };
+      }
+      if (route === "POST /items") return { status: 201, body: { id: 42 } };
+      if (route === "GET /items/42") return { status: 200, body: { id: 42 } };
+      if (route === "DELETE /items/42") return { status: 204 };
+      return { status: 404 };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const flow = (overrides: Partial<EndpointDefinition> = {}): EndpointDefinition[] => [
+    {
+      id: "login",
+      name: "Login",
+      url: `${server.url}/login`,
+      method: "POST",
+      body: '{"user": "ci"}',
+      setDirectives: [{ varName: "authToken", responsePath: "response.body.token" }],
+      ...overrides,
+    },
+    {
+      id: "create",
+      name: "Create item",
+      url: `${server.url}/items`,
+      method: "POST",
+      headers: { Authorization: "Bearer {{authToken}}" },
+      setDirectives: [{ varName: "itemId", responsePath: "response.body.id" }],
+    },
+    {
+      id: "read",
+      name: "Read item",
+      url: `${server.url}/items/{{itemId}}`,
+      method: "GET",
+      headers: { Authorization: "Bearer {{authToken}}" },
+    },
+    {
+      id: "delete",
+      name: "Delete item",
+      url: `${server.url}/items/{{itemId}}`,
+      method: "DELETE",
+      headers: { Authorization: "Bearer {{authToken}}" },
+    },
+  ];
+
+  it("captures values from 201 responses", async () => {
+    const results = await new EndpointChecker().checkFlow(flow());
+
+    expect(results.map((result) => [result.endpointId, result.status, result.actualStatus])).toEqual([
+      ["login", "PASSED", 201],
+      ["create", "PASSED", 201],
+      ["read", "PASSED", 200],
+      ["delete", "PASSED", 204],
+    ]);
+    expect(server.requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      "POST /login",
+      "POST /items",
+      "GET /items/42",
+      "DELETE /items/42",
+    ]);
+  });
+
+  it("captures from a 2xx response whose assertions failed", async () => {
+    const results = await new EndpointChecker().checkFlow(flow({ expectedStatus: 200 }));
+
+    expect(results.map((result) => result.status)).toEqual([
+      "FAILED",
+      "PASSED",
+      "PASSED",
+      "PASSED",
+    ]);
+  });
+
+  it("skips steps that need a value from a non-2xx response", async () => {
+    loginStatus = 403;
+    const results = await new EndpointChecker().checkFlow(flow());
+
+    expect(results.map((result) => result.status)).toEqual([
+      "FAILED",
+      "SKIPPED",
+      "SKIPPED",
+      "SKIPPED",
+    ]);
+    expect(results[1].skipReason).toBe('authToken not captured: "Login" returned 403');
+    expect(server.requests).toHaveLength(1);
+  });
+});
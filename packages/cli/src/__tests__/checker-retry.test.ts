@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { EndpointChecker } from "../checker.js";
+import type { EndpointDefinition } from "../types.js";
+import { startTestServer, type TestResponse, type TestServer } from "./test-server.js";
+
+describe("EndpointChecker retries", () => {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const checker = () => new EndpointChecker({ retries: 2, retryDelay: 0 });
+  const endpoint = (url: string): EndpointDefinition => ({
+    id: "endpoint",
+    name: "Endpoint",
+    url,
+    method: "GET",
+  });
+  const respondInOrder = async (...responses: TestResponse[]) => {
+    server = await startTestServer(
+      () => responses.shift() ?? { status: 500, body: "no response left" },
+    );
+    return server;
+  };
+
+  it("retries retryable statuses", async () => {
+    const { url, requests } = await respondInOrder({ status: 503 }, { status: 200 });
+
+    const result = await checker().checkEndpoint(endpoint(url));
+
+    expect(result.status).toBe("PASSED");
+    expect(requests).toHaveLength(2);
+    expect(result.attempts?.map((attempt) => attempt.status)).toEqual([503]);
+  });
+
+  it("does not retry other statuses", async () => {
+    const { url, requests } = await respondInOrder({ status: 500 }, { status: 200 });
+
+    const result = await checker().checkEndpoint(endpoint(url));
+
+    expect(result.status).toBe("FAILED");
+    expect(requests).toHaveLength(1);
+    expect(result.attempts).toBeUndefined();
+  });
+
+  it("retries network errors", async () => {
+    // A closed server's port refuses connections
+    const closed = await startTestServer(() => ({ status: 200 }));
+    await closed.close();
+
+    const result = await checker().checkEndpoint(endpoint(closed.url));
+
+    expect(result.status).toBe("ERROR");
+    expect(result.error).toMatch(/^ECONNREFUSED/);
+    expect(result.attempts).toHaveLength(2);
+  });
+
+  it("does not retry errors that repeat on every attempt", async () => {
+    const { url, requests } = await respondInOrder({ status: 200 });
+
+    const result = await checker().checkEndpoint(endpoint(`${url}/{{missing}}`));
+
+    expect(result.status).toBe("ERROR");
+    expect(result.error).toBe("Unresolved variables in URL: missing");
+    expect(result.attempts).toBeUndefined();
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,135 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  findUnresolvedVariables,
+  loadEnvironment,
+  replaceVariables,
+} from "../environment.js";
+import { buildRequestUrl, parseHttpRequest, splitHttpRequests } from "../http-file.js";
+
+describe("loadEnvironment", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-env-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeEnvFile = (contents: unknown) => {
+    const file = path.join(dir, "rest-client.env.json");
+    fs.writeFileSync(file, JSON.stringify(contents));
+    return file;
+  };
+
+  it("layers the environment over $shared and resolves nested variables", () => {
+    const file = writeEnvFile({
+      $shared: { host: "https://shared.test", version: "v1" },
+      local: { host: "http://localhost:3000", apiUrl: "{{host}}/api/{{version}}" },
+      staging: { host: "https://staging.test" },
+    });
+
+    const environment = loadEnvironment(file);
+
+    expect(environment.name).toBe("local");
+    expect(environment.variables).toEqual({
+      host: "http://localhost:3000",
+      version: "v1",
+      apiUrl: "http://localhost:3000/api/v1",
+    });
+  });
+
+  it("flattens nested objects into dotted names", () => {
+    const file = writeEnvFile({ staging: { auth: { user: "ci", retries: 2 } } });
+
+    expect(loadEnvironment(file, "staging").variables).toEqual({
+      "auth.user": "ci",
+      "auth.retries": "2",
+    });
+  });
+
+  it("rejects an unknown environment name", () => {
+    const file = writeEnvFile({ local: {}, staging: {} });
+
+    expect(() => loadEnvironment(file, "prod")).toThrow(
+      'Environment "prod" not found in',
+    );
+  });
+});
+
+describe("replaceVariables", () => {
+  it("prefers file variables over environment variables", () => {
+    expect(
+      replaceVariables("{{baseUrl}}/users/{{ id }}", {
+        fileVariables: { baseUrl: "https://file.test" },
+        environment: { baseUrl: "https://env.test", id: "7" },
+      }),
+    ).toBe("https://file.test/users/7");
+  });
+
+  it("resolves system variables", () => {
+    process.env.WATCHAPI_TEST_TOKEN = "secret";
+    try {
+      const text = replaceVariables(
+        "{{$processEnv WATCHAPI_TEST_TOKEN}} {{$randomInt 5 6}} {{$guid}}",
+      );
+      expect(text).toMatch(/^secret 5 [0-9a-f-]{36}$/);
+    } finally {
+      delete process.env.WATCHAPI_TEST_TOKEN;
+    }
+  });
+
+  it("leaves unknown variables for findUnresolvedVariables", () => {
+    const text = replaceVariables("{{host}}/{{missing}}?q={{ other }}", {
+      environment: { host: "https://api.test" },
+    });
+
+    expect(findUnresolvedVariables(text)).toEqual(["missing", "other"]);
+  });
+});
+
+describe(".http requests", () => {
+  it("splits blocks and parses names, headers, bodies and @set directives", () => {
+    const [login, search] = splitHttpRequests(
+      [
+        "@baseUrl = https://api.test",
+        "",
+        "// Login",
+        "POST {{baseUrl}}/login",
+        "Content-Type: application/json",
+        "@set token = response.body.token",
+        "",
+        '{"user": "ci"}',
+        "",
+        "###",
+        "",
+        "GET {{baseUrl}}/api/items",
+        "    ?q=a%20b",
+        "    &owner={{userId}}",
+      ].join("\n"),
+    ).map(parseHttpRequest);
+
+    expect(login).toEqual({
+      name: "Login",
+      method: "POST",
+      requestPath: "{{baseUrl}}/login",
+      headers: { "Content-Type": "application/json" },
+      query: undefined,
+      body: '{"user": "ci"}',
+      setDirectives: [{ varName: "token", responsePath: "response.body.token" }],
+    });
+    expect(search).toMatchObject({
+      name: "Get Items",
+      method: "GET",
+      requestPath: "{{baseUrl}}/api/items",
+      query: { q: "a b", owner: "{{userId}}" },
+    });
+    expect(buildRequestUrl(search)).toBe("{{baseUrl}}/api/items?q=a%20b&owner={{userId}}");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { formatCheckReport } from "../formats/index.js";
+import type { Collection, Report } from "../types.js";
+
+describe("formatCheckReport", () => {
+  const collection: Collection = {
+    id: "collection",
+    name: "Collection",
+    endpoints: [
+      { id: "list", name: "List users", url: "https://api.test/users", method: "GET" },
+      { id: "create", name: "Create user", url: "https://api.test/users", method: "POST" },
+    ],
+  };
+  const report: Report = {
+    collectionId: "collection",
+    environment: "staging",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    results: [
+      {
+        endpointId: "list",
+        status: "PASSED",
+        actualStatus: 200,
+        responseTime: 120,
+        timestamp: "2026-01-01T00:00:00.000Z",
+      },
+      {
+        endpointId: "create",
+        status: "FAILED",
+        actualStatus: 500,
+        responseTime: 80,
+        timestamp: "2026-01-01T00:00:00.000Z",
+        failures: [{ assertion: "statusCode", expected: "2xx", actual: 500 }],
+      },
+    ],
+    summary: { total: 2, passed: 1, failed: 1, errors: 0 },
+  };
+  const regressions = ["GET List users: 2.5x slower than baseline (300ms vs 120ms)"];
+
+  it("reports regressions as failed JUnit test cases", () => {
+    const xml = formatCheckReport(report, "junit", collection, regressions);
+
+    expect(xml).toContain('tests="3" failures="2" errors="0"');
+    expect(xml).toContain(
+      '<testcase name="GET List users: 2.5x slower than baseline (300ms vs 120ms)" classname="watchapi.check.staging.regressions">',
+    );
+    expect(xml).toContain('<failure message="GET List users: 2.5x slower');
+  });
+
+  it("reports regressions as failed TAP points", () => {
+    const tap = formatCheckReport(report, "tap", collection, regressions).split("\n");
+
+    expect(tap.slice(0, 2)).toEqual(["TAP version 13", "1..3"]);
+    expect(tap.filter((line) => /^(not )?ok /.test(line))).toEqual([
+      "ok 1 - GET List users",
+      "not ok 2 - POST Create user",
+      "not ok 3 - regression: GET List users: 2.5x slower than baseline (300ms vs 120ms)",
+    ]);
+  });
+
+  it("reports regressions as SARIF errors", () => {
+    const sarif = JSON.parse(formatCheckReport(report, "sarif", collection, regressions));
+    const [run] = sarif.runs;
+
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      "statusCode",
+      "regression",
+    ]);
+    expect(run.results.at(-1)).toEqual({
+      ruleId: "regression",
+      level: "error",
+      message: { text: regressions[0] },
+      properties: { environment: "staging" },
+    });
+  });
+
+  it("keeps regressions in JSON", () => {
+    expect(JSON.parse(formatCheckReport(report, "json", collection, regressions))).toMatchObject({
+      summary: report.summary,
+      regressions,
+    });
+  });
+
+  it("reports nothing extra without regressions", () => {
+    expect(formatCheckReport(report, "junit", collection)).toContain('tests="2" failures="1"');
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { EndpointChecker } from "../checker.js";
+import {
+  evaluateThresholds,
+  type LoadReport,
+  LoadRunner,
+  type LoadStats,
+  parseDuration,
+  parseStage,
+  parseThreshold,
+  validateThresholdEndpoints,
+} from "../load.js";
+import type { EndpointDefinition } from "../types.js";
+import { startTestServer, type TestServer } from "./test-server.js";
+
+describe("load options", () => {
+  it("parses durations and stages", () => {
+    expect(parseDuration("500ms")).toBe(500);
+    expect(parseDuration("1.5s")).toBe(1500);
+    expect(parseDuration("2m")).toBe(120_000);
+    expect(parseDuration("10")).toBe(10_000);
+    expect(() => parseDuration("soon")).toThrow('Invalid duration "soon"');
+
+    expect(parseStage("30s:50")).toEqual({ duration: 30_000, target: 50 });
+    expect(() => parseStage("30s:-1")).toThrow('Invalid stage "30s:-1"');
+  });
+
+  it("parses thresholds with endpoints and units", () => {
+    expect(parseThreshold("p95<500")).toMatchObject({ metric: "p95", operator: "<", value: 500 });
+    expect(parseThreshold("error_rate <= 1%")).toMatchObject({ metric: "error_rate", value: 0.01 });
+    expect(parseThreshold("List users:max<1.5s")).toMatchObject({
+      endpoint: "List users",
+      metric: "max",
+      value: 1500,
+    });
+    expect(() => parseThreshold("p42<1")).toThrow('Invalid threshold "p42<1"');
+  });
+});
+
+describe("thresholds", () => {
+  const endpoints: EndpointDefinition[] = [
+    { id: "users", name: "List users", url: "https://api.test/users", method: "GET" },
+  ];
+  const stats = (overrides: Partial<LoadStats>): LoadStats => ({
+    requests: 10,
+    passed: 10,
+    failed: 0,
+    errors: 0,
+    errorRate: 0,
+    rps: 5,
+    min: 10,
+    mean: 20,
+    p50: 20,
+    p90: 30,
+    p95: 40,
+    p99: 50,
+    max: 60,
+    statuses: { "200": 10 },
+    ...overrides,
+  });
+  const report: LoadReport = {
+    mode: "rps",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    duration: 2000,
+    dropped: 0,
+    total: stats({ errorRate: 0.02 }),
+    endpoints: [{ endpointId: "users", name: "List users", method: "GET", ...stats({ p95: 400 }) }],
+  };
+
+  it("evaluates totals and endpoints by name or id", () => {
+    const results = evaluateThresholds(report, [
+      parseThreshold("error_rate<1%"),
+      parseThreshold("List users:p95<500"),
+      parseThreshold("users:rps>=10"),
+    ]);
+
+    expect(results.map((result) => [result.actual, result.passed])).toEqual([
+      [0.02, false],
+      [400, true],
+      [5, false],
+    ]);
+  });
+
+  it("rejects endpoints that are not run before the run", () => {
+    expect(() =>
+      validateThresholdEndpoints([parseThreshold("users:p95<500")], endpoints),
+    ).not.toThrow();
+    expect(() =>
+      validateThresholdEndpoints([parseThreshold("Create user:p95<500")], endpoints),
+    ).toThrow('Threshold "Create user:p95<500" names an endpoint that is not run. Available: List users');
+  });
+});
+
+describe("LoadRunner", () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      return { status: 200, body: { ok: true } };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("measures responses slower than maxResponseTime instead of aborting them", async () => {
+    const endpoint: EndpointDefinition = {
+      id: "slow",
+      name: "Slow",
+      url: `${server.url}/slow`,
+      method: "GET",
+      maxResponseTime: 20,
+    };
+
+    const report = await new LoadRunner(new EndpointChecker(), [endpoint], {
+      mode: "vus",
+      start: 1,
+      duration: 300,
+    }).run();
+
+    expect(report.total.requests).toBeGreaterThan(0);
+    expect(report.total.errorRate).toBe(0);
+    expect(report.total.statuses).toEqual({ "200": report.total.requests });
+    expect(report.total.min).toBeGreaterThanOrEqual(70);
+    expect(report.endpoints[0]).toMatchObject({ endpointId: "slow", name: "Slow" });
+  });
+});
@@ -0,0 +1,128 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { EndpointChecker } from "../checker.js";
+import { loadLocalCollection } from "../local-source.js";
+import { startTestServer, type TestServer } from "./test-server.js";
+
+describe("loadLocalCollection with .http files", () => {
+  let dir: string;
+  let server: TestServer;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-local-source-"));
+    server = await startTestServer((request) => {
+      if (request.method === "POST") return { status: 201, body: { id: 1 } };
+      if (request.method === "DELETE") return { status: 204 };
+      return { status: 404, body: { error: "not found" } };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes any 2xx status and fails others", async () => {
+    const file = path.join(dir, "api.http");
+    fs.writeFileSync(
+      file,
+      [
+        "// Login",
+        `POST ${server.url}/login`,
+        "Content-Type: application/json",
+        "",
+        '{"user": "ci"}',
+        "",
+        "###",
+        "// Delete item",
+        `DELETE ${server.url}/items/1`,
+        "",
+        "###",
+        "// Missing",
+        `GET ${server.url}/missing`,
+      ].join("\n"),
+    );
+
+    const collection = loadLocalCollection(file);
+    expect(collection.endpoints.map((endpoint) => endpoint.expectedStatus)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+
+    const results = await new EndpointChecker().checkAll(collection.endpoints);
+    expect(results.map((result) => [result.actualStatus, result.status])).toEqual([
+      [201, "PASSED"],
+      [204, "PASSED"],
+      [404, "FAILED"],
+    ]);
+    expect(results[2].failures).toEqual([
+      { assertion: "statusCode", expected: "2xx", actual: 404 },
+    ]);
+  });
+
+  it("resolves variables in query strings", async () => {
+    const file = path.join(dir, "api.http");
+    fs.writeFileSync(
+      file,
+      [
+        `@baseUrl = ${server.url}`,
+        "@itemId = 42",
+        "",
+        "// Find item",
+        "DELETE {{baseUrl}}/items?id={{itemId}}&tag=a%2Fb",
+        "",
+        "###",
+        "// Unresolved",
+        "DELETE {{baseUrl}}/items?id={{missingId}}",
+      ].join("\n"),
+    );
+
+    const collection = loadLocalCollection(file);
+    expect(collection.endpoints.map((endpoint) => endpoint.url)).toEqual([
+      "{{baseUrl}}/items?id={{itemId}}&tag=a%2Fb",
+      "{{baseUrl}}/items?id={{missingId}}",
+    ]);
+
+    const results = await new EndpointChecker().checkAll(collection.endpoints);
+    expect(results.map((result) => [result.status, result.error])).toEqual([
+      ["PASSED", undefined],
+      ["ERROR", "Unresolved variables in URL: missingId"],
+    ]);
+    expect(server.requests.map((request) => request.url)).toEqual([
+      "/items?id=42&tag=a%2Fb",
+    ]);
+  });
+
+  it("keeps an explicit expectedStatus exact in collection JSON", async () => {
+    const file = path.join(dir, "collection.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        id: "local",
+        name: "Local",
+        endpoints: [
+          {
+            id: "create",
+            name: "Create",
+            url: `${server.url}/items`,
+            method: "POST",
+            expectedStatus: 200,
+          },
+        ],
+      }),
+    );
+
+    const [result] = await new EndpointChecker().checkAll(
+      loadLocalCollection(file).endpoints,
+    );
+    expect(result.status).toBe("FAILED");
+    expect(result.failures).toEqual([
+      { assertion: "statusCode", expected: 200, actual: 201 },
+    ]);
+  });
+});
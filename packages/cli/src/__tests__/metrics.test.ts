@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createMetricsSink,
+  METRICS_CONTENT_TYPE,
+  MetricsRegistry,
+  startMetricsServer,
+} from "../metrics.js";
+import type { MonitorEvent } from "../monitor.js";
+import type { CheckResult, Collection, Report } from "../types.js";
+
+describe("MetricsRegistry", () => {
+  const collection: Collection = {
+    id: "collection",
+    name: "Shop",
+    endpoints: [
+      { id: "list", name: 'List "all" items', url: "https://api.test/items", method: "GET" },
+      { id: "create", name: "Create item", url: "https://api.test/items", method: "POST" },
+    ],
+  };
+  const result = (overrides: Partial<CheckResult>): CheckResult => ({
+    endpointId: "list",
+    status: "PASSED",
+    actualStatus: 200,
+    responseTime: 40,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  });
+  const report = (...results: CheckResult[]): Report => ({
+    collectionId: "collection",
+    environment: "ci",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    results,
+    summary: { total: results.length, passed: 0, failed: 0, errors: 0 },
+  });
+  const labels = 'collection="Shop",environment="ci",endpoint="List \\"all\\" items",method="GET"';
+
+  it("renders up, histogram, status and assertion series for a check report", () => {
+    const registry = new MetricsRegistry();
+    registry.recordReport(
+      report(
+        result({ responseTime: 40 }),
+        result({
+          endpointId: "create",
+          status: "FAILED",
+          actualStatus: 500,
+          responseTime: 700,
+          failures: [{ assertion: "statusCode", expected: "2xx", actual: 500 }],
+        }),
+        result({ endpointId: "create", status: "SKIPPED", actualStatus: undefined }),
+      ),
+      collection,
+    );
+
+    const lines = registry.render().split("\n");
+    expect(lines).toContain(`watchapi_endpoint_up{${labels}} 1`);
+    expect(lines).toContain(
+      'watchapi_endpoint_up{collection="Shop",environment="ci",endpoint="Create item",method="POST"} 0',
+    );
+    expect(lines).toContain(`watchapi_response_time_seconds_bucket{${labels},le="0.025"} 0`);
+    expect(lines).toContain(`watchapi_response_time_seconds_bucket{${labels},le="0.05"} 1`);
+    expect(lines).toContain(`watchapi_response_time_seconds_bucket{${labels},le="+Inf"} 1`);
+    expect(lines).toContain(`watchapi_response_time_seconds_sum{${labels}} 0.04`);
+    expect(lines).toContain(`watchapi_responses_total{${labels},code="200"} 1`);
+    expect(lines).toContain(
+      'watchapi_assertion_failures_total{collection="Shop",environment="ci",endpoint="Create item",method="POST",assertion="statusCode"} 1',
+    );
+    // Skipped results are not measured
+    expect(lines).toContain(
+      'watchapi_response_time_seconds_count{collection="Shop",environment="ci",endpoint="Create item",method="POST"} 1',
+    );
+  });
+
+  it("counts requests without a response as code=\"error\"", () => {
+    const registry = new MetricsRegistry();
+    registry.recordReport(
+      report(result({ status: "ERROR", actualStatus: undefined, error: "ETIMEDOUT" })),
+      collection,
+    );
+
+    expect(registry.render()).toContain(`watchapi_responses_total{${labels},code="error"} 1`);
+  });
+
+  it("follows the monitor's state, leaving the gauge out while unknown", () => {
+    const registry = new MetricsRegistry();
+    const sink = createMetricsSink(registry, collection);
+    const event = (state: MonitorEvent["state"], status: CheckResult["status"]): MonitorEvent => ({
+      type: "check",
+      timestamp: "2026-01-01T00:00:00.000Z",
+      collectionId: "collection",
+      environment: "ci",
+      endpoint: { id: "list", name: 'List "all" items', method: "GET", url: "https://api.test/items" },
+      state,
+      result: result({ status, actualStatus: status === "PASSED" ? 200 : 500 }),
+      window: { size: 1, passed: 0, availability: 0, p50: 0, p90: 0, p99: 0 },
+    });
+
+    sink.write(event("unknown", "FAILED"));
+    expect(registry.render()).not.toContain("watchapi_endpoint_up{");
+
+    sink.write(event("up", "PASSED"));
+    // One failure does not take a flap-suppressed endpoint down
+    sink.write(event("up", "FAILED"));
+    expect(registry.render()).toContain(`watchapi_endpoint_up{${labels}} 1`);
+  });
+
+  it("serves /metrics", async () => {
+    const registry = new MetricsRegistry();
+    registry.recordReport(report(result({})), collection);
+    const server = await startMetricsServer(registry, "127.0.0.1:0");
+    try {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+
+      const metrics = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(metrics.headers.get("content-type")).toBe(METRICS_CONTENT_TYPE);
+      expect(await metrics.text()).toContain(`watchapi_endpoint_up{${labels}} 1`);
+      expect((await fetch(`http://127.0.0.1:${port}/`)).status).toBe(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("rejects invalid addresses", () => {
+    expect(() => startMetricsServer(new MetricsRegistry(), "localhost")).toThrow(
+      'Invalid metrics address "localhost"',
+    );
+  });
+});
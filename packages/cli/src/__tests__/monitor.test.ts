@@ -0,0 +1,187 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { EndpointChecker } from "../checker.js";
+import { Monitor, type MonitorEvent, type MonitorSink } from "../monitor.js";
+import { createSink } from "../monitor-sinks.js";
+import type { Collection } from "../types.js";
+import { startTestServer, type TestServer } from "./test-server.js";
+
+describe("Monitor", () => {
+  let server: TestServer;
+  let statuses: number[];
+
+  beforeEach(async () => {
+    statuses = [];
+    server = await startTestServer(() => ({ status: statuses.shift() ?? 200 }));
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const collection = (): Collection => ({
+    id: "collection",
+    name: "Collection",
+    endpoints: [
+      { id: "health", name: "Health", url: `${server.url}/health`, method: "GET" },
+      {
+        id: "inactive",
+        name: "Inactive",
+        url: `${server.url}/inactive`,
+        method: "GET",
+        isActive: false,
+      },
+    ],
+  });
+
+  /** Runs the monitor until `checks` check events were emitted */
+  const monitor = async (checks: number, extraSinks: MonitorSink[] = []) => {
+    const events: MonitorEvent[] = [];
+    const sinkErrors: unknown[] = [];
+    let done!: () => void;
+    const finished = new Promise<void>((resolve) => (done = resolve));
+    const recorder: MonitorSink = {
+      name: "recorder",
+      write(event) {
+        events.push(event);
+        if (events.filter((e) => e.type === "check").length === checks) done();
+      },
+    };
+
+    const running = new Monitor(
+      collection(),
+      "ci",
+      new EndpointChecker(),
+      [recorder, ...extraSinks],
+      { interval: 5, jitter: 0, onSinkError: (_sink, error) => sinkErrors.push(error) },
+    );
+    running.start();
+    await finished;
+    await running.stop();
+
+    return {
+      monitored: running.monitored.map((endpoint) => endpoint.id),
+      transitions: events
+        .filter((event) => event.type !== "check")
+        .map((event) => `${event.previousState} → ${event.type}`),
+      states: events.filter((event) => event.type === "check").map((event) => event.state),
+      events,
+      sinkErrors,
+    };
+  };
+
+  it("does not report a single failed first check as down", async () => {
+    statuses = [500, 200, 200];
+
+    const { monitored, states, transitions } = await monitor(3);
+
+    expect(monitored).toEqual(["health"]);
+    expect(states).toEqual(["unknown", "up", "up"]);
+    expect(transitions).toEqual(["unknown → up"]);
+  });
+
+  it("reports down after consecutive failures, from unknown or up", async () => {
+    statuses = [503, 503, 200, 200, 500, 500];
+
+    const { states, transitions } = await monitor(6);
+
+    expect(states).toEqual(["unknown", "down", "down", "up", "up", "down"]);
+    expect(transitions).toEqual(["unknown → down", "down → up", "up → down"]);
+  });
+
+  it("keeps window stats", async () => {
+    statuses = [200, 500];
+
+    const { events } = await monitor(2);
+
+    expect(events.at(-1)?.window).toMatchObject({ size: 2, passed: 1, availability: 50 });
+  });
+
+  it("routes sink errors to onSinkError without stopping", async () => {
+    // A directory cannot be opened for appending
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-monitor-"));
+    try {
+      const sink = createSink(`jsonl:${dir}`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const { states, sinkErrors } = await monitor(2, [sink]);
+
+      expect(states).toHaveLength(2);
+      expect(sinkErrors.length).toBeGreaterThan(0);
+      expect(sinkErrors[0]).toMatchObject({ code: "EISDIR" });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("monitor sinks", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-sinks-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const event = (type: MonitorEvent["type"]): MonitorEvent => ({
+    type,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    collectionId: "collection",
+    environment: "ci",
+    endpoint: { id: "health", name: "Health", method: "GET", url: "https://api.test/health" },
+    state: type === "up" ? "up" : "down",
+    result: {
+      endpointId: "health",
+      status: "FAILED",
+      actualStatus: 500,
+      responseTime: 12,
+      timestamp: "2026-01-01T00:00:00.000Z",
+    },
+    window: { size: 1, passed: 0, availability: 0, p50: 12, p90: 12, p99: 12 },
+  });
+
+  it("validates sink specs", () => {
+    expect(() => createSink("kafka:topic")).toThrow('Unknown sink "kafka:topic"');
+    expect(() => createSink("jsonl")).toThrow('Sink "jsonl" requires a target');
+    expect(createSink("stdout").name).toBe("stdout");
+  });
+
+  it("appends events as JSON lines", async () => {
+    const file = path.join(dir, "logs/monitor.jsonl");
+    const sink = createSink(`jsonl:${file}`);
+
+    await sink.write(event("check"));
+    await sink.write(event("down"));
+    await sink.close?.();
+
+    expect(
+      fs.readFileSync(file, "utf8").trim().split("\n").map((line) => JSON.parse(line).type),
+    ).toEqual(["check", "down"]);
+  });
+
+  it("posts transitions to webhooks and fails on error responses", async () => {
+    const statuses = [200, 500];
+    const hook = await startTestServer(() => ({ status: statuses.shift() ?? 200 }));
+    try {
+      const sink = createSink(`webhook:${hook.url}/hooks`);
+
+      await sink.write(event("check"));
+      await sink.write(event("down"));
+      await expect(sink.write(event("up"))).rejects.toThrow("Webhook responded with 500");
+
+      expect(hook.requests.map((request) => JSON.parse(request.body).type)).toEqual([
+        "down",
+        "up",
+      ]);
+    } finally {
+      await hook.close();
+    }
+  });
+});
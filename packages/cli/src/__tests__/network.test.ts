@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import https from "node:https";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { EndpointChecker } from "../checker.js";
+import {
+  NetworkAgents,
+  networkSettingsFromEnv,
+  parseNetworkSettings,
+  resolveNetworkSettings,
+} from "../network.js";
+import { startTestServer, type TestServer } from "./test-server.js";
+
+describe("network settings", () => {
+  it("reads proxies from the environment like curl", () => {
+    expect(
+      networkSettingsFromEnv({
+        ALL_PROXY: "http://all:8080",
+        https_proxy: "http://secure:8443",
+        NO_PROXY: "localhost,.internal",
+      }),
+    ).toEqual({
+      httpProxy: "http://all:8080",
+      httpsProxy: "http://secure:8443",
+      noProxy: "localhost,.internal",
+    });
+  });
+
+  it("lets later layers win, with proxy covering both protocols", () => {
+    const resolved = resolveNetworkSettings(
+      { httpProxy: "http://env:8080", noProxy: "localhost", ca: "/certs/a.pem" },
+      { proxy: "http://file:3128", ca: ["/certs/b.pem"], hosts: { "api.test": { insecure: true } } },
+      { httpsProxy: "", noProxy: ["a.test, b.test"], hosts: { "api.test": { cert: "/certs/c.pem" } } },
+    );
+
+    expect(resolved).toEqual({
+      httpProxy: "http://file:3128",
+      httpsProxy: undefined,
+      noProxy: ["a.test", "b.test"],
+      tls: { ca: ["/certs/a.pem", "/certs/b.pem"] },
+      hosts: { "api.test": { insecure: true, cert: "/certs/c.pem" } },
+    });
+  });
+
+  it("resolves certificate paths against the settings file", () => {
+    const settings = parseNetworkSettings(
+      { ca: "certs/ca.pem", hosts: { "*.api.test": { cert: "client.pem", key: "/abs/client.key" } } },
+      "rest-client.env.json ($network)",
+      "/project",
+    );
+
+    expect(settings).toMatchObject({
+      ca: [path.resolve("/project", "certs/ca.pem")],
+      hosts: {
+        "*.api.test": {
+          cert: path.resolve("/project", "client.pem"),
+          key: path.resolve("/abs/client.key"),
+        },
+      },
+    });
+  });
+
+  it("rejects invalid settings with their path", () => {
+    expect(() => parseNetworkSettings({ insecure: "yes" }, "flags", "/")).toThrow(
+      /Invalid network settings in flags:\n {2}insecure:/,
+    );
+  });
+});
+
+describe("NetworkAgents", () => {
+  let dir: string;
+  let proxy: TestServer;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-network-"));
+    proxy = await startTestServer(() => ({ status: 200, body: { proxied: true } }));
+  });
+
+  afterEach(async () => {
+    await proxy.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("sends requests through the proxy unless the host is bypassed", async () => {
+    const agents = new NetworkAgents(
+      resolveNetworkSettings({ proxy: proxy.url, noProxy: "internal.test" }),
+    );
+
+    expect(agents.forUrl("http://api.test/items").httpAgent).toBeDefined();
+    expect(agents.forUrl("http://svc.internal.test/items").httpAgent).toBeUndefined();
+
+    const result = await new EndpointChecker({ network: agents }).checkEndpoint({
+      id: "items",
+      name: "Items",
+      url: "http://api.test/items?page=2",
+      method: "GET",
+    });
+    expect(result.status).toBe("PASSED");
+    expect(proxy.requests.map((request) => request.url)).toEqual([
+      "http://api.test/items?page=2",
+    ]);
+  });
+
+  it("applies per-host TLS settings to matching hosts only", () => {
+    const agents = new NetworkAgents(
+      resolveNetworkSettings({ hosts: { "*.secure.test": { insecure: true } } }),
+    );
+
+    const agent = agents.forUrl("https://api.secure.test/").httpsAgent;
+    expect(agent).toBeInstanceOf(https.Agent);
+    expect(agent?.options.rejectUnauthorized).toBe(false);
+    expect(agents.forUrl("https://other.test/").httpsAgent).toBeUndefined();
+  });
+
+  it("fails upfront on an unreadable certificate", () => {
+    const missing = path.join(dir, "missing.pem");
+
+    expect(() => new NetworkAgents(resolveNetworkSettings({ ca: missing }))).toThrow(
+      `Failed to read ${missing}`,
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+
+import type { SpecNode } from "../analyzer/open-api/loader.js";
+import { diffOpenApi, formatSpecDiffMarkdown } from "../openapi-diff.js";
+
+const spec = (paths: SpecNode, components: SpecNode = {}): SpecNode => ({
+  openapi: "3.1.0",
+  info: { title: "Shop", version: "1.0.0" },
+  paths,
+  components,
+});
+
+const json = (schema: SpecNode): SpecNode => ({ content: { "application/json": { schema } } });
+
+const order = (schema: SpecNode): SpecNode => ({
+  responses: { "200": json({ type: "object", properties: { status: schema } }) },
+});
+
+const diff = (before: SpecNode, after: SpecNode) =>
+  diffOpenApi({ source: "old.yaml", doc: before }, { source: "new.yaml", doc: after });
+
+const levels = (before: SpecNode, after: SpecNode) =>
+  diff(before, after).changes.map((change) => [change.level, change.location, change.rule]);
+
+describe("diffOpenApi", () => {
+  it("reports removed operations, unless they were deprecated", () => {
+    const result = diff(
+      spec({
+        "/orders": { get: {}, post: {} },
+        "/legacy": { get: { deprecated: true } },
+      }),
+      spec({ "/orders": { get: {} }, "/orders/{id}": { get: {} } }),
+    );
+
+    expect(result.changes.map((change) => [change.level, change.operation, change.message])).toEqual([
+      ["breaking", "POST /orders", "Operation removed"],
+      ["non-breaking", "GET /legacy", "Deprecated operation removed"],
+      ["non-breaking", "GET /orders/{id}", "Operation added"],
+    ]);
+    expect(result.summary).toEqual({ breaking: 1, nonBreaking: 2 });
+  });
+
+  it("treats new required inputs as breaking and new optional ones as safe", () => {
+    const before = spec({
+      "/orders": {
+        post: {
+          parameters: [{ in: "query", name: "dryRun", schema: { type: "boolean" } }],
+          requestBody: json({ type: "object", properties: { sku: { type: "string" } } }),
+        },
+      },
+    });
+    const after = spec({
+      "/orders": {
+        post: {
+          parameters: [
+            { in: "query", name: "dryRun", required: true, schema: { type: "boolean" } },
+            { in: "header", name: "X-Trace", schema: { type: "string" } },
+          ],
+          requestBody: json({
+            type: "object",
+            properties: {
+              sku: { type: "string" },
+              quantity: { type: "integer" },
+              note: { type: "string" },
+            },
+            required: ["quantity"],
+          }),
+        },
+      },
+    });
+
+    expect(levels(before, after)).toEqual([
+      ["breaking", "query.dryRun", "parameter-required"],
+      ["breaking", "request body.quantity", "request-field-added-required"],
+      ["non-breaking", "header.X-Trace", "parameter-added"],
+      ["non-breaking", "request body.note", "request-field-added"],
+    ]);
+  });
+
+  it("treats fields removed from responses as breaking and from requests as safe", () => {
+    const body = (properties: SpecNode) => json({ type: "object", properties });
+    const operation = (properties: SpecNode) => ({
+      requestBody: body(properties),
+      responses: { "200": body(properties) },
+    });
+
+    expect(
+      levels(
+        spec({ "/items": { put: operation({ id: { type: "string" }, name: { type: "string" } }) } }),
+        spec({ "/items": { put: operation({ id: { type: "string" } }) } }),
+      ),
+    ).toEqual([
+      ["breaking", "response 200 body.name", "response-field-removed"],
+      ["non-breaking", "request body.name", "request-field-removed"],
+    ]);
+  });
+
+  it("classifies enum changes by direction", () => {
+    const request = (schema: SpecNode) => ({
+      parameters: [{ in: "query", name: "status", schema }],
+    });
+    const open = { type: "string" };
+    const closed = { type: "string", enum: ["open", "paid"] };
+    const wider = { type: "string", enum: ["open", "paid", "refunded"] };
+
+    // Narrowing breaks requests, widening breaks responses
+    expect(
+      levels(spec({ "/orders": { get: order(closed) } }), spec({ "/orders": { get: order(wider) } })),
+    ).toEqual([["breaking", "response 200 body.status", "enum-widened"]]);
+    expect(
+      levels(spec({ "/orders": { get: request(wider) } }), spec({ "/orders": { get: request(closed) } })),
+    ).toEqual([["breaking", "query.status", "enum-narrowed"]]);
+    expect(
+      levels(spec({ "/orders": { get: request(open) } }), spec({ "/orders": { get: request(closed) } })),
+    ).toEqual([["breaking", "query.status", "enum-narrowed"]]);
+
+    // Dropping the enum altogether lets a response return anything
+    const dropped = diff(spec({ "/orders": { get: order(closed) } }), spec({ "/orders": { get: order(open) } }));
+    expect(dropped.changes).toEqual([
+      {
+        level: "breaking",
+        operation: "GET /orders",
+        location: "response 200 body.status",
+        message: 'No longer restricted to "open", "paid"',
+        rule: "enum-widened",
+      },
+    ]);
+    expect(
+      levels(spec({ "/orders": { get: request(closed) } }), spec({ "/orders": { get: request(open) } })),
+    ).toEqual([["non-breaking", "query.status", "enum-widened"]]);
+  });
+
+  it("allows requests to widen and responses to narrow types", () => {
+    const operation = (request: SpecNode, response: SpecNode) => ({
+      parameters: [{ in: "query", name: "limit", schema: request }],
+      ...order(response),
+    });
+    const integer = { type: "integer" };
+    const number = { type: "number" };
+
+    expect(
+      levels(
+        spec({ "/orders": { get: operation(integer, number) } }),
+        spec({ "/orders": { get: operation(number, integer) } }),
+      ),
+    ).toEqual([
+      ["non-breaking", "query.limit", "type-changed"],
+      ["non-breaking", "response 200 body.status", "type-changed"],
+    ]);
+    expect(
+      levels(
+        spec({ "/orders": { get: operation(number, integer) } }),
+        spec({ "/orders": { get: operation(integer, { type: "string" }) } }),
+      ),
+    ).toEqual([
+      ["breaking", "query.limit", "type-changed"],
+      ["breaking", "response 200 body.status", "type-changed"],
+    ]);
+  });
+
+  it("follows $refs and merges allOf", () => {
+    const response = {
+      responses: { "200": json({ $ref: "#/components/schemas/Order" }) },
+    };
+    const before = spec(
+      { "/orders/{id}": { get: response } },
+      {
+        schemas: {
+          Base: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+          Order: {
+            allOf: [
+              { $ref: "#/components/schemas/Base" },
+              { type: "object", properties: { total: { type: "number" } } },
+            ],
+          },
+        },
+      },
+    );
+    const after = spec(
+      { "/orders/{id}": { get: response } },
+      {
+        schemas: {
+          Base: { type: "object", properties: { id: { type: "string" } } },
+          Order: {
+            allOf: [{ $ref: "#/components/schemas/Base" }, { type: "object", properties: {} }],
+          },
+        },
+      },
+    );
+
+    expect(levels(before, after)).toEqual([
+      ["breaking", "response 200 body.id", "response-field-optional"],
+      ["breaking", "response 200 body.total", "response-field-removed"],
+    ]);
+  });
+});
+
+describe("formatSpecDiffMarkdown", () => {
+  it("groups changes by level and escapes table cells", () => {
+    const markdown = formatSpecDiffMarkdown(
+      diff(
+        spec({ "/orders": { get: order({ type: "string", enum: ["a|b"] }) } }),
+        spec({ "/orders": { get: order({ type: "string" }) } }),
+      ),
+    );
+
+    expect(markdown).toContain("`old.yaml` → `new.yaml`: **1 breaking**, 0 non-breaking");
+    expect(markdown).toContain("### Breaking changes");
+    expect(markdown).not.toContain("### Non-breaking changes");
+    expect(markdown).toContain('| `GET /orders` | response 200 body.status | No longer restricted to "a\\|b" |');
+    expect(formatSpecDiffMarkdown(diff(spec({}), spec({})))).toContain("No changes.");
+  });
+});
@@ -0,0 +1,67 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface TestRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface TestResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TestServer {
+  url: string;
+  requests: TestRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Local HTTP server answering every request with the handler's response
+ * JSON bodies are serialized; requests are recorded in order
+ */
+export async function startTestServer(
+  handler: (request: TestRequest) => TestResponse | Promise<TestResponse>,
+): Promise<TestServer> {
+  const requests: TestRequest[] = [];
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const request: TestRequest = {
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      headers: req.headers,
+      body: Buffer.concat(chunks).toString("utf8"),
+    };
+    requests.push(request);
+
+    const response = await handler(request);
+    const body =
+      response.body === undefined
+        ? undefined
+        : typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body);
+    res.writeHead(response.status, {
+      ...(typeof response.body === "object" ? { "Content-Type": "application/json" } : {}),
+      ...response.headers,
+    });
+    res.end(body);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
@@ -0,0 +1,118 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  buildAnalyzerBaseline,
+  compareWithAnalyzerBaseline,
+  fingerprintIssue,
+  loadAnalyzerBaseline,
+  saveAnalyzerBaseline,
+  shouldFailAnalysis,
+} from "../baseline.js";
+import type { AnalyzerIssue, AnalyzerResult } from "../types.js";
+import { buildSummary } from "../utils/rules.js";
+
+const issue = (overrides: Partial<AnalyzerIssue>): AnalyzerIssue => ({
+  severity: "warn",
+  message: "Resolver is 61 lines. Consider extracting to a service module.",
+  file: "src/server/api/routers/items.ts",
+  line: 10,
+  router: "itemsRouter",
+  procedure: "getItems",
+  rule: "heavy-logic",
+  ...overrides,
+});
+
+const result = (...issues: AnalyzerIssue[]): AnalyzerResult => ({
+  target: "next-trpc",
+  issues,
+  summary: buildSummary(issues),
+  nodes: [],
+});
+
+describe("analyzer baseline", () => {
+  it("fingerprints issues independently of lines and numbers in messages", () => {
+    const original = issue({});
+
+    expect(
+      fingerprintIssue(
+        issue({ line: 42, message: "Resolver is 64 lines.  Consider extracting to a service module." }),
+      ),
+    ).toBe(fingerprintIssue(original));
+    expect(fingerprintIssue(issue({ procedure: "listItems" }))).not.toBe(
+      fingerprintIssue(original),
+    );
+    expect(fingerprintIssue(issue({ file: "src\\server\\api\\routers\\items.ts" }))).toBe(
+      fingerprintIssue(original),
+    );
+  });
+
+  it("reports only new issues and lists fixed ones, matching repeats one for one", () => {
+    const missingInput = issue({ rule: "missing-input", message: "Missing input schema." });
+    const baseline = buildAnalyzerBaseline(result(issue({}), missingInput, missingInput));
+
+    const compared = compareWithAnalyzerBaseline(
+      result(
+        issue({ line: 30, message: "Resolver is 75 lines. Consider extracting to a service module." }),
+        missingInput,
+        issue({ severity: "error", rule: "rate-limiting", message: "Sensitive mutation is public." }),
+      ),
+      baseline,
+    );
+
+    expect(compared.issues.map((entry) => entry.rule)).toEqual(["rate-limiting"]);
+    expect(compared.summary).toEqual({ info: 0, warn: 0, error: 1 });
+    expect(compared.target).toBe("next-trpc");
+    expect(compared.baseline).toEqual({
+      updatedAt: baseline.updatedAt,
+      fixed: [expect.objectContaining({ rule: "missing-input", procedure: "getItems" })],
+      unchanged: 2,
+    });
+  });
+
+  it("fails at or above the --fail-on severity", () => {
+    const warnings = result(issue({}));
+
+    expect(shouldFailAnalysis(warnings, "error")).toBe(false);
+    expect(shouldFailAnalysis(warnings, "warn")).toBe(true);
+    expect(shouldFailAnalysis(warnings, "info")).toBe(true);
+    expect(shouldFailAnalysis(result(), "info")).toBe(false);
+  });
+
+  describe("files", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-baseline-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("saves sorted entries and loads them back", () => {
+      const file = path.join(dir, ".watchapi/analyze-baseline.json");
+      const baseline = buildAnalyzerBaseline(
+        result(issue({ file: "src/b.ts" }), issue({ file: "src/a.ts", rule: "naming" })),
+      );
+
+      saveAnalyzerBaseline(file, baseline);
+
+      expect(baseline.issues.map((entry) => entry.file)).toEqual(["src/a.ts", "src/b.ts"]);
+      expect(loadAnalyzerBaseline(file)).toEqual(baseline);
+      expect(loadAnalyzerBaseline(path.join(dir, "missing.json"))).toBeUndefined();
+    });
+
+    it("rejects files that are not baselines", () => {
+      const file = path.join(dir, "baseline.json");
+      fs.writeFileSync(file, JSON.stringify({ version: 2, issues: [] }));
+
+      expect(() => loadAnalyzerBaseline(file)).toThrow(`Invalid analyzer baseline file ${file}:`);
+      fs.writeFileSync(file, "{");
+      expect(() => loadAnalyzerBaseline(file)).toThrow(`Failed to read baseline ${file}:`);
+    });
+  });
+});
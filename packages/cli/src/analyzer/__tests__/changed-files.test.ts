@@ -0,0 +1,145 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { getChangedFiles } from "../changed-files.js";
+import { analyzeNextAppRouter } from "../next-app/analyzer.js";
+import { analyzeTrpc } from "../trpc/analyzer.js";
+import type { NextRouteNode, TrpcProcedureNode } from "../types.js";
+
+describe("changed files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-changed-")));
+    write(
+      "tsconfig.json",
+      JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, contents: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), contents);
+  };
+
+  const git = (...args: string[]) =>
+    execFileSync(
+      "git",
+      ["-c", "user.name=watchapi", "-c", "user.email=ci@watchapi.test", ...args],
+      { cwd: dir, stdio: "pipe", encoding: "utf8" },
+    );
+
+  describe("getChangedFiles", () => {
+    it("lists committed, uncommitted and untracked changes since the merge base", () => {
+      write(".gitignore", "dist/\n");
+      write("src/a.ts", "export const a = 1;\n");
+      write("src/b.ts", "export const b = 1;\n");
+      write("src/c.ts", "export const c = 1;\n");
+      git("init", "--quiet", "--initial-branch=main");
+      git("add", "-A");
+      git("commit", "--quiet", "-m", "initial");
+
+      git("checkout", "--quiet", "-b", "feature");
+      write("src/a.ts", "export const a = 2;\n");
+      git("commit", "--quiet", "-am", "change a");
+      // Commits on main after the branch point are not the branch's changes
+      git("checkout", "--quiet", "main");
+      write("src/c.ts", "export const c = 2;\n");
+      git("commit", "--quiet", "-am", "change c");
+      git("checkout", "--quiet", "feature");
+
+      write("src/b.ts", "export const b = 2;\n");
+      write("src/new.ts", "export const d = 1;\n");
+      write("dist/a.js", "");
+
+      expect(getChangedFiles("main", path.join(dir, "src")).sort()).toEqual([
+        path.join(dir, "src/a.ts"),
+        path.join(dir, "src/b.ts"),
+        path.join(dir, "src/new.ts"),
+      ]);
+    });
+
+    it("rejects unknown refs and directories outside a repository", () => {
+      git("init", "--quiet");
+      write("src/a.ts", "");
+      git("add", "-A");
+      git("commit", "--quiet", "-m", "initial");
+
+      expect(() => getChangedFiles("origin/main", dir)).toThrow(
+        '--changed-since: unknown git ref "origin/main"',
+      );
+      expect(() => getChangedFiles("main", os.tmpdir())).toThrow(/^git rev-parse failed: /);
+    });
+  });
+
+  it("reports tRPC procedures of changed files with their mounted router paths", async () => {
+    write(
+      "src/server/api/root.ts",
+      [
+        'import { createTRPCRouter } from "./trpc";',
+        'import { itemsRouter } from "./routers/items";',
+        'import { ordersRouter } from "./routers/orders";',
+        "",
+        "export const appRouter = createTRPCRouter({",
+        "  items: itemsRouter,",
+        "  orders: ordersRouter,",
+        "});",
+      ].join("\n"),
+    );
+    for (const [name, procedure] of [
+      ["items", "getItems"],
+      ["orders", "getOrders"],
+    ]) {
+      write(
+        `src/server/api/routers/${name}.ts`,
+        [
+          'import { createTRPCRouter, publicProcedure } from "../trpc";',
+          "",
+          `export const ${name}Router = createTRPCRouter({`,
+          `  ${procedure}: publicProcedure.mutation(() => []),`,
+          "});",
+        ].join("\n"),
+      );
+    }
+
+    const result = await analyzeTrpc({
+      rootDir: dir,
+      target: "next-trpc",
+      changedFiles: [path.join(dir, "src/server/api/routers/items.ts")],
+    });
+
+    expect(
+      (result.nodes as TrpcProcedureNode[]).map((node) => `${node.router}.${node.procedure}`),
+    ).toEqual(["items.getItems"]);
+    expect(new Set(result.issues.map((issue) => issue.file))).toEqual(
+      new Set(["src/server/api/routers/items.ts"]),
+    );
+  });
+
+  it("reports Next.js route handlers of changed files only", async () => {
+    for (const route of ["users", "orders"]) {
+      write(
+        `src/app/api/${route}/route.ts`,
+        "export async function GET() {\n  return Response.json([]);\n}\n",
+      );
+    }
+
+    const result = await analyzeNextAppRouter({
+      rootDir: dir,
+      target: "next-app-router",
+      changedFiles: [path.join(dir, "src/app/api/orders/route.ts")],
+    });
+
+    expect(
+      (result.nodes as NextRouteNode[]).map((node) => `${node.method} ${node.path}`),
+    ).toEqual(["GET /api/orders"]);
+  });
+});
@@ -0,0 +1,157 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { loadAnalyzerConfig, resolveRuleConfig } from "../config.js";
+import { runAnalyzer } from "../index.js";
+
+describe("analyzer config", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, contents: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), contents);
+  };
+
+  describe("loadAnalyzerConfig", () => {
+    it("loads watchapi.config.ts and resolves plugin paths against it", async () => {
+      write(
+        "config/watchapi.config.ts",
+        [
+          "const severity: string = \"error\";",
+          "export default {",
+          '  rules: { naming: "off", "missing-input": severity },',
+          '  plugins: ["./rules.js", "watchapi-plugin-acme"],',
+          "};",
+        ].join("\n"),
+      );
+
+      const loaded = await loadAnalyzerConfig(dir, "config/watchapi.config.ts");
+
+      expect(loaded).toEqual({
+        config: {
+          rules: { naming: "off", "missing-input": "error" },
+          plugins: [path.join(dir, "config/rules.js"), "watchapi-plugin-acme"],
+        },
+        path: path.join(dir, "config/watchapi.config.ts"),
+      });
+      // The transpiled copy is cleaned up
+      expect(fs.readdirSync(path.join(dir, "config"))).toEqual(["watchapi.config.ts"]);
+    });
+
+    it("returns an empty config without a file", async () => {
+      expect(await loadAnalyzerConfig(dir)).toEqual({ config: {} });
+      await expect(loadAnalyzerConfig(dir, "missing.json")).rejects.toThrow(
+        `Config file not found: ${path.join(dir, "missing.json")}`,
+      );
+    });
+
+    it("rejects invalid rule settings", async () => {
+      const load = (rules: unknown) => {
+        write("watchapi.config.json", JSON.stringify({ rules }));
+        return loadAnalyzerConfig(dir);
+      };
+
+      await expect(load({ naming: "fatal" })).rejects.toThrow(
+        'watchapi.config.json: rules["naming"]: expected "off", "info", "warn", "error" or an object, got "fatal"',
+      );
+      await expect(load({ "heavy-logic": { thresholds: { maxLines: "80" } } })).rejects.toThrow(
+        'watchapi.config.json: rules["heavy-logic"].thresholds.maxLines must be a number',
+      );
+      await expect(load([])).rejects.toThrow(
+        'watchapi.config.json: "rules" must be an object keyed by rule id',
+      );
+    });
+  });
+
+  it("normalizes rule settings", () => {
+    const config = {
+      rules: {
+        naming: false,
+        "missing-input": "error" as const,
+        "heavy-logic": { severity: "warn" as const, thresholds: { maxLines: 80 } },
+      },
+    };
+
+    expect(resolveRuleConfig(config, "naming")).toEqual({ enabled: false, thresholds: {} });
+    expect(resolveRuleConfig(config, "missing-input")).toEqual({
+      enabled: true,
+      severity: "error",
+      thresholds: {},
+    });
+    expect(resolveRuleConfig(config, "heavy-logic")).toEqual({
+      enabled: true,
+      severity: "warn",
+      thresholds: { maxLines: 80, warnLines: 100 },
+    });
+    expect(resolveRuleConfig(undefined, "router-size")).toEqual({
+      enabled: true,
+      thresholds: { maxLines: 500 },
+    });
+  });
+
+  describe("applied to a run", () => {
+    beforeEach(() => {
+      write(
+        "tsconfig.json",
+        JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] }),
+      );
+    });
+
+    const analyze = async (router: string[], config: string) => {
+      write("src/server/api/routers/items.ts", [...router, ""].join("\n"));
+      write("watchapi.config.json", config);
+      const result = await runAnalyzer({ rootDir: dir, target: "next-trpc" });
+      return result.issues.map((issue) => `${issue.procedure} ${issue.rule} ${issue.severity}`);
+    };
+
+    it("disables rules and overrides severities from watchapi.config", async () => {
+      const issues = await analyze(
+        [
+          'import { createTRPCRouter, publicProcedure } from "../trpc";',
+          "",
+          "export const itemsRouter = createTRPCRouter({",
+          "  getItems: publicProcedure.mutation(() => []),",
+          "});",
+        ],
+        JSON.stringify({ rules: { naming: "off", "missing-input": "error" } }),
+      );
+
+      expect(issues).toContain("getItems missing-input error");
+      expect(issues.filter((issue) => issue.includes(" naming "))).toEqual([]);
+    });
+
+    it("honours disable-next-line comments for the named rules only", async () => {
+      const issues = await analyze(
+        [
+          'import { createTRPCRouter, publicProcedure } from "../trpc";',
+          "",
+          "export const itemsRouter = createTRPCRouter({",
+          "  // Legacy endpoint, kept for the mobile app",
+          "  // watchapi-disable-next-line naming -- renamed in v2",
+          "  getItems: publicProcedure.mutation(() => []),",
+          "  // watchapi-disable-next-line",
+          "  listItems: publicProcedure.mutation(() => []),",
+          "  fetchItems: publicProcedure.mutation(() => []),",
+          "});",
+        ],
+        "{}",
+      );
+
+      expect(issues).toContain("getItems missing-input warn");
+      expect(issues).not.toContain("getItems naming warn");
+      expect(issues.filter((issue) => issue.startsWith("listItems "))).toEqual([]);
+      expect(issues).toContain("fetchItems naming warn");
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { runAnalyzer } from "../index.js";
+import { loadAnalyzerPlugins, pluginNodeRules, pluginRouterRules } from "../plugins.js";
+import type { AnalyzerPlugin, RuleContext, TrpcProcedureNode } from "../types.js";
+
+describe("analyzer plugins", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-plugins-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, contents: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), contents);
+  };
+
+  // Reports every procedure whose name starts with "legacy"
+  const legacyRule = [
+    "export default {",
+    '  name: "acme",',
+    "  rules: {",
+    '    "next-trpc": {',
+    "      nodes: [",
+    "        (node) =>",
+    "          node.procedure.startsWith(\"legacy\")",
+    "            ? {",
+    '                severity: "warn",',
+    '                message: "Legacy procedure",',
+    "                file: node.file,",
+    "                line: node.line,",
+    "                router: node.router,",
+    "                procedure: node.procedure,",
+    '                rule: "acme/legacy",',
+    "              }",
+    "            : null,",
+    "      ],",
+    "    },",
+    "  },",
+    "};",
+  ].join("\n");
+
+  describe("loadAnalyzerPlugins", () => {
+    it("loads plugins from paths, packages and inline objects", async () => {
+      write("rules/legacy.mjs", legacyRule);
+      write(
+        "node_modules/watchapi-plugin-acme/package.json",
+        JSON.stringify({ name: "watchapi-plugin-acme", main: "index.mjs" }),
+      );
+      write("node_modules/watchapi-plugin-acme/index.mjs", 'export default { name: "packaged" };');
+      const inline: AnalyzerPlugin = { name: "inline" };
+
+      const plugins = await loadAnalyzerPlugins(
+        ["./rules/legacy.mjs", "watchapi-plugin-acme", inline],
+        dir,
+      );
+
+      expect(plugins.map((plugin) => plugin.name)).toEqual(["acme", "packaged", "inline"]);
+    });
+
+    it("names the plugin that cannot be loaded", async () => {
+      write("empty.mjs", "export const rules = {};");
+      write("typo.mjs", 'export default { name: "typo", rules: { trpc: { nodes: [] } } };');
+      write("broken.mjs", 'export default { name: "broken", rules: { nest: { nodes: ["x"] } } };');
+
+      await expect(loadAnalyzerPlugins(["watchapi-plugin-missing"], dir)).rejects.toThrow(
+        `Cannot find analyzer plugin "watchapi-plugin-missing" from ${dir}`,
+      );
+      await expect(loadAnalyzerPlugins(["./empty.mjs"], dir)).rejects.toThrow(
+        'Analyzer plugin "./empty.mjs" must export an object with a name and rules',
+      );
+      await expect(loadAnalyzerPlugins(["./typo.mjs"], dir)).rejects.toThrow(
+        'Analyzer plugin "typo": unknown target "trpc" (expected next-trpc, next-app-router, nest)',
+      );
+      await expect(loadAnalyzerPlugins(["./broken.mjs"], dir)).rejects.toThrow(
+        'Analyzer plugin "broken": rules["nest"].nodes must be an array of functions',
+      );
+    });
+  });
+
+  it("names the plugin whose rule throws", () => {
+    const plugin: AnalyzerPlugin = {
+      name: "flaky",
+      rules: {
+        "next-trpc": {
+          nodes: [
+            () => {
+              throw new Error("boom");
+            },
+          ],
+          routers: [() => null],
+        },
+      },
+    };
+    const [rule] = pluginNodeRules<TrpcProcedureNode>([plugin], "next-trpc");
+
+    expect(() => rule({} as TrpcProcedureNode, {} as RuleContext)).toThrow(
+      'Analyzer plugin "flaky" failed: boom',
+    );
+    expect(pluginNodeRules([plugin], "nest")).toEqual([]);
+    expect(pluginRouterRules([plugin])).toHaveLength(1);
+  });
+
+  it("runs plugin rules from watchapi.config alongside the built-in ones", async () => {
+    write("tsconfig.json", JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] }));
+    write("rules/legacy.mjs", legacyRule);
+    write(
+      "watchapi.config.json",
+      JSON.stringify({ plugins: ["./rules/legacy.mjs"], rules: { "acme/legacy": "error" } }),
+    );
+    write(
+      "src/server/api/routers/items.ts",
+      [
+        'import { z } from "zod";',
+        'import { createTRPCRouter, publicProcedure } from "../trpc";',
+        "",
+        "export const itemsRouter = createTRPCRouter({",
+        "  legacyItems: publicProcedure.input(z.object({})).query(() => []),",
+        "  // watchapi-disable-next-line acme/legacy",
+        "  legacyOrders: publicProcedure.input(z.object({})).query(() => []),",
+        "});",
+        "",
+      ].join("\n"),
+    );
+
+    const result = await runAnalyzer({ rootDir: dir, target: "next-trpc" });
+
+    expect(result.issues.filter((issue) => issue.rule === "acme/legacy")).toEqual([
+      expect.objectContaining({
+        procedure: "legacyItems",
+        severity: "error",
+        file: "src/server/api/routers/items.ts",
+        line: 5,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+
+import { writeOutput } from "../formats/index.js";
+import {
+  analyzerBaselineSchema,
+  type AnalyzerBaseline,
+  type AnalyzerBaselineEntry,
+  type AnalyzerIssue,
+  type AnalyzerResult,
+  type Severity,
+} from "./types.js";
+import { buildSummary } from "./utils/rules.js";
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warn: 1, error: 2 };
+
+/**
+ * Line-independent identity of an issue: rule, file, router/procedure and the
+ * message with numbers masked, so edits elsewhere in a file or a resolver
+ * growing from 61 to 64 lines do not make an issue "new"
+ */
+export function fingerprintIssue(issue: AnalyzerIssue): string {
+  return createHash("sha1")
+    .update(
+      [
+        issue.rule,
+        issue.file.replace(/\\/g, "/"),
+        issue.router,
+        issue.procedure,
+        normalizeMessage(issue.message),
+      ].join("\0"),
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Read an analyzer baseline, or undefined when the file does not exist yet
+ */
+export function loadAnalyzerBaseline(file: string): AnalyzerBaseline | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read baseline ${file}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const parsed = analyzerBaselineSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid analyzer baseline file ${file}:\n${issues}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Snapshot of every current issue, sorted so baseline diffs stay readable
+ */
+export function buildAnalyzerBaseline(result: AnalyzerResult): AnalyzerBaseline {
+  const issues = result.issues
+    .map(
+      (issue): AnalyzerBaselineEntry => ({
+        fingerprint: fingerprintIssue(issue),
+        rule: issue.rule,
+        severity: issue.severity,
+        file: issue.file,
+        router: issue.router,
+        procedure: issue.procedure,
+        message: issue.message,
+      }),
+    )
+    .sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        a.rule.localeCompare(b.rule) ||
+        a.fingerprint.localeCompare(b.fingerprint),
+    );
+
+  return {
+    version: 1,
+    target: result.target,
+    updatedAt: new Date().toISOString(),
+    issues,
+  };
+}
+
+export function saveAnalyzerBaseline(file: string, baseline: AnalyzerBaseline): string {
+  return writeOutput(JSON.stringify(baseline, null, 2), file);
+}
+
+/**
+ * Keep only issues missing from the baseline and list baseline issues that
+ * are gone; repeated fingerprints are matched one for one
+ */
+export function compareWithAnalyzerBaseline<TResult extends AnalyzerResult>(
+  result: TResult,
+  baseline: AnalyzerBaseline,
+): TResult {
+  const remaining = new Map<string, AnalyzerBaselineEntry[]>();
+  for (const entry of baseline.issues) {
+    const entries = remaining.get(entry.fingerprint) ?? [];
+    entries.push(entry);
+    remaining.set(entry.fingerprint, entries);
+  }
+
+  const newIssues: AnalyzerIssue[] = [];
+  let unchanged = 0;
+  for (const issue of result.issues) {
+    const entries = remaining.get(fingerprintIssue(issue));
+    if (entries?.length) {
+      entries.pop();
+      unchanged += 1;
+    } else {
+      newIssues.push(issue);
+    }
+  }
+
+  return {
+    ...result,
+    issues: newIssues,
+    summary: buildSummary(newIssues),
+    baseline: {
+      updatedAt: baseline.updatedAt,
+      fixed: Array.from(remaining.values()).flat(),
+      unchanged,
+    },
+  };
+}
+
+/**
+ * Whether any reported issue is at or above the `failOn` severity
+ */
+export function shouldFailAnalysis(result: AnalyzerResult, failOn: Severity): boolean {
+  return result.issues.some(
+    (issue) => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[failOn],
+  );
+}
+
+function normalizeMessage(message: string): string {
+  return message.replace(/\d+(\.\d+)?/g, "#").replace(/\s+/g, " ").trim().toLowerCase();
+}
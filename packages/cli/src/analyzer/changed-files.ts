@@ -0,0 +1,38 @@
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+
+/**
+ * Files changed since a git ref: committed changes since the merge base with
+ * HEAD, uncommitted changes and untracked files
+ * @returns Absolute paths (deleted files included, which match nothing)
+ */
+export function getChangedFiles(ref: string, cwd: string): string[] {
+  const git = (...args: string[]) => {
+    try {
+      return execFileSync("git", args, {
+        cwd,
+        encoding: "utf8",
+        maxBuffer: 64 * 1024 * 1024,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} failed: ${stderr || String(error)}`);
+    }
+  };
+
+  const root = git("rev-parse", "--show-toplevel").trim();
+  try {
+    git("rev-parse", "--verify", "--quiet", `${ref}^{commit}`);
+  } catch {
+    throw new Error(`--changed-since: unknown git ref "${ref}"`);
+  }
+  const base = git("merge-base", ref, "HEAD").trim();
+
+  const files = [
+    ...git("diff", "--name-only", base).split("\n"),
+    ...git("ls-files", "--others", "--exclude-standard", "--full-name").split("\n"),
+  ].filter(Boolean);
+
+  return Array.from(new Set(files.map((file) => path.resolve(root, file))));
+}
@@ -0,0 +1,216 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { ts } from "ts-morph";
+
+import type {
+  AnalyzerConfig,
+  RuleConfig,
+  RuleSetting,
+  Severity,
+} from "./types.js";
+
+export const CONFIG_FILES = [
+  "watchapi.config.ts",
+  "watchapi.config.mts",
+  "watchapi.config.js",
+  "watchapi.config.mjs",
+  "watchapi.config.json",
+];
+
+const SEVERITIES: Severity[] = ["info", "warn", "error"];
+
+/**
+ * Default limits of the rules that take thresholds
+ */
+export const RULE_THRESHOLDS: Record<string, Record<string, number>> = {
+  /** tRPC resolver length: info above maxLines, warn above warnLines */
+  "heavy-logic": { maxLines: 60, warnLines: 100 },
+  /** Next.js route handler length */
+  "handler-size": { maxLines: 120, warnLines: 200 },
+  /** Router file length */
+  "router-size": { maxLines: 500 },
+};
+
+/**
+ * Type helper for watchapi.config.ts
+ */
+export function defineConfig(config: AnalyzerConfig): AnalyzerConfig {
+  return config;
+}
+
+/**
+ * Load watchapi.config.* from rootDir, or the file at `configPath`
+ * @returns The validated config and the file it came from (none when absent)
+ */
+export async function loadAnalyzerConfig(
+  rootDir: string,
+  configPath?: string,
+): Promise<{ config: AnalyzerConfig; path?: string }> {
+  const candidates = configPath
+    ? [path.resolve(rootDir, configPath)]
+    : CONFIG_FILES.map((file) => path.join(rootDir, file));
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate);
+    } catch {
+      if (configPath) throw new Error(`Config file not found: ${candidate}`);
+      continue;
+    }
+
+    const displayPath = path.relative(rootDir, candidate) || candidate;
+    const raw = candidate.endsWith(".json")
+      ? parseJsonConfig(await fs.readFile(candidate, "utf8"), displayPath)
+      : await importModule(candidate);
+    const config = validateConfig(raw, displayPath);
+    // Plugin paths are relative to the config file
+    config.plugins = config.plugins?.map((plugin) =>
+      typeof plugin === "string" && /^\.{1,2}[\\/]/.test(plugin)
+        ? path.resolve(path.dirname(candidate), plugin)
+        : plugin,
+    );
+    return { config, path: candidate };
+  }
+
+  return { config: {} };
+}
+
+/**
+ * Normalized setting of a rule
+ */
+export function resolveRuleConfig(
+  config: AnalyzerConfig | undefined,
+  rule: string,
+): { enabled: boolean; severity?: Severity; thresholds: Record<string, number> } {
+  const setting = config?.rules?.[rule];
+  const thresholds = { ...RULE_THRESHOLDS[rule] };
+
+  if (setting === undefined || setting === true) {
+    return { enabled: true, thresholds };
+  }
+  if (setting === false || setting === "off") {
+    return { enabled: false, thresholds };
+  }
+  if (typeof setting === "string") {
+    return { enabled: true, severity: setting, thresholds };
+  }
+  return {
+    enabled: setting.enabled !== false,
+    severity: setting.severity,
+    thresholds: { ...thresholds, ...setting.thresholds },
+  };
+}
+
+/**
+ * Threshold of a rule, from the config or RULE_THRESHOLDS
+ */
+export function ruleThreshold(
+  config: AnalyzerConfig | undefined,
+  rule: string,
+  name: string,
+): number {
+  return resolveRuleConfig(config, rule).thresholds[name];
+}
+
+function parseJsonConfig(contents: string, displayPath: string): unknown {
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${displayPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Import a JS/TS module's default export (or its namespace); TS files are
+ * transpiled next to the original so relative imports keep resolving
+ */
+export async function importModule(file: string): Promise<unknown> {
+  if (!/\.m?ts$/.test(file)) {
+    const module = await import(pathToFileURL(file).href);
+    return module.default ?? module;
+  }
+
+  const source = await fs.readFile(file, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    fileName: file,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  const compiled = path.join(
+    path.dirname(file),
+    `.${path.basename(file).replace(/\.m?ts$/, "")}.${process.pid}.mjs`,
+  );
+  await fs.writeFile(compiled, outputText, "utf8");
+  try {
+    const module = await import(pathToFileURL(compiled).href);
+    return module.default ?? module;
+  } finally {
+    await fs.rm(compiled, { force: true });
+  }
+}
+
+function validateConfig(raw: unknown, displayPath: string): AnalyzerConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${displayPath} must export an object`);
+  }
+
+  const { rules, plugins } = raw as { rules?: unknown; plugins?: unknown };
+  if (
+    plugins !== undefined &&
+    (!Array.isArray(plugins) ||
+      plugins.some((plugin) => typeof plugin !== "string" && typeof plugin !== "object"))
+  ) {
+    throw new Error(
+      `${displayPath}: "plugins" must be an array of module names, paths or plugin objects`,
+    );
+  }
+
+  if (rules === undefined) return raw as AnalyzerConfig;
+  if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+    throw new Error(`${displayPath}: "rules" must be an object keyed by rule id`);
+  }
+
+  for (const [rule, setting] of Object.entries(rules)) {
+    validateRuleSetting(setting, `${displayPath}: rules["${rule}"]`);
+  }
+  return raw as AnalyzerConfig;
+}
+
+function validateRuleSetting(setting: unknown, label: string): asserts setting is RuleSetting {
+  if (typeof setting === "boolean" || setting === "off") return;
+  if (typeof setting === "string") {
+    if (!SEVERITIES.includes(setting as Severity)) {
+      throw new Error(
+        `${label}: expected "off", ${SEVERITIES.map((s) => `"${s}"`).join(", ")} or an object, got "${setting}"`,
+      );
+    }
+    return;
+  }
+  if (!setting || typeof setting !== "object" || Array.isArray(setting)) {
+    throw new Error(`${label}: expected a severity, "off", a boolean or an object`);
+  }
+
+  const { enabled, severity, thresholds } = setting as RuleConfig;
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    throw new Error(`${label}.enabled must be a boolean`);
+  }
+  if (severity !== undefined && !SEVERITIES.includes(severity)) {
+    throw new Error(`${label}.severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  if (thresholds !== undefined) {
+    if (!thresholds || typeof thresholds !== "object") {
+      throw new Error(`${label}.thresholds must be an object`);
+    }
+    for (const [name, value] of Object.entries(thresholds)) {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        throw new Error(`${label}.thresholds.${name} must be a number`);
+      }
+    }
+  }
+}
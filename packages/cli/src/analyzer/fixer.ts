@@ -0,0 +1,215 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { AnalyzerIssue, TextEdit } from "./types.js";
+
+/** Unchanged lines shown around each change */
+const DIFF_CONTEXT = 3;
+
+export interface FixResult {
+  /** Issues whose fix was applied */
+  fixed: AnalyzerIssue[];
+  /** Fixes skipped because they overlap an earlier fix; re-run to apply them */
+  conflicting: AnalyzerIssue[];
+  files: { file: string; before: string; after: string }[];
+  /** Unified diff of every changed file */
+  diff: string;
+}
+
+/**
+ * Apply the fixes offered by issues; files are only written when `write` is set
+ * Identical edits (e.g. the same import added by two fixes) are applied once
+ */
+export function applyFixes(
+  issues: AnalyzerIssue[],
+  rootDir: string,
+  options: { write?: boolean } = {},
+): FixResult {
+  const fixed: AnalyzerIssue[] = [];
+  const conflicting: AnalyzerIssue[] = [];
+  const editsByFile = new Map<string, TextEdit[]>();
+
+  for (const issue of issues) {
+    if (!issue.fix?.edits.length) continue;
+
+    const accepted = issue.fix.edits.every((edit) =>
+      (editsByFile.get(edit.file) ?? []).every(
+        (existing) => isSameEdit(existing, edit) || !overlaps(existing, edit),
+      ),
+    );
+    if (!accepted) {
+      conflicting.push(issue);
+      continue;
+    }
+
+    for (const edit of issue.fix.edits) {
+      const edits = editsByFile.get(edit.file) ?? [];
+      if (!edits.some((existing) => isSameEdit(existing, edit))) {
+        edits.push(edit);
+      }
+      editsByFile.set(edit.file, edits);
+    }
+    fixed.push(issue);
+  }
+
+  const files: FixResult["files"] = [];
+  for (const [file, edits] of editsByFile) {
+    const fullPath = path.resolve(rootDir, file);
+    const before = fs.readFileSync(fullPath, "utf8");
+    // Back to front so earlier offsets stay valid; insertions at the same
+    // offset keep the order of their issues
+    const after = edits
+      .map((edit, order) => ({ ...edit, order }))
+      .sort((a, b) => b.start - a.start || b.end - a.end || b.order - a.order)
+      .reduce(
+        (text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end),
+        before,
+      );
+    if (after === before) continue;
+
+    if (options.write) fs.writeFileSync(fullPath, after, "utf8");
+    files.push({ file, before, after });
+  }
+
+  return {
+    fixed,
+    conflicting,
+    files,
+    diff: files
+      .map(({ file, before, after }) => unifiedDiff(file, before, after))
+      .join(""),
+  };
+}
+
+function isSameEdit(a: TextEdit, b: TextEdit): boolean {
+  return a.start === b.start && a.end === b.end && a.text === b.text;
+}
+
+/**
+ * Replacements that share text, or an insertion inside a replacement
+ */
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  if (a.start === a.end) return b.start < a.start && a.start < b.end;
+  if (b.start === b.end) return a.start < b.start && b.start < a.end;
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Unified diff (`diff -u` style) of two versions of a file
+ */
+export function unifiedDiff(file: string, before: string, after: string): string {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const operations = diffLines(oldLines, newLines);
+
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < operations.length) {
+    // Find the next change and the context around it
+    while (index < operations.length && operations[index].type === " ") index++;
+    if (index === operations.length) break;
+
+    const start = Math.max(0, index - DIFF_CONTEXT);
+    let end = index;
+    let unchangedRun = 0;
+    while (end < operations.length && unchangedRun <= DIFF_CONTEXT * 2) {
+      unchangedRun = operations[end].type === " " ? unchangedRun + 1 : 0;
+      end++;
+    }
+    end = Math.min(operations.length, end - Math.max(0, unchangedRun - DIFF_CONTEXT));
+
+    const slice = operations.slice(start, end);
+    const oldStart = slice[0].oldLine;
+    const newStart = slice[0].newLine;
+    const oldCount = slice.filter((op) => op.type !== "+").length;
+    const newCount = slice.filter((op) => op.type !== "-").length;
+    hunks.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@\n` +
+        slice.map((op) => `${op.type}${op.text}\n`).join(""),
+    );
+    index = end;
+  }
+
+  const name = file.split(path.sep).join("/");
+  return `--- a/${name}\n+++ b/${name}\n${hunks.join("")}`;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+interface DiffOperation {
+  type: " " | "-" | "+";
+  text: string;
+  /** 1-based line in the old file (next line for insertions) */
+  oldLine: number;
+  /** 1-based line in the new file (next line for deletions) */
+  newLine: number;
+}
+
+/**
+ * Line diff: common prefix/suffix are trimmed, the changed middle is matched
+ * with a longest-common-subsequence table
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const columns = newMiddle.length + 1;
+  const lcs = new Uint32Array((oldMiddle.length + 1) * columns);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lcs[i * columns + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * columns + j + 1] + 1
+          : Math.max(lcs[(i + 1) * columns + j], lcs[i * columns + j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (type: DiffOperation["type"], text: string) => {
+    operations.push({ type, text, oldLine, newLine });
+    if (type !== "+") oldLine++;
+    if (type !== "-") newLine++;
+  };
+
+  for (let k = 0; k < prefix; k++) push(" ", oldLines[k]);
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      push(" ", oldMiddle[i++]);
+      j++;
+    } else if (
+      i < oldMiddle.length &&
+      (j === newMiddle.length || lcs[(i + 1) * columns + j] >= lcs[i * columns + j + 1])
+    ) {
+      push("-", oldMiddle[i++]);
+    } else {
+      push("+", newMiddle[j++]);
+    }
+  }
+  for (let k = oldLines.length - suffix; k < oldLines.length; k++) push(" ", oldLines[k]);
+
+  return operations;
+}
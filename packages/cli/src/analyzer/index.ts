@@ -1,5 +1,7 @@
 import path from "node:path";
 
+import { loadAnalyzerConfig } from "./config.js";
+import { loadAnalyzerPlugins } from "./plugins.js";
 import { analyzeOpenApi } from "./open-api/analyzer.js";
 import { analyzeNextAppRouter } from "./next-app/analyzer.js";
 import { analyzeTrpc } from "./trpc/analyzer.js";
@@ -16,23 +18,41 @@ export async function runAnalyzer(
   options: AnalyzerOptions,
 ): Promise<AnalyzerResult> {
   const rootDir = path.resolve(options.rootDir ?? process.cwd());
+  const config = options.config ?? (await loadAnalyzerConfig(rootDir)).config;
+  const plugins =
+    options.plugins ?? (await loadAnalyzerPlugins(config.plugins ?? [], rootDir));
 
   if (options.target === "next-trpc") {
-    return analyzeTrpc({ ...options, rootDir });
+    return analyzeTrpc({ ...options, rootDir, config, plugins });
   }
 
   if (options.target === "next-app-router") {
-    return analyzeNextAppRouter({ ...options, rootDir });
+    return analyzeNextAppRouter({ ...options, rootDir, config, plugins });
   }
 
   if (options.target === "nest") {
-    return analyzeOpenApi({ ...options, rootDir });
+    return analyzeOpenApi({ ...options, rootDir, config, plugins });
   }
 
   throw new Error(`Unsupported target: ${options.target}`);
 }
 
 export { printReport };
+export {
+  CONFIG_FILES,
+  RULE_THRESHOLDS,
+  defineConfig,
+  loadAnalyzerConfig,
+} from "./config.js";
+export { definePlugin, loadAnalyzerPlugins } from "./plugins.js";
+export { applyFixes, unifiedDiff, type FixResult } from "./fixer.js";
+export {
+  buildAnalyzerBaseline,
+  compareWithAnalyzerBaseline,
+  fingerprintIssue,
+  loadAnalyzerBaseline,
+  saveAnalyzerBaseline,
+} from "./baseline.js";
 export * from "./types.js";
 
 type FrameworkAnalyzerOptions = Omit<
@@ -11,8 +11,11 @@ import {
   VariableDeclaration,
 } from "ts-morph";
 
-import { buildSummary } from "../utils/rules.js";
+import { ruleThreshold } from "../config.js";
+import { pluginNodeRules } from "../plugins.js";
+import { applyRules, buildSummary, configureIssues } from "../utils/rules.js";
 import type {
+  AnalyzerConfig,
   AnalyzerIssue,
   AnalyzerOptions,
   AnalyzerResult,
@@ -48,9 +51,11 @@ export async function analyzeNextAppRouter(
     project.addSourceFilesAtPaths(path.resolve(rootDir, pattern));
   }
 
+  const changedFiles = options.changedFiles && new Set(options.changedFiles);
   const sourceFiles = project
     .getSourceFiles()
-    .filter((file) => file.getFilePath().startsWith(rootDir));
+    .filter((file) => file.getFilePath().startsWith(rootDir))
+    .filter((file) => !changedFiles || changedFiles.has(file.getFilePath()));
 
   debug(`Found ${sourceFiles.length} route file(s) under root ${rootDir}`);
 
@@ -74,16 +79,29 @@ export async function analyzeNextAppRouter(
       file,
       routePath,
       rootDir,
+      options.config,
       debug,
     );
     nodes.push(...handlers);
     issues.push(...handlerIssues);
   }
 
+  const ctx = { rootDir, project, routerMeta: [], config: options.config ?? {} };
+  const configuredIssues = [
+    ...configureIssues(issues, ctx),
+    ...applyRules(
+      nodes,
+      [],
+      ctx,
+      pluginNodeRules<NextRouteNode>(options.plugins, "next-app-router"),
+      [],
+    ),
+  ];
+
   return {
     target: "next-app-router",
-    issues,
-    summary: buildSummary(issues),
+    issues: configuredIssues,
+    summary: buildSummary(configuredIssues),
     nodes,
   };
 }
@@ -92,6 +110,7 @@ function extractHandlersFromFile(
   sourceFile: SourceFile,
   routePath: string,
   rootDir: string,
+  config: AnalyzerConfig | undefined,
   debug: DebugLogger,
 ) {
   const handlers: NextRouteNode[] = [];
@@ -127,7 +146,7 @@ function extractHandlersFromFile(
       };
 
       handlers.push(node);
-      issues.push(...buildNextIssues(node));
+      issues.push(...buildNextIssues(node, config));
       debug(
         `Captured ${method} handler '${name}' at line ${node.line} (${node.handlerLines} line(s))`,
       );
@@ -286,7 +305,10 @@ function getLine(declaration: Node) {
     .line;
 }
 
-function buildNextIssues(node: NextRouteNode): AnalyzerIssue[] {
+function buildNextIssues(
+  node: NextRouteNode,
+  config: AnalyzerConfig | undefined,
+): AnalyzerIssue[] {
   if (!node.analyzed) return [];
 
   const issues: AnalyzerIssue[] = [];
@@ -317,8 +339,11 @@ function buildNextIssues(node: NextRouteNode): AnalyzerIssue[] {
     });
   }
 
-  if (node.handlerLines > 120) {
-    const severity = node.handlerLines > 200 ? "warn" : "info";
+  if (node.handlerLines > ruleThreshold(config, "handler-size", "maxLines")) {
+    const severity =
+      node.handlerLines > ruleThreshold(config, "handler-size", "warnLines")
+        ? "warn"
+        : "info";
     issues.push({
       severity,
       message: `Handler is ${node.handlerLines} lines. Consider extracting business logic into a service module.`,
@@ -0,0 +1,133 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { AnalyzerPlugin, OpenApiOperationNode } from "../../types.js";
+import { analyzeOpenApi } from "../analyzer.js";
+
+describe("analyzeOpenApi", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-nest-"));
+    write(
+      "openapi.json",
+      JSON.stringify({
+        openapi: "3.0.3",
+        info: { title: "Test", version: "1" },
+        paths: {
+          "/users/{id}": { get: { operationId: "getUser", responses: {} } },
+          "/orders": { post: { operationId: "createOrder", responses: {} } },
+        },
+      }),
+    );
+    write(
+      "src/users/users.controller.ts",
+      [
+        'import { Controller, Get } from "@nestjs/common";',
+        "",
+        '@Controller("users")',
+        "export class UsersController {",
+        '  @Get(":id")',
+        "  getUser() {}",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, contents: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), contents);
+    return path.join(dir, file);
+  };
+
+  it("gives plugin rules the controller sources", async () => {
+    const controllers: string[][] = [];
+    const plugin: AnalyzerPlugin = {
+      name: "controllers",
+      rules: {
+        nest: {
+          nodes: [
+            (_node, ctx) => {
+              controllers.push(
+                ctx.project
+                  .getSourceFiles()
+                  .flatMap((file) => file.getClasses())
+                  .map((cls) => cls.getName() ?? ""),
+              );
+              return null;
+            },
+          ],
+        },
+      },
+    };
+
+    await analyzeOpenApi({ rootDir: dir, target: "nest", plugins: [plugin] });
+
+    expect(controllers).toEqual([["UsersController"], ["UsersController"]]);
+  });
+
+  describe("with changedFiles", () => {
+    const analyzeChanged = async (...files: string[]) => {
+      const result = await analyzeOpenApi({
+        rootDir: dir,
+        target: "nest",
+        changedFiles: files.map((file) => path.join(dir, file)),
+      });
+      return (result.nodes as OpenApiOperationNode[]).map((node) => node.operationId);
+    };
+
+    it("analyzes the routes of changed controllers", async () => {
+      expect(await analyzeChanged("src/users/users.controller.ts")).toEqual(["getUser"]);
+    });
+
+    it("matches routes behind a global prefix", async () => {
+      write(
+        "openapi.json",
+        JSON.stringify({
+          openapi: "3.0.3",
+          info: { title: "Test", version: "1" },
+          paths: {
+            "/api/users/{userId}": { get: { operationId: "getUser", responses: {} } },
+            "/api/users": { get: { operationId: "listUsers", responses: {} } },
+          },
+        }),
+      );
+
+      expect(await analyzeChanged("src/users/users.controller.ts")).toEqual(["getUser"]);
+    });
+
+    it("ignores unrelated changes", async () => {
+      write("src/main.ts", "export {};");
+
+      expect(await analyzeChanged("src/main.ts")).toEqual([]);
+    });
+
+    it("analyzes every operation when a route is not a literal", async () => {
+      write(
+        "src/orders/orders.controller.ts",
+        [
+          'import { Controller, Post } from "@nestjs/common";',
+          'import { ORDERS } from "./routes";',
+          "",
+          "@Controller(ORDERS)",
+          "export class OrdersController {",
+          "  @Post()",
+          "  createOrder() {}",
+          "}",
+        ].join("\n"),
+      );
+
+      expect(await analyzeChanged("src/orders/orders.controller.ts")).toEqual([
+        "getUser",
+        "createOrder",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { loadOpenApiSpec } from "../loader.js";
+
+describe("loadOpenApiSpec", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-loader-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, contents: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), JSON.stringify(contents, null, 2));
+    return path.join(dir, file);
+  };
+
+  it("resolves $refs into other files and keeps their source", async () => {
+    write("schemas.json", {
+      User: {
+        type: "object",
+        properties: { manager: { $ref: "#/User" } },
+      },
+    });
+    write("paths/users.json", {
+      get: {
+        operationId: "listUsers",
+        responses: {
+          200: {
+            description: "ok",
+            content: {
+              "application/json": { schema: { $ref: "../schemas.json#/User" } },
+            },
+          },
+        },
+      },
+    });
+    const root = write("openapi.json", {
+      openapi: "3.1.0",
+      info: { title: "Test", version: "1" },
+      paths: { "/users": { $ref: "./paths/users.json" } },
+    });
+
+    const spec = await loadOpenApiSpec(root, { rootDir: dir });
+
+    expect(spec.doc.paths).toMatchObject({
+      "/users": {
+        get: {
+          operationId: "listUsers",
+          responses: {
+            200: {
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    // Circular references stay as $ref, made absolute
+                    properties: {
+                      manager: { $ref: `${path.join(dir, "schemas.json")}#/User` },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    const { get } = (spec.doc.paths as Record<string, Record<string, unknown>>)["/users"];
+    expect(spec.sourceOf(get).displayPath).toBe(path.join("paths", "users.json"));
+  });
+
+  it("upconverts Swagger 2.0", async () => {
+    const root = write("swagger.json", {
+      swagger: "2.0",
+      info: { title: "Test", version: "1" },
+      host: "api.example.com",
+      basePath: "/v1",
+      parameters: {
+        Limit: { name: "limit", in: "query", type: "integer", minimum: 1 },
+      },
+      paths: {
+        "/pets": {
+          get: {
+            operationId: "listPets",
+            parameters: [{ $ref: "#/parameters/Limit" }],
+            responses: {
+              200: { description: "ok", schema: { $ref: "#/definitions/Pet" } },
+            },
+          },
+          post: {
+            consumes: ["multipart/form-data"],
+            parameters: [{ name: "photo", in: "formData", type: "file", required: true }],
+            responses: { 201: { description: "created" } },
+          },
+        },
+      },
+      definitions: { Pet: { type: "object" } },
+    });
+
+    const spec = await loadOpenApiSpec(root, { rootDir: dir });
+
+    expect(spec.sourceVersion).toBe("2.0");
+    expect(spec.doc).toMatchObject({
+      openapi: "3.0.3",
+      servers: [{ url: "https://api.example.com/v1" }],
+      paths: {
+        "/pets": {
+          get: {
+            parameters: [
+              { name: "limit", in: "query", schema: { type: "integer", minimum: 1 } },
+            ],
+            responses: {
+              200: { content: { "application/json": { schema: { type: "object" } } } },
+            },
+          },
+          post: {
+            requestBody: {
+              content: {
+                "multipart/form-data": {
+                  schema: {
+                    type: "object",
+                    properties: { photo: { type: "string", format: "binary" } },
+                    required: ["photo"],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("rejects unsupported versions", async () => {
+    const root = write("openapi.json", { openapi: "4.0.0", paths: {} });
+
+    await expect(loadOpenApiSpec(root)).rejects.toThrow(
+      "Unsupported OpenAPI version: 4.0.0",
+    );
+  });
+});
@@ -1,16 +1,25 @@
+import { existsSync } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
 
 import axios from "axios";
-import YAML from "yaml";
 
-import { buildSummary } from "../utils/rules.js";
+import { Project } from "ts-morph";
+
+import { pluginNodeRules } from "../plugins.js";
+import { applyRules, buildSummary, configureIssues } from "../utils/rules.js";
 import type {
   AnalyzerIssue,
   AnalyzerOptions,
   AnalyzerResult,
   OpenApiOperationNode,
 } from "../types.js";
+import { changedControllerRoutes, matchesControllerRoute } from "./controllers.js";
+import {
+  isHttpUrl,
+  loadOpenApiSpec,
+  type LoadedOpenApiSpec,
+} from "./loader.js";
 
 const DEFAULT_OPENAPI_FILES = [
   "api-json",
@@ -41,24 +50,43 @@ export async function analyzeOpenApi(
     ? options.include
     : DEFAULT_OPENAPI_FILES;
 
-  const spec = await loadSpec(candidates, rootDir);
-  const doc = parseSpec(spec.contents, spec.displayPath);
-
-  const openapiVersion =
-    typeof doc.openapi === "string" ? doc.openapi : undefined;
-  if (!openapiVersion?.startsWith("3.")) {
-    throw new Error(
-      `Unsupported OpenAPI version: ${
-        openapiVersion ?? "unknown"
-      }. Please provide a 3.x specification.`,
-    );
-  }
-
-  const { operations, issues } = extractOperations(
-    doc,
-    spec.contents,
-    spec.displayPath,
+  const source = await loadSpec(candidates, rootDir);
+  // Resolves $refs and upconverts Swagger 2.0; rejects other versions
+  const spec = await loadOpenApiSpec(source.location, {
+    rootDir,
+    contents: source.contents,
+  });
+
+  const extracted = extractOperations(spec);
+  // Only operations defined in changed spec files (including $ref'd ones) or
+  // served by changed controllers; every operation when a controller route
+  // is not a literal
+  const changedFiles = options.changedFiles && new Set(options.changedFiles);
+  const changedRoutes =
+    options.changedFiles && changedControllerRoutes(options.changedFiles);
+  const isChanged = (file: string, routePath: string, method: string) =>
+    !changedFiles ||
+    !changedRoutes ||
+    changedFiles.has(path.resolve(rootDir, file)) ||
+    matchesControllerRoute(changedRoutes, routePath, method);
+  const operations = extracted.operations.filter((operation) =>
+    isChanged(operation.file, operation.path, operation.method),
   );
+  const rawIssues = extracted.issues.filter((issue) =>
+    isChanged(issue.file, issue.router, issue.procedure),
+  );
+  const issues = configureIssues(rawIssues, { rootDir, config: options.config });
+
+  const pluginRules = pluginNodeRules<OpenApiOperationNode>(options.plugins, "nest");
+  if (pluginRules.length > 0) {
+    const ctx = {
+      rootDir,
+      project: loadControllerProject(rootDir, options.tsconfigPath),
+      routerMeta: [],
+      config: options.config ?? {},
+    };
+    issues.push(...applyRules(operations, [], ctx, pluginRules, []));
+  }
 
   return {
     target: "nest",
@@ -68,29 +96,24 @@ export async function analyzeOpenApi(
   };
 }
 
-function parseSpec(contents: string, specPath: string) {
-  try {
-    return JSON.parse(contents);
-  } catch (jsonError) {
-    try {
-      return YAML.parse(contents);
-    } catch (yamlError) {
-      const message =
-        yamlError instanceof Error
-          ? yamlError.message
-          : "Unknown YAML parse error";
-      throw new Error(
-        `Failed to parse OpenAPI schema at ${specPath}: ${message}`,
-      );
-    }
-  }
+/**
+ * Nest sources for plugin rules: the tsconfig's files (when there is one)
+ * plus every *.controller.ts under rootDir
+ */
+function loadControllerProject(rootDir: string, tsconfigPath?: string): Project {
+  const tsconfig = path.resolve(rootDir, tsconfigPath ?? "tsconfig.json");
+  const project = existsSync(tsconfig)
+    ? new Project({ tsConfigFilePath: tsconfig, skipAddingFilesFromTsConfig: false })
+    : new Project();
+  project.addSourceFilesAtPaths([
+    path.join(rootDir, "**/*.controller.ts"),
+    `!${path.join(rootDir, "**/node_modules/**")}`,
+  ]);
+  return project;
 }
 
-function extractOperations(
-  doc: any,
-  rawFile: string,
-  displayPath: string,
-) {
+function extractOperations(spec: LoadedOpenApiSpec) {
+  const { doc } = spec;
   const operations: OpenApiOperationNode[] = [];
   const issues: AnalyzerIssue[] = [];
 
@@ -104,7 +127,9 @@ function extractOperations(
     for (const [method, operation] of Object.entries<any>(value)) {
       if (!HTTP_METHODS.has(method.toLowerCase())) continue;
 
-      const line = findLineNumber(rawFile, routePath, method);
+      // Path items and operations may come from $ref'd files
+      const { contents, displayPath } = spec.sourceOf(operation ?? value);
+      const line = findLineNumber(contents, routePath, method);
       const operationId =
         typeof operation?.operationId === "string" &&
         operation.operationId.trim()
@@ -164,15 +189,6 @@ function findLineNumber(rawFile: string, routePath: string, method: string) {
   return rawFile.slice(0, index).split(/\r?\n/).length;
 }
 
-function isHttpUrl(candidate: string) {
-  try {
-    const url = new URL(candidate);
-    return url.protocol === "http:" || url.protocol === "https:";
-  } catch (error) {
-    return false;
-  }
-}
-
 async function loadSpec(candidates: string[], rootDir: string) {
   const failureReasons: string[] = [];
 
@@ -182,7 +198,7 @@ async function loadSpec(candidates: string[], rootDir: string) {
         const response = await axios.get<string>(candidate, {
           responseType: "text",
         });
-        return { contents: response.data, displayPath: candidate };
+        return { contents: response.data, location: candidate };
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "Unknown fetch error";
@@ -202,7 +218,7 @@ async function loadSpec(candidates: string[], rootDir: string) {
       }
 
       const contents = await fs.readFile(fullPath, "utf8");
-      return { contents, displayPath: path.relative(rootDir, fullPath) };
+      return { contents, location: fullPath };
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === "ENOENT") {
         failureReasons.push(`${path.relative(rootDir, fullPath)} (not found)`);
@@ -223,5 +239,7 @@ async function loadSpec(candidates: string[], rootDir: string) {
   const failureSuffix =
     failureReasons.length > 0 ? ` Errors: ${failureReasons.join("; ")}` : "";
 
-  throw new Error(`OpenAPI schema not found. Checked: ${checked}.${failureSuffix}`);
+  throw new Error(
+    `OpenAPI schema not found. Checked: ${checked}.${failureSuffix}`,
+  );
 }
@@ -0,0 +1,118 @@
+import { existsSync } from "node:fs";
+
+import { Node, Project, type Decorator } from "ts-morph";
+
+const ROUTE_DECORATORS: Record<string, string> = {
+  Get: "GET",
+  Post: "POST",
+  Put: "PUT",
+  Delete: "DELETE",
+  Patch: "PATCH",
+  Options: "OPTIONS",
+  Head: "HEAD",
+  All: "ALL",
+};
+
+export interface ControllerRoute {
+  /** Upper-case HTTP method, or ALL */
+  method: string;
+  /** Matches spec paths ending in the route, so global prefixes still match */
+  pattern: RegExp;
+}
+
+/**
+ * Routes served by Nest controllers in the given files
+ * @returns undefined when a route path is not a literal and the changed
+ * routes cannot be told apart (callers then analyze every operation)
+ */
+export function changedControllerRoutes(
+  files: string[],
+): ControllerRoute[] | undefined {
+  const project = new Project({ skipAddingFilesFromTsConfig: true });
+  for (const file of files) {
+    if (/\.[cm]?tsx?$/.test(file) && !file.endsWith(".d.ts") && existsSync(file)) {
+      project.addSourceFileAtPath(file);
+    }
+  }
+
+  const routes: ControllerRoute[] = [];
+  for (const cls of project.getSourceFiles().flatMap((file) => file.getClasses())) {
+    const controller = cls.getDecorator("Controller");
+    if (!controller) continue;
+    const prefixes = decoratorPaths(controller);
+    if (!prefixes) return undefined;
+
+    for (const method of cls.getMethods()) {
+      for (const decorator of method.getDecorators()) {
+        const httpMethod = ROUTE_DECORATORS[decorator.getName()];
+        if (!httpMethod) continue;
+        const paths = decoratorPaths(decorator);
+        if (!paths) return undefined;
+
+        for (const prefix of prefixes) {
+          for (const routePath of paths) {
+            routes.push({ method: httpMethod, pattern: routePattern(prefix, routePath) });
+          }
+        }
+      }
+    }
+  }
+  return routes;
+}
+
+export function matchesControllerRoute(
+  routes: ControllerRoute[],
+  routePath: string,
+  method: string,
+) {
+  return routes.some(
+    (route) =>
+      (route.method === "ALL" || route.method === method.toUpperCase()) &&
+      route.pattern.test(routePath),
+  );
+}
+
+/**
+ * Paths of @Controller("users"), @Get(["a", "b"]) or @Controller({ path })
+ */
+function decoratorPaths(decorator: Decorator): string[] | undefined {
+  const [arg] = decorator.getArguments();
+  if (!arg) return [""];
+  if (Node.isObjectLiteralExpression(arg)) {
+    const property = arg.getProperty("path");
+    if (!property) return [""];
+    return Node.isPropertyAssignment(property)
+      ? literalPaths(property.getInitializer())
+      : undefined;
+  }
+  return literalPaths(arg);
+}
+
+function literalPaths(node: Node | undefined): string[] | undefined {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+    return [node.getLiteralValue()];
+  }
+  if (Node.isArrayLiteralExpression(node)) {
+    const paths = node.getElements().map(literalPaths);
+    return paths.every((path) => path !== undefined) ? paths.flat() : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * `users` + `:id` matches `/users/{id}` and `/api/v1/users/{id}`
+ */
+function routePattern(prefix: string, routePath: string): RegExp {
+  const segments = `${prefix}/${routePath}`
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith(":")
+        ? "\\{[^/]+\\}"
+        : segment
+            .split("*")
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+            .join("[^/]*"),
+    );
+  return new RegExp(`(?:^|/)${segments.join("/")}/?$`);
+}
@@ -0,0 +1,679 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import axios from "axios";
+import YAML from "yaml";
+
+/** Object (or array) node of a parsed spec document */
+export type SpecNode = Record<string, unknown>;
+
+/**
+ * A file or URL a spec (or part of it) was read from
+ */
+export interface SpecSource {
+  /** Absolute file path or URL */
+  location: string;
+  /** Path shown in reports (relative to the root dir for files) */
+  displayPath: string;
+  contents: string;
+}
+
+export interface LoadedOpenApiSpec {
+  /** OpenAPI 3.x document with $refs resolved (circular references stay as $ref) */
+  doc: SpecNode;
+  /** Version of the source document ("2.0" for upconverted Swagger) */
+  sourceVersion: string;
+  root: SpecSource;
+  /** Source file an object of `doc` was defined in, for line numbers */
+  sourceOf(value: unknown): SpecSource;
+}
+
+export interface SpecLoaderOptions {
+  /** Base for relative display paths (default: cwd) */
+  rootDir?: string;
+  /** Contents of the root document when already read */
+  contents?: string;
+  /** Read the root document and referenced files (default: readSpecLocation) */
+  read?: (location: string) => Promise<string>;
+}
+
+/** Swagger 2.0 root sections and their OpenAPI 3 component names */
+const SWAGGER_COMPONENTS: Record<string, string> = {
+  definitions: "schemas",
+  parameters: "parameters",
+  responses: "responses",
+  securityDefinitions: "securitySchemes",
+};
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+/** Swagger 2.0 OAuth2 flows and their OpenAPI 3 names */
+const SWAGGER_OAUTH_FLOWS: Record<string, string> = {
+  implicit: "implicit",
+  password: "password",
+  application: "clientCredentials",
+  accessCode: "authorizationCode",
+};
+
+/** Swagger 2.0 parameter fields that move into `schema` */
+const SCHEMA_FIELDS = [
+  "type",
+  "format",
+  "items",
+  "enum",
+  "default",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "multipleOf",
+];
+
+/**
+ * Parse JSON or YAML spec contents
+ */
+export function parseSpec(contents: string, specPath: string): unknown {
+  try {
+    return JSON.parse(contents);
+  } catch (jsonError) {
+    try {
+      return YAML.parse(contents);
+    } catch (yamlError) {
+      const message =
+        yamlError instanceof Error
+          ? yamlError.message
+          : "Unknown YAML parse error";
+      throw new Error(
+        `Failed to parse OpenAPI schema at ${specPath}: ${message}`,
+      );
+    }
+  }
+}
+
+export function isHttpUrl(candidate: string) {
+  try {
+    const url = new URL(candidate);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Load an OpenAPI 3.x or Swagger 2.0 document, resolve local, relative-file
+ * and remote $refs, and upconvert Swagger 2.0 to OpenAPI 3.0
+ * @param location - Absolute file path or URL of the root document
+ */
+export async function loadOpenApiSpec(
+  location: string,
+  options: SpecLoaderOptions = {},
+): Promise<LoadedOpenApiSpec> {
+  const loader = new SpecLoader(location, options);
+  const root = await loader.load(location, options.contents);
+
+  let doc = isSpecNode(root.doc) ? root.doc : {};
+  const sourceVersion =
+    typeof doc.openapi === "string"
+      ? doc.openapi
+      : typeof doc.swagger === "string"
+        ? doc.swagger
+        : "unknown";
+
+  if (sourceVersion === "2.0") {
+    doc = upconvertSwagger(doc, (converted, original) =>
+      loader.recordSource(converted, loader.sourceOf(original) ?? root.source),
+    );
+    // Local $refs resolve against the converted document
+    root.doc = doc;
+  } else if (!sourceVersion.startsWith("3.")) {
+    throw new Error(
+      `Unsupported OpenAPI version: ${sourceVersion}. Please provide a 3.x or Swagger 2.0 specification.`,
+    );
+  }
+
+  // $refs are replaced in place
+  await loader.dereference(doc, root, "", new Set());
+
+  return {
+    doc,
+    sourceVersion,
+    root: root.source,
+    sourceOf: (value) => loader.sourceOf(value) ?? root.source,
+  };
+}
+
+interface LoadedDocument {
+  source: SpecSource;
+  doc: unknown;
+}
+
+class SpecLoader {
+  private documents = new Map<string, Promise<LoadedDocument>>();
+  private sources = new WeakMap<object, SpecSource>();
+  private resolved = new Map<string, unknown>();
+  private inProgress = new WeakSet<object>();
+  private done = new WeakSet<object>();
+  private rootDir: string;
+  private read: (location: string) => Promise<string>;
+
+  constructor(
+    private rootLocation: string,
+    options: SpecLoaderOptions,
+  ) {
+    this.rootDir = options.rootDir ?? process.cwd();
+    this.read = options.read ?? readSpecLocation;
+  }
+
+  /**
+   * Read and parse a document once, recording every object's source
+   */
+  load(location: string, contents?: string): Promise<LoadedDocument> {
+    let document = this.documents.get(location);
+    if (!document) {
+      document = (async () => {
+        const text = contents ?? (await this.read(location));
+        const source: SpecSource = {
+          location,
+          displayPath: isHttpUrl(location)
+            ? location
+            : path.relative(this.rootDir, location) || path.basename(location),
+          contents: text,
+        };
+        const doc = parseSpec(text, source.displayPath);
+        this.recordSource(doc, source);
+        return { source, doc };
+      })();
+      this.documents.set(location, document);
+    }
+    return document;
+  }
+
+  sourceOf(value: unknown): SpecSource | undefined {
+    return value && typeof value === "object"
+      ? this.sources.get(value)
+      : undefined;
+  }
+
+  /**
+   * Record the source of an object and everything it contains (first source wins)
+   */
+  recordSource(value: unknown, source: SpecSource): void {
+    if (!value || typeof value !== "object" || this.sources.has(value)) return;
+    this.sources.set(value, source);
+    for (const child of Object.values(value)) {
+      this.recordSource(child, source);
+    }
+  }
+
+  /**
+   * Replace $refs in place; `ancestors` holds the "<location>#<pointer>" keys
+   * of the objects being resolved, so circular references stay as $ref
+   */
+  async dereference(
+    value: unknown,
+    document: LoadedDocument,
+    pointer: string,
+    ancestors: Set<string>,
+  ): Promise<unknown> {
+    if (!isSpecNode(value)) return value;
+
+    if (typeof value.$ref === "string") {
+      return this.resolveRef(value, value.$ref, document, ancestors);
+    }
+    if (this.done.has(value) || this.inProgress.has(value)) return value;
+
+    const key = `${document.source.location}#${pointer}`;
+    this.inProgress.add(value);
+    ancestors.add(key);
+    for (const [name, child] of Object.entries(value)) {
+      value[name] = await this.dereference(
+        child,
+        document,
+        `${pointer}/${escapePointer(name)}`,
+        ancestors,
+      );
+    }
+    ancestors.delete(key);
+    this.inProgress.delete(value);
+    this.done.add(value);
+    return value;
+  }
+
+  private async resolveRef(
+    reference: SpecNode,
+    ref: string,
+    document: LoadedDocument,
+    ancestors: Set<string>,
+  ): Promise<unknown> {
+    const hashIndex = ref.indexOf("#");
+    const target = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const fragment =
+      hashIndex === -1 ? "" : decodeURIComponent(ref.slice(hashIndex + 1));
+
+    const targetDocument = target
+      ? await this.load(
+          resolveLocation(target, document.source.location),
+        ).catch((error: unknown) => {
+          throw new Error(
+            `Unresolvable $ref "${ref}" in ${document.source.displayPath}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        })
+      : document;
+
+    const found =
+      fragment.startsWith("/") || fragment === ""
+        ? { pointer: fragment, value: getPointer(targetDocument.doc, fragment) }
+        : findAnchor(targetDocument.doc, fragment);
+    if (!found || found.value === undefined) {
+      throw new Error(
+        `Unresolvable $ref "${ref}" in ${document.source.displayPath}`,
+      );
+    }
+
+    const key = `${targetDocument.source.location}#${found.pointer}`;
+    if (
+      ancestors.has(key) ||
+      (isSpecNode(found.value) && this.inProgress.has(found.value))
+    ) {
+      // Circular: keep the reference; the result is one document, so only
+      // references into the root document stay local
+      const local = targetDocument.source.location === this.rootLocation;
+      return local && targetDocument === document
+        ? reference
+        : {
+            ...reference,
+            $ref: `${local ? "" : targetDocument.source.location}#${found.pointer}`,
+          };
+    }
+
+    let resolved = this.resolved.get(key);
+    if (resolved === undefined) {
+      ancestors.add(key);
+      resolved = await this.dereference(
+        found.value,
+        targetDocument,
+        found.pointer,
+        ancestors,
+      );
+      ancestors.delete(key);
+      this.resolved.set(key, resolved);
+    }
+
+    // OpenAPI 3.1 allows keywords (summary, description) next to $ref
+    const siblings = Object.entries(reference).filter(
+      ([name]) => name !== "$ref",
+    );
+    if (
+      siblings.length === 0 ||
+      !isSpecNode(resolved) ||
+      Array.isArray(resolved)
+    ) {
+      return resolved;
+    }
+    const merged: SpecNode = { ...resolved };
+    for (const [name, sibling] of siblings) {
+      merged[name] = await this.dereference(sibling, document, "", ancestors);
+    }
+    this.recordSource(merged, this.sourceOf(resolved) ?? targetDocument.source);
+    return merged;
+  }
+}
+
+/**
+ * Read a spec from the file system or over http(s)
+ */
+export async function readSpecLocation(location: string): Promise<string> {
+  if (isHttpUrl(location)) {
+    const response = await axios.get<string>(location, {
+      responseType: "text",
+    });
+    return response.data;
+  }
+  return fs.readFile(location, "utf8");
+}
+
+function resolveLocation(target: string, base: string): string {
+  if (isHttpUrl(target)) return target;
+  if (isHttpUrl(base)) return new URL(target, base).toString();
+  return path.resolve(path.dirname(base), target);
+}
+
+function getPointer(doc: unknown, pointer: string): unknown {
+  let value = doc;
+  for (const segment of pointer.split("/").slice(1)) {
+    if (!isSpecNode(value)) return undefined;
+    value = value[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return value;
+}
+
+/**
+ * Find a JSON Schema plain-name fragment ($anchor, or a "#name" $id)
+ */
+function findAnchor(
+  value: unknown,
+  anchor: string,
+  pointer = "",
+): { pointer: string; value: unknown } | undefined {
+  if (!isSpecNode(value)) return undefined;
+  if (value.$anchor === anchor || value.$id === `#${anchor}`) {
+    return { pointer, value };
+  }
+  for (const [name, child] of Object.entries(value)) {
+    const found = findAnchor(
+      child,
+      anchor,
+      `${pointer}/${escapePointer(name)}`,
+    );
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+export function isSpecNode(value: unknown): value is SpecNode {
+  return typeof value === "object" && value !== null;
+}
+
+/** Object items of an array (none when the value is not an array) */
+function nodeArray(value: unknown): SpecNode[] {
+  return Array.isArray(value) ? value.filter(isSpecNode) : [];
+}
+
+/** Entries of an object whose values are objects */
+export function nodeEntries(value: unknown): [string, SpecNode][] {
+  return isSpecNode(value)
+    ? Object.entries(value).filter((entry): entry is [string, SpecNode] =>
+        isSpecNode(entry[1]),
+      )
+    : [];
+}
+
+export function stringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : undefined;
+}
+
+/**
+ * Convert a Swagger 2.0 document to OpenAPI 3.0
+ * `record` attributes converted objects to the source of the object they replace
+ */
+function upconvertSwagger(
+  swagger: SpecNode,
+  record: (converted: object, original: object) => void,
+): SpecNode {
+  const consumes = stringArray(swagger.consumes) ?? ["application/json"];
+  const produces = stringArray(swagger.produces) ?? ["application/json"];
+  const globalParameters = isSpecNode(swagger.parameters) ? swagger.parameters : {};
+
+  const rewriteRefs = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(rewriteRefs);
+    if (!isSpecNode(value)) return value;
+    const converted: SpecNode = {};
+    for (const [name, child] of Object.entries(value)) {
+      converted[name] =
+        name === "$ref" && typeof child === "string"
+          ? child.replace(
+              /^#\/(definitions|parameters|responses)\//,
+              (_, section: string) =>
+                `#/components/${SWAGGER_COMPONENTS[section]}/`,
+            )
+          : rewriteRefs(child);
+    }
+    record(converted, value);
+    return converted;
+  };
+
+  const convertParameter = (parameter: SpecNode) => {
+    const schema: SpecNode = {};
+    const converted: SpecNode & { schema: SpecNode } = { schema };
+    for (const [name, value] of Object.entries(parameter)) {
+      if (SCHEMA_FIELDS.includes(name)) {
+        schema[name] = rewriteRefs(value);
+      } else if (
+        name !== "schema" &&
+        name !== "collectionFormat" &&
+        name !== "allowEmptyValue"
+      ) {
+        converted[name] = rewriteRefs(value);
+      }
+    }
+    record(converted, parameter);
+    return converted;
+  };
+
+  const convertOperation = (operation: SpecNode, pathParameters: SpecNode[]) => {
+    const operationConsumes = stringArray(operation.consumes) ?? consumes;
+    const operationProduces = stringArray(operation.produces) ?? produces;
+    const parameters: unknown[] = [];
+    let requestBody: SpecNode | undefined;
+    const formFields: SpecNode[] = [];
+
+    const operationParameters = nodeArray(operation.parameters);
+    const overridden = new Set(
+      operationParameters.map((p) => `${p.in}:${p.name}`),
+    );
+    const inherited = pathParameters.filter(
+      (p) => !overridden.has(`${p.in}:${p.name}`),
+    );
+
+    for (const raw of [...inherited, ...operationParameters]) {
+      const globalName =
+        typeof raw.$ref === "string"
+          ? /^#\/parameters\/(.+)$/.exec(raw.$ref)?.[1]
+          : undefined;
+      const parameter = globalName ? globalParameters[globalName] : raw;
+      if (!isSpecNode(parameter)) continue;
+
+      if (parameter.in === "body") {
+        requestBody = {
+          description: parameter.description,
+          required: parameter.required === true,
+          content: Object.fromEntries(
+            operationConsumes.map((mediaType) => [
+              mediaType,
+              { schema: rewriteRefs(parameter.schema) },
+            ]),
+          ),
+        };
+      } else if (parameter.in === "formData") {
+        formFields.push(parameter);
+      } else if (globalName) {
+        parameters.push(rewriteRefs(raw));
+      } else {
+        parameters.push(convertParameter(parameter));
+      }
+    }
+
+    if (formFields.length > 0) {
+      const hasFile = formFields.some((field) => field.type === "file");
+      const mediaType = hasFile
+        ? "multipart/form-data"
+        : "application/x-www-form-urlencoded";
+      const required = formFields
+        .filter((field) => field.required)
+        .map((field) => field.name);
+      requestBody = {
+        content: {
+          [mediaType]: {
+            schema: {
+              type: "object",
+              properties: Object.fromEntries(
+                formFields.map((field) => [
+                  String(field.name),
+                  field.type === "file"
+                    ? { type: "string", format: "binary" }
+                    : convertParameter(field).schema,
+                ]),
+              ),
+              required: required.length ? required : undefined,
+            },
+          },
+        },
+      };
+    }
+
+    const converted: SpecNode = {};
+    for (const [name, value] of Object.entries(operation)) {
+      if (
+        name === "parameters" ||
+        name === "consumes" ||
+        name === "produces" ||
+        name === "schemes"
+      ) {
+        continue;
+      }
+      converted[name] =
+        name === "responses"
+          ? convertResponses(value, operationProduces)
+          : rewriteRefs(value);
+    }
+    if (parameters.length > 0) converted.parameters = parameters;
+    if (requestBody) converted.requestBody = requestBody;
+    record(converted, operation);
+    return converted;
+  };
+
+  const convertResponse = (response: unknown, mediaTypes: string[]) => {
+    if (!isSpecNode(response)) return { description: "" };
+    if (typeof response.$ref === "string") return rewriteRefs(response);
+    const converted: SpecNode = {
+      description: response.description ?? "",
+    };
+    if (response.schema) {
+      converted.content = Object.fromEntries(
+        mediaTypes.map((mediaType) => [
+          mediaType,
+          { schema: rewriteRefs(response.schema) },
+        ]),
+      );
+    }
+    if (isSpecNode(response.headers)) {
+      converted.headers = Object.fromEntries(
+        nodeEntries(response.headers).map(([name, header]) => [
+          name,
+          { description: header.description, schema: convertParameter(header).schema },
+        ]),
+      );
+    }
+    record(converted, response);
+    return converted;
+  };
+
+  const convertResponses = (responses: unknown, mediaTypes: string[]) => {
+    if (!isSpecNode(responses)) return {};
+    const converted = Object.fromEntries(
+      Object.entries(responses).map(([status, response]) => [
+        status,
+        convertResponse(response, mediaTypes),
+      ]),
+    );
+    record(converted, responses);
+    return converted;
+  };
+
+  const paths: SpecNode = {};
+  for (const [routePath, pathItem] of nodeEntries(swagger.paths)) {
+    const pathParameters = nodeArray(pathItem.parameters);
+    const converted: SpecNode = {};
+    for (const [name, value] of Object.entries(pathItem)) {
+      if (HTTP_METHODS.includes(name) && isSpecNode(value)) {
+        converted[name] = convertOperation(value, pathParameters);
+      } else if (name !== "parameters") {
+        converted[name] = rewriteRefs(value);
+      }
+    }
+    record(converted, pathItem);
+    paths[routePath] = converted;
+  }
+
+  const scheme = stringArray(swagger.schemes)?.[0] ?? "https";
+  const basePath = typeof swagger.basePath === "string" ? swagger.basePath : "";
+  const servers =
+    typeof swagger.host === "string"
+      ? [{ url: `${scheme}://${swagger.host}${basePath}` }]
+      : basePath
+        ? [{ url: basePath }]
+        : undefined;
+
+  const components: SpecNode = {};
+  if (swagger.definitions)
+    components.schemas = rewriteRefs(swagger.definitions);
+  const namedParameters = Object.fromEntries(
+    nodeEntries(globalParameters)
+      .filter(
+        ([, parameter]) =>
+          parameter.in !== "body" && parameter.in !== "formData",
+      )
+      .map(([name, parameter]) => [name, convertParameter(parameter)]),
+  );
+  if (Object.keys(namedParameters).length > 0)
+    components.parameters = namedParameters;
+  if (swagger.responses)
+    components.responses = convertResponses(swagger.responses, produces);
+  if (swagger.securityDefinitions) {
+    components.securitySchemes = Object.fromEntries(
+      nodeEntries(swagger.securityDefinitions).map(([name, scheme]) => [
+        name,
+        convertSecurityScheme(scheme),
+      ]),
+    );
+  }
+
+  const converted: SpecNode = {
+    openapi: "3.0.3",
+    info: swagger.info,
+    servers,
+    tags: swagger.tags,
+    security: swagger.security,
+    externalDocs: swagger.externalDocs,
+    paths,
+    components,
+  };
+  record(converted, swagger);
+  return converted;
+}
+
+function convertSecurityScheme(scheme: SpecNode): SpecNode {
+  if (scheme.type === "basic") {
+    return { type: "http", scheme: "basic", description: scheme.description };
+  }
+  if (scheme.type === "oauth2") {
+    const flow =
+      (typeof scheme.flow === "string" && SWAGGER_OAUTH_FLOWS[scheme.flow]) ||
+      "implicit";
+    return {
+      type: "oauth2",
+      description: scheme.description,
+      flows: {
+        [flow]: {
+          authorizationUrl: scheme.authorizationUrl,
+          tokenUrl: scheme.tokenUrl,
+          scopes: scheme.scopes ?? {},
+        },
+      },
+    };
+  }
+  return scheme;
+}
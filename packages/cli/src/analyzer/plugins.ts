@@ -0,0 +1,135 @@
+import path from "node:path";
+import { createRequire } from "node:module";
+
+import { importModule } from "./config.js";
+import type {
+  AnalyzerNode,
+  AnalyzerPlugin,
+  RuleRunner,
+  RouterRuleRunner,
+} from "./types.js";
+
+const TARGETS = ["next-trpc", "next-app-router", "nest"];
+
+/**
+ * Type helper for plugin modules
+ */
+export function definePlugin(plugin: AnalyzerPlugin): AnalyzerPlugin {
+  return plugin;
+}
+
+/**
+ * Load rule plugins
+ * @param specifiers - Plugin objects, package names (resolved from `baseDir`)
+ * or paths relative to `baseDir`
+ */
+export async function loadAnalyzerPlugins(
+  specifiers: (string | AnalyzerPlugin)[],
+  baseDir: string,
+): Promise<AnalyzerPlugin[]> {
+  const plugins: AnalyzerPlugin[] = [];
+
+  for (const specifier of specifiers) {
+    if (typeof specifier !== "string") {
+      plugins.push(validatePlugin(specifier, specifier?.name ?? "inline plugin"));
+      continue;
+    }
+
+    let file: string;
+    try {
+      file = /^\.{0,2}[\\/]|^[A-Za-z]:[\\/]/.test(specifier)
+        ? path.resolve(baseDir, specifier)
+        : createRequire(path.join(baseDir, "package.json")).resolve(specifier);
+    } catch {
+      throw new Error(
+        `Cannot find analyzer plugin "${specifier}" from ${baseDir}`,
+      );
+    }
+
+    let exported: unknown;
+    try {
+      exported = await importModule(file);
+    } catch (error) {
+      throw new Error(
+        `Failed to load analyzer plugin "${specifier}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    plugins.push(validatePlugin(exported, specifier));
+  }
+
+  return plugins;
+}
+
+/**
+ * Node rules of every plugin for a target; errors name the plugin
+ */
+export function pluginNodeRules<TNode extends AnalyzerNode>(
+  plugins: AnalyzerPlugin[] | undefined,
+  target: keyof NonNullable<AnalyzerPlugin["rules"]>,
+): RuleRunner<TNode>[] {
+  return (plugins ?? []).flatMap((plugin) =>
+    ((plugin.rules?.[target]?.nodes ?? []) as RuleRunner<TNode>[]).map(
+      (rule) => withPluginName(plugin.name, rule),
+    ),
+  );
+}
+
+/**
+ * tRPC router rules of every plugin
+ */
+export function pluginRouterRules(
+  plugins: AnalyzerPlugin[] | undefined,
+): RouterRuleRunner[] {
+  return (plugins ?? []).flatMap((plugin) =>
+    (plugin.rules?.["next-trpc"]?.routers ?? []).map((rule) =>
+      withPluginName(plugin.name, rule),
+    ),
+  );
+}
+
+function withPluginName<TArgs extends unknown[], TResult>(
+  pluginName: string,
+  rule: (...args: TArgs) => TResult,
+): (...args: TArgs) => TResult {
+  return (...args) => {
+    try {
+      return rule(...args);
+    } catch (error) {
+      throw new Error(
+        `Analyzer plugin "${pluginName}" failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  };
+}
+
+function validatePlugin(value: unknown, label: string): AnalyzerPlugin {
+  const plugin = value as AnalyzerPlugin;
+  if (!plugin || typeof plugin !== "object" || typeof plugin.name !== "string") {
+    throw new Error(
+      `Analyzer plugin "${label}" must export an object with a name and rules`,
+    );
+  }
+
+  for (const [target, rules] of Object.entries(plugin.rules ?? {})) {
+    if (!TARGETS.includes(target)) {
+      throw new Error(
+        `Analyzer plugin "${plugin.name}": unknown target "${target}" (expected ${TARGETS.join(", ")})`,
+      );
+    }
+    for (const [kind, runners] of Object.entries(rules ?? {})) {
+      if (
+        !Array.isArray(runners) ||
+        runners.some((runner) => typeof runner !== "function")
+      ) {
+        throw new Error(
+          `Analyzer plugin "${plugin.name}": rules["${target}"].${kind} must be an array of functions`,
+        );
+      }
+    }
+  }
+  return plugin;
+}
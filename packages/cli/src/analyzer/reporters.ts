@@ -1,11 +1,12 @@
 import Table from "cli-table3";
 import chalk from "chalk";
 
+import { formatAnalyzerReport, type OutputFormat } from "../formats/index.js";
 import type { AnalyzerIssue, AnalyzerResult } from "./types.js";
 
 export function printReport(
   result: AnalyzerResult,
-  format: "table" | "json" = "table",
+  format: OutputFormat = "table",
 ) {
   const label =
     result.target === "nest"
@@ -14,29 +15,58 @@ export function printReport(
         ? "Next.js App Router analyzer"
         : "Next.js tRPC analyzer";
 
-  if (format === "json") {
-    const payload = { summary: result.summary, issues: result.issues };
-    console.log(JSON.stringify(payload, null, 2));
+  if (format !== "table") {
+    console.log(formatAnalyzerReport(result, format));
     return;
   }
 
+  const qualifier = result.baseline ? "new " : "";
   if (!result.issues.length) {
-    console.log(chalk.green(`✓ ${label} — no issues found.`));
-    return;
+    console.log(chalk.green(`✓ ${label} — no ${qualifier}issues found.`));
+  } else {
+    console.log(
+      chalk.bold(
+        `${label} — ${result.issues.length} ${qualifier}finding${
+          result.issues.length === 1 ? "" : "s"
+        }`,
+      ),
+    );
+
+    renderTable(result.issues);
+
+    const { info, warn, error } = result.summary;
+    console.log(chalk.dim(`info: ${info}  warn: ${warn}  error: ${error}`));
+
+    const fixable = result.issues.filter((issue) => issue.fix).length;
+    if (fixable > 0) {
+      console.log(
+        chalk.dim(
+          `${fixable} fixable with --fix (preview with --fix-dry-run)`,
+        ),
+      );
+    }
   }
 
+  if (result.baseline) {
+    printBaselineSummary(result.baseline);
+  }
+}
+
+function printBaselineSummary(
+  baseline: NonNullable<AnalyzerResult["baseline"]>,
+) {
   console.log(
-    chalk.bold(
-      `${label} — ${result.issues.length} finding${
-        result.issues.length === 1 ? "" : "s"
-      }`,
+    chalk.dim(
+      `Baseline from ${baseline.updatedAt}: ${baseline.unchanged} unchanged, ${baseline.fixed.length} fixed`,
     ),
   );
-
-  renderTable(result.issues);
-
-  const { info, warn, error } = result.summary;
-  console.log(chalk.dim(`info: ${info}  warn: ${warn}  error: ${error}`));
+  for (const entry of baseline.fixed) {
+    console.log(
+      chalk.green(
+        `  ✓ fixed ${entry.rule} ${entry.router} ${entry.procedure} (${entry.file})`,
+      ),
+    );
+  }
 }
 
 function renderTable(issues: AnalyzerIssue[]) {
@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { applyFixes } from "../../fixer.js";
+import { analyzeTrpc } from "../analyzer.js";
+
+describe("error-handling fix", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-trpc-"));
+    fs.writeFileSync(
+      path.join(dir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const fix = async (router: string[]) => {
+    const file = path.join(dir, "src/server/api/routers/items.ts");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, [...router, ""].join("\n"));
+
+    const result = await analyzeTrpc({ rootDir: dir, target: "next-trpc" });
+    const issues = result.issues.filter((issue) => issue.rule === "error-handling");
+    return applyFixes(issues, dir).files[0]?.after;
+  };
+
+  it("awaits an expression body and makes the resolver async", async () => {
+    const after = await fix([
+      'import { createTRPCRouter, publicProcedure } from "../trpc";',
+      "",
+      "export const itemsRouter = createTRPCRouter({",
+      "  getItems: publicProcedure.query(({ ctx }) => ctx.db.item.findMany()),",
+      "});",
+    ]);
+
+    expect(after).toBe(
+      [
+        'import { createTRPCRouter, publicProcedure } from "../trpc";',
+        'import { TRPCError } from "@trpc/server";',
+        "",
+        "export const itemsRouter = createTRPCRouter({",
+        "  getItems: publicProcedure.query(async ({ ctx }) => {",
+        "    try {",
+        "      return await ctx.db.item.findMany();",
+        "    } catch (error) {",
+        '      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", cause: error });',
+        "    }",
+        "  }),",
+        "});",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("awaits the resolver's own returns only", async () => {
+    const after = await fix([
+      'import { createTRPCRouter, publicProcedure } from "../trpc";',
+      "",
+      "export const itemsRouter = createTRPCRouter({",
+      "  getItem: publicProcedure.query(async ({ ctx }) => {",
+      "    const ids = [1, 2].map((id) => {",
+      "      return id;",
+      "    });",
+      "    if (ids.length === 0) return null;",
+      "    return ctx.db.item.findFirst() ?? null;",
+      "  }),",
+      "});",
+    ]);
+
+    expect(after).toBe(
+      [
+        'import { createTRPCRouter, publicProcedure } from "../trpc";',
+        'import { TRPCError } from "@trpc/server";',
+        "",
+        "export const itemsRouter = createTRPCRouter({",
+        "  getItem: publicProcedure.query(async ({ ctx }) => {",
+        "    try {",
+        "      const ids = [1, 2].map((id) => {",
+        "        return id;",
+        "      });",
+        "      if (ids.length === 0) return null;",
+        "      return await (ctx.db.item.findFirst() ?? null);",
+        "    } catch (error) {",
+        '      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", cause: error });',
+        "    }",
+        "  }),",
+        "});",
+        "",
+      ].join("\n"),
+    );
+  });
+});
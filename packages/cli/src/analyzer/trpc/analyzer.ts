@@ -30,6 +30,7 @@ import {
   collectRouterCallSites,
   isRouterReference,
 } from "./detection.js";
+import { pluginNodeRules, pluginRouterRules } from "../plugins.js";
 import { trpcRouterRules, trpcRules } from "./rules.js";
 
 export async function analyzeTrpc(
@@ -65,11 +66,25 @@ export async function analyzeTrpc(
   const routers: TrpcRouterMeta[] = [];
   const detection = buildRouterDetectionConfig(options, debug);
   const routerMounts: RouterMountEdge[] = [];
+  const changedFiles = options.changedFiles && new Set(options.changedFiles);
 
+  // Unchanged files are still scanned for routers so mounts resolve to full paths
   for (const file of sourceFiles) {
-    debug(`Scanning file ${path.relative(rootDir, file.getFilePath())}`);
+    const collectProcedures = !changedFiles || changedFiles.has(file.getFilePath());
+    debug(
+      `Scanning file ${path.relative(rootDir, file.getFilePath())}${
+        collectProcedures ? "" : " (unchanged, routers only)"
+      }`,
+    );
     const { nodes: fileNodes, routers: fileRouters } =
-      extractProceduresFromFile(file, rootDir, detection, routerMounts, debug);
+      extractProceduresFromFile(
+        file,
+        rootDir,
+        detection,
+        routerMounts,
+        collectProcedures,
+        debug,
+      );
     nodes.push(...fileNodes);
     routers.push(...fileRouters);
   }
@@ -84,8 +99,24 @@ export async function analyzeTrpc(
     if (mapped !== undefined && mapped !== "") router.name = mapped;
   });
 
-  const ctx: RuleContext = { rootDir, project, routerMeta: routers };
-  const issues = applyRules(nodes, routers, ctx, trpcRules, trpcRouterRules);
+  const ctx: RuleContext = {
+    rootDir,
+    project,
+    routerMeta: routers,
+    config: options.config ?? {},
+  };
+  const changedRouters = changedFiles
+    ? routers.filter((router) =>
+        changedFiles.has(path.resolve(rootDir, router.file)),
+      )
+    : routers;
+  const issues = applyRules(
+    nodes,
+    changedRouters,
+    ctx,
+    [...trpcRules, ...pluginNodeRules<TrpcProcedureNode>(options.plugins, "next-trpc")],
+    [...trpcRouterRules, ...pluginRouterRules(options.plugins)],
+  );
 
   return {
     target: "next-trpc",
@@ -100,6 +131,7 @@ function extractProceduresFromFile(
   rootDir: string,
   detection: ReturnType<typeof buildRouterDetectionConfig>,
   routerMounts: RouterMountEdge[],
+  collectProcedures: boolean,
   debug: DebugLogger,
 ) {
   const nodes: TrpcProcedureNode[] = [];
@@ -114,6 +146,7 @@ function extractProceduresFromFile(
       rootDir,
       detection,
       routerMounts,
+      collectProcedures,
       debug,
     );
     if (!router) return;
@@ -140,6 +173,7 @@ function parseRouter(
   rootDir: string,
   detection: ReturnType<typeof buildRouterDetectionConfig>,
   routerMounts: RouterMountEdge[],
+  collectProcedures: boolean,
   debug: DebugLogger,
 ) {
   const routesArg = initializer.getArguments()[0];
@@ -187,6 +221,7 @@ function parseRouter(
       );
       continue;
     }
+    if (!collectProcedures) continue;
 
     const procedureNode = parseProcedure(
       initializerNode,
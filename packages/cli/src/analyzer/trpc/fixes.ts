@@ -0,0 +1,302 @@
+import path from "node:path";
+
+import {
+  ArrowFunction,
+  CallExpression,
+  Expression,
+  FunctionExpression,
+  Node,
+  SourceFile,
+  SyntaxKind,
+} from "ts-morph";
+
+import type {
+  AnalyzerFix,
+  RuleContext,
+  TextEdit,
+  TrpcProcedureNode,
+} from "../types.js";
+
+/**
+ * Add `.input(z.object({}))` before the query/mutation call
+ */
+export function missingInputFix(
+  node: TrpcProcedureNode,
+  ctx: RuleContext,
+): AnalyzerFix | undefined {
+  const located = locateProcedure(node, ctx);
+  if (!located) return undefined;
+
+  const callee = located.call.getExpression();
+  if (!Node.isPropertyAccessExpression(callee)) return undefined;
+
+  return {
+    description: "Add .input(z.object({}))",
+    edits: [
+      {
+        file: node.file,
+        start: callee.getExpression().getEnd(),
+        end: callee.getExpression().getEnd(),
+        text: ".input(z.object({}))",
+      },
+      ...importEdits(located.sourceFile, node.file, "z", "zod"),
+    ],
+  };
+}
+
+/** Text inserted at an offset of the file's original text */
+interface Insertion {
+  at: number;
+  text: string;
+}
+
+/**
+ * Wrap the resolver body in try/catch and rethrow as TRPCError; returned
+ * promises are awaited so their rejections reach the catch block, and the
+ * resolver becomes async
+ */
+export function errorHandlingFix(
+  node: TrpcProcedureNode,
+  ctx: RuleContext,
+): AnalyzerFix | undefined {
+  const located = locateProcedure(node, ctx);
+  const resolver = located?.call.getArguments()[0];
+  if (
+    !located ||
+    !(Node.isArrowFunction(resolver) || Node.isFunctionExpression(resolver))
+  ) {
+    return undefined;
+  }
+
+  const { sourceFile } = located;
+  const text = sourceFile.getFullText();
+  const body = resolver.getBody();
+  const baseIndent = lineIndent(text, resolver.getStart());
+  const unit = indentUnit(text, resolver, baseIndent);
+  const inner = baseIndent + unit;
+  const catchBlock = [
+    `${inner}} catch (error) {`,
+    `${inner}${unit}throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", cause: error });`,
+    `${inner}}`,
+  ];
+
+  let replacement: string;
+  if (Node.isBlock(body)) {
+    // Statements move one level deeper, except inside multi-line template literals
+    const start = body.getStart() + 1;
+    const end = body.getEnd() - 1;
+    const awaits = resolverReturns(resolver).flatMap(awaitInsertions);
+    const statements = text.slice(start, end).includes("\n")
+      ? indentRange(text, start, end, unit, templateRanges(resolver), awaits)
+          .replace(/^[ \t]*\r?\n/, "")
+          .replace(/\s+$/, "")
+      : `${inner}${unit}${insert(text, start, end, awaits).trim()}`;
+    replacement = [
+      "{",
+      `${inner}try {`,
+      statements,
+      ...catchBlock,
+      `${baseIndent}}`,
+    ].join("\n");
+  } else {
+    const expression = insert(
+      text,
+      body.getStart(),
+      body.getEnd(),
+      awaitInsertions(body as Expression),
+    );
+    replacement = [
+      "{",
+      `${inner}try {`,
+      `${inner}${unit}return ${expression};`,
+      ...catchBlock,
+      `${baseIndent}}`,
+    ].join("\n");
+  }
+
+  return {
+    description: "Wrap the resolver in try/catch and throw TRPCError",
+    edits: [
+      ...(resolver.isAsync()
+        ? []
+        : [{ file: node.file, start: resolver.getStart(), end: resolver.getStart(), text: "async " }]),
+      {
+        file: node.file,
+        start: body.getStart(),
+        end: body.getEnd(),
+        text: replacement,
+      },
+      ...importEdits(sourceFile, node.file, "TRPCError", "@trpc/server"),
+    ],
+  };
+}
+
+/**
+ * Return statements of the resolver itself, not of functions nested in it
+ */
+function resolverReturns(resolver: ArrowFunction | FunctionExpression) {
+  return resolver
+    .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+    .filter(
+      (statement) =>
+        statement.getFirstAncestor((ancestor) => Node.isFunctionLikeDeclaration(ancestor)) ===
+        resolver,
+    )
+    .flatMap((statement) => statement.getExpression() ?? []);
+}
+
+/**
+ * `await ` before an expression that may be a promise, parenthesized unless it
+ * binds tighter than await
+ */
+function awaitInsertions(expression: Expression): Insertion[] {
+  const notPromise =
+    Node.isAwaitExpression(expression) ||
+    Node.isLiteralExpression(expression) ||
+    Node.isNullLiteral(expression) ||
+    Node.isTrueLiteral(expression) ||
+    Node.isFalseLiteral(expression) ||
+    Node.isTemplateExpression(expression) ||
+    Node.isObjectLiteralExpression(expression) ||
+    Node.isArrayLiteralExpression(expression);
+  if (notPromise) return [];
+  const bindsTighter =
+    Node.isCallExpression(expression) ||
+    Node.isPropertyAccessExpression(expression) ||
+    Node.isElementAccessExpression(expression) ||
+    Node.isNewExpression(expression) ||
+    Node.isIdentifier(expression) ||
+    Node.isParenthesizedExpression(expression);
+  return bindsTighter
+    ? [{ at: expression.getStart(), text: "await " }]
+    : [
+        { at: expression.getStart(), text: "await (" },
+        { at: expression.getEnd(), text: ")" },
+      ];
+}
+
+/**
+ * The procedure's query/mutation call, found by name and line
+ */
+function locateProcedure(
+  node: TrpcProcedureNode,
+  ctx: RuleContext,
+): { sourceFile: SourceFile; call: CallExpression } | undefined {
+  const sourceFile = ctx.project.getSourceFile(path.resolve(ctx.rootDir, node.file));
+  if (!sourceFile) return undefined;
+
+  const property = sourceFile
+    .getDescendantsOfKind(SyntaxKind.PropertyAssignment)
+    .find(
+      (candidate) =>
+        candidate.getNameNode().getStartLineNumber() === node.line &&
+        candidate.getNameNode().getText().replace(/["']/g, "") === node.procedure,
+    );
+  const initializer = property?.getInitializer();
+  if (!initializer) return undefined;
+
+  const call = [initializer, ...initializer.getDescendantsOfKind(SyntaxKind.CallExpression)]
+    .filter(Node.isCallExpression)
+    .find((candidate) => {
+      const callee = candidate.getExpression();
+      return (
+        Node.isPropertyAccessExpression(callee) &&
+        callee.getName() === node.method
+      );
+    });
+  return call ? { sourceFile, call } : undefined;
+}
+
+/**
+ * Import `name` from `moduleName` unless the file already binds it
+ */
+function importEdits(
+  sourceFile: SourceFile,
+  file: string,
+  name: string,
+  moduleName: string,
+): TextEdit[] {
+  const imported = sourceFile.getImportDeclarations().some(
+    (declaration) =>
+      declaration.getDefaultImport()?.getText() === name ||
+      declaration.getNamespaceImport()?.getText() === name ||
+      declaration
+        .getNamedImports()
+        .some((specifier) => (specifier.getAliasNode() ?? specifier.getNameNode()).getText() === name),
+  );
+  if (imported) return [];
+
+  const imports = sourceFile.getImportDeclarations();
+  const statement = `import { ${name} } from "${moduleName}";`;
+  if (imports.length === 0) {
+    return [{ file, start: 0, end: 0, text: `${statement}\n` }];
+  }
+  const end = imports[imports.length - 1].getEnd();
+  return [{ file, start: end, end, text: `\n${statement}` }];
+}
+
+function lineIndent(text: string, position: number): string {
+  const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+}
+
+/**
+ * Indentation step of the file, from the first statement nested under the resolver
+ */
+function indentUnit(
+  text: string,
+  resolver: ArrowFunction | FunctionExpression,
+  baseIndent: string,
+): string {
+  const body = resolver.getBody();
+  const statement = Node.isBlock(body) ? body.getStatements()[0] : undefined;
+  if (statement) {
+    const indent = lineIndent(text, statement.getStart());
+    if (indent.length > baseIndent.length && indent.startsWith(baseIndent)) {
+      return indent.slice(baseIndent.length);
+    }
+  }
+  return baseIndent.includes("\t") ? "\t" : "  ";
+}
+
+function templateRanges(node: Node): [number, number][] {
+  return [
+    ...node.getDescendantsOfKind(SyntaxKind.NoSubstitutionTemplateLiteral),
+    ...node.getDescendantsOfKind(SyntaxKind.TemplateExpression),
+  ].map((template) => [template.getStart(), template.getEnd()]);
+}
+
+/**
+ * text[start, end) with the insertions at start through end applied
+ */
+function insert(text: string, start: number, end: number, insertions: Insertion[]): string {
+  let result = "";
+  let position = start;
+  for (const { at, text: inserted } of [...insertions].sort((a, b) => a.at - b.at)) {
+    if (at < start || at > end) continue;
+    result += text.slice(position, at) + inserted;
+    position = at;
+  }
+  return result + text.slice(position, end);
+}
+
+function indentRange(
+  text: string,
+  start: number,
+  end: number,
+  unit: string,
+  skip: [number, number][],
+  insertions: Insertion[] = [],
+): string {
+  let result = "";
+  let lineStart = start;
+  while (lineStart < end) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 || newline >= end ? end : newline + 1;
+    const line = insert(text, lineStart, lineEnd, insertions);
+    const inTemplate = skip.some(([from, to]) => lineStart > from && lineStart < to);
+    result += line.trim() && !inTemplate && lineStart !== start ? unit + line : line;
+    lineStart = lineEnd;
+  }
+  return result;
+}
@@ -1,18 +1,26 @@
-import type { AnalyzerIssue, RuleRunner, RouterRuleRunner } from "../types.js";
+import { ruleThreshold } from "../config.js";
+import type {
+  AnalyzerFix,
+  AnalyzerIssue,
+  RuleRunner,
+  RouterRuleRunner,
+} from "../types.js";
 import {
   MUTATION_LIKE_NAMES,
   QUERY_LIKE_NAMES,
   SENSITIVE_PROCEDURE_NAMES,
 } from "./constants.js";
+import { errorHandlingFix, missingInputFix } from "./fixes.js";
 
 export const trpcRules: RuleRunner[] = [
-  (node) => {
+  (node, ctx) => {
     if (node.input) return null;
     return makeIssue(
       node,
       "warn",
       "Missing input schema. Add .input(z.object(...)) to validate payloads.",
       "missing-input",
+      missingInputFix(node, ctx),
     );
   },
   (node) => {
@@ -51,18 +59,24 @@ export const trpcRules: RuleRunner[] = [
       "output-schema",
     );
   },
-  (node) => {
+  (node, ctx) => {
     if (!node.usesDb || node.hasErrorHandling) return null;
     return makeIssue(
       node,
       "warn",
       "Database call without error handling. Wrap with try/catch or throw TRPCError.",
       "error-handling",
+      errorHandlingFix(node, ctx),
     );
   },
-  (node) => {
-    if (node.resolverLines <= 60) return null;
-    const severity = node.resolverLines > 100 ? "warn" : "info";
+  (node, ctx) => {
+    if (node.resolverLines <= ruleThreshold(ctx.config, "heavy-logic", "maxLines")) {
+      return null;
+    }
+    const severity =
+      node.resolverLines > ruleThreshold(ctx.config, "heavy-logic", "warnLines")
+        ? "warn"
+        : "info";
     return makeIssue(
       node,
       severity,
@@ -106,8 +120,10 @@ export const trpcRouterRules: RouterRuleRunner[] = [
       rule: "router-naming",
     } satisfies AnalyzerIssue;
   },
-  (router) => {
-    if (router.linesOfCode <= 500) return null;
+  (router, ctx) => {
+    if (router.linesOfCode <= ruleThreshold(ctx.config, "router-size", "maxLines")) {
+      return null;
+    }
     return {
       severity: "warn",
       message: `Router is ${router.linesOfCode} LOC. Split into smaller routers to keep scope manageable.`,
@@ -125,6 +141,7 @@ function makeIssue(
   severity: AnalyzerIssue["severity"],
   message: string,
   rule: string,
+  fix?: AnalyzerFix,
 ): AnalyzerIssue {
   return {
     severity,
@@ -134,5 +151,6 @@ function makeIssue(
     router: node.router,
     procedure: node.procedure,
     rule,
+    ...(fix ? { fix } : {}),
   } satisfies AnalyzerIssue;
 }
@@ -1,4 +1,7 @@
 import type { Project } from "ts-morph";
+import { z } from "zod";
+
+import type { OutputFormat } from "../formats/shared.js";
 
 export type AnalyzerTarget = "next-trpc" | "next-app-router" | "nest";
 
@@ -12,6 +15,25 @@ export interface AnalyzerIssue {
   router: string;
   procedure: string;
   rule: string;
+  /** Mechanical fix, applied by `analyze --fix` */
+  fix?: AnalyzerFix;
+}
+
+export interface AnalyzerFix {
+  description: string;
+  /** Applied together, or not at all when they overlap another fix */
+  edits: TextEdit[];
+}
+
+/**
+ * Replacement of [start, end) in a file's original text
+ */
+export interface TextEdit {
+  /** Relative to rootDir */
+  file: string;
+  start: number;
+  end: number;
+  text: string;
 }
 
 export interface AnalyzerSummary {
@@ -27,6 +49,36 @@ export interface AnalyzerResultBase<TNode extends AnalyzerNode> {
   issues: AnalyzerIssue[];
   summary: AnalyzerSummary;
   nodes: TNode[];
+  /** Set when compared with a baseline; `issues` then holds only new issues */
+  baseline?: AnalyzerBaselineComparison;
+}
+
+export const analyzerBaselineEntrySchema = z.object({
+  fingerprint: z.string(),
+  rule: z.string(),
+  severity: z.enum(["info", "warn", "error"]),
+  file: z.string(),
+  router: z.string(),
+  procedure: z.string(),
+  message: z.string(),
+});
+
+export const analyzerBaselineSchema = z.object({
+  version: z.literal(1),
+  target: z.string(),
+  updatedAt: z.string(),
+  issues: z.array(analyzerBaselineEntrySchema),
+});
+
+export type AnalyzerBaselineEntry = z.infer<typeof analyzerBaselineEntrySchema>;
+export type AnalyzerBaseline = z.infer<typeof analyzerBaselineSchema>;
+
+export interface AnalyzerBaselineComparison {
+  updatedAt: string;
+  /** Baseline issues no longer reported */
+  fixed: AnalyzerBaselineEntry[];
+  /** Issues that are still in the baseline */
+  unchanged: number;
 }
 
 export type AnalyzerResult =
@@ -34,15 +86,58 @@ export type AnalyzerResult =
   | (AnalyzerResultBase<NextRouteNode> & { target: "next-app-router" })
   | (AnalyzerResultBase<OpenApiOperationNode> & { target: "nest" });
 
+/**
+ * Per-rule setting: a severity override, "off"/false to disable, or options
+ */
+export type RuleSetting = Severity | "off" | boolean | RuleConfig;
+
+export interface RuleConfig {
+  enabled?: boolean;
+  severity?: Severity;
+  /** Rule-specific limits, e.g. { maxLines: 80 } for heavy-logic */
+  thresholds?: Record<string, number>;
+}
+
+/**
+ * watchapi.config.{json,ts}
+ */
+export interface AnalyzerConfig {
+  /** Settings by rule id (missing-input, naming, heavy-logic, ...) */
+  rules?: Record<string, RuleSetting>;
+  /** Rule plugins: package names, paths relative to the config, or plugin objects */
+  plugins?: (string | AnalyzerPlugin)[];
+}
+
+/**
+ * Extra rules, registered per analyzer target
+ */
+export interface AnalyzerPlugin {
+  name: string;
+  rules?: {
+    "next-trpc"?: {
+      nodes?: RuleRunner<TrpcProcedureNode>[];
+      routers?: RouterRuleRunner[];
+    };
+    "next-app-router"?: { nodes?: RuleRunner<NextRouteNode>[] };
+    nest?: { nodes?: RuleRunner<OpenApiOperationNode>[] };
+  };
+}
+
 export interface AnalyzerOptions {
   rootDir: string;
   target: AnalyzerTarget;
   tsconfigPath?: string;
   include?: string[];
-  format?: "table" | "json";
+  format?: OutputFormat;
   verbose?: boolean;
   routerFactories?: string[];
   routerIdentifierPattern?: string;
+  /** Rule settings (default: watchapi.config.* in rootDir) */
+  config?: AnalyzerConfig;
+  /** Loaded rule plugins (default: the config's plugins) */
+  plugins?: AnalyzerPlugin[];
+  /** Absolute paths; only nodes defined in these files are analyzed and reported */
+  changedFiles?: string[];
 }
 
 export type ProcedureVisibility =
@@ -101,12 +196,14 @@ export interface NextRouteNode {
 
 export interface RuleContext {
   rootDir: string;
+  /** Analyzed source files (nest: the tsconfig's files and *.controller.ts) */
   project: Project;
   routerMeta: TrpcRouterMeta[];
+  config: AnalyzerConfig;
 }
 
-export type RuleRunner = (
-  node: TrpcProcedureNode,
+export type RuleRunner<TNode extends AnalyzerNode = TrpcProcedureNode> = (
+  node: TNode,
   ctx: RuleContext,
 ) => AnalyzerIssue | AnalyzerIssue[] | null | undefined;
 
@@ -1,17 +1,23 @@
+import path from "node:path";
+
+import type { Project } from "ts-morph";
+
+import { resolveRuleConfig } from "../config.js";
 import type {
+  AnalyzerConfig,
+  AnalyzerNode,
   AnalyzerResult,
   RuleContext,
   RuleRunner,
   RouterRuleRunner,
-  TrpcProcedureNode,
   TrpcRouterMeta,
 } from "../types.js";
 
-export function applyRules(
-  nodes: TrpcProcedureNode[],
+export function applyRules<TNode extends AnalyzerNode>(
+  nodes: TNode[],
   routers: TrpcRouterMeta[],
   ctx: RuleContext,
-  nodeRules: RuleRunner[],
+  nodeRules: RuleRunner<TNode>[],
   routerRules: RouterRuleRunner[],
 ) {
   const issues = [] as AnalyzerResult["issues"];
@@ -32,7 +38,57 @@ export function applyRules(
     }
   }
 
-  return issues;
+  return configureIssues(issues, ctx);
+}
+
+const DISABLE_NEXT_LINE = /^\/\/\s*watchapi-disable-next-line\b(.*)$/;
+
+/**
+ * Drop issues of disabled rules or suppressed with
+ * `// watchapi-disable-next-line [rule, ...]`, and apply severity overrides
+ */
+export function configureIssues(
+  issues: AnalyzerResult["issues"],
+  ctx: { rootDir: string; project?: Project; config?: AnalyzerConfig },
+): AnalyzerResult["issues"] {
+  const lines = new Map<string, string[] | undefined>();
+  const getLines = (file: string) => {
+    if (!lines.has(file)) {
+      const sourceFile = ctx.project?.getSourceFile(path.resolve(ctx.rootDir, file));
+      lines.set(file, sourceFile?.getFullText().split(/\r?\n/));
+    }
+    return lines.get(file);
+  };
+
+  return issues.flatMap((issue) => {
+    const setting = resolveRuleConfig(ctx.config, issue.rule);
+    if (!setting.enabled) return [];
+    if (isSuppressed(issue, getLines(issue.file))) return [];
+    return [setting.severity ? { ...issue, severity: setting.severity } : issue];
+  });
+}
+
+/**
+ * Whether a disable comment in the comment block above the issue line names
+ * its rule (or no rule, which suppresses every rule)
+ */
+function isSuppressed(
+  issue: AnalyzerResult["issues"][number],
+  lines: string[] | undefined,
+): boolean {
+  if (!lines) return false;
+
+  for (let index = issue.line - 2; index >= 0; index--) {
+    const text = lines[index].trim();
+    if (!text.startsWith("//")) return false;
+
+    const match = DISABLE_NEXT_LINE.exec(text);
+    if (!match) continue;
+    // Anything after "--" is a reason, not a rule id
+    const rules = match[1].split("--")[0].split(/[\s,]+/).filter(Boolean);
+    if (rules.length === 0 || rules.includes(issue.rule)) return true;
+  }
+  return false;
 }
 
 export function buildSummary(issues: AnalyzerResult["issues"]) {
@@ -1,4 +1,5 @@
 import { createTRPCUntypedClient, httpBatchLink } from "@trpc/client";
+import { createNetworkFetch, type NetworkAgents } from "./network.js";
 import type { Collection, Report, SyncPayload } from "./types.js";
 
 type TrpcClient = {
@@ -9,7 +10,7 @@ type TrpcClient = {
 export class ApiClient {
   private client: TrpcClient;
 
-  constructor(apiUrl: string, apiToken: string) {
+  constructor(apiUrl: string, apiToken: string, network?: NetworkAgents) {
     const url = new URL("/api/trpc", apiUrl).toString();
 
     this.client = createTRPCUntypedClient({
@@ -19,6 +20,7 @@ export class ApiClient {
           headers: () => ({
             authorization: `Bearer ${apiToken}`,
           }),
+          fetch: network ? createNetworkFetch(network) : undefined,
         }),
       ],
     }) as unknown as TrpcClient;
@@ -28,8 +30,22 @@ export class ApiClient {
     return this.client.query("cli.getCollection", { collectionId });
   }
 
+  /**
+   * Skipped flow steps stay local: the platform only records PASSED, FAILED
+   * and ERROR results
+   */
   async submitReport(report: Report): Promise<{ success: boolean; regressions: string[] }> {
-    return this.client.mutation("cli.submitReport", report);
+    const results = report.results.filter((result) => result.status !== "SKIPPED");
+    return this.client.mutation("cli.submitReport", {
+      ...report,
+      results,
+      summary: {
+        total: results.length,
+        passed: report.summary.passed,
+        failed: report.summary.failed,
+        errors: report.summary.errors,
+      },
+    });
   }
 
   async syncApis(
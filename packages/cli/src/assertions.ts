@@ -0,0 +1,377 @@
+import Ajv2020, { type ErrorObject, type ValidateFunction } from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import jmespath from "jmespath";
+import { JSONPath } from "jsonpath-plus";
+import type {
+  AssertionFailure,
+  CheckResult,
+  EndpointDefinition,
+  HeaderAssertion,
+  ValueAssertion,
+} from "./types.js";
+
+type Assertions = NonNullable<CheckResult["assertions"]>;
+
+export interface AssertionResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  data: unknown;
+  /** Omitted when maxResponseTime is checked against sampled percentiles */
+  responseTime?: number;
+}
+
+export interface AssertionOutcome {
+  assertions: Assertions;
+  failures: AssertionFailure[];
+}
+
+interface QueryResult {
+  found: boolean;
+  value: unknown;
+}
+
+export class AssertionEngine {
+  private ajv: Ajv2020;
+  private validators = new Map<string, ValidateFunction>();
+
+  constructor() {
+    this.ajv = new Ajv2020({ allErrors: true, strict: false });
+    addFormats(this.ajv);
+  }
+
+  evaluate(endpoint: EndpointDefinition, response: AssertionResponse): AssertionOutcome {
+    const config = endpoint.assertions;
+    const failures: AssertionFailure[] = [];
+
+    const track = (found: AssertionFailure[]): boolean => {
+      failures.push(...found);
+      return found.length === 0;
+    };
+
+    const assertions: Assertions = {
+      statusCode: track(this.checkStatus(endpoint.expectedStatus, response.status)),
+      responseTime:
+        endpoint.maxResponseTime && response.responseTime !== undefined
+          ? track(this.checkResponseTime(endpoint.maxResponseTime, response.responseTime))
+          : undefined,
+      bodyContains: config?.bodyContains
+        ? track(this.checkBodyContains(response.data, config.bodyContains))
+        : undefined,
+      bodyMatches: config?.bodyMatches
+        ? track(this.checkBodyMatches(response.data, config.bodyMatches))
+        : undefined,
+      bodySchema: config?.bodySchema
+        ? track(this.validateSchema(response.data, config.bodySchema, config.schemas))
+        : undefined,
+      jsonPath: config?.jsonPath
+        ? track(
+            config.jsonPath.flatMap((assertion) =>
+              this.checkValue("jsonPath", assertion, queryJsonPath(response.data, assertion.path)),
+            ),
+          )
+        : undefined,
+      jmesPath: config?.jmesPath
+        ? track(
+            config.jmesPath.flatMap((assertion) =>
+              this.checkValue("jmesPath", assertion, queryJmesPath(response.data, assertion.path)),
+            ),
+          )
+        : undefined,
+      headers: config?.headers
+        ? track(config.headers.flatMap((assertion) => this.checkHeader(response.headers, assertion)))
+        : undefined,
+    };
+
+    return { assertions, failures };
+  }
+
+  /**
+   * Check a response time (or a sampled percentile, labelled e.g. "p90")
+   * against maxResponseTime
+   */
+  checkResponseTime(max: number, actual: number, percentile?: string): AssertionFailure[] {
+    if (actual <= max) return [];
+    return [
+      {
+        assertion: "responseTime",
+        path: percentile,
+        expected: `<= ${max}ms`,
+        actual: `${actual}ms`,
+      },
+    ];
+  }
+
+  /**
+   * Without an expectedStatus any 2xx status passes
+   */
+  private checkStatus(expected: number | undefined, actual: number): AssertionFailure[] {
+    const passed =
+      expected === undefined ? actual >= 200 && actual < 300 : actual === expected;
+    if (passed) return [];
+    return [{ assertion: "statusCode", expected: expected ?? "2xx", actual }];
+  }
+
+  private checkBodyContains(body: unknown, patterns: string[]): AssertionFailure[] {
+    const bodyStr = stringifyBody(body);
+    return patterns
+      .filter((pattern) => !bodyStr.includes(pattern))
+      .map((pattern) => ({
+        assertion: "bodyContains" as const,
+        expected: pattern,
+        actual: truncate(bodyStr),
+        message: "body does not contain expected text",
+      }));
+  }
+
+  private checkBodyMatches(body: unknown, patterns: string[]): AssertionFailure[] {
+    const bodyStr = stringifyBody(body);
+    return patterns
+      .filter((pattern) => !toRegExp(pattern).test(bodyStr))
+      .map((pattern) => ({
+        assertion: "bodyMatches" as const,
+        expected: pattern,
+        actual: truncate(bodyStr),
+        message: "body does not match pattern",
+      }));
+  }
+
+  private validateSchema(
+    body: unknown,
+    schema: Record<string, unknown>,
+    schemas: Record<string, unknown>[] = [],
+  ): AssertionFailure[] {
+    const validate = this.getValidator(schema, schemas);
+    if (validate(body)) return [];
+
+    return (validate.errors ?? []).map((error) => ({
+      assertion: "bodySchema" as const,
+      path: pointerToPath(error.instancePath),
+      expected: describeSchemaError(error),
+      actual: resolvePointer(body, error.instancePath),
+      message: error.message,
+    }));
+  }
+
+  private getValidator(
+    schema: Record<string, unknown>,
+    schemas: Record<string, unknown>[],
+  ): ValidateFunction {
+    // Referenced schemas are registered once per $id so $ref can resolve them
+    for (const extra of schemas) {
+      const id = typeof extra.$id === "string" ? extra.$id : undefined;
+      if (id && !this.ajv.getSchema(id)) {
+        this.ajv.addSchema(extra);
+      }
+    }
+
+    const key = JSON.stringify(schema);
+    const cached = this.validators.get(key);
+    if (cached) return cached;
+
+    const validate = this.ajv.compile(schema);
+    this.validators.set(key, validate);
+    return validate;
+  }
+
+  private checkValue(
+    kind: "jsonPath" | "jmesPath",
+    assertion: ValueAssertion,
+    result: QueryResult,
+  ): AssertionFailure[] {
+    const failures: AssertionFailure[] = [];
+    const fail = (expected: unknown, message: string) =>
+      failures.push({ assertion: kind, path: assertion.path, expected, actual: result.value, message });
+
+    const expectExists = assertion.exists ?? true;
+    if (result.found !== expectExists) {
+      fail(expectExists ? "value to exist" : "value to be absent", expectExists ? "no match" : "unexpected match");
+      return failures;
+    }
+    if (!result.found) return failures;
+
+    if ("equals" in assertion && !isDeepEqual(result.value, assertion.equals)) {
+      fail(assertion.equals, "value is not equal");
+    }
+    if ("notEquals" in assertion && isDeepEqual(result.value, assertion.notEquals)) {
+      fail(`not ${JSON.stringify(assertion.notEquals)}`, "value is equal");
+    }
+    if ("contains" in assertion && !containsValue(result.value, assertion.contains)) {
+      fail(assertion.contains, "value does not contain expected item");
+    }
+    if (assertion.matches !== undefined && !toRegExp(assertion.matches).test(String(result.value))) {
+      fail(assertion.matches, "value does not match pattern");
+    }
+    if (
+      assertion.lessThan !== undefined &&
+      !(typeof result.value === "number" && result.value < assertion.lessThan)
+    ) {
+      fail(`< ${assertion.lessThan}`, "value is not less than expected");
+    }
+    if (
+      assertion.greaterThan !== undefined &&
+      !(typeof result.value === "number" && result.value > assertion.greaterThan)
+    ) {
+      fail(`> ${assertion.greaterThan}`, "value is not greater than expected");
+    }
+
+    return failures;
+  }
+
+  private checkHeader(
+    headers: Record<string, unknown>,
+    assertion: HeaderAssertion,
+  ): AssertionFailure[] {
+    const name = assertion.name.toLowerCase();
+    const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+    const actual = entry
+      ? Array.isArray(entry[1])
+        ? entry[1].join(", ")
+        : String(entry[1])
+      : undefined;
+
+    const failures: AssertionFailure[] = [];
+    const fail = (expected: unknown, message: string) =>
+      failures.push({ assertion: "headers", path: assertion.name, expected, actual, message });
+
+    const expectExists = assertion.exists ?? true;
+    if ((actual !== undefined) !== expectExists) {
+      fail(expectExists ? "header to be present" : "header to be absent", expectExists ? "header missing" : "unexpected header");
+      return failures;
+    }
+    if (actual === undefined) return failures;
+
+    if (assertion.equals !== undefined && actual !== assertion.equals) {
+      fail(assertion.equals, "header value is not equal");
+    }
+    if (assertion.contains !== undefined && !actual.includes(assertion.contains)) {
+      fail(assertion.contains, "header value does not contain expected text");
+    }
+    if (assertion.matches !== undefined && !toRegExp(assertion.matches).test(actual)) {
+      fail(assertion.matches, "header value does not match pattern");
+    }
+
+    return failures;
+  }
+}
+
+function queryJsonPath(body: unknown, path: string): QueryResult {
+  const json = parseBody(body);
+  // Empty bodies (e.g. a 204) parse to "" or null, which JSONPath answers with undefined
+  const matches =
+    json === undefined
+      ? []
+      : ((JSONPath({ path, json, wrap: true }) as unknown[] | undefined) ?? []);
+  return {
+    found: matches.length > 0,
+    value: matches.length === 1 ? matches[0] : matches.length === 0 ? undefined : matches,
+  };
+}
+
+function queryJmesPath(body: unknown, expression: string): QueryResult {
+  const value = jmespath.search(parseBody(body), expression) as unknown;
+  return { found: value !== null && value !== undefined, value: value ?? undefined };
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string") return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function stringifyBody(body: unknown): string {
+  return typeof body === "string" ? body : JSON.stringify(body) ?? "";
+}
+
+/**
+ * Accepts either a plain pattern or a `/pattern/flags` literal
+ */
+function toRegExp(pattern: string): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/s.exec(pattern);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+function pointerToPath(pointer: string): string {
+  return pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce(
+      (path, segment) =>
+        /^\d+$/.test(segment)
+          ? `${path}[${segment}]`
+          : /^[A-Za-z_$][\w$]*$/.test(segment)
+            ? `${path}.${segment}`
+            : `${path}[${JSON.stringify(segment)}]`,
+      "$",
+    );
+}
+
+function resolvePointer(value: unknown, pointer: string): unknown {
+  return pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>(
+      (current, segment) =>
+        current !== null && typeof current === "object"
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      value,
+    );
+}
+
+function describeSchemaError(error: ErrorObject): unknown {
+  const params = error.params as Record<string, unknown>;
+  switch (error.keyword) {
+    case "type":
+      return params.type;
+    case "required":
+      return `property "${params.missingProperty}"`;
+    case "additionalProperties":
+      return `no property "${params.additionalProperty}"`;
+    case "enum":
+      return params.allowedValues;
+    case "const":
+      return params.allowedValue;
+    case "format":
+      return `format "${params.format}"`;
+    case "pattern":
+      return `pattern ${params.pattern}`;
+    default:
+      return error.message;
+  }
+}
+
+function containsValue(haystack: unknown, needle: unknown): boolean {
+  if (typeof haystack === "string") {
+    return haystack.includes(String(needle));
+  }
+  if (Array.isArray(haystack)) {
+    return haystack.some((item) => isDeepEqual(item, needle));
+  }
+  return false;
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+    )
+  );
+}
+
+function truncate(value: string, max = 120): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
@@ -0,0 +1,358 @@
+import crypto from "node:crypto";
+import axios from "axios";
+import { replaceVariables, type Variables } from "./environment.js";
+import type { NetworkAgents } from "./network.js";
+import type { AuthConfig } from "./types.js";
+
+/** Refresh OAuth2 tokens this long before they expire */
+const TOKEN_EXPIRY_MARGIN_MS = 30_000;
+
+export interface AuthRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface AuthProvider {
+  /** Return the request with credentials added (headers, query or signature) */
+  apply(request: AuthRequest): Promise<AuthRequest>;
+  /** Drop the cached credentials a request was sent with after it got a 401 */
+  invalidate?(request: AuthRequest): void;
+}
+
+export interface AuthProviderOptions {
+  /** Variables for non-secret settings such as tokenUrl or region */
+  environment?: Variables;
+  network?: NetworkAgents;
+  env?: NodeJS.ProcessEnv;
+}
+
+type AuthFactory<T extends AuthConfig["type"]> = (
+  config: Extract<AuthConfig, { type: T }>,
+  options: AuthProviderOptions,
+) => AuthProvider;
+
+const AUTH_PROVIDERS: { [T in AuthConfig["type"]]: AuthFactory<T> } = {
+  oauth2: (config, options) => new OAuth2ClientCredentials(config, options),
+  basic: (config, options) => {
+    const credentials = Buffer.from(
+      `${readSecret(options, config.usernameEnv, "usernameEnv")}:${readSecret(
+        options,
+        config.passwordEnv,
+        "passwordEnv",
+      )}`,
+    ).toString("base64");
+    return {
+      apply: async (request) =>
+        withHeaders(request, { Authorization: `Basic ${credentials}` }),
+    };
+  },
+  apiKey: (config, options) => {
+    const value = readSecret(options, config.valueEnv, "valueEnv");
+    return {
+      apply: async (request) => {
+        if (config.in === "header") {
+          return withHeaders(request, { [config.name]: value });
+        }
+        const url = new URL(request.url);
+        url.searchParams.set(config.name, value);
+        return { ...request, url: url.toString() };
+      },
+    };
+  },
+  awsSigV4: (config, options) => new AwsSigV4Signer(config, options),
+  hmac: (config, options) => new HmacSigner(config, options),
+};
+
+/**
+ * Create the provider for an auth config
+ * Secrets are read from environment variables immediately, so a missing
+ * variable fails the run before any request is sent.
+ */
+export function createAuthProvider(
+  config: AuthConfig,
+  options: AuthProviderOptions = {},
+): AuthProvider {
+  const resolved = resolveSettings(config, options.environment);
+  const factory = AUTH_PROVIDERS[resolved.type] as AuthFactory<typeof resolved.type>;
+  return factory(resolved, options);
+}
+
+/**
+ * OAuth2 client-credentials grant with an in-memory token cache
+ * Concurrent requests share one token request; tokens are refreshed shortly
+ * before they expire or after the API answers 401.
+ */
+class OAuth2ClientCredentials implements AuthProvider {
+  private clientId: string;
+  private clientSecret: string;
+  private token: { value: string; expiresAt: number } | null = null;
+  private refresh: Promise<{ value: string; expiresAt: number }> | null = null;
+
+  constructor(
+    private config: Extract<AuthConfig, { type: "oauth2" }>,
+    private options: AuthProviderOptions,
+  ) {
+    this.clientId = readSecret(options, config.clientIdEnv, "clientIdEnv");
+    this.clientSecret = readSecret(options, config.clientSecretEnv, "clientSecretEnv");
+  }
+
+  async apply(request: AuthRequest): Promise<AuthRequest> {
+    const token =
+      this.token && this.token.expiresAt > Date.now()
+        ? this.token
+        : await this.refreshToken();
+    return withHeaders(request, { Authorization: `Bearer ${token.value}` });
+  }
+
+  invalidate(request: AuthRequest): void {
+    // Concurrent 401s for the same token trigger a single refresh
+    if (this.token && request.headers.Authorization === `Bearer ${this.token.value}`) {
+      this.token = null;
+    }
+  }
+
+  /**
+   * Start a token request, or join the one in flight
+   * The request is stored before anything is awaited, so callers arriving at
+   * the same time share it; a failed request is not cached.
+   */
+  private refreshToken(): Promise<{ value: string; expiresAt: number }> {
+    if (!this.refresh) {
+      const refresh = this.fetchToken()
+        .then((token) => {
+          this.token = token;
+          return token;
+        })
+        .finally(() => {
+          if (this.refresh === refresh) {
+            this.refresh = null;
+          }
+        });
+      this.refresh = refresh;
+    }
+    return this.refresh;
+  }
+
+  private async fetchToken(): Promise<{ value: string; expiresAt: number }> {
+    const form = new URLSearchParams({ grant_type: "client_credentials" });
+    if (this.config.scope) form.set("scope", this.config.scope);
+    if (this.config.audience) form.set("audience", this.config.audience);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (this.config.clientAuthentication === "body") {
+      form.set("client_id", this.clientId);
+      form.set("client_secret", this.clientSecret);
+    } else {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${encodeURIComponent(this.clientId)}:${encodeURIComponent(this.clientSecret)}`,
+      ).toString("base64")}`;
+    }
+
+    const response = await axios.post(this.config.tokenUrl, form.toString(), {
+      headers,
+      validateStatus: () => true,
+      ...this.options.network?.forUrl(this.config.tokenUrl),
+    });
+
+    const data = response.data as { access_token?: string; expires_in?: number; error?: string };
+    if (response.status >= 400 || !data?.access_token) {
+      throw new Error(
+        `OAuth2 token request to ${this.config.tokenUrl} failed with ${response.status}${
+          data?.error ? ` (${data.error})` : ""
+        }`,
+      );
+    }
+
+    const lifetime = (data.expires_in ?? 3600) * 1000;
+    return {
+      value: data.access_token,
+      expiresAt: Date.now() + Math.max(0, lifetime - TOKEN_EXPIRY_MARGIN_MS),
+    };
+  }
+}
+
+/**
+ * AWS Signature Version 4 (header-based), without the AWS SDK
+ */
+class AwsSigV4Signer implements AuthProvider {
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private sessionToken?: string;
+
+  constructor(
+    private config: Extract<AuthConfig, { type: "awsSigV4" }>,
+    options: AuthProviderOptions,
+  ) {
+    this.accessKeyId = readSecret(options, config.accessKeyIdEnv ?? "AWS_ACCESS_KEY_ID", "accessKeyIdEnv");
+    this.secretAccessKey = readSecret(
+      options,
+      config.secretAccessKeyEnv ?? "AWS_SECRET_ACCESS_KEY",
+      "secretAccessKeyEnv",
+    );
+    this.sessionToken =
+      (options.env ?? process.env)[config.sessionTokenEnv ?? "AWS_SESSION_TOKEN"] || undefined;
+  }
+
+  async apply(request: AuthRequest): Promise<AuthRequest> {
+    const url = new URL(request.url);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(request.body ?? "");
+
+    const headers = withoutHeaders(request.headers, [
+      "authorization",
+      "x-amz-date",
+      "x-amz-security-token",
+      "x-amz-content-sha256",
+    ]);
+    headers["X-Amz-Date"] = amzDate;
+    headers["X-Amz-Content-Sha256"] = payloadHash;
+    if (this.sessionToken) {
+      headers["X-Amz-Security-Token"] = this.sessionToken;
+    }
+
+    const signed = Object.entries({ ...headers, host: url.host })
+      .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, " ")])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const signedHeaders = signed.map(([name]) => name).join(";");
+
+    // S3 paths are encoded once, every other service expects them encoded twice
+    const canonicalPath =
+      this.config.service === "s3"
+        ? url.pathname
+        : url.pathname
+            .split("/")
+            .map((segment) => encodeRfc3986(segment))
+            .join("/");
+    const canonicalQuery = Array.from(url.searchParams.entries())
+      .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+      .sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : 1) : ak < bk ? -1 : 1))
+      .map(([key, value]) => `${key}=${value}`)
+      .join("&");
+
+    const canonicalRequest = [
+      request.method.toUpperCase(),
+      canonicalPath || "/",
+      canonicalQuery,
+      signed.map(([name, value]) => `${name}:${value}\n`).join(""),
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${this.config.region}/${this.config.service}/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = [date, this.config.region, this.config.service, "aws4_request"].reduce<
+      Buffer | string
+    >((key, part) => hmac("sha256", key, part), `AWS4${this.secretAccessKey}`);
+    const signature = hmac("sha256", signingKey, stringToSign).toString("hex");
+
+    headers.Authorization = `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return { ...request, headers };
+  }
+}
+
+/**
+ * Shared-secret request signing
+ * Signs "METHOD\npath?query\ntimestamp\nsha256(body)" and sends the
+ * signature and timestamp (unix seconds) as headers.
+ */
+class HmacSigner implements AuthProvider {
+  private secret: string;
+  private keyId?: string;
+
+  constructor(
+    private config: Extract<AuthConfig, { type: "hmac" }>,
+    options: AuthProviderOptions,
+  ) {
+    this.secret = readSecret(options, config.secretEnv, "secretEnv");
+    this.keyId = config.keyIdEnv ? readSecret(options, config.keyIdEnv, "keyIdEnv") : undefined;
+  }
+
+  async apply(request: AuthRequest): Promise<AuthRequest> {
+    const url = new URL(request.url);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const payload = [
+      request.method.toUpperCase(),
+      `${url.pathname}${url.search}`,
+      timestamp,
+      sha256Hex(request.body ?? ""),
+    ].join("\n");
+    const signature = hmac(this.config.algorithm ?? "sha256", this.secret, payload).toString(
+      this.config.encoding ?? "hex",
+    );
+
+    const headers: Record<string, string> = {
+      [this.config.signatureHeader ?? "X-Signature"]: signature,
+      [this.config.timestampHeader ?? "X-Timestamp"]: timestamp,
+    };
+    if (this.keyId) {
+      headers[this.config.keyIdHeader ?? "X-Key-Id"] = this.keyId;
+    }
+    return withHeaders(request, headers);
+  }
+}
+
+function readSecret(options: AuthProviderOptions, name: string, field: string): string {
+  const value = (options.env ?? process.env)[name];
+  if (!value) {
+    throw new Error(`Auth credential missing: environment variable ${name} (${field}) is not set`);
+  }
+  return value;
+}
+
+/**
+ * Resolve {{variables}} in non-secret settings (tokenUrl, region, header names...)
+ */
+function resolveSettings(config: AuthConfig, environment?: Variables): AuthConfig {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [
+      key,
+      typeof value === "string" && !key.endsWith("Env")
+        ? replaceVariables(value, { environment })
+        : value,
+    ]),
+  ) as AuthConfig;
+}
+
+function withHeaders(request: AuthRequest, headers: Record<string, string>): AuthRequest {
+  return {
+    ...request,
+    headers: {
+      ...withoutHeaders(request.headers, Object.keys(headers)),
+      ...headers,
+    },
+  };
+}
+
+function withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  const lowerNames = names.map((name) => name.toLowerCase());
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !lowerNames.includes(name.toLowerCase())),
+  );
+}
+
+function hmac(algorithm: string, key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac(algorithm, key).update(data, "utf8").digest();
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
@@ -0,0 +1,298 @@
+import fs from "node:fs";
+
+import { writeOutput } from "./formats/index.js";
+import {
+  baselineSchema,
+  type Baseline,
+  type BaselineEntry,
+  type Collection,
+  type Report,
+} from "./types.js";
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Matches the platform's "2x slower" performance regression rule */
+export const DEFAULT_LATENCY_THRESHOLD = 2;
+
+/** Slowdowns smaller than this are noise, however large the ratio */
+const MIN_LATENCY_INCREASE_MS = 50;
+
+/** Array elements inspected when inferring an item schema */
+const MAX_ARRAY_SAMPLES = 100;
+
+export interface BaselineComparisonOptions {
+  /** Response time ratio over the baseline that counts as a regression (default: 2) */
+  latencyThreshold?: number;
+}
+
+/**
+ * Read a baseline snapshot, or undefined when the file does not exist yet
+ */
+export function loadBaseline(file: string): Baseline | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read baseline ${file}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const parsed = baselineSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid baseline file ${file}:\n${issues}`);
+  }
+
+  return parsed.data;
+}
+
+export function saveBaseline(file: string, baseline: Baseline): string {
+  return writeOutput(JSON.stringify(baseline, null, 2), file);
+}
+
+/**
+ * Snapshot status, latency and inferred response schema per endpoint
+ * Endpoints that got no response this run keep their previous entry, so a
+ * flaky run does not erase a known-good baseline.
+ */
+export function buildBaseline(
+  report: Report,
+  collection: Collection,
+  shapes: Map<string, JsonSchema>,
+  previous?: Baseline,
+): Baseline {
+  const names = new Map(collection.endpoints.map((endpoint) => [endpoint.id, endpoint.name]));
+  const endpoints: Record<string, BaselineEntry> = Object.fromEntries(
+    Object.entries(previous?.endpoints ?? {}).filter(([id]) => names.has(id)),
+  );
+
+  for (const result of report.results) {
+    if (result.actualStatus === undefined) continue;
+    endpoints[result.endpointId] = {
+      name: names.get(result.endpointId) ?? result.endpointId,
+      status: result.actualStatus,
+      responseTime: result.responseTime,
+      schema: shapes.get(result.endpointId),
+    };
+  }
+
+  return {
+    version: 1,
+    collectionId: report.collectionId,
+    environment: report.environment,
+    updatedAt: report.timestamp,
+    endpoints,
+  };
+}
+
+/**
+ * Compare a run against the baseline and describe each regression:
+ * status changes, removed/renamed fields, type changes and latency blow-ups
+ */
+export function compareWithBaseline(
+  baseline: Baseline,
+  report: Report,
+  collection: Collection,
+  shapes: Map<string, JsonSchema>,
+  options: BaselineComparisonOptions = {},
+): string[] {
+  const threshold = options.latencyThreshold ?? DEFAULT_LATENCY_THRESHOLD;
+  const names = new Map(collection.endpoints.map((endpoint) => [endpoint.id, endpoint.name]));
+  const regressions: string[] = [];
+
+  for (const result of report.results) {
+    const entry = baseline.endpoints[result.endpointId];
+    if (!entry || result.status === "SKIPPED") continue;
+
+    const label = names.get(result.endpointId) ?? entry.name;
+
+    if (result.actualStatus === undefined) {
+      regressions.push(
+        `${label}: request failed (baseline status ${entry.status}): ${result.error ?? "no response"}`,
+      );
+      continue;
+    }
+
+    // A different status usually means a different body, so shapes are not compared
+    if (result.actualStatus !== entry.status) {
+      regressions.push(`${label}: status changed ${entry.status} → ${result.actualStatus}`);
+      continue;
+    }
+
+    const shape = shapes.get(result.endpointId);
+    if (entry.schema && shape) {
+      regressions.push(
+        ...diffSchemas(entry.schema, shape).map((change) => `${label}: ${change}`),
+      );
+    }
+
+    const increase = result.responseTime - entry.responseTime;
+    if (
+      result.responseTime > entry.responseTime * threshold &&
+      increase >= MIN_LATENCY_INCREASE_MS
+    ) {
+      regressions.push(
+        `${label}: response time ${entry.responseTime}ms → ${result.responseTime}ms (${(
+          result.responseTime / Math.max(entry.responseTime, 1)
+        ).toFixed(1)}x baseline)`,
+      );
+    }
+  }
+
+  return regressions;
+}
+
+/**
+ * Infer a JSON Schema (draft 2020-12 subset) describing a response body
+ * Array items are merged, so fields missing from some elements are optional.
+ */
+export function inferSchema(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: "null" };
+  }
+
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, MAX_ARRAY_SAMPLES)
+      .map(inferSchema)
+      .reduce<JsonSchema | undefined>(
+        (merged, item) => (merged ? mergeSchemas(merged, item) : item),
+        undefined,
+      );
+    return items ? { type: "array", items } : { type: "array" };
+  }
+
+  if (typeof value === "object") {
+    const properties = Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, child]) => [
+        key,
+        inferSchema(child),
+      ]),
+    );
+    return { type: "object", properties, required: Object.keys(properties) };
+  }
+
+  return { type: typeof value };
+}
+
+/**
+ * Describe breaking shape changes between a baseline schema and the current one
+ * Added fields are not regressions; a removed field paired with an added
+ * field of the same type at the same level is reported as a rename.
+ * A value recorded as null may hold any type later (and the other way round),
+ * since a single response only shows one state of a nullable field.
+ */
+export function diffSchemas(before: JsonSchema, after: JsonSchema, path = "$"): string[] {
+  const beforeTypes = getTypes(before).filter((type) => type !== "null");
+  const afterTypes = getTypes(after).filter((type) => type !== "null");
+  if (beforeTypes.length === 0 || afterTypes.length === 0) {
+    return [];
+  }
+
+  if (beforeTypes.join("|") !== afterTypes.join("|")) {
+    const subject = path === "$" ? "response body" : `field ${path}`;
+    return [
+      `${subject} changed type ${beforeTypes.join(" | ")} → ${afterTypes.join(" | ")}`,
+    ];
+  }
+
+  const changes: string[] = [];
+
+  if (beforeTypes.includes("object")) {
+    const beforeProps = getProperties(before);
+    const afterProps = getProperties(after);
+    const required = new Set(getRequired(before));
+    const stillRequired = new Set(getRequired(after));
+    const added = Object.keys(afterProps).filter((key) => !(key in beforeProps));
+
+    for (const [key, schema] of Object.entries(beforeProps)) {
+      const childPath = joinPath(path, key);
+      if (key in afterProps) {
+        if (required.has(key) && !stillRequired.has(key)) {
+          changes.push(`field ${childPath} is missing from some items`);
+        }
+        changes.push(...diffSchemas(schema, afterProps[key], childPath));
+        continue;
+      }
+      // Optional fields (absent from some array items) may legitimately be missing
+      if (!required.has(key)) continue;
+
+      const renameIndex = added.findIndex(
+        (candidate) => getTypes(afterProps[candidate]).join("|") === getTypes(schema).join("|"),
+      );
+      if (renameIndex >= 0) {
+        const [renamed] = added.splice(renameIndex, 1);
+        changes.push(`field ${childPath} renamed to ${joinPath(path, renamed)}`);
+      } else {
+        changes.push(`field ${childPath} removed`);
+      }
+    }
+  }
+
+  // Empty arrays carry no item schema, so there is nothing to compare
+  if (beforeTypes.includes("array") && isSchema(before.items) && isSchema(after.items)) {
+    changes.push(...diffSchemas(before.items, after.items, `${path}[]`));
+  }
+
+  return changes;
+}
+
+function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const types = Array.from(new Set([...getTypes(a), ...getTypes(b)])).sort();
+  const merged: JsonSchema = { type: types.length === 1 ? types[0] : types };
+
+  if (types.includes("object")) {
+    const objects = [a, b].filter((schema) => getTypes(schema).includes("object"));
+    const properties: Record<string, JsonSchema> = {};
+    for (const schema of objects) {
+      for (const [key, child] of Object.entries(getProperties(schema))) {
+        properties[key] = properties[key] ? mergeSchemas(properties[key], child) : child;
+      }
+    }
+    merged.properties = properties;
+    merged.required = Object.keys(properties).filter((key) =>
+      objects.every((schema) => getRequired(schema).includes(key)),
+    );
+  }
+
+  if (types.includes("array")) {
+    const items = [a.items, b.items].filter(isSchema);
+    if (items.length > 0) {
+      merged.items = items.length === 2 ? mergeSchemas(items[0], items[1]) : items[0];
+    }
+  }
+
+  return merged;
+}
+
+function getTypes(schema: JsonSchema): string[] {
+  const type = schema.type;
+  return (Array.isArray(type) ? type.map(String) : type ? [String(type)] : []).sort();
+}
+
+function getProperties(schema: JsonSchema): Record<string, JsonSchema> {
+  return isSchema(schema.properties)
+    ? (schema.properties as Record<string, JsonSchema>)
+    : {};
+}
+
+function getRequired(schema: JsonSchema): string[] {
+  return Array.isArray(schema.required) ? schema.required.map(String) : [];
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
@@ -1,79 +1,437 @@
 import axios, { AxiosError } from "axios";
-import type { EndpointDefinition, CheckResult } from "./types.js";
+import { AssertionEngine } from "./assertions.js";
+import {
+  findUnresolvedVariables,
+  replaceVariables,
+  type Variables,
+} from "./environment.js";
+import {
+  RETRY_AFTER_STATUSES,
+  RETRYABLE_ERROR_CODES,
+  RETRYABLE_STATUSES,
+  RateLimiter,
+  computeBackoff,
+  mapWithConcurrency,
+  parseRetryAfter,
+  sleep,
+} from "./request-control.js";
+import type { AuthProvider } from "./auth.js";
+import type { NetworkAgents } from "./network.js";
+import {
+  getTimingPhases,
+  summarizeLatency,
+  timedTransport,
+} from "./request-timing.js";
+import {
+  extractValueFromResponse,
+  type CapturedResponse,
+} from "./response-values.js";
+import type {
+  CheckAttempt,
+  EndpointDefinition,
+  CheckResult,
+  Percentile,
+  TimingPhases,
+} from "./types.js";
+
+export interface EndpointCheckerOptions {
+  environment?: Variables;
+  /** Proxy, CA and client certificate agents */
+  network?: NetworkAgents;
+  /** Adds credentials or a signature to every request */
+  auth?: AuthProvider;
+  /** Maximum endpoints checked at the same time (default: 10) */
+  concurrency?: number;
+  /** Retries after a network error, timeout or 429/502/503/504 response (default: 0) */
+  retries?: number;
+  /** Base delay for exponential backoff in ms (default: 500) */
+  retryDelay?: number;
+  /** Upper bound for a single backoff or Retry-After wait in ms (default: 30000) */
+  maxRetryDelay?: number;
+  /** Global requests-per-second ceiling across all endpoints */
+  rps?: number;
+  /** Requests per endpoint; above 1, maxResponseTime applies to a percentile (default: 1) */
+  samples?: number;
+  /** Percentile checked against maxResponseTime when sampling (default: p90) */
+  percentile?: Percentile;
+  /** Called with the final response of every request, e.g. to record response shapes */
+  onResponse?: (endpoint: EndpointDefinition, response: CapturedResponse) => void;
+}
+
+interface AttemptOutcome {
+  result: CheckResult;
+  response?: CapturedResponse;
+  /** No response because of a network failure or timeout */
+  networkError?: boolean;
+}
+
+const DEFAULT_CONCURRENCY = 10;
+const DEFAULT_RETRY_DELAY = 500;
+const DEFAULT_MAX_RETRY_DELAY = 30_000;
+const DEFAULT_PERCENTILE: Percentile = "p90";
+const DEFAULT_TIMEOUT = 30_000;
 
 export class EndpointChecker {
-  async checkEndpoint(endpoint: EndpointDefinition): Promise<CheckResult> {
-    const startTime = Date.now();
+  private assertionEngine = new AssertionEngine();
+  private rateLimiter: RateLimiter | null;
 
-    try {
-      const response = await axios({
-        method: endpoint.method,
-        url: endpoint.url,
-        headers: endpoint.headers,
-        data: endpoint.body ? JSON.parse(endpoint.body) : undefined,
-        validateStatus: () => true, // Don't throw on any status
-        timeout: endpoint.maxResponseTime || 30000,
+  constructor(private options: EndpointCheckerOptions = {}) {
+    this.rateLimiter = options.rps ? new RateLimiter(options.rps) : null;
+  }
+
+  async checkEndpoint(
+    endpoint: EndpointDefinition,
+    captured: Variables = {},
+  ): Promise<CheckResult> {
+    return (await this.measureEndpoint(endpoint, captured)).result;
+  }
+
+  /**
+   * Run an endpoint once, or --samples times with latency percentiles.
+   * A sampled endpoint reports its first errored or failed sample (else the
+   * last one), and maxResponseTime is checked against the chosen percentile
+   * instead of any single request.
+   */
+  private async measureEndpoint(
+    endpoint: EndpointDefinition,
+    captured: Variables,
+  ): Promise<AttemptOutcome> {
+    const samples = endpoint.samples ?? this.options.samples ?? 1;
+    if (samples <= 1) {
+      return this.runEndpoint(endpoint, captured, false);
+    }
+
+    const outcomes: AttemptOutcome[] = [];
+    for (let sample = 0; sample < samples; sample++) {
+      outcomes.push(await this.runEndpoint(endpoint, captured, true));
+    }
+
+    const outcome =
+      outcomes.find(({ result }) => result.status === "ERROR") ??
+      outcomes.find(({ result }) => result.status === "FAILED") ??
+      outcomes[outcomes.length - 1];
+    const { result } = outcome;
+
+    const responded = outcomes
+      .map((sampled) => sampled.result)
+      .filter((sampled) => sampled.status !== "ERROR");
+    if (responded.length === 0) {
+      return outcome;
+    }
+
+    const latency = summarizeLatency(
+      responded.map((sampled) => sampled.responseTime),
+      responded
+        .map((sampled) => sampled.phases)
+        .filter((phases): phases is TimingPhases => phases !== undefined),
+    );
+    const percentile =
+      endpoint.responseTimePercentile ??
+      this.options.percentile ??
+      DEFAULT_PERCENTILE;
+
+    result.latency = latency;
+    result.responseTime = latency[percentile];
+
+    if (endpoint.maxResponseTime && result.status !== "ERROR") {
+      const failures = this.assertionEngine.checkResponseTime(
+        endpoint.maxResponseTime,
+        latency[percentile],
+        percentile,
+      );
+      result.assertions = {
+        statusCode: true,
+        ...result.assertions,
+        responseTime: failures.length === 0,
+      };
+      if (failures.length > 0) {
+        result.status = "FAILED";
+        result.failures = [...(result.failures ?? []), ...failures];
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Run an endpoint, retrying network errors, timeouts and retryable statuses with backoff
+   * Earlier attempts are recorded on the final result
+   */
+  private async runEndpoint(
+    endpoint: EndpointDefinition,
+    captured: Variables,
+    sampled: boolean,
+  ): Promise<AttemptOutcome> {
+    const retries = endpoint.retries ?? this.options.retries ?? 0;
+    const baseDelay = this.options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    const maxDelay = this.options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    const attempts: CheckAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      await this.rateLimiter?.acquire();
+      const outcome = await this.runAttempt(endpoint, captured, sampled);
+      const { result, response } = outcome;
+
+      const retryable =
+        outcome.networkError === true ||
+        (result.actualStatus !== undefined &&
+          RETRYABLE_STATUSES.includes(result.actualStatus));
+
+      if (!retryable || attempt > retries) {
+        if (attempts.length > 0) {
+          result.attempts = attempts;
+        }
+        if (response) {
+          this.options.onResponse?.(endpoint, response);
+        }
+        return outcome;
+      }
+
+      const retryAfter =
+        result.actualStatus !== undefined &&
+        RETRY_AFTER_STATUSES.includes(result.actualStatus)
+          ? parseRetryAfter(findHeader(response?.headers, "retry-after"))
+          : undefined;
+      const delay = Math.min(
+        maxDelay,
+        retryAfter ?? computeBackoff(attempt, baseDelay, maxDelay),
+      );
+
+      attempts.push({
+        attempt,
+        status: result.actualStatus,
+        error: result.error,
+        responseTime: result.responseTime,
+        delay,
+        retryAfter: retryAfter !== undefined,
       });
+      await sleep(delay);
+    }
+  }
+
+  private async runAttempt(
+    endpoint: EndpointDefinition,
+    captured: Variables,
+    sampled: boolean,
+  ): Promise<AttemptOutcome> {
+    let startTime = Date.now();
+
+    try {
+      const request = this.resolveRequest(endpoint, captured);
+      const send = async () => {
+        const signed = this.options.auth
+          ? await this.options.auth.apply({ method: endpoint.method, ...request })
+          : request;
+        const response = await axios({
+          method: endpoint.method,
+          url: signed.url,
+          headers: signed.headers,
+          // The body is sent exactly as resolved so signatures cover the same bytes
+          data: signed.body,
+          validateStatus: () => true, // Don't throw on any status
+          // A single slow sample must not abort the run; percentiles gate latency
+          timeout:
+            endpoint.timeout ??
+            (sampled ? DEFAULT_TIMEOUT : endpoint.maxResponseTime || DEFAULT_TIMEOUT),
+          transport: timedTransport,
+          ...this.options.network?.forUrl(signed.url),
+        });
+        return { signed, response };
+      };
+
+      const first = await send();
+      let response = first.response;
+      // An expired or revoked token gets one refresh before the result counts
+      if (response.status === 401 && this.options.auth?.invalidate) {
+        this.options.auth.invalidate({ method: endpoint.method, ...first.signed });
+        startTime = Date.now();
+        response = (await send()).response;
+      }
 
       const responseTime = Date.now() - startTime;
 
       // Run assertions
-      const assertions = {
-        statusCode: response.status === endpoint.expectedStatus,
-        responseTime: endpoint.maxResponseTime
-          ? responseTime <= endpoint.maxResponseTime
-          : undefined,
-        bodyContains: endpoint.assertions?.bodyContains
-          ? this.checkBodyContains(response.data, endpoint.assertions.bodyContains)
-          : undefined,
-        bodySchema: endpoint.assertions?.bodySchema
-          ? this.validateSchema(response.data, endpoint.assertions.bodySchema)
-          : undefined,
-      };
+      const { assertions, failures } = this.assertionEngine.evaluate(endpoint, {
+        status: response.status,
+        headers: response.headers as Record<string, unknown>,
+        data: response.data,
+        responseTime: sampled ? undefined : responseTime,
+      });
 
       // Determine overall status
-      const allPassed = Object.values(assertions).every((v) => v === true || v === undefined);
+      const allPassed = failures.length === 0;
 
       return {
-        endpointId: endpoint.id,
-        status: allPassed ? "PASSED" : "FAILED",
-        actualStatus: response.status,
-        responseTime,
-        timestamp: new Date().toISOString(),
-        assertions,
+        result: {
+          endpointId: endpoint.id,
+          status: allPassed ? "PASSED" : "FAILED",
+          actualStatus: response.status,
+          responseTime,
+          timestamp: new Date().toISOString(),
+          assertions,
+          failures: failures.length > 0 ? failures : undefined,
+          phases: getTimingPhases(response.request),
+        },
+        response: {
+          headers: response.headers as Record<string, unknown>,
+          data: response.data,
+        },
       };
     } catch (error) {
       const responseTime = Date.now() - startTime;
 
       return {
-        endpointId: endpoint.id,
-        status: "ERROR",
-        responseTime,
-        error: error instanceof AxiosError
-          ? `${error.code}: ${error.message}`
-          : error instanceof Error
-          ? error.message
-          : String(error),
-        timestamp: new Date().toISOString(),
+        result: {
+          endpointId: endpoint.id,
+          status: "ERROR",
+          responseTime,
+          error: error instanceof AxiosError
+            ? `${error.code}: ${error.message}`
+            : error instanceof Error
+            ? error.message
+            : String(error),
+          timestamp: new Date().toISOString(),
+        },
+        networkError:
+          error instanceof AxiosError &&
+          RETRYABLE_ERROR_CODES.includes(error.code ?? ""),
       };
     }
   }
 
-  private checkBodyContains(body: unknown, patterns: string[]): boolean {
-    const bodyStr = typeof body === "string" ? body : JSON.stringify(body);
-    return patterns.every((pattern) => bodyStr.includes(pattern));
-  }
+  private resolveRequest(endpoint: EndpointDefinition, captured: Variables) {
+    // Captured values behave like environment variables, as in the extension
+    const context = {
+      environment: { ...this.options.environment, ...captured },
+      fileVariables: endpoint.variables,
+    };
+
+    const url = replaceVariables(endpoint.url, context);
+    const unresolved = findUnresolvedVariables(url);
+    if (unresolved.length > 0) {
+      throw new Error(`Unresolved variables in URL: ${unresolved.join(", ")}`);
+    }
 
-  private validateSchema(body: unknown, schema: Record<string, unknown>): boolean {
-    // Simple schema validation - check if all required keys exist
-    if (typeof body !== "object" || body === null) return false;
+    const headers: Record<string, string> = Object.fromEntries(
+      Object.entries(endpoint.headers ?? {}).map(([key, value]) => [
+        key,
+        replaceVariables(value, context),
+      ]),
+    );
+    const body = endpoint.body ? replaceVariables(endpoint.body, context) : undefined;
 
-    const bodyObj = body as Record<string, unknown>;
-    return Object.keys(schema).every((key) => key in bodyObj);
+    // .http bodies are not always JSON (form data, plain text)
+    const hasContentType = Object.keys(headers).some(
+      (key) => key.toLowerCase() === "content-type",
+    );
+    if (body && !hasContentType && isJson(body)) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    return { url, headers, body };
   }
 
   async checkAll(endpoints: EndpointDefinition[]): Promise<CheckResult[]> {
-    // Run checks in parallel
-    return Promise.all(endpoints.map((endpoint) => this.checkEndpoint(endpoint)));
+    // Run checks in parallel, capped by the concurrency limit
+    return mapWithConcurrency(
+      endpoints,
+      this.options.concurrency ?? DEFAULT_CONCURRENCY,
+      (endpoint) => this.checkEndpoint(endpoint),
+    );
+  }
+
+  /**
+   * Run endpoints in order, feeding values captured by @set directives into
+   * later requests. Steps referencing a variable that could not be captured
+   * are skipped with the reason.
+   */
+  async checkFlow(endpoints: EndpointDefinition[]): Promise<CheckResult[]> {
+    const captured: Variables = {};
+    const unavailable = new Map<string, string>();
+    const results: CheckResult[] = [];
+
+    for (const endpoint of endpoints) {
+      const blockedBy = this.getReferencedVariables(endpoint).filter((name) =>
+        unavailable.has(name),
+      );
+
+      if (blockedBy.length > 0) {
+        results.push({
+          endpointId: endpoint.id,
+          status: "SKIPPED",
+          skipReason: blockedBy.map((name) => unavailable.get(name)).join("; "),
+          responseTime: 0,
+          timestamp: new Date().toISOString(),
+        });
+        endpoint.setDirectives?.forEach((directive) =>
+          unavailable.set(
+            directive.varName,
+            `${directive.varName} not captured: "${endpoint.name}" was skipped`,
+          ),
+        );
+        continue;
+      }
+
+      const { result, response } = await this.measureEndpoint(endpoint, captured);
+      results.push(result);
+
+      // Any 2xx response is captured from, even when an assertion failed
+      const succeeded =
+        response !== undefined &&
+        result.actualStatus !== undefined &&
+        result.actualStatus >= 200 &&
+        result.actualStatus < 300;
+
+      for (const directive of endpoint.setDirectives ?? []) {
+        const value = succeeded
+          ? extractValueFromResponse(response, directive.responsePath)
+          : undefined;
+
+        if (value !== undefined) {
+          captured[directive.varName] = value;
+          unavailable.delete(directive.varName);
+        } else {
+          unavailable.set(
+            directive.varName,
+            succeeded
+              ? `${directive.varName} not captured: ${directive.responsePath} not found in "${endpoint.name}" response`
+              : result.actualStatus === undefined
+                ? `${directive.varName} not captured: "${endpoint.name}" errored`
+                : `${directive.varName} not captured: "${endpoint.name}" returned ${result.actualStatus}`,
+          );
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private getReferencedVariables(endpoint: EndpointDefinition): string[] {
+    const templates = [
+      endpoint.url,
+      endpoint.body ?? "",
+      ...Object.values(endpoint.headers ?? {}),
+    ];
+    return Array.from(
+      new Set(templates.flatMap((template) => findUnresolvedVariables(template))),
+    );
+  }
+}
+
+function findHeader(
+  headers: Record<string, unknown> | undefined,
+  name: string,
+): unknown {
+  return Object.entries(headers ?? {}).find(
+    ([key]) => key.toLowerCase() === name,
+  )?.[1];
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
   }
 }
@@ -1,18 +1,138 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
+import { EXPORT_FORMATS, IMPORT_FORMATS } from "@watchapi/parsers";
+import { Argument, Command, InvalidArgumentError, Option } from "commander";
 import { config } from "dotenv";
-import { DEFAULT_API_URL, loadAuthConfig } from "./auth-config.js";
 import { analyzeCommand } from "./commands/analyze.js";
 import { checkCommand } from "./commands/check.js";
+import { DIFF_FORMATS, diffCommand } from "./commands/diff.js";
+import { exportCommand } from "./commands/export.js";
+import { importCommand } from "./commands/import.js";
 import { loginCommand } from "./commands/login.js";
+import { loadCommand } from "./commands/load.js";
 import { logoutCommand } from "./commands/logout.js";
+import { monitorCommand } from "./commands/monitor.js";
+import {
+  resolveCollectionSource,
+  resolvePlatformCredentials,
+} from "./commands/shared.js";
 import { syncCommand } from "./commands/sync.js";
 import { verifyCommand } from "./commands/verify.js";
+import { OUTPUT_FORMATS } from "./formats/index.js";
+import { parseDuration, parseStage, type LoadStage } from "./load.js";
+import type { NetworkSettings } from "./types.js";
 
 // Load .env file
 config();
 
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return parsed;
+}
+
+function parseNonNegativeInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Must be zero or a positive integer.");
+  }
+  return parsed;
+}
+
+function parsePositiveNumber(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Must be a positive number.");
+  }
+  return parsed;
+}
+
+function parseNonNegativeNumber(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Must be zero or a positive number.");
+  }
+  return parsed;
+}
+
+function parseDurationOption(value: string): number {
+  try {
+    return parseDuration(value);
+  } catch (error) {
+    throw new InvalidArgumentError((error as Error).message);
+  }
+}
+
+function collectStage(value: string, previous: LoadStage[] = []): LoadStage[] {
+  try {
+    return [...previous, parseStage(value)];
+  } catch (error) {
+    throw new InvalidArgumentError((error as Error).message);
+  }
+}
+
+function parseFraction(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw new InvalidArgumentError("Must be a number between 0 and 1.");
+  }
+  return parsed;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Proxy and TLS flags shared by every command that sends requests
+ */
+function addNetworkOptions(command: Command): Command {
+  return command
+    .option(
+      "--proxy <url>",
+      "Proxy for all requests (default: HTTPS_PROXY / HTTP_PROXY; \"\" disables)",
+    )
+    .option(
+      "--proxy-bypass <hosts>",
+      "Comma-separated hosts that skip the proxy (default: NO_PROXY)",
+    )
+    .option("--ca <file>", "Extra CA bundle (PEM) to trust; repeatable", collect)
+    .option("--cert <file>", "Client certificate (PEM) for mutual TLS")
+    .option("--key <file>", "Client private key (PEM) for mutual TLS")
+    .option("--pfx <file>", "Client certificate and key (PKCS#12) for mutual TLS")
+    .option(
+      "--passphrase <passphrase>",
+      "Passphrase for --key or --pfx (default: WATCHAPI_CERT_PASSPHRASE)",
+    )
+    .option("--insecure", "Skip TLS certificate verification");
+}
+
+interface NetworkOptions {
+  proxy?: string;
+  proxyBypass?: string;
+  ca?: string[];
+  cert?: string;
+  key?: string;
+  pfx?: string;
+  passphrase?: string;
+  insecure?: boolean;
+}
+
+function getNetworkSettings(options: NetworkOptions): NetworkSettings {
+  return {
+    proxy: options.proxy,
+    noProxy: options.proxyBypass,
+    ca: options.ca,
+    cert: options.cert,
+    key: options.key,
+    pfx: options.pfx,
+    passphrase: options.passphrase ?? process.env.WATCHAPI_CERT_PASSPHRASE,
+    insecure: options.insecure,
+  };
+}
+
 const program = new Command();
 
 program
@@ -34,7 +154,12 @@ program
     "--include <globs...>",
     "Glob(s) for router files or OpenAPI spec path/URL",
   )
-  .option("--format <format>", "Output format: table | json", "table")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(OUTPUT_FORMATS)
+      .default("table"),
+  )
+  .option("-o, --output <file>", "Write the formatted report to a file")
   .option("-v, --verbose", "Enable verbose logging", false)
   .option(
     "--router-factory <names...>",
@@ -44,6 +169,39 @@ program
     "--router-identifier-pattern <regex>",
     "Regex to detect router identifiers (default: /router$/i)",
   )
+  .option(
+    "--config <path>",
+    "Rule config file (default: watchapi.config.{ts,js,json} in root)",
+  )
+  .option(
+    "--plugin <modules...>",
+    "Rule plugin packages or paths (added to the config's plugins)",
+  )
+  .option(
+    "--baseline <file>",
+    "Report only issues that are not in this baseline, plus fixed ones",
+  )
+  .option(
+    "--update-baseline",
+    "Write this run's issues to the --baseline file instead of comparing",
+  )
+  .addOption(
+    new Option(
+      "--fail-on <severity>",
+      "Lowest severity of a reported issue that fails the run",
+    )
+      .choices(["info", "warn", "error"])
+      .default("error"),
+  )
+  .option(
+    "--changed-since <ref>",
+    "Only analyze routers, route files, specs and controllers changed since a git ref",
+  )
+  .option("--fix", "Apply the fixes offered by reported issues")
+  .option(
+    "--fix-dry-run",
+    "Print the fixes as a unified diff without changing files",
+  )
   .action(async (options) => {
     await analyzeCommand({
       target: options.target,
@@ -51,51 +209,394 @@ program
       tsconfig: options.tsconfig,
       include: options.include,
       format: options.format,
+      output: options.output,
       verbose: options.verbose,
       routerFactory: options.routerFactory,
       routerIdentifierPattern: options.routerIdentifierPattern,
+      config: options.config,
+      plugin: options.plugin,
+      baseline: options.baseline,
+      updateBaseline: options.updateBaseline,
+      failOn: options.failOn,
+      changedSince: options.changedSince,
+      fix: options.fix,
+      fixDryRun: options.fixDryRun,
+    });
+  });
+
+addNetworkOptions(
+  program
+    .command("check")
+    .description("Run API checks for a collection")
+    .option("-c, --collection <id>", "Collection ID to check")
+    .option(
+      "-f, --file <path>",
+      "Local collection JSON, .http file or directory of .http files (no platform required)",
+    )
+    .option(
+      "-e, --env <environment>",
+      "Environment name (e.g., production, staging); selects variables from rest-client.env.json when present",
+    )
+    .option(
+      "--env-file <path>",
+      "Path to rest-client.env.json (default: next to --file, then cwd)",
+    )
+    .option("--api-url <url>", "API platform URL")
+    .option("--api-token <token>", "API authentication token")
+    .option(
+      "--fail-on <mode>",
+      "When to fail the CI/CD pipeline (any|regressions)",
+      "regressions",
+    )
+    .option("--no-submit", "Run checks without submitting the report")
+    .option(
+      "--flow",
+      "Run endpoints in order, passing @set captures to later requests",
+      false,
+    )
+    .option(
+      "--concurrency <n>",
+      "Maximum endpoints checked at the same time",
+      parsePositiveInt,
+      10,
+    )
+    .option(
+      "--retries <n>",
+      "Retries per endpoint after network errors, timeouts or 429/502/503/504 responses",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--retry-delay <ms>",
+      "Base delay for exponential backoff between retries",
+      parseNonNegativeInt,
+      500,
+    )
+    .option("--rps <n>", "Global requests-per-second ceiling", parsePositiveNumber)
+    .option(
+      "--samples <n>",
+      "Requests per endpoint; reports p50/p90/p99 and phase timings",
+      parsePositiveInt,
+      1,
+    )
+    .addOption(
+      new Option(
+        "--percentile <percentile>",
+        "Percentile checked against maxResponseTime when sampling",
+      )
+        .choices(["p50", "p90", "p99"])
+        .default("p90"),
+    )
+    .option(
+      "--baseline <file>",
+      "Compare status, response shape and latency with a local baseline snapshot",
+    )
+    .option(
+      "--update-baseline",
+      "Write this run's results to the --baseline file instead of comparing",
+      false,
+    )
+    .option(
+      "--latency-threshold <factor>",
+      "Response time ratio over the baseline that counts as a regression",
+      parsePositiveNumber,
+      2,
+    )
+    .addOption(
+      new Option("--format <format>", "Output format")
+        .choices(OUTPUT_FORMATS)
+        .default("table"),
+    )
+    .option("-o, --output <file>", "Write the formatted report to a file")
+    .option(
+      "--metrics-file <file>",
+      "Write Prometheus metrics for this run (node_exporter textfile collector)",
+    ),
+)
+  .action(async (options) => {
+    await checkCommand({
+      ...resolveCollectionSource(options),
+      submit: options.submit,
+      flow: options.flow,
+      concurrency: options.concurrency,
+      retries: options.retries,
+      retryDelay: options.retryDelay,
+      rps: options.rps,
+      samples: options.samples,
+      percentile: options.percentile,
+      baseline: options.baseline,
+      updateBaseline: options.updateBaseline,
+      latencyThreshold: options.latencyThreshold,
+      env: options.env,
+      envFile: options.envFile,
+      network: getNetworkSettings(options),
+      failOn: options.failOn as "any" | "regressions",
+      format: options.format,
+      output: options.output,
+      metricsFile: options.metricsFile,
+    });
+  });
+
+addNetworkOptions(
+  program
+    .command("monitor")
+    .description(
+      "Continuously check active endpoints on their intervals and report up/down transitions",
+    )
+    .option("-c, --collection <id>", "Collection ID to monitor")
+    .option(
+      "-f, --file <path>",
+      "Local collection JSON, .http file or directory of .http files (no platform required)",
+    )
+    .option(
+      "-e, --env <environment>",
+      "Environment name; selects variables from rest-client.env.json when present",
+    )
+    .option(
+      "--env-file <path>",
+      "Path to rest-client.env.json (default: next to --file, then cwd)",
+    )
+    .option("--api-url <url>", "API platform URL")
+    .option("--api-token <token>", "API authentication token")
+    .option(
+      "--interval <ms>",
+      "Check interval for endpoints without their own interval",
+      parsePositiveInt,
+      300000,
+    )
+    .option(
+      "--jitter <fraction>",
+      "Random spread applied to each interval (0-1)",
+      parseFraction,
+      0.1,
+    )
+    .option(
+      "--window <n>",
+      "Results kept per endpoint for availability and percentiles",
+      parsePositiveInt,
+      20,
+    )
+    .option(
+      "--failure-threshold <n>",
+      "Consecutive failures before an endpoint is reported down",
+      parsePositiveInt,
+      2,
+    )
+    .option(
+      "--recovery-threshold <n>",
+      "Consecutive passes before an endpoint is reported up again",
+      parsePositiveInt,
+      2,
+    )
+    .option(
+      "--sink <sink>",
+      "Event sink: stdout, jsonl:<file> or webhook:<url>; repeatable (default: stdout)",
+      collect,
+    )
+    .option("--metrics <[host:]port>", "Serve Prometheus metrics at /metrics")
+    .option(
+      "--retries <n>",
+      "Retries per check after network errors, timeouts or 429/502/503/504 responses",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--retry-delay <ms>",
+      "Base delay for exponential backoff between retries",
+      parseNonNegativeInt,
+      500,
+    )
+    .option("--rps <n>", "Global requests-per-second ceiling", parsePositiveNumber),
+)
+  .action(async (options) => {
+    await monitorCommand({
+      ...resolveCollectionSource(options),
+      env: options.env,
+      envFile: options.envFile,
+      interval: options.interval,
+      jitter: options.jitter,
+      window: options.window,
+      failureThreshold: options.failureThreshold,
+      recoveryThreshold: options.recoveryThreshold,
+      sinks: options.sink,
+      metrics: options.metrics,
+      retries: options.retries,
+      retryDelay: options.retryDelay,
+      rps: options.rps,
+      network: getNetworkSettings(options),
+    });
+  });
+
+addNetworkOptions(
+  program
+    .command("load")
+    .description(
+      "Load test a collection at a target request rate or number of virtual users",
+    )
+    .option("-c, --collection <id>", "Collection ID to load test")
+    .option(
+      "-f, --file <path>",
+      "Local collection JSON, .http file or directory of .http files (no platform required)",
+    )
+    .option(
+      "-e, --env <environment>",
+      "Environment name; selects variables from rest-client.env.json when present",
+    )
+    .option(
+      "--env-file <path>",
+      "Path to rest-client.env.json (default: next to --file, then cwd)",
+    )
+    .option("--api-url <url>", "API platform URL")
+    .option("--api-token <token>", "API authentication token")
+    .option(
+      "--rps <n>",
+      "Requests per second (starting rate when --stage is used)",
+      parseNonNegativeNumber,
+    )
+    .option(
+      "--vus <n>",
+      "Virtual users sending requests back to back (starting count when --stage is used)",
+      parseNonNegativeInt,
+    )
+    .option(
+      "-d, --duration <time>",
+      "Run length without stages, e.g. 30s, 5m",
+      parseDurationOption,
+      30_000,
+    )
+    .option(
+      "--stage <time:target>",
+      "Ramp linearly to target over time, e.g. 30s:50; repeatable",
+      collectStage,
+    )
+    .option(
+      "--endpoint <id|name>",
+      "Only run this endpoint; repeatable (default: all)",
+      collect,
+    )
+    .option(
+      "--threshold <expr>",
+      "Fail when not met, e.g. p95<500, error_rate<1%, \"Get user:rps>=20\"; repeatable",
+      collect,
+    )
+    .option(
+      "--max-in-flight <n>",
+      "Open requests before --rps iterations are dropped",
+      parsePositiveInt,
+      1000,
+    )
+    .addOption(
+      new Option("--format <format>", "Output format")
+        .choices(["table", "json"])
+        .default("table"),
+    )
+    .option("-o, --output <file>", "Write the JSON report to a file"),
+)
+  .action(async (options) => {
+    await loadCommand({
+      ...resolveCollectionSource(options),
+      env: options.env,
+      envFile: options.envFile,
+      rps: options.rps,
+      vus: options.vus,
+      duration: options.duration,
+      stages: options.stage,
+      endpoints: options.endpoint,
+      thresholds: options.threshold,
+      maxInFlight: options.maxInFlight,
+      network: getNetworkSettings(options),
+      format: options.format,
+      output: options.output,
     });
   });
 
 program
-  .command("check")
-  .description("Run API checks for a collection")
-  .requiredOption("-c, --collection <id>", "Collection ID to check")
+  .command("import")
+  .description(
+    "Convert a Postman, Insomnia, Bruno or HAR collection into a local collection file",
+  )
+  .argument("<source>", "Postman/Insomnia export, HAR file or Bruno collection folder")
+  .addOption(
+    new Option("--format <format>", "Source format (auto-detected when omitted)").choices(
+      IMPORT_FORMATS,
+    ),
+  )
   .option(
-    "-e, --env <environment>",
-    "Environment name (e.g., production, staging)",
-    "production",
+    "--environment <file>",
+    "Postman environment export to import; repeatable",
+    collect,
   )
-  .option("--api-url <url>", "API platform URL")
-  .option("--api-token <token>", "API authentication token")
+  .option("-o, --output <file>", "Write the collection JSON to a file (default: stdout)")
   .option(
-    "--fail-on <mode>",
-    "When to fail the CI/CD pipeline (any|regressions)",
-    "regressions",
+    "--env-file <path>",
+    "rest-client.env.json to merge environments into (default: next to --output, then cwd)",
   )
-  .action(async (options) => {
-    const storedAuth = loadAuthConfig();
-    const apiUrl =
-      options.apiUrl ||
-      process.env.WATCHAPI_URL ||
-      storedAuth?.apiUrl ||
-      DEFAULT_API_URL;
-    const apiToken =
-      options.apiToken || process.env.WATCHAPI_TOKEN || storedAuth?.apiToken;
-
-    if (!apiToken) {
-      console.error(
-        "Error: API token is required. Set WATCHAPI_TOKEN env var or use --api-token",
-      );
-      process.exit(1);
-    }
+  .option("--no-env-file", "Do not write environments")
+  .action(async (source, options) => {
+    await importCommand({
+      source,
+      format: options.format,
+      environments: options.environment,
+      output: options.output,
+      envFile: typeof options.envFile === "string" ? options.envFile : undefined,
+      skipEnvFile: options.envFile === false,
+    });
+  });
 
-    await checkCommand({
-      collection: options.collection,
+program
+  .command("export")
+  .description(
+    "Convert a local collection into Postman, Insomnia, Bruno, OpenAPI 3.1 or a curl script, or generate OpenAPI 3.1 from source",
+  )
+  .addArgument(new Argument("<format>", "Target format").choices(EXPORT_FORMATS))
+  .option(
+    "-f, --file <path>",
+    "Collection JSON, .http file or directory of .http files (openapi: omit to generate from source)",
+  )
+  .option("--root <path>", "Project root to generate OpenAPI from when --file is omitted", process.cwd())
+  .option("--title <title>", "OpenAPI title for generated documents (default: package.json name)")
+  .option("--server <url>", "Server URL for generated OpenAPI documents; repeatable", collect)
+  .option("-o, --output <dir>", "Directory to write to (default: watchapi-export/<format>)")
+  .option(
+    "--env-file <path>",
+    "rest-client.env.json to export environments from (default: next to --file, then cwd)",
+  )
+  .option(
+    "-e, --env <environment>",
+    "Environment whose values the curl script defaults to (default: local, or the first)",
+  )
+  .action(async (format, options) => {
+    await exportCommand({
+      format,
+      file: options.file,
+      root: options.root,
+      title: options.title,
+      servers: options.server,
+      output: options.output,
+      envFile: options.envFile,
       env: options.env,
-      apiUrl,
-      apiToken,
-      failOn: options.failOn as "any" | "regressions",
+    });
+  });
+
+program
+  .command("diff")
+  .description(
+    "Compare two OpenAPI specs and classify changes as breaking or non-breaking (exits 1 on breaking changes)",
+  )
+  .argument("<old>", "Old spec: file, URL or git ref (<ref>:<path>, or a bare ref to use <new>'s path)")
+  .argument("<new>", "New spec: file, URL or git ref")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(DIFF_FORMATS)
+      .default("table"),
+  )
+  .option("-o, --output <file>", "Write the json/markdown report to a file")
+  .action(async (oldSpec, newSpec, options) => {
+    await diffCommand({
+      old: oldSpec,
+      new: newSpec,
+      format: options.format,
+      output: options.output,
     });
   });
 
@@ -167,44 +668,35 @@ program
     });
   });
 
-program
-  .command("verify")
-  .description(
-    "Mark endpoints as verified after deployment or testing",
-  )
-  .option("-c, --collection <id>", "Collection ID to verify all endpoints")
-  .option("-e, --endpoint <id>", "Specific endpoint ID to verify")
-  .option(
-    "--env <environment>",
-    "Environment name (e.g., production, staging)",
-  )
-  .option("--commit <hash>", "Git commit hash")
-  .option("--api-url <url>", "API platform URL")
-  .option("--api-token <token>", "API authentication token")
+addNetworkOptions(
+  program
+    .command("verify")
+    .description(
+      "Mark endpoints as verified after deployment or testing",
+    )
+    .option("-c, --collection <id>", "Collection ID to verify all endpoints")
+    .option("-e, --endpoint <id>", "Specific endpoint ID to verify")
+    .option(
+      "--env <environment>",
+      "Environment name (e.g., production, staging)",
+    )
+    .option("--commit <hash>", "Git commit hash")
+    .option(
+      "--env-file <path>",
+      "rest-client.env.json whose --env environment provides $network settings",
+    )
+    .option("--api-url <url>", "API platform URL")
+    .option("--api-token <token>", "API authentication token"),
+)
   .action(async (options) => {
-    const storedAuth = loadAuthConfig();
-    const apiUrl =
-      options.apiUrl ||
-      process.env.WATCHAPI_URL ||
-      storedAuth?.apiUrl ||
-      DEFAULT_API_URL;
-    const apiToken =
-      options.apiToken || process.env.WATCHAPI_TOKEN || storedAuth?.apiToken;
-
-    if (!apiToken) {
-      console.error(
-        "Error: API token is required. Set WATCHAPI_TOKEN env var or use --api-token",
-      );
-      process.exit(1);
-    }
-
     await verifyCommand({
       collection: options.collection,
       endpoint: options.endpoint,
       env: options.env,
       commit: options.commit,
-      apiUrl,
-      apiToken,
+      envFile: options.envFile,
+      network: getNetworkSettings(options),
+      ...resolvePlatformCredentials(options),
     });
   });
 
@@ -4,22 +4,56 @@ import chalk from "chalk";
 import ora from "ora";
 
 import {
+  loadAnalyzerConfig,
+  loadAnalyzerPlugins,
   printReport,
   runAnalyzer,
-  type AnalyzerOptions,
   type AnalyzerTarget,
 } from "../analyzer/index.js";
+import {
+  buildAnalyzerBaseline,
+  compareWithAnalyzerBaseline,
+  loadAnalyzerBaseline,
+  saveAnalyzerBaseline,
+  shouldFailAnalysis,
+} from "../analyzer/baseline.js";
+import { getChangedFiles } from "../analyzer/changed-files.js";
+import { applyFixes } from "../analyzer/fixer.js";
+import { buildSummary } from "../analyzer/utils/rules.js";
+import type { Severity } from "../analyzer/types.js";
 import { detectTarget } from "../detect-target.js";
+import {
+  formatAnalyzerReport,
+  type OutputFormat,
+  writeOutput,
+} from "../formats/index.js";
 
 export interface AnalyzeCommandOptions {
   target?: AnalyzerTarget;
   root?: string;
   tsconfig?: string;
   include?: string[];
-  format?: AnalyzerOptions["format"];
+  format?: OutputFormat;
+  output?: string;
   verbose?: boolean;
   routerFactory?: string[];
   routerIdentifierPattern?: string;
+  /** Path to watchapi.config.{json,ts} (default: looked up in root) */
+  config?: string;
+  /** Rule plugin packages or paths, added to the config's plugins */
+  plugin?: string[];
+  /** Report only issues missing from this baseline file */
+  baseline?: string;
+  /** Write this run's issues to the --baseline file */
+  updateBaseline?: boolean;
+  /** Lowest severity of a reported issue that fails the run (default: error) */
+  failOn?: Severity;
+  /** Only analyze files changed since this git ref */
+  changedSince?: string;
+  /** Apply the fixes offered by reported issues */
+  fix?: boolean;
+  /** Print the fixes as a unified diff without writing files */
+  fixDryRun?: boolean;
 }
 
 export async function analyzeCommand(
@@ -28,8 +62,13 @@ export async function analyzeCommand(
   const rootDir = path.resolve(options.root ?? process.cwd());
   const detected = options.target ? null : await detectTarget(rootDir);
   const target: AnalyzerTarget = options.target ?? detected!.target;
-  const format: NonNullable<AnalyzerOptions["format"]> =
-    options.format === "json" ? "json" : "table";
+  const format = options.format ?? "table";
+  if (options.output && format === "table") {
+    console.error(
+      chalk.red("--output requires --format json | junit | tap | sarif"),
+    );
+    process.exit(1);
+  }
   const spinnerLabel =
     target === "nest"
       ? "Analyzing Nest controllers..."
@@ -44,7 +83,74 @@ export async function analyzeCommand(
   const spinner = options.verbose ? null : ora(spinnerLabel).start();
 
   try {
-    const result = await runAnalyzer({
+    if (options.updateBaseline && !options.baseline) {
+      throw new Error("--update-baseline requires --baseline <file>");
+    }
+    if (options.fix && options.fixDryRun) {
+      throw new Error("Use either --fix or --fix-dry-run");
+    }
+    if (options.fix && options.updateBaseline) {
+      throw new Error("--fix cannot be combined with --update-baseline");
+    }
+    if (options.updateBaseline && options.changedSince) {
+      throw new Error(
+        "--update-baseline cannot be combined with --changed-since (the baseline would lose unchanged files)",
+      );
+    }
+    // Missing baselines are only an error when comparing against them
+    const baseline = options.baseline
+      ? loadAnalyzerBaseline(path.resolve(rootDir, options.baseline))
+      : undefined;
+    if (options.baseline && !baseline && !options.updateBaseline) {
+      throw new Error(
+        `Baseline not found: ${options.baseline}. Create it with --update-baseline`,
+      );
+    }
+
+    const { config, path: configPath } = await loadAnalyzerConfig(
+      rootDir,
+      options.config,
+    );
+    if (options.verbose && configPath) {
+      console.log(
+        chalk.gray(`Using config ${path.relative(rootDir, configPath)}`),
+      );
+    }
+    const plugins = await loadAnalyzerPlugins(
+      [...(config.plugins ?? []), ...(options.plugin ?? [])],
+      rootDir,
+    );
+    if (options.verbose && plugins.length > 0) {
+      console.log(
+        chalk.gray(
+          `Loaded plugins: ${plugins.map((plugin) => plugin.name).join(", ")}`,
+        ),
+      );
+    }
+
+    const changedFiles = options.changedSince
+      ? getChangedFiles(options.changedSince, rootDir)
+      : undefined;
+    if (changedFiles) {
+      const inRoot = changedFiles.filter((file) =>
+        file.startsWith(rootDir + path.sep),
+      );
+      if (inRoot.length === 0) {
+        const message = `No files under ${rootDir} changed since ${options.changedSince}`;
+        if (spinner) spinner.succeed(message);
+        else console.log(message);
+        process.exit(0);
+      }
+      if (options.verbose) {
+        console.log(
+          chalk.gray(
+            `${inRoot.length} file(s) changed since ${options.changedSince}`,
+          ),
+        );
+      }
+    }
+
+    let result = await runAnalyzer({
       rootDir,
       target,
       tsconfigPath: options.tsconfig,
@@ -53,6 +159,9 @@ export async function analyzeCommand(
       verbose: options.verbose,
       routerFactories: options.routerFactory,
       routerIdentifierPattern: options.routerIdentifierPattern,
+      config,
+      plugins,
+      changedFiles,
     });
 
     const finishedMsg = `Finished analysis with ${result.issues.length} finding${
@@ -65,8 +174,89 @@ export async function analyzeCommand(
       console.log(finishedMsg);
     }
 
-    printReport(result, format);
-    process.exit(result.summary.error > 0 ? 1 : 0);
+    if (options.baseline && options.updateBaseline) {
+      const written = saveAnalyzerBaseline(
+        path.resolve(rootDir, options.baseline),
+        buildAnalyzerBaseline(result),
+      );
+      console.error(
+        chalk.gray(
+          `Baseline updated: ${written} (${result.issues.length} issue${
+            result.issues.length === 1 ? "" : "s"
+          })`,
+        ),
+      );
+    } else if (baseline) {
+      result = compareWithAnalyzerBaseline(result, baseline);
+      // Issues in files outside the diff were not looked for, so they are not
+      // fixed (nest also reports changed controllers' operations from unchanged specs)
+      const changed = changedFiles && new Set(changedFiles);
+      if (changed && result.baseline) {
+        result = {
+          ...result,
+          baseline: {
+            ...result.baseline,
+            fixed: result.baseline.fixed.filter((entry) =>
+              changed.has(path.resolve(rootDir, entry.file)),
+            ),
+          },
+        };
+      }
+    }
+
+    // Fix only what is reported (new issues when comparing with a baseline)
+    const fixes =
+      options.fix || options.fixDryRun
+        ? applyFixes(result.issues, rootDir, { write: options.fix })
+        : undefined;
+    if (fixes && options.fix) {
+      const remaining = result.issues.filter(
+        (issue) => !fixes.fixed.includes(issue),
+      );
+      result = { ...result, issues: remaining, summary: buildSummary(remaining) };
+    }
+
+    if (options.output && format !== "table") {
+      const written = writeOutput(
+        formatAnalyzerReport(result, format),
+        options.output,
+      );
+      printReport(result, "table");
+      console.log(chalk.gray(`Wrote ${format} report to ${written}`));
+    } else {
+      printReport(result, format);
+    }
+
+    if (fixes) {
+      // Keep stdout parseable for machine formats
+      const log =
+        format === "table" || options.output ? console.log : console.error;
+      if (fixes.diff) log(colorizeDiff(fixes.diff));
+      const count = `${fixes.fixed.length} issue${fixes.fixed.length === 1 ? "" : "s"} in ${
+        fixes.files.length
+      } file${fixes.files.length === 1 ? "" : "s"}`;
+      log(
+        options.fix
+          ? chalk.green(`✓ Fixed ${count}`)
+          : chalk.gray(`${count} can be fixed; run with --fix to apply`),
+      );
+      if (fixes.conflicting.length > 0) {
+        log(
+          chalk.yellow(
+            `${fixes.conflicting.length} fix${
+              fixes.conflicting.length === 1 ? "" : "es"
+            } overlapped another and ${
+              fixes.conflicting.length === 1 ? "was" : "were"
+            } skipped; run --fix again to apply`,
+          ),
+        );
+      }
+    }
+    // Issues accepted into a baseline being updated never fail the run
+    const failed =
+      !options.updateBaseline &&
+      shouldFailAnalysis(result, options.failOn ?? "error");
+    process.exit(failed ? 1 : 0);
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Unknown analyzer failure";
@@ -80,3 +270,17 @@ export async function analyzeCommand(
     process.exit(1);
   }
 }
+
+function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return chalk.bold(line);
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      return line;
+    })
+    .join("\n")
+    .trimEnd();
+}
@@ -1,60 +1,184 @@
 import ora from "ora";
-import { ApiClient } from "../api-client.js";
+import {
+  buildBaseline,
+  compareWithBaseline,
+  inferSchema,
+  loadBaseline,
+  saveBaseline,
+  type JsonSchema,
+} from "../baseline.js";
 import { EndpointChecker } from "../checker.js";
+import { resolveEnvironment } from "../environment.js";
+import {
+  formatCheckReport,
+  writeOutput,
+  type OutputFormat,
+} from "../formats/index.js";
+import { MetricsRegistry } from "../metrics.js";
+import { createNetworkAgents } from "../network.js";
 import { Reporter } from "../reporter.js";
-import type { Report } from "../types.js";
+import type {
+  NetworkSettings,
+  Percentile,
+  Report,
+} from "../types.js";
+import { createRunAuth, loadCollection } from "./shared.js";
 
 export interface CheckOptions {
-  collection: string;
-  env: string;
-  apiUrl: string;
-  apiToken: string;
+  collection?: string;
+  file?: string;
+  env?: string;
+  envFile?: string;
+  apiUrl?: string;
+  apiToken?: string;
+  submit?: boolean;
+  flow?: boolean;
+  concurrency?: number;
+  retries?: number;
+  retryDelay?: number;
+  rps?: number;
+  samples?: number;
+  percentile?: Percentile;
+  baseline?: string;
+  updateBaseline?: boolean;
+  latencyThreshold?: number;
+  network?: NetworkSettings;
   failOn?: "any" | "regressions";
+  format?: OutputFormat;
+  output?: string;
+  /** Write Prometheus metrics for this run (textfile collector / pushgateway) */
+  metricsFile?: string;
 }
 
 export async function checkCommand(options: CheckOptions): Promise<void> {
   const reporter = new Reporter();
   const spinner = ora();
+  const format = options.format ?? "table";
 
   try {
-    // Step 1: Fetch collection from platform
-    spinner.start(`Fetching collection ${options.collection}...`);
-    const apiClient = new ApiClient(options.apiUrl, options.apiToken);
-    const collection = await apiClient.getCollection(options.collection);
-    spinner.succeed(`Fetched collection: ${collection.name} (${collection.endpoints.length} endpoints)`);
+    if (options.output && format === "table") {
+      throw new Error("--output requires --format json | junit | tap | sarif");
+    }
+    if (options.updateBaseline && !options.baseline) {
+      throw new Error("--update-baseline requires --baseline <file>");
+    }
+
+    // Missing baselines are only an error when comparing against them
+    const baseline = options.baseline ? loadBaseline(options.baseline) : undefined;
+    if (options.baseline && !baseline && !options.updateBaseline) {
+      throw new Error(
+        `Baseline not found: ${options.baseline}. Create it with --update-baseline`,
+      );
+    }
+
+    // Step 1: Resolve environment variables and network settings
+    const environment = resolveEnvironment(options);
+    if (environment) {
+      spinner.info(`Using environment "${environment.name}" from ${environment.file}`);
+    }
+    const envName = environment?.name ?? options.env ?? "production";
+    const network = createNetworkAgents(...(environment?.network ?? []), options.network);
+
+    // Step 2: Load collection from disk or fetch it from platform
+    const { collection, apiClient } = await loadCollection(options, network, spinner);
+    const auth = createRunAuth(environment, collection, network, spinner);
 
-    // Step 2: Run checks
-    spinner.start("Running API checks...");
-    const checker = new EndpointChecker();
-    const results = await checker.checkAll(collection.endpoints);
+    // Step 3: Run checks
+    spinner.start(options.flow ? "Running API flow..." : "Running API checks...");
+    const shapes = new Map<string, JsonSchema>();
+    const checker = new EndpointChecker({
+      environment: environment?.variables,
+      network,
+      auth,
+      concurrency: options.concurrency,
+      retries: options.retries,
+      retryDelay: options.retryDelay,
+      rps: options.rps,
+      samples: options.samples,
+      percentile: options.percentile,
+      onResponse: options.baseline
+        ? (endpoint, response) => shapes.set(endpoint.id, inferSchema(response.data))
+        : undefined,
+    });
+    const results = options.flow
+      ? await checker.checkFlow(collection.endpoints)
+      : await checker.checkAll(collection.endpoints);
     spinner.succeed("API checks completed");
 
-    // Step 3: Build report
+    // Step 4: Build report
     const report: Report = {
       collectionId: collection.id,
-      environment: options.env,
+      environment: envName,
       results,
       summary: {
         total: results.length,
         passed: results.filter((r) => r.status === "PASSED").length,
         failed: results.filter((r) => r.status === "FAILED").length,
         errors: results.filter((r) => r.status === "ERROR").length,
+        skipped: results.filter((r) => r.status === "SKIPPED").length,
       },
       timestamp: new Date().toISOString(),
     };
 
-    // Step 4: Submit report to platform
-    spinner.start("Submitting report to platform...");
-    const { regressions } = await apiClient.submitReport(report);
-    spinner.succeed("Report submitted");
+    // Step 5: Submit report to platform (local sources are never submitted)
+    let regressions: string[] = [];
+    const submitted = apiClient !== null && options.submit !== false;
+    if (apiClient && submitted) {
+      spinner.start("Submitting report to platform...");
+      ({ regressions } = await apiClient.submitReport(report));
+      spinner.succeed("Report submitted");
+    } else {
+      spinner.info("Report not submitted; --fail-on is evaluated locally");
+    }
+
+    // Step 6: Compare with or update the local baseline
+    const comparedToBaseline = baseline !== undefined && !options.updateBaseline;
+    if (options.baseline && options.updateBaseline) {
+      const written = saveBaseline(
+        options.baseline,
+        buildBaseline(report, collection, shapes, baseline),
+      );
+      spinner.succeed(`Baseline updated: ${written}`);
+    } else if (baseline) {
+      const local = compareWithBaseline(baseline, report, collection, shapes, {
+        latencyThreshold: options.latencyThreshold,
+      });
+      regressions = [...regressions, ...local];
+      spinner.info(
+        `Compared with baseline from ${baseline.updatedAt}: ${local.length} regression${
+          local.length === 1 ? "" : "s"
+        }`,
+      );
+    }
 
-    // Step 5: Display results
-    reporter.printResults(report, regressions);
+    if (options.metricsFile) {
+      const registry = new MetricsRegistry();
+      registry.recordReport(report, collection);
+      spinner.succeed(`Metrics written: ${writeOutput(registry.render(), options.metricsFile)}`);
+    }
+
+    // Step 7: Display results
+    if (format === "table") {
+      reporter.printResults(report, regressions);
+    } else if (options.output) {
+      const written = writeOutput(
+        formatCheckReport(report, format, collection, regressions),
+        options.output,
+      );
+      reporter.printResults(report, regressions);
+      console.log(`Wrote ${format} report to ${written}`);
+    } else {
+      console.log(formatCheckReport(report, format, collection, regressions));
+    }
 
-    // Step 6: Exit with appropriate code
-    if (options.failOn === "any" && report.summary.failed + report.summary.errors > 0) {
+    // Step 8: Exit with appropriate code
+    // Without platform history or a baseline every failure counts, since new
+    // and recurring failures cannot be told apart locally
+    const hasFailures = report.summary.failed + report.summary.errors > 0;
+    const hasHistory = submitted || comparedToBaseline;
+    if (options.failOn === "any" && hasFailures) {
       process.exit(1);
-    } else if (options.failOn === "regressions" && regressions.length > 0) {
+    } else if (options.failOn === "regressions" && (hasHistory ? regressions.length > 0 : hasFailures)) {
       process.exit(1);
     }
   } catch (error) {
@@ -0,0 +1,106 @@
+import Table from "cli-table3";
+import chalk from "chalk";
+import ora from "ora";
+
+import { writeOutput } from "../formats/index.js";
+import {
+  diffOpenApi,
+  formatSpecDiffMarkdown,
+  loadSpecSource,
+  type SpecDiff,
+} from "../openapi-diff.js";
+import { Reporter } from "../reporter.js";
+
+export const DIFF_FORMATS = ["table", "json", "markdown"] as const;
+export type DiffFormat = (typeof DIFF_FORMATS)[number];
+
+export interface DiffCommandOptions {
+  /** File, URL or git ref (<ref>:<path>, or a bare ref to read the new spec's path at) */
+  old: string;
+  /** File, URL or git ref */
+  new: string;
+  format?: DiffFormat;
+  /** Write the json/markdown report to a file */
+  output?: string;
+}
+
+export async function diffCommand(options: DiffCommandOptions): Promise<void> {
+  const reporter = new Reporter();
+  const format = options.format ?? "table";
+  if (options.output && format === "table") {
+    reporter.printError("--output requires --format json | markdown");
+    process.exit(1);
+  }
+  // Keep stdout clean for json/markdown reports
+  const spinner = ora({ stream: process.stderr });
+
+  let diff: SpecDiff;
+  try {
+    // Step 1: Load both specs (a bare git ref reads the other side's file)
+    spinner.start(`Loading ${options.old} and ${options.new}...`);
+    const [before, after] = await Promise.all([
+      loadSpecSource(options.old, options.new),
+      loadSpecSource(options.new, options.old),
+    ]);
+
+    // Step 2: Compare
+    diff = diffOpenApi(before, after);
+    spinner.succeed(
+      `Compared ${before.source} → ${after.source}: ${diff.summary.breaking} breaking, ${diff.summary.nonBreaking} non-breaking`,
+    );
+  } catch (error) {
+    spinner.fail("Diff failed");
+    reporter.printError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Step 3: Report
+  if (format === "table") {
+    printDiffTable(diff);
+  } else {
+    const content =
+      format === "markdown" ? formatSpecDiffMarkdown(diff) : JSON.stringify(diff, null, 2);
+    if (options.output) {
+      console.error(chalk.gray(`Wrote ${format} report to ${writeOutput(content, options.output)}`));
+    } else {
+      process.stdout.write(content.endsWith("\n") ? content : `${content}\n`);
+    }
+  }
+
+  // Breaking changes fail the command so releases can be gated on it
+  process.exit(diff.summary.breaking > 0 ? 1 : 0);
+}
+
+function printDiffTable(diff: SpecDiff): void {
+  if (diff.changes.length === 0) {
+    console.log(chalk.green("✓ No API changes"));
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.bold("Change"),
+      chalk.bold("Operation"),
+      chalk.bold("Location"),
+      chalk.bold("Message"),
+    ],
+    style: { head: [], border: [] },
+    wordWrap: true,
+  });
+
+  for (const change of diff.changes) {
+    table.push([
+      change.level === "breaking" ? chalk.red("BREAKING") : chalk.cyan("non-breaking"),
+      change.operation,
+      change.location,
+      change.message,
+    ]);
+  }
+
+  console.log(table.toString());
+  console.log(
+    diff.summary.breaking > 0
+      ? chalk.red(`✗ ${diff.summary.breaking} breaking change${diff.summary.breaking === 1 ? "" : "s"}`)
+      : chalk.green("✓ No breaking changes"),
+  );
+}
@@ -0,0 +1,212 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  exportCollections,
+  generateOpenApi,
+  Logger,
+  LogLevel,
+  type ExportEndpoint,
+  type ExportFormat,
+} from "@watchapi/parsers";
+import chalk from "chalk";
+import ora from "ora";
+import { findEnvFile } from "../environment.js";
+import { writeOutput } from "../formats/index.js";
+import { loadLocalCollection } from "../local-source.js";
+import { Reporter } from "../reporter.js";
+import type { EndpointDefinition } from "../types.js";
+
+export interface ExportCommandOptions {
+  format: ExportFormat;
+  /** Collection JSON, .http file or directory of .http files (openapi: omit to generate from source) */
+  file?: string;
+  /** Project root to generate OpenAPI from when no file is given (default: cwd) */
+  root?: string;
+  /** OpenAPI info.title for source-generated documents (default: package.json name) */
+  title?: string;
+  /** Server URLs for source-generated documents */
+  servers?: string[];
+  /** Directory to write to (default: watchapi-export/<format>) */
+  output?: string;
+  /** rest-client.env.json to export environments from (default: next to --file, then cwd) */
+  envFile?: string;
+  /** Environment used for single-environment outputs (curl) */
+  env?: string;
+}
+
+export async function exportCommand(options: ExportCommandOptions): Promise<void> {
+  if (!options.file) {
+    if (options.format === "openapi") {
+      return exportOpenApiFromSource(options);
+    }
+    new Reporter().printError(`--file is required for ${options.format} exports`);
+    process.exit(1);
+  }
+
+  const reporter = new Reporter();
+  const spinner = ora();
+  const file = options.file;
+
+  try {
+    // Step 1: Load the collection and environments
+    spinner.start(`Loading ${file}...`);
+    const collection = loadLocalCollection(file);
+    const environments = readEnvFile(file, options.envFile);
+
+    // .http file variables apply to the whole collection
+    const fileVariables = Object.assign(
+      {},
+      ...collection.endpoints.map((endpoint) => endpoint.variables ?? {}),
+    ) as Record<string, string>;
+    if (Object.keys(fileVariables).length > 0) {
+      environments.$shared = {
+        ...((environments.$shared as Record<string, unknown>) ?? {}),
+        ...fileVariables,
+      };
+    }
+
+    // Step 2: Convert
+    spinner.text = `Exporting ${collection.endpoints.length} endpoints as ${options.format}...`;
+    const result = exportCollections(
+      [
+        {
+          name: collection.name,
+          endpoints: collection.endpoints.map(toExportEndpoint),
+        },
+      ],
+      options.format,
+      { environments, environment: options.env },
+    );
+
+    // Step 3: Write files
+    const outputDir = path.resolve(
+      options.output ?? path.join("watchapi-export", options.format),
+    );
+    for (const file of result.files) {
+      writeOutput(file.content, path.join(outputDir, ...file.path.split("/")));
+    }
+    spinner.succeed(
+      `Exported ${collection.endpoints.length} endpoint${
+        collection.endpoints.length === 1 ? "" : "s"
+      } to ${outputDir} (${result.files.length} file${result.files.length === 1 ? "" : "s"})`,
+    );
+    for (const warning of result.warnings) {
+      console.error(chalk.yellow(`⚠ ${warning}`));
+    }
+  } catch (error) {
+    spinner.fail("Export failed");
+    reporter.printError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+/**
+ * Generate an OpenAPI document from the routes detected in a project
+ */
+async function exportOpenApiFromSource(options: ExportCommandOptions): Promise<void> {
+  const reporter = new Reporter();
+  const spinner = ora();
+  const root = path.resolve(options.root ?? process.cwd());
+
+  try {
+    // Step 1: Detect and parse routes
+    spinner.start(`Detecting routes in ${root}...`);
+    const pkg = readPackageJson(root);
+    const { document, routes, warnings } = await generateOpenApi(root, {
+      title: options.title ?? pkg.name ?? path.basename(root),
+      version: pkg.version,
+      description: pkg.description,
+      servers: options.servers,
+      logger: new Logger({ logLevel: LogLevel.WARN }),
+    });
+    if (routes.length === 0) {
+      throw new Error(
+        `No routes found in ${root}. Use --root to point at the project, or --file to export a collection.`,
+      );
+    }
+
+    // Step 2: Write the document
+    const outputFile = path.join(
+      path.resolve(options.output ?? path.join("watchapi-export", "openapi")),
+      "openapi.json",
+    );
+    writeOutput(JSON.stringify(document, null, 2), outputFile);
+    spinner.succeed(
+      `Described ${routes.length} route${routes.length === 1 ? "" : "s"} in ${outputFile}`,
+    );
+    for (const warning of warnings) {
+      console.error(chalk.yellow(`⚠ ${warning}`));
+    }
+  } catch (error) {
+    spinner.fail("Export failed");
+    reporter.printError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function readPackageJson(root: string): { name?: string; version?: string; description?: string } {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+function readEnvFile(file: string, envFileOption: string | undefined): Record<string, unknown> {
+  if (envFileOption && !fs.existsSync(envFileOption)) {
+    throw new Error(`Environment file not found: ${envFileOption}`);
+  }
+
+  const source = path.resolve(file);
+  const sourceDir = fs.statSync(source).isDirectory() ? source : path.dirname(source);
+  const envFile = envFileOption ?? findEnvFile([sourceDir, process.cwd()]);
+  if (!envFile) return {};
+
+  try {
+    return JSON.parse(fs.readFileSync(envFile, "utf8")) as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${envFile}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Collection endpoints hold resolved values, so they export as overrides
+ */
+function toExportEndpoint(endpoint: EndpointDefinition): ExportEndpoint {
+  const [requestPath, queryString] = splitOnce(endpoint.url, "?");
+  const query: Record<string, string> = {};
+  for (const pair of queryString?.split("&") ?? []) {
+    if (!pair) continue;
+    const [key, value = ""] = splitOnce(pair, "=");
+    query[safeDecode(key)] = safeDecode(value);
+  }
+
+  return {
+    name: endpoint.name,
+    method: endpoint.method,
+    pathTemplate: requestPath,
+    requestPath,
+    headersOverrides: endpoint.headers,
+    queryOverrides: Object.keys(query).length > 0 ? query : undefined,
+    bodyOverrides: endpoint.body,
+    setDirectivesOverrides: endpoint.setDirectives,
+  };
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1
+    ? [value, undefined]
+    : [value.slice(0, index), value.slice(index + separator.length)];
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,149 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  importCollection,
+  mergeEnvironments,
+  type CreateApiEndpointInput,
+  type ImportFormat,
+} from "@watchapi/parsers";
+import chalk from "chalk";
+import ora from "ora";
+import { ENV_FILE_NAME } from "../environment.js";
+import { writeOutput } from "../formats/index.js";
+import { Reporter } from "../reporter.js";
+import { collectionSchema, type Collection, type EndpointDefinition } from "../types.js";
+
+export interface ImportCommandOptions {
+  source: string;
+  /** Skip format detection */
+  format?: ImportFormat;
+  /** Postman environment exports */
+  environments?: string[];
+  /** Collection JSON to write (default: stdout) */
+  output?: string;
+  /** rest-client.env.json to merge environments into (default: next to --output, then cwd) */
+  envFile?: string;
+  /** Do not write environments */
+  skipEnvFile?: boolean;
+}
+
+export async function importCommand(options: ImportCommandOptions): Promise<void> {
+  const reporter = new Reporter();
+  // Keep stdout clean for the collection JSON
+  const spinner = ora({ stream: process.stderr });
+
+  try {
+    // Step 1: Convert the source
+    spinner.start(`Importing ${options.source}...`);
+    const result = await importCollection(options.source, {
+      format: options.format,
+      environmentFiles: options.environments,
+    });
+    spinner.succeed(
+      `Imported ${result.endpoints.length} endpoint${
+        result.endpoints.length === 1 ? "" : "s"
+      } from ${result.format} collection "${result.name}"`,
+    );
+    for (const warning of result.warnings) {
+      console.error(chalk.yellow(`⚠ ${warning}`));
+    }
+
+    // Step 2: Write the collection file
+    const collection = collectionSchema.parse({
+      id: `local:${slugify(result.name) || "import"}`,
+      name: result.name,
+      endpoints: toEndpointDefinitions(result.endpoints),
+    } satisfies Collection);
+    const json = JSON.stringify(collection, null, 2);
+    if (options.output) {
+      console.error(`Wrote collection to ${writeOutput(json, options.output)}`);
+    } else {
+      console.log(json);
+    }
+
+    // Step 3: Merge environments into rest-client.env.json
+    if (options.skipEnvFile || Object.keys(result.environments).length === 0) {
+      return;
+    }
+    const envFile = path.resolve(
+      options.envFile ??
+        path.join(options.output ? path.dirname(options.output) : ".", ENV_FILE_NAME),
+    );
+    let existing: Record<string, Record<string, unknown>> = {};
+    if (fs.existsSync(envFile)) {
+      try {
+        existing = JSON.parse(fs.readFileSync(envFile, "utf8"));
+      } catch (error) {
+        throw new Error(
+          `Failed to read ${envFile}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const merged = mergeEnvironments(existing, result.environments);
+    writeOutput(JSON.stringify(merged.environments, null, 2), envFile);
+    console.error(
+      `Added ${merged.added} variable${merged.added === 1 ? "" : "s"} to ${envFile}`,
+    );
+    if (merged.conflicts.length > 0) {
+      console.error(
+        chalk.yellow(
+          `⚠ Kept existing values for ${merged.conflicts.join(", ")}`,
+        ),
+      );
+    }
+  } catch (error) {
+    spinner.fail("Import failed");
+    reporter.printError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+/**
+ * Flatten layered endpoint inputs into collection endpoints
+ */
+function toEndpointDefinitions(inputs: CreateApiEndpointInput[]): EndpointDefinition[] {
+  const ids = new Set<string>();
+
+  return inputs.map((input) => {
+    const base = slugify(`${input.method} ${input.name}`) || "endpoint";
+    let id = base;
+    for (let suffix = 2; ids.has(id); suffix++) id = `${base}-${suffix}`;
+    ids.add(id);
+
+    const query = { ...(input.querySchema ?? {}), ...(input.queryOverrides ?? {}) };
+    const headers = { ...(input.headersSchema ?? {}), ...(input.headersOverrides ?? {}) };
+    const queryString = Object.entries(query)
+      .map(([key, value]) => `${encodeQueryValue(key)}=${encodeQueryValue(value)}`)
+      .join("&");
+
+    return {
+      id,
+      name: input.name,
+      url: queryString ? `${input.requestPath}?${queryString}` : input.requestPath,
+      method: input.method,
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+      body: input.bodyOverrides ?? input.bodySchema,
+      setDirectives: input.setDirectivesOverrides,
+      expectedStatus: 200,
+    };
+  });
+}
+
+/**
+ * Percent-encode a query component, leaving {{variables}} intact
+ */
+function encodeQueryValue(value: string): string {
+  return value
+    .split(/(\{\{.*?\}\})/)
+    .map((part) => (part.startsWith("{{") ? part : encodeURIComponent(part)))
+    .join("");
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
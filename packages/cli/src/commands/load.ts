@@ -0,0 +1,136 @@
+import ora from "ora";
+import { EndpointChecker } from "../checker.js";
+import { resolveEnvironment } from "../environment.js";
+import { writeOutput } from "../formats/index.js";
+import {
+  LoadRunner,
+  evaluateThresholds,
+  parseThreshold,
+  validateThresholdEndpoints,
+  type LoadMode,
+  type LoadStage,
+} from "../load.js";
+import { createNetworkAgents } from "../network.js";
+import { Reporter } from "../reporter.js";
+import type { NetworkSettings } from "../types.js";
+import { createRunAuth, loadCollection } from "./shared.js";
+
+export interface LoadCommandOptions {
+  collection?: string;
+  file?: string;
+  env?: string;
+  envFile?: string;
+  apiUrl?: string;
+  apiToken?: string;
+  /** Target arrival rate, or the starting rate when stages are given */
+  rps?: number;
+  /** Virtual users, or the starting count when stages are given */
+  vus?: number;
+  /** Run length in ms without stages */
+  duration?: number;
+  stages?: LoadStage[];
+  /** Endpoint ids or names to run (default: all) */
+  endpoints?: string[];
+  thresholds?: string[];
+  maxInFlight?: number;
+  network?: NetworkSettings;
+  format?: "table" | "json";
+  output?: string;
+}
+
+export async function loadCommand(options: LoadCommandOptions): Promise<void> {
+  const reporter = new Reporter();
+  const spinner = ora();
+  const format = options.format ?? "table";
+
+  try {
+    if ((options.rps === undefined) === (options.vus === undefined)) {
+      throw new Error("Specify either --rps <n> or --vus <n>");
+    }
+    const mode: LoadMode = options.rps !== undefined ? "rps" : "vus";
+    // Parse thresholds before sending any traffic
+    const thresholds = (options.thresholds ?? []).map(parseThreshold);
+
+    // Step 1: Resolve environment variables and network settings
+    const environment = resolveEnvironment(options);
+    if (environment) {
+      spinner.info(`Using environment "${environment.name}" from ${environment.file}`);
+    }
+    const envName = environment?.name ?? options.env ?? "production";
+    const network = createNetworkAgents(...(environment?.network ?? []), options.network);
+
+    // Step 2: Load collection and pick endpoints
+    const { collection } = await loadCollection(options, network, spinner);
+    const auth = createRunAuth(environment, collection, network, spinner);
+
+    const selected = options.endpoints?.length
+      ? options.endpoints.map((key) => {
+          const endpoint = collection.endpoints.find(
+            (candidate) => candidate.id === key || candidate.name === key,
+          );
+          if (!endpoint) {
+            throw new Error(
+              `Endpoint "${key}" not found. Available: ${collection.endpoints
+                .map((candidate) => candidate.name)
+                .join(", ")}`,
+            );
+          }
+          return endpoint;
+        })
+      : collection.endpoints;
+    validateThresholdEndpoints(thresholds, selected);
+
+    // Step 3: Generate load
+    const checker = new EndpointChecker({
+      environment: environment?.variables,
+      network,
+      auth,
+    });
+    const runner = new LoadRunner(checker, selected, {
+      mode,
+      start: (mode === "rps" ? options.rps : options.vus) ?? 0,
+      duration: options.duration,
+      stages: options.stages,
+      maxInFlight: options.maxInFlight,
+      onProgress: (progress) => {
+        spinner.text = `Load ${Math.round(progress.elapsed / 1000)}s/${Math.round(
+          progress.duration / 1000,
+        )}s: ${mode === "rps" ? `${progress.target.toFixed(1)} rps` : `${Math.round(progress.target)} VUs`}, ${
+          progress.requests
+        } requests, ${progress.failures} failed`;
+      },
+    });
+    if (runner.duration <= 0) {
+      throw new Error("Nothing to run: --duration or --stage must be longer than 0");
+    }
+
+    spinner.start(`Running ${selected.length} endpoint${selected.length === 1 ? "" : "s"}...`);
+    const report = await runner.run();
+    spinner.succeed(`Load test completed: ${report.total.requests} requests`);
+
+    // Step 4: Evaluate thresholds and display results
+    const results = evaluateThresholds(report, thresholds);
+    const json = JSON.stringify(
+      { collectionId: collection.id, environment: envName, ...report, thresholds: results },
+      null,
+      2,
+    );
+    if (format === "table") {
+      reporter.printLoadReport(report, envName, results);
+    }
+    if (options.output) {
+      console.log(`Wrote json report to ${writeOutput(json, options.output)}`);
+    } else if (format === "json") {
+      console.log(json);
+    }
+
+    // Step 5: Exit with appropriate code
+    if (results.some((result) => !result.passed)) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail("Load test failed");
+    reporter.printError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
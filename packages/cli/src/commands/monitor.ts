@@ -0,0 +1,122 @@
+import type http from "node:http";
+
+import chalk from "chalk";
+import ora from "ora";
+import { EndpointChecker } from "../checker.js";
+import { resolveEnvironment } from "../environment.js";
+import {
+  MetricsRegistry,
+  createMetricsSink,
+  startMetricsServer,
+} from "../metrics.js";
+import { Monitor } from "../monitor.js";
+import { createSink } from "../monitor-sinks.js";
+import { createNetworkAgents } from "../network.js";
+import { Reporter } from "../reporter.js";
+import type { NetworkSettings } from "../types.js";
+import { createRunAuth, loadCollection } from "./shared.js";
+
+export interface MonitorCommandOptions {
+  collection?: string;
+  file?: string;
+  env?: string;
+  envFile?: string;
+  apiUrl?: string;
+  apiToken?: string;
+  interval?: number;
+  jitter?: number;
+  window?: number;
+  failureThreshold?: number;
+  recoveryThreshold?: number;
+  sinks?: string[];
+  /** Serve Prometheus metrics on [host:]port */
+  metrics?: string;
+  retries?: number;
+  retryDelay?: number;
+  rps?: number;
+  network?: NetworkSettings;
+}
+
+export async function monitorCommand(options: MonitorCommandOptions): Promise<void> {
+  const reporter = new Reporter();
+  const spinner = ora();
+
+  let monitor: Monitor;
+  let metricsServer: http.Server | undefined;
+  try {
+    // Step 1: Resolve environment variables and network settings
+    const environment = resolveEnvironment(options);
+    if (environment) {
+      spinner.info(`Using environment "${environment.name}" from ${environment.file}`);
+    }
+    const envName = environment?.name ?? options.env ?? "production";
+    const network = createNetworkAgents(...(environment?.network ?? []), options.network);
+
+    // Step 2: Load collection from disk or fetch it from platform
+    const { collection } = await loadCollection(options, network, spinner);
+    const auth = createRunAuth(environment, collection, network, spinner);
+
+    // Step 3: Start scheduling
+    const sinks = (options.sinks?.length ? options.sinks : ["stdout"]).map((spec) =>
+      createSink(spec, { network }),
+    );
+    if (options.metrics) {
+      const registry = new MetricsRegistry();
+      metricsServer = await startMetricsServer(registry, options.metrics);
+      sinks.push(createMetricsSink(registry, collection));
+      spinner.info(`Serving Prometheus metrics on ${options.metrics} at /metrics`);
+    }
+    const checker = new EndpointChecker({
+      environment: environment?.variables,
+      network,
+      auth,
+      retries: options.retries,
+      retryDelay: options.retryDelay,
+      rps: options.rps,
+    });
+    monitor = new Monitor(collection, envName, checker, sinks, {
+      interval: options.interval,
+      jitter: options.jitter,
+      window: options.window,
+      failureThreshold: options.failureThreshold,
+      recoveryThreshold: options.recoveryThreshold,
+      onSinkError: (sink, error) =>
+        console.error(
+          chalk.yellow(
+            `⚠ Sink ${sink.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        ),
+    });
+
+    if (monitor.monitored.length === 0) {
+      throw new Error("No active endpoints to monitor");
+    }
+    monitor.start();
+    spinner.info(
+      `Monitoring ${monitor.monitored.length} endpoint${
+        monitor.monitored.length === 1 ? "" : "s"
+      } (${sinks.map((sink) => sink.name).join(", ")}); press Ctrl+C to stop`,
+    );
+  } catch (error) {
+    metricsServer?.close();
+    spinner.fail("Monitor failed to start");
+    reporter.printError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Step 4: Run until interrupted, letting in-flight checks finish
+  await new Promise<void>((resolve) => {
+    const shutdown = () => {
+      process.off("SIGINT", shutdown);
+      process.off("SIGTERM", shutdown);
+      spinner.start("Stopping monitor...");
+      monitor.stop().then(() => {
+        metricsServer?.close();
+        spinner.succeed("Monitor stopped");
+        resolve();
+      });
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  });
+}
@@ -0,0 +1,110 @@
+import type { Ora } from "ora";
+import { ApiClient } from "../api-client.js";
+import { DEFAULT_API_URL, loadAuthConfig } from "../auth-config.js";
+import { createAuthProvider, type AuthProvider } from "../auth.js";
+import type { ResolvedEnvironment } from "../environment.js";
+import { loadLocalCollection } from "../local-source.js";
+import type { NetworkAgents } from "../network.js";
+import type { Collection } from "../types.js";
+
+export interface CollectionSourceOptions {
+  collection?: string;
+  file?: string;
+  apiUrl?: string;
+  apiToken?: string;
+}
+
+/**
+ * API URL and token from the flags, WATCHAPI_URL / WATCHAPI_TOKEN or the
+ * credentials saved by `watchapi login`
+ * Exits when no API token is available.
+ */
+export function resolvePlatformCredentials(options: {
+  apiUrl?: string;
+  apiToken?: string;
+}): { apiUrl: string; apiToken: string } {
+  const { apiUrl, apiToken } = readPlatformCredentials(options);
+  if (!apiToken) {
+    exitWithError("API token is required. Set WATCHAPI_TOKEN env var or use --api-token");
+  }
+  return { apiUrl, apiToken };
+}
+
+/**
+ * --collection or --file with the platform credentials; --file needs no token
+ * Exits when neither source is given.
+ */
+export function resolveCollectionSource(
+  options: CollectionSourceOptions,
+): CollectionSourceOptions & { apiUrl: string } {
+  if (!options.collection && !options.file) {
+    exitWithError("Either --collection or --file must be specified");
+  }
+  return {
+    collection: options.collection,
+    file: options.file,
+    ...(options.file
+      ? readPlatformCredentials(options)
+      : resolvePlatformCredentials(options)),
+  };
+}
+
+function readPlatformCredentials(options: { apiUrl?: string; apiToken?: string }) {
+  const storedAuth = loadAuthConfig();
+  return {
+    apiUrl:
+      options.apiUrl ||
+      process.env.WATCHAPI_URL ||
+      storedAuth?.apiUrl ||
+      DEFAULT_API_URL,
+    apiToken: options.apiToken || process.env.WATCHAPI_TOKEN || storedAuth?.apiToken,
+  };
+}
+
+function exitWithError(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+/**
+ * Load the collection from --file, or fetch it from the platform
+ * The API client is returned for platform collections so results can be submitted.
+ */
+export async function loadCollection(
+  options: CollectionSourceOptions,
+  network: NetworkAgents,
+  spinner: Ora,
+): Promise<{ collection: Collection; apiClient: ApiClient | null }> {
+  if (options.file) {
+    spinner.start(`Loading ${options.file}...`);
+    const collection = loadLocalCollection(options.file);
+    spinner.succeed(`Loaded collection: ${collection.name} (${collection.endpoints.length} endpoints)`);
+    return { collection, apiClient: null };
+  }
+
+  if (!options.collection || !options.apiUrl || !options.apiToken) {
+    throw new Error("--collection and an API token are required unless --file is used");
+  }
+  spinner.start(`Fetching collection ${options.collection}...`);
+  const apiClient = new ApiClient(options.apiUrl, options.apiToken, network);
+  const collection = await apiClient.getCollection(options.collection);
+  spinner.succeed(`Fetched collection: ${collection.name} (${collection.endpoints.length} endpoints)`);
+  return { collection, apiClient };
+}
+
+/**
+ * The environment's $auth overrides the collection's auth block
+ */
+export function createRunAuth(
+  environment: ResolvedEnvironment | undefined,
+  collection: Collection,
+  network: NetworkAgents,
+  spinner: Ora,
+): AuthProvider | undefined {
+  const authConfig = environment?.auth ?? collection.auth;
+  if (!authConfig) return undefined;
+
+  const auth = createAuthProvider(authConfig, { environment: environment?.variables, network });
+  spinner.info(`Using ${authConfig.type} auth`);
+  return auth;
+}
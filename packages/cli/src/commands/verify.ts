@@ -1,12 +1,20 @@
+import fs from "node:fs";
+import path from "node:path";
+
 import ora from "ora";
 import { ApiClient } from "../api-client.js";
+import { loadEnvironment } from "../environment.js";
+import { createNetworkAgents, type NetworkAgents } from "../network.js";
 import { Reporter } from "../reporter.js";
+import type { NetworkSettings } from "../types.js";
 
 export interface VerifyOptions {
   collection?: string;
   endpoint?: string;
   env?: string;
   commit?: string;
+  envFile?: string;
+  network?: NetworkSettings;
   apiUrl: string;
   apiToken: string;
 }
@@ -22,10 +30,12 @@ export async function verifyCommand(options: VerifyOptions): Promise<void> {
       );
     }
 
+    const network = resolveNetwork(options);
+
     // Verify endpoints
     if (options.collection) {
       spinner.start(`Fetching collection ${options.collection}...`);
-      const apiClient = new ApiClient(options.apiUrl, options.apiToken);
+      const apiClient = new ApiClient(options.apiUrl, options.apiToken, network);
       const collection = await apiClient.getCollection(options.collection);
       spinner.succeed(
         `Fetched collection: ${collection.name} (${collection.endpoints.length} endpoints)`
@@ -50,7 +60,7 @@ export async function verifyCommand(options: VerifyOptions): Promise<void> {
       if (options.commit) console.log(`  Commit: ${options.commit}`);
     } else if (options.endpoint) {
       spinner.start(`Verifying endpoint ${options.endpoint}...`);
-      const apiClient = new ApiClient(options.apiUrl, options.apiToken);
+      const apiClient = new ApiClient(options.apiUrl, options.apiToken, network);
       await apiClient.verifyEndpoint({
         id: options.endpoint,
         source: "CLI",
@@ -72,3 +82,15 @@ export async function verifyCommand(options: VerifyOptions): Promise<void> {
     process.exit(1);
   }
 }
+
+function resolveNetwork(options: VerifyOptions): NetworkAgents {
+  if (!options.envFile) {
+    return createNetworkAgents(options.network);
+  }
+  if (!fs.existsSync(options.envFile)) {
+    throw new Error(`Environment file not found: ${options.envFile}`);
+  }
+
+  const environment = loadEnvironment(path.resolve(options.envFile), options.env);
+  return createNetworkAgents(...environment.network, options.network);
+}
@@ -0,0 +1,290 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import { NETWORK_ENV_KEY, parseNetworkSettings } from "./network.js";
+import {
+  authConfigSchema,
+  type AuthConfig,
+  type NetworkSettings,
+} from "./types.js";
+
+export const ENV_FILE_NAME = "rest-client.env.json";
+/** Key holding auth settings inside an environment */
+export const AUTH_ENV_KEY = "$auth";
+const SHARED_ENV_KEY = "$shared";
+const DEFAULT_ENV_NAME = "local";
+const MAX_NESTED_RESOLUTION = 5;
+
+export type Variables = Record<string, string>;
+
+export interface VariableContext {
+  environment?: Variables;
+  fileVariables?: Variables;
+}
+
+export interface ResolvedEnvironment {
+  name: string;
+  file: string;
+  variables: Variables;
+  /** Proxy and TLS settings layers from `$network` ($shared, then the environment) */
+  network: NetworkSettings[];
+  /** Auth from `$auth`; the environment's block replaces the `$shared` one */
+  auth?: AuthConfig;
+}
+
+/**
+ * Locate rest-client.env.json, checking each directory in order
+ */
+export function findEnvFile(directories: string[]): string | undefined {
+  for (const dir of directories) {
+    const candidate = path.resolve(dir, ENV_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load an environment from a REST Client env file
+ * `$shared` variables apply to every environment and are overridden by it.
+ * Without a preferred name, "local" (or the first environment) is used,
+ * matching the VS Code extension.
+ */
+export function loadEnvironment(
+  file: string,
+  preferredName?: string,
+): ResolvedEnvironment {
+  let envFile: Record<string, unknown>;
+  try {
+    envFile = JSON.parse(fs.readFileSync(file, "utf8")) as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const names = Object.keys(envFile).filter((key) => key !== SHARED_ENV_KEY);
+  if (preferredName && !names.includes(preferredName)) {
+    throw new Error(
+      `Environment "${preferredName}" not found in ${file}. Available: ${names.join(", ") || "none"}`,
+    );
+  }
+
+  const name =
+    preferredName ??
+    (names.includes(DEFAULT_ENV_NAME) ? DEFAULT_ENV_NAME : names[0]) ??
+    DEFAULT_ENV_NAME;
+
+  const variables: Variables = {
+    ...flattenVariables(envFile[SHARED_ENV_KEY]),
+    ...flattenVariables(envFile[name]),
+  };
+
+  const resolved = resolveNestedVariables(variables);
+  return {
+    name,
+    file,
+    variables: resolved,
+    network: loadNetworkSettings(file, [envFile[SHARED_ENV_KEY], envFile[name]], resolved),
+    auth: loadAuthConfig(file, [envFile[SHARED_ENV_KEY], envFile[name]]),
+  };
+}
+
+/**
+ * Resolve the environment for a command: an explicit --env-file, otherwise
+ * rest-client.env.json next to the local source or in the working directory
+ */
+export function resolveEnvironment(options: {
+  env?: string;
+  envFile?: string;
+  file?: string;
+}): ResolvedEnvironment | undefined {
+  if (options.envFile) {
+    if (!fs.existsSync(options.envFile)) {
+      throw new Error(`Environment file not found: ${options.envFile}`);
+    }
+    return loadEnvironment(path.resolve(options.envFile), options.env);
+  }
+
+  // Look next to the local source first, then in the working directory
+  const searchDirs = [process.cwd()];
+  if (options.file) {
+    const source = path.resolve(options.file);
+    const sourceDir =
+      fs.existsSync(source) && fs.statSync(source).isDirectory()
+        ? source
+        : path.dirname(source);
+    searchDirs.unshift(sourceDir);
+  }
+
+  const envFile = findEnvFile(searchDirs);
+  return envFile ? loadEnvironment(envFile, options.env) : undefined;
+}
+
+/**
+ * Replace variables in text
+ * Supports: system variables, file variables, and environment variables
+ * (same precedence as the extension's replaceEnvironmentVariables)
+ */
+export function replaceVariables(text: string, context: VariableContext = {}): string {
+  let result = replaceSystemVariables(text);
+
+  for (const variables of [context.fileVariables, context.environment]) {
+    if (!variables) continue;
+    for (const [key, value] of Object.entries(variables)) {
+      const regex = new RegExp(`{{\\s*${escapeRegex(key)}\\s*}}`, "g");
+      result = result.replace(regex, () => value);
+    }
+  }
+
+  // Variable values may themselves use system variables
+  return replaceSystemVariables(result);
+}
+
+/**
+ * List variable references left unresolved in text
+ */
+export function findUnresolvedVariables(text: string): string[] {
+  const matches = text.matchAll(/{{\s*([^}]+?)\s*}}/g);
+  return Array.from(new Set(Array.from(matches, (match) => match[1])));
+}
+
+/**
+ * Replace system variables: $timestamp, $guid, $randomInt, $processEnv, $dotenv
+ */
+function replaceSystemVariables(text: string): string {
+  return text
+    .replace(/\{\{\s*\$timestamp\s*\}\}/g, () =>
+      Math.floor(Date.now() / 1000).toString(),
+    )
+    .replace(/\{\{\s*\$guid\s*\}\}/g, () => crypto.randomUUID())
+    .replace(
+      /\{\{\s*\$randomInt\s+(-?\d+)\s+(-?\d+)\s*\}\}/g,
+      (_, min, max) =>
+        (
+          Math.floor(Math.random() * (parseInt(max) - parseInt(min))) +
+          parseInt(min)
+        ).toString(),
+    )
+    // .env is loaded into process.env on startup, so both read the same source
+    .replace(
+      /\{\{\s*\$(?:processEnv|dotenv)\s+(\w+)\s*\}\}/g,
+      (_, envVar) => process.env[envVar] ?? "",
+    );
+}
+
+/**
+ * Read `$network` blocks, which may reference variables (e.g. a passphrase
+ * from {{$processEnv CERT_PASSPHRASE}}) and paths relative to the env file
+ */
+function loadNetworkSettings(
+  file: string,
+  environments: unknown[],
+  variables: Variables,
+): NetworkSettings[] {
+  return environments
+    .map((environment) =>
+      environment && typeof environment === "object"
+        ? (environment as Record<string, unknown>)[NETWORK_ENV_KEY]
+        : undefined,
+    )
+    .filter((raw) => raw !== undefined)
+    .map((raw) =>
+      parseNetworkSettings(
+        substituteVariables(raw, variables),
+        `${file} (${NETWORK_ENV_KEY})`,
+        path.dirname(file),
+      ),
+    );
+}
+
+/**
+ * Read the last `$auth` block; variables are resolved when the provider is created
+ */
+function loadAuthConfig(file: string, environments: unknown[]): AuthConfig | undefined {
+  const raw = environments
+    .map((environment) =>
+      environment && typeof environment === "object"
+        ? (environment as Record<string, unknown>)[AUTH_ENV_KEY]
+        : undefined,
+    )
+    .filter((value) => value !== undefined)
+    .at(-1);
+  if (raw === undefined) return undefined;
+
+  const parsed = authConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid auth settings in ${file} (${AUTH_ENV_KEY}):\n${issues}`);
+  }
+  return parsed.data;
+}
+
+function substituteVariables(value: unknown, variables: Variables): unknown {
+  if (typeof value === "string") {
+    return replaceVariables(value, { environment: variables });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteVariables(item, variables));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, substituteVariables(child, variables)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Flatten nested environment objects into dot-delimited keys
+ * e.g. { auth: { token: "x" } } -> { "auth.token": "x" }
+ */
+function flattenVariables(value: unknown, prefix = ""): Variables {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  const variables: Variables = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (!prefix && (key === NETWORK_ENV_KEY || key === AUTH_ENV_KEY)) continue;
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (child && typeof child === "object" && !Array.isArray(child)) {
+      Object.assign(variables, flattenVariables(child, name));
+    } else if (child !== undefined && child !== null) {
+      variables[name] = String(child);
+    }
+  }
+  return variables;
+}
+
+/**
+ * Resolve variables referencing other variables, e.g. "apiUrl": "{{host}}/api"
+ */
+function resolveNestedVariables(variables: Variables): Variables {
+  const resolved = { ...variables };
+
+  for (let pass = 0; pass < MAX_NESTED_RESOLUTION; pass++) {
+    let changed = false;
+    for (const [key, value] of Object.entries(resolved)) {
+      if (!value.includes("{{")) continue;
+      const next = value.replace(/{{\s*([^}$]+?)\s*}}/g, (match, name: string) =>
+        name !== key && resolved[name] !== undefined ? resolved[name] : match,
+      );
+      if (next !== value) {
+        resolved[key] = next;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return resolved;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
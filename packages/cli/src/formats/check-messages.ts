@@ -0,0 +1,44 @@
+import type {
+  AssertionFailure,
+  CheckAttempt,
+  LatencySummary,
+  TimingPhases,
+} from "../types.js";
+import { formatValue } from "./shared.js";
+
+export type EndpointNames = Map<string, string>;
+
+export const FAILURE_LABELS: Record<AssertionFailure["assertion"], string> = {
+  statusCode: "Status code",
+  responseTime: "Response time",
+  bodyContains: "Body contains",
+  bodyMatches: "Body matches",
+  bodySchema: "Body schema",
+  jsonPath: "JSONPath",
+  jmesPath: "JMESPath",
+  headers: "Header",
+};
+
+export function describeFailure(failure: AssertionFailure): string {
+  const location = failure.path ? ` ${failure.path}` : "";
+  const detail = failure.message ? ` (${failure.message})` : "";
+  return `${FAILURE_LABELS[failure.assertion]}${location}: expected ${formatValue(
+    failure.expected,
+  )}, got ${formatValue(failure.actual)}${detail}`;
+}
+
+export function describeAttempt(attempt: CheckAttempt): string {
+  const outcome = attempt.error ?? `HTTP ${attempt.status}`;
+  const wait = attempt.retryAfter ? "Retry-After" : "backoff";
+  return `#${attempt.attempt} ${outcome} (waited ${attempt.delay}ms, ${wait})`;
+}
+
+export function describeLatency(latency: LatencySummary): string {
+  return `${latency.samples} samples: p50 ${latency.p50}ms, p90 ${latency.p90}ms, p99 ${latency.p99}ms (min ${latency.min}ms, max ${latency.max}ms)`;
+}
+
+export function describePhases(phases: TimingPhases): string {
+  return Object.entries(phases)
+    .map(([phase, ms]) => `${phase} ${ms}ms`)
+    .join(", ");
+}
@@ -0,0 +1,70 @@
+import type { AnalyzerResult } from "../analyzer/types.js";
+import type { Collection, Report } from "../types.js";
+import type { EndpointNames } from "./check-messages.js";
+import { analyzerResultToJUnit, checkReportToJUnit } from "./junit.js";
+import { analyzerResultToSarif, checkReportToSarif } from "./sarif.js";
+import type { MachineFormat } from "./shared.js";
+import { analyzerResultToTap, checkReportToTap } from "./tap.js";
+
+export function formatCheckReport(
+  report: Report,
+  format: MachineFormat,
+  collection?: Collection,
+  regressions: string[] = [],
+): string {
+  const names: EndpointNames = new Map(
+    (collection?.endpoints ?? []).map((endpoint) => [
+      endpoint.id,
+      `${endpoint.method} ${endpoint.name}`,
+    ]),
+  );
+
+  switch (format) {
+    case "junit":
+      return checkReportToJUnit(report, names, regressions);
+    case "tap":
+      return checkReportToTap(report, names, regressions);
+    case "sarif":
+      return checkReportToSarif(report, names, regressions);
+    default:
+      return JSON.stringify({ ...report, regressions }, null, 2);
+  }
+}
+
+export function formatAnalyzerReport(
+  result: AnalyzerResult,
+  format: MachineFormat,
+): string {
+  switch (format) {
+    case "junit":
+      return analyzerResultToJUnit(result);
+    case "tap":
+      return analyzerResultToTap(result);
+    case "sarif":
+      return analyzerResultToSarif(result);
+    default:
+      return JSON.stringify(
+        {
+          summary: result.summary,
+          issues: result.issues,
+          baseline: result.baseline,
+        },
+        null,
+        2,
+      );
+  }
+}
+
+export {
+  describeAttempt,
+  describeFailure,
+  describeLatency,
+  describePhases,
+  FAILURE_LABELS,
+} from "./check-messages.js";
+export {
+  OUTPUT_FORMATS,
+  writeOutput,
+  type MachineFormat,
+  type OutputFormat,
+} from "./shared.js";
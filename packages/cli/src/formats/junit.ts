@@ -0,0 +1,176 @@
+import type { AnalyzerResult } from "../analyzer/types.js";
+import type { AssertionFailure, Report } from "../types.js";
+import {
+  describeAttempt,
+  describeFailure,
+  describeLatency,
+  describePhases,
+  type EndpointNames,
+} from "./check-messages.js";
+import { escapeXml } from "./shared.js";
+
+interface TestCase {
+  name: string;
+  classname: string;
+  time?: number;
+  failure?: { message: string; type: string; body: string };
+  error?: { message: string; body: string };
+  skipped?: string;
+  output?: string;
+}
+
+/**
+ * Each regression (platform or --baseline) is a failed test case of its own
+ */
+export function checkReportToJUnit(
+  report: Report,
+  names: EndpointNames,
+  regressions: string[] = [],
+): string {
+  const cases: TestCase[] = report.results.map((result) => {
+    const name = names.get(result.endpointId) ?? result.endpointId;
+    const testCase: TestCase = {
+      name,
+      classname: `watchapi.check.${report.environment}`,
+      time: result.responseTime / 1000,
+    };
+
+    const output: string[] = [];
+    if (result.latency) {
+      output.push(
+        `Latency: ${describeLatency(result.latency)}`,
+        `Phases (median): ${describePhases(result.latency.phases)}`,
+      );
+    }
+    if (result.attempts?.length) {
+      output.push(
+        `Retried attempts:\n${result.attempts.map(describeAttempt).join("\n")}`,
+      );
+    }
+    if (output.length > 0) {
+      testCase.output = output.join("\n");
+    }
+
+    if (result.status === "FAILED") {
+      const failures: AssertionFailure[] = result.failures ?? [];
+      testCase.failure = {
+        message: failures.length
+          ? describeFailure(failures[0])
+          : "Assertions failed",
+        type: failures[0]?.assertion ?? "assertion",
+        body: failures.map(describeFailure).join("\n"),
+      };
+    } else if (result.status === "SKIPPED") {
+      testCase.skipped = result.skipReason ?? "Skipped";
+    } else if (result.status === "ERROR") {
+      testCase.error = {
+        message: result.error ?? "Request failed",
+        body: result.error ?? "",
+      };
+    }
+
+    return testCase;
+  });
+
+  for (const regression of regressions) {
+    cases.push({
+      name: regression,
+      classname: `watchapi.check.${report.environment}.regressions`,
+      failure: { message: regression, type: "regression", body: regression },
+    });
+  }
+
+  return renderDocument("watchapi check", report.timestamp, cases);
+}
+
+export function analyzerResultToJUnit(result: AnalyzerResult): string {
+  const cases: TestCase[] = result.issues.map((issue) => {
+    const testCase: TestCase = {
+      name: `${issue.rule}: ${issue.router} ${issue.procedure}`,
+      classname: issue.file,
+    };
+    const location = `${issue.file}:${issue.line}`;
+
+    // Errors become failures whatever the run's --fail-on severity; that
+    // policy only decides the exit code
+    if (issue.severity === "error") {
+      testCase.failure = {
+        message: issue.message,
+        type: issue.rule,
+        body: `${location}\n${issue.message}`,
+      };
+    } else {
+      testCase.output = `[${issue.severity}] ${location} ${issue.message}`;
+    }
+
+    return testCase;
+  });
+
+  return renderDocument(
+    `watchapi analyze (${result.target})`,
+    new Date().toISOString(),
+    cases,
+  );
+}
+
+function renderDocument(
+  suiteName: string,
+  timestamp: string,
+  cases: TestCase[],
+): string {
+  const failures = cases.filter((c) => c.failure).length;
+  const errors = cases.filter((c) => c.error).length;
+  const skipped = cases.filter((c) => c.skipped !== undefined).length;
+  const time = cases.reduce((sum, c) => sum + (c.time ?? 0), 0);
+  const attrs = `tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${time.toFixed(3)}"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" ${attrs}>`,
+    `  <testsuite name="${escapeXml(suiteName)}" ${attrs} timestamp="${escapeXml(timestamp)}">`,
+    ...cases.flatMap(renderTestCase),
+    "  </testsuite>",
+    "</testsuites>",
+  ];
+
+  return lines.join("\n");
+}
+
+function renderTestCase(testCase: TestCase): string[] {
+  const time =
+    testCase.time !== undefined ? ` time="${testCase.time.toFixed(3)}"` : "";
+  const open = `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(
+    testCase.classname,
+  )}"${time}`;
+
+  const children: string[] = [];
+  if (testCase.failure) {
+    children.push(
+      `      <failure message="${escapeXml(testCase.failure.message)}" type="${escapeXml(
+        testCase.failure.type,
+      )}">${escapeXml(testCase.failure.body)}</failure>`,
+    );
+  }
+  if (testCase.error) {
+    children.push(
+      `      <error message="${escapeXml(testCase.error.message)}">${escapeXml(
+        testCase.error.body,
+      )}</error>`,
+    );
+  }
+  if (testCase.skipped !== undefined) {
+    children.push(
+      `      <skipped message="${escapeXml(testCase.skipped)}" />`,
+    );
+  }
+  if (testCase.output) {
+    children.push(
+      `      <system-out>${escapeXml(testCase.output)}</system-out>`,
+    );
+  }
+
+  if (!children.length) {
+    return [`${open} />`];
+  }
+  return [`${open}>`, ...children, "    </testcase>"];
+}
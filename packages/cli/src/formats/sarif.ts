@@ -0,0 +1,129 @@
+import type { AnalyzerIssue, AnalyzerResult } from "../analyzer/types.js";
+import type { Report } from "../types.js";
+import { describeFailure, type EndpointNames } from "./check-messages.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+type SarifLevel = "error" | "warning" | "note";
+
+interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: unknown[];
+  properties?: Record<string, unknown>;
+}
+
+export function analyzerResultToSarif(result: AnalyzerResult): string {
+  const ruleIds = Array.from(new Set(result.issues.map((issue) => issue.rule)));
+
+  const results = result.issues.map<SarifResult>((issue) => ({
+    ruleId: issue.rule,
+    level: toSarifLevel(issue.severity),
+    message: { text: issue.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: toArtifactLocation(issue.file),
+          region: { startLine: Math.max(issue.line, 1) },
+        },
+        logicalLocations: [
+          {
+            name: issue.procedure,
+            fullyQualifiedName: `${issue.router}.${issue.procedure}`,
+          },
+        ],
+      },
+    ],
+  }));
+
+  return renderLog(
+    "watchapi analyze",
+    ruleIds.map((id) => ({ id, name: id })),
+    results,
+  );
+}
+
+/**
+ * Each regression (platform or --baseline) is an error result of its own
+ */
+export function checkReportToSarif(
+  report: Report,
+  names: EndpointNames,
+  regressions: string[] = [],
+): string {
+  const results = report.results.flatMap<SarifResult>((result) => {
+    const endpoint = names.get(result.endpointId) ?? result.endpointId;
+    const properties = {
+      endpointId: result.endpointId,
+      environment: report.environment,
+      responseTime: result.responseTime,
+      latency: result.latency,
+    };
+
+    if (result.status === "ERROR") {
+      return [
+        {
+          ruleId: "request-error",
+          level: "error",
+          message: { text: `${endpoint}: ${result.error ?? "Request failed"}` },
+          properties,
+        },
+      ];
+    }
+
+    return (result.failures ?? []).map<SarifResult>((failure) => ({
+      ruleId: failure.assertion,
+      level: "error",
+      message: { text: `${endpoint}: ${describeFailure(failure)}` },
+      properties: { ...properties, path: failure.path },
+    }));
+  });
+  for (const regression of regressions) {
+    results.push({
+      ruleId: "regression",
+      level: "error",
+      message: { text: regression },
+      properties: { environment: report.environment },
+    });
+  }
+
+  const ruleIds = Array.from(new Set(results.map((result) => result.ruleId)));
+  return renderLog(
+    "watchapi check",
+    ruleIds.map((id) => ({ id, name: id })),
+    results,
+  );
+}
+
+function renderLog(
+  toolName: string,
+  rules: { id: string; name: string }[],
+  results: SarifResult[],
+): string {
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: toolName, rules } },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+function toSarifLevel(severity: AnalyzerIssue["severity"]): SarifLevel {
+  if (severity === "error") return "error";
+  if (severity === "warn") return "warning";
+  return "note";
+}
+
+function toArtifactLocation(file: string) {
+  if (/^https?:\/\//.test(file)) {
+    return { uri: file };
+  }
+  return { uri: file.split("\\").join("/"), uriBaseId: "%SRCROOT%" };
+}
@@ -0,0 +1,36 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type MachineFormat = "json" | "junit" | "tap" | "sarif";
+export type OutputFormat = "table" | MachineFormat;
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  "table",
+  "json",
+  "junit",
+  "tap",
+  "sarif",
+];
+
+export function writeOutput(content: string, outputPath: string): string {
+  const resolved = path.resolve(outputPath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.writeFileSync(resolved, content.endsWith("\n") ? content : `${content}\n`);
+  return resolved;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Strip characters that are not allowed in XML 1.0 documents
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined) return "nothing";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
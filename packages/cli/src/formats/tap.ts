@@ -0,0 +1,115 @@
+import type { AnalyzerResult } from "../analyzer/types.js";
+import type { Report } from "../types.js";
+import {
+  describeAttempt,
+  describeFailure,
+  describeLatency,
+  describePhases,
+  type EndpointNames,
+} from "./check-messages.js";
+
+interface TapPoint {
+  ok: boolean;
+  description: string;
+  skip?: string;
+  diagnostics: Record<string, string | number | string[]>;
+}
+
+/**
+ * Each regression (platform or --baseline) is a `not ok` point of its own
+ */
+export function checkReportToTap(
+  report: Report,
+  names: EndpointNames,
+  regressions: string[] = [],
+): string {
+  const points = report.results.map<TapPoint>((result) => {
+    const diagnostics: TapPoint["diagnostics"] = {
+      endpointId: result.endpointId,
+      durationMs: result.responseTime,
+    };
+    if (result.actualStatus !== undefined) {
+      diagnostics.status = result.actualStatus;
+    }
+    if (result.failures?.length) {
+      diagnostics.failures = result.failures.map(describeFailure);
+    }
+    if (result.error) {
+      diagnostics.error = result.error;
+    }
+    if (result.latency) {
+      diagnostics.latency = describeLatency(result.latency);
+      diagnostics.phases = describePhases(result.latency.phases);
+    }
+    if (result.attempts?.length) {
+      diagnostics.retries = result.attempts.map(describeAttempt);
+    }
+
+    return {
+      ok: result.status === "PASSED" || result.status === "SKIPPED",
+      description: names.get(result.endpointId) ?? result.endpointId,
+      skip: result.status === "SKIPPED" ? result.skipReason ?? "" : undefined,
+      diagnostics,
+    };
+  });
+
+  for (const regression of regressions) {
+    points.push({
+      ok: false,
+      description: `regression: ${regression}`,
+      diagnostics: { environment: report.environment },
+    });
+  }
+
+  return renderTap(points);
+}
+
+export function analyzerResultToTap(result: AnalyzerResult): string {
+  const points = result.issues.map<TapPoint>((issue) => ({
+    // Errors are "not ok"; --fail-on decides the exit code, not the points
+    ok: issue.severity !== "error",
+    description: `${issue.rule}: ${issue.router} ${issue.procedure}`,
+    diagnostics: {
+      severity: issue.severity,
+      message: issue.message,
+      at: `${issue.file}:${issue.line}`,
+    },
+  }));
+
+  return renderTap(points);
+}
+
+function renderTap(points: TapPoint[]): string {
+  const lines = ["TAP version 13", `1..${points.length}`];
+
+  points.forEach((point, index) => {
+    lines.push(
+      `${point.ok ? "ok" : "not ok"} ${index + 1} - ${escapeDescription(point.description)}${
+        point.skip !== undefined ? ` # SKIP ${point.skip}` : ""
+      }`,
+    );
+    lines.push("  ---");
+    for (const [key, value] of Object.entries(point.diagnostics)) {
+      if (Array.isArray(value)) {
+        lines.push(`  ${key}:`);
+        value.forEach((item) => lines.push(`    - ${yamlString(item)}`));
+      } else {
+        lines.push(
+          `  ${key}: ${typeof value === "number" ? value : yamlString(value)}`,
+        );
+      }
+    }
+    lines.push("  ...");
+  });
+
+  return lines.join("\n");
+}
+
+function escapeDescription(value: string): string {
+  // "#" starts a TAP directive
+  return value.replace(/\\/g, "\\\\").replace(/#/g, "\\#");
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
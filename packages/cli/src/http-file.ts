@@ -0,0 +1,264 @@
+/**
+ * .http file parsing for local collections
+ * Follows the same rules as the VS Code extension's parseHttpFile
+ * (REST Client format) so files written by the extension check the same way.
+ */
+
+const REQUEST_LINE = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+/i;
+
+export type HttpMethod =
+  | "GET"
+  | "POST"
+  | "PUT"
+  | "PATCH"
+  | "DELETE"
+  | "HEAD"
+  | "OPTIONS";
+
+export interface SetDirective {
+  varName: string;
+  responsePath: string;
+}
+
+export interface HttpRequestBlock {
+  name: string;
+  method: HttpMethod;
+  requestPath: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: string;
+  setDirectives?: SetDirective[];
+}
+
+/**
+ * Split a .http document into request blocks (separated by ###)
+ */
+export function splitHttpRequests(content: string): string[] {
+  const blocks: string[][] = [[]];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim().startsWith("###")) {
+      blocks.push([]);
+      continue;
+    }
+    blocks[blocks.length - 1].push(line);
+  }
+
+  return blocks
+    .map((lines) => lines.join("\n"))
+    .filter((block) =>
+      block.split("\n").some((line) => REQUEST_LINE.test(line.trim())),
+    );
+}
+
+/**
+ * Parse a single .http request block
+ */
+export function parseHttpRequest(content: string): HttpRequestBlock {
+  const lines = content.split("\n");
+  let method: HttpMethod = "GET";
+  let requestPath = "";
+  let name = "";
+  const headers: Record<string, string> = {};
+  const query: Record<string, string> = {};
+  const setDirectives: SetDirective[] = [];
+  let body = "";
+  let inBody = false;
+  let inHeaders = false;
+  let collectingUrl = false;
+  let urlLines: string[] = [];
+
+  const finishUrl = () => {
+    collectingUrl = false;
+    const parsed = parseUrlAndQuery(normalizeUrlLines(urlLines));
+    requestPath = parsed.path;
+    Object.assign(query, parsed.query);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    // Empty line after headers indicates body start
+    if (line.length === 0) {
+      if (collectingUrl) {
+        finishUrl();
+        inHeaders = true;
+      }
+      if (inHeaders && i < lines.length - 1) {
+        inHeaders = false;
+        inBody = true;
+      }
+      continue;
+    }
+
+    // Extract name from // comment (format: // METHOD path - Name)
+    if (line.startsWith("//") && !line.startsWith("// Environments")) {
+      if (!name) {
+        name = line.replace(/^\/\/\s*/, "").trim();
+      }
+      continue;
+    }
+
+    // Extract @set directives (@set varName = response.path.to.value)
+    const setMatch = line.match(/^@set\s+(\w+)\s*=\s*(.+)$/);
+    if (setMatch) {
+      setDirectives.push({
+        varName: setMatch[1],
+        responsePath: setMatch[2].trim(),
+      });
+      continue;
+    }
+
+    // Skip other @ directives (file variables)
+    if (line.startsWith("@")) {
+      continue;
+    }
+
+    // Parse request line (METHOD URL)
+    if (!inHeaders && !inBody && REQUEST_LINE.test(line)) {
+      const [, rawUrl = ""] = line.split(/\s+/, 2);
+
+      method = line.split(/\s+/)[0].toUpperCase() as HttpMethod;
+      urlLines = [rawUrl];
+      collectingUrl = true;
+      continue;
+    }
+
+    // Collect multiline URL until headers begin
+    if (collectingUrl) {
+      if (isHeaderLine(line)) {
+        finishUrl();
+        inHeaders = true;
+        // fall through to header parsing
+      } else {
+        urlLines.push(line);
+        continue;
+      }
+    }
+
+    // Parse headers
+    if (inHeaders && line.includes(":")) {
+      const colonIndex = line.indexOf(":");
+      headers[line.substring(0, colonIndex).trim()] = line
+        .substring(colonIndex + 1)
+        .trim();
+      continue;
+    }
+
+    // Collect body lines
+    if (inBody) {
+      body += (body ? "\n" : "") + lines[i];
+    }
+  }
+
+  // A request without headers or body ends with its URL
+  if (collectingUrl) {
+    finishUrl();
+  }
+
+  return {
+    name: name || humanizeRouteName({ path: requestPath, method }),
+    method,
+    requestPath,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    query: Object.keys(query).length > 0 ? query : undefined,
+    body: body.trim() || undefined,
+    setDirectives: setDirectives.length > 0 ? setDirectives : undefined,
+  };
+}
+
+/**
+ * Extract file variables from .http file content
+ * File variables are defined with @varName = value
+ */
+export function extractFileVariables(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const regex = /^\s*@([^\s=]+)\s*=\s*(.*?)\s*$/gm;
+  let match;
+
+  while ((match = regex.exec(content)) !== null) {
+    variables[match[1]] = match[2];
+  }
+
+  return variables;
+}
+
+/**
+ * Build the full request URL (path + query string)
+ * {{variables}} are left unencoded so they can still be substituted
+ */
+export function buildRequestUrl(request: HttpRequestBlock): string {
+  if (!request.query) {
+    return request.requestPath;
+  }
+
+  const queryString = Object.entries(request.query)
+    .map(([key, value]) => `${encodeQueryText(key)}=${encodeQueryText(value)}`)
+    .join("&");
+  return `${request.requestPath}?${queryString}`;
+}
+
+function encodeQueryText(value: string): string {
+  return value
+    .split(/(\{\{[^{}]*\}\})/)
+    .map((part, index) => (index % 2 === 1 ? part : encodeURIComponent(part)))
+    .join("");
+}
+
+function humanizeRouteName(route: { path: string; method: string }): string {
+  const cleanPath = route.path.replace("{{baseUrl}}", "").trim();
+
+  // tRPC: /api/trpc/auth.login -> Login
+  if (cleanPath.startsWith("/api/trpc")) {
+    const procedure = cleanPath.replace("/api/trpc/", "");
+    const actionName = procedure.split(".").filter(Boolean).at(-1) ?? "";
+    const spaced = actionName.replace(/([A-Z])/g, " $1");
+    return spaced.charAt(0).toUpperCase() + spaced.slice(1).trim();
+  }
+
+  const resource = cleanPath
+    .split("/")
+    .filter(Boolean)
+    .filter((part) => part !== "api")
+    .slice(-2)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+  const actionMap: Record<string, string> = {
+    GET: "Get",
+    POST: "Create",
+    PUT: "Update",
+    PATCH: "Update",
+    DELETE: "Delete",
+  };
+  const action = actionMap[route.method.toUpperCase()] ?? "Handle";
+
+  return `${action} ${resource}`.trim();
+}
+
+function isHeaderLine(line: string): boolean {
+  return /^[A-Za-z-]+:\s*/.test(line);
+}
+
+function normalizeUrlLines(lines: string[]): string {
+  return lines.join("").replace(/\s+/g, "").trim();
+}
+
+function parseUrlAndQuery(url: string): {
+  path: string;
+  query: Record<string, string>;
+} {
+  const [path, queryString] = url.split("?", 2);
+  const query: Record<string, string> = {};
+
+  if (queryString) {
+    for (const part of queryString.split("&")) {
+      const [key, value] = part.split("=", 2);
+      if (key) {
+        query[decodeURIComponent(key)] = value ? decodeURIComponent(value) : "";
+      }
+    }
+  }
+
+  return { path, query };
+}
@@ -7,25 +7,91 @@ export {
   saveAuthConfig,
 } from "./auth-config.js";
 export { EndpointChecker } from "./checker.js";
+export { AssertionEngine } from "./assertions.js";
+export {
+  buildBaseline,
+  compareWithBaseline,
+  diffSchemas,
+  inferSchema,
+  loadBaseline,
+  saveBaseline,
+} from "./baseline.js";
 export { Reporter } from "./reporter.js";
+export {
+  createAuthProvider,
+  type AuthProvider,
+  type AuthRequest,
+} from "./auth.js";
+export {
+  NetworkAgents,
+  createNetworkAgents,
+  resolveNetworkSettings,
+} from "./network.js";
 export { checkCommand } from "./commands/check.js";
 export { analyzeCommand } from "./commands/analyze.js";
 export { loginCommand } from "./commands/login.js";
 export { logoutCommand } from "./commands/logout.js";
 export { syncCommand } from "./commands/sync.js";
+export { monitorCommand } from "./commands/monitor.js";
+export { loadCommand } from "./commands/load.js";
+export {
+  LoadRunner,
+  evaluateThresholds,
+  parseThreshold,
+  type LoadReport,
+  type LoadStats,
+  type ThresholdResult,
+} from "./load.js";
+export {
+  Monitor,
+  type EndpointState,
+  type MonitorEvent,
+  type MonitorSink,
+  type WindowStats,
+} from "./monitor.js";
+export { createSink } from "./monitor-sinks.js";
+export {
+  MetricsRegistry,
+  createMetricsSink,
+  startMetricsServer,
+  type MetricLabels,
+} from "./metrics.js";
 export {
   runAnalyzer,
   printReport,
   getNextAppRoutes,
   getNextTrpcProcedures,
   getNestOperations,
+  defineConfig,
+  definePlugin,
+  loadAnalyzerConfig,
+  loadAnalyzerPlugins,
+  buildAnalyzerBaseline,
+  compareWithAnalyzerBaseline,
+  fingerprintIssue,
+  loadAnalyzerBaseline,
+  saveAnalyzerBaseline,
+  applyFixes,
+  unifiedDiff,
 } from "./analyzer/index.js";
 export { detectTarget, detectTargets } from "./detect-target.js";
+export {
+  formatAnalyzerReport,
+  formatCheckReport,
+  type OutputFormat,
+} from "./formats/index.js";
 export type {
   EndpointDefinition,
   Collection,
   CheckResult,
+  AssertionFailure,
+  LatencySummary,
+  TimingPhases,
   Report,
+  Baseline,
+  AuthConfig,
+  NetworkSettings,
+  TlsSettings,
 } from "./types.js";
 export type {
   AnalyzerOptions,
@@ -37,4 +103,16 @@ export type {
   TrpcProcedureNode,
   NextRouteNode,
   OpenApiOperationNode,
+  AnalyzerConfig,
+  AnalyzerPlugin,
+  AnalyzerBaseline,
+  AnalyzerBaselineEntry,
+  AnalyzerFix,
+  TextEdit,
+  RuleConfig,
+  RuleContext,
+  RuleRunner,
+  RouterRuleRunner,
+  RuleSetting,
+  TrpcRouterMeta,
 } from "./analyzer/types.js";
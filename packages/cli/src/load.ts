@@ -0,0 +1,377 @@
+import type { EndpointChecker } from "./checker.js";
+import { sleep } from "./request-control.js";
+import { percentile } from "./request-timing.js";
+import type { CheckResult, EndpointDefinition } from "./types.js";
+
+/** How often the executor re-reads the ramp target */
+const TICK_MS = 100;
+const DEFAULT_MAX_IN_FLIGHT = 1000;
+
+export type LoadMode = "rps" | "vus";
+
+export interface LoadStage {
+  /** Stage length in ms */
+  duration: number;
+  /** Level reached at the end of the stage (requests per second or VUs) */
+  target: number;
+}
+
+export interface LoadOptions {
+  mode: LoadMode;
+  /** Level at the start, kept constant for `duration` when there are no stages */
+  start: number;
+  /** Run length in ms when there are no stages */
+  duration?: number;
+  stages?: LoadStage[];
+  /** RPS mode: iterations beyond this many open requests are dropped (default: 1000) */
+  maxInFlight?: number;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+export interface LoadProgress {
+  elapsed: number;
+  duration: number;
+  /** Current RPS or VU target */
+  target: number;
+  requests: number;
+  failures: number;
+}
+
+export interface LoadStats {
+  requests: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  /** (failed + errors) / requests */
+  errorRate: number;
+  /** Completed requests per second */
+  rps: number;
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  /** Responses per status code, "error" when none was received */
+  statuses: Record<string, number>;
+}
+
+export interface EndpointLoadStats extends LoadStats {
+  endpointId: string;
+  name: string;
+  method: EndpointDefinition["method"];
+}
+
+export interface LoadReport {
+  mode: LoadMode;
+  startedAt: string;
+  /** Actual run length in ms, including requests still in flight at the end */
+  duration: number;
+  /** RPS iterations skipped because maxInFlight requests were open */
+  dropped: number;
+  total: LoadStats;
+  endpoints: EndpointLoadStats[];
+}
+
+export const THRESHOLD_METRICS = [
+  "p50",
+  "p90",
+  "p95",
+  "p99",
+  "mean",
+  "max",
+  "error_rate",
+  "rps",
+] as const;
+
+export interface Threshold {
+  expression: string;
+  /** Endpoint name or id; the whole run when omitted */
+  endpoint?: string;
+  metric: (typeof THRESHOLD_METRICS)[number];
+  operator: "<" | "<=" | ">" | ">=";
+  value: number;
+}
+
+export interface ThresholdResult {
+  threshold: Threshold;
+  actual: number;
+  passed: boolean;
+}
+
+/**
+ * Parse a duration such as 500ms, 30s, 5m, 1h or a plain number of seconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}". Use e.g. 500ms, 30s, 5m or 1h`);
+  }
+  const units = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return Math.round(Number(match[1]) * units[(match[2] ?? "s") as keyof typeof units]);
+}
+
+/**
+ * Parse a ramp stage written as <duration>:<target>, e.g. 30s:50
+ */
+export function parseStage(value: string): LoadStage {
+  const [duration, target, ...rest] = value.split(":");
+  const parsedTarget = Number(target);
+  if (rest.length > 0 || !Number.isFinite(parsedTarget) || parsedTarget < 0) {
+    throw new Error(`Invalid stage "${value}". Use <duration>:<target>, e.g. 30s:50`);
+  }
+  return { duration: parseDuration(duration), target: parsedTarget };
+}
+
+/**
+ * Parse a threshold written as [endpoint:]metric<op>value, e.g. p95<500,
+ * error_rate<1% or "List users:rps>=20". Latencies are in ms (or with an
+ * ms/s suffix); error rates are fractions or percentages.
+ */
+export function parseThreshold(expression: string): Threshold {
+  const match = new RegExp(
+    `^(?:(.+):)?(${THRESHOLD_METRICS.join("|")})\\s*(<=|>=|<|>)\\s*(\\d+(?:\\.\\d+)?)(%|ms|s)?$`,
+  ).exec(expression.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid threshold "${expression}". Use [endpoint:]<metric><op><value> with metric ${THRESHOLD_METRICS.join(", ")}`,
+    );
+  }
+
+  const [, endpoint, metric, operator, rawValue, unit] = match;
+  const value =
+    unit === "%" ? Number(rawValue) / 100 : unit === "s" ? Number(rawValue) * 1000 : Number(rawValue);
+  return {
+    expression,
+    endpoint: endpoint?.trim(),
+    metric: metric as Threshold["metric"],
+    operator: operator as Threshold["operator"],
+    value,
+  };
+}
+
+/**
+ * Fail before any traffic is sent when a threshold names an endpoint that
+ * will not be run
+ */
+export function validateThresholdEndpoints(
+  thresholds: Threshold[],
+  endpoints: EndpointDefinition[],
+): void {
+  for (const threshold of thresholds) {
+    const name = threshold.endpoint;
+    if (name && !endpoints.some((endpoint) => endpoint.name === name || endpoint.id === name)) {
+      throw new Error(
+        `Threshold "${threshold.expression}" names an endpoint that is not run. Available: ${endpoints
+          .map((endpoint) => endpoint.name)
+          .join(", ")}`,
+      );
+    }
+  }
+}
+
+export function evaluateThresholds(
+  report: LoadReport,
+  thresholds: Threshold[],
+): ThresholdResult[] {
+  return thresholds.map((threshold) => {
+    const stats = threshold.endpoint
+      ? report.endpoints.find(
+          (endpoint) =>
+            endpoint.name === threshold.endpoint || endpoint.endpointId === threshold.endpoint,
+        )
+      : report.total;
+    if (!stats) {
+      throw new Error(`Threshold "${threshold.expression}" names an endpoint that was not run`);
+    }
+
+    const actual = threshold.metric === "error_rate" ? stats.errorRate : stats[threshold.metric];
+    const passed =
+      threshold.operator === "<"
+        ? actual < threshold.value
+        : threshold.operator === "<="
+        ? actual <= threshold.value
+        : threshold.operator === ">"
+        ? actual > threshold.value
+        : actual >= threshold.value;
+    return { threshold, actual, passed };
+  });
+}
+
+/**
+ * Drives endpoints at a target arrival rate (open model: requests start on
+ * schedule however slow the API is) or with a number of virtual users
+ * (closed model: each VU sends its next request when the previous returns).
+ * Stages ramp the target linearly, like k6.
+ */
+export class LoadRunner {
+  private results = new Map<string, CheckResult[]>();
+  private inFlight = new Set<Promise<void>>();
+  private target = 0;
+  private activeUsers = new Set<number>();
+  private finished = false;
+  private dropped = 0;
+  private requests = 0;
+  private failures = 0;
+  private next = 0;
+
+  private endpoints: EndpointDefinition[];
+
+  constructor(
+    private checker: EndpointChecker,
+    endpoints: EndpointDefinition[],
+    private options: LoadOptions,
+  ) {
+    if (endpoints.length === 0) {
+      throw new Error("No endpoints to run");
+    }
+    // maxResponseTime would also be the request timeout, aborting slow
+    // responses instead of measuring them; thresholds gate latency here, as
+    // percentiles do for --samples
+    this.endpoints = endpoints.map((endpoint) => ({ ...endpoint, maxResponseTime: undefined }));
+  }
+
+  /** Total run length in ms */
+  get duration(): number {
+    return this.options.stages?.length
+      ? this.options.stages.reduce((sum, stage) => sum + stage.duration, 0)
+      : this.options.duration ?? 0;
+  }
+
+  async run(): Promise<LoadReport> {
+    const startedAt = new Date();
+    const start = Date.now();
+    const duration = this.duration;
+    let credit = 0;
+    let previous = 0;
+
+    for (let elapsed = 0; elapsed < duration; elapsed = Date.now() - start) {
+      this.target = this.targetAt(elapsed);
+
+      if (this.options.mode === "rps") {
+        // Credit follows the real clock, so a slow tick does not lower the rate
+        credit += (this.target * (elapsed - previous)) / 1000;
+        previous = elapsed;
+        for (; credit >= 1; credit--) {
+          if (this.inFlight.size >= (this.options.maxInFlight ?? DEFAULT_MAX_IN_FLIGHT)) {
+            this.dropped++;
+          } else {
+            this.track(this.execute(this.nextEndpoint()));
+          }
+        }
+      } else {
+        // VUs above the target stop after their current request
+        for (let index = 0; index < Math.round(this.target); index++) {
+          if (!this.activeUsers.has(index)) {
+            this.activeUsers.add(index);
+            this.track(this.virtualUser(index));
+          }
+        }
+      }
+
+      this.options.onProgress?.({
+        elapsed,
+        duration,
+        target: this.target,
+        requests: this.requests,
+        failures: this.failures,
+      });
+      await sleep(TICK_MS);
+    }
+
+    this.finished = true;
+    await Promise.all(this.inFlight);
+
+    const elapsed = Date.now() - start;
+    return {
+      mode: this.options.mode,
+      startedAt: startedAt.toISOString(),
+      duration: elapsed,
+      dropped: this.dropped,
+      total: summarize(Array.from(this.results.values()).flat(), elapsed),
+      endpoints: this.endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        name: endpoint.name,
+        method: endpoint.method,
+        ...summarize(this.results.get(endpoint.id) ?? [], elapsed),
+      })),
+    };
+  }
+
+  private targetAt(elapsed: number): number {
+    let from = this.options.start;
+    let stageStart = 0;
+    for (const stage of this.options.stages ?? []) {
+      if (elapsed < stageStart + stage.duration) {
+        const progress = (elapsed - stageStart) / stage.duration;
+        return from + (stage.target - from) * progress;
+      }
+      from = stage.target;
+      stageStart += stage.duration;
+    }
+    return from;
+  }
+
+  private async virtualUser(index: number): Promise<void> {
+    // Start each VU at a different endpoint so small VU counts still cover all of them
+    let position = index;
+    while (!this.finished && index < Math.round(this.target)) {
+      await this.execute(this.endpoints[position++ % this.endpoints.length]);
+    }
+    this.activeUsers.delete(index);
+  }
+
+  private nextEndpoint(): EndpointDefinition {
+    return this.endpoints[this.next++ % this.endpoints.length];
+  }
+
+  private async execute(endpoint: EndpointDefinition): Promise<void> {
+    const result = await this.checker.checkEndpoint(endpoint);
+    const results = this.results.get(endpoint.id) ?? [];
+    results.push(result);
+    this.results.set(endpoint.id, results);
+    this.requests++;
+    if (result.status !== "PASSED") this.failures++;
+  }
+
+  private track(task: Promise<void>): void {
+    this.inFlight.add(task);
+    task.finally(() => this.inFlight.delete(task));
+  }
+}
+
+function summarize(results: CheckResult[], elapsed: number): LoadStats {
+  const times = results.map((result) => result.responseTime).sort((a, b) => a - b);
+  const failed = results.filter((result) => result.status === "FAILED").length;
+  const errors = results.filter((result) => result.status === "ERROR").length;
+  const statuses: Record<string, number> = {};
+  for (const result of results) {
+    const code = result.actualStatus === undefined ? "error" : String(result.actualStatus);
+    statuses[code] = (statuses[code] ?? 0) + 1;
+  }
+
+  return {
+    requests: results.length,
+    passed: results.length - failed - errors,
+    failed,
+    errors,
+    errorRate: results.length ? round((failed + errors) / results.length, 4) : 0,
+    rps: elapsed > 0 ? round((results.length * 1000) / elapsed, 2) : 0,
+    min: times[0] ?? 0,
+    mean: times.length
+      ? Math.round(times.reduce((sum, value) => sum + value, 0) / times.length)
+      : 0,
+    p50: percentile(times, 50),
+    p90: percentile(times, 90),
+    p95: percentile(times, 95),
+    p99: percentile(times, 99),
+    max: times[times.length - 1] ?? 0,
+    statuses,
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
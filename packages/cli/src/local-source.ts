@@ -0,0 +1,115 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  buildRequestUrl,
+  extractFileVariables,
+  parseHttpRequest,
+  splitHttpRequests,
+} from "./http-file.js";
+import {
+  collectionSchema,
+  type Collection,
+  type EndpointDefinition,
+} from "./types.js";
+
+const HTTP_FILE_EXTENSIONS = [".http", ".rest"];
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git", "dist"]);
+
+/**
+ * Load a collection from disk instead of the platform
+ * Accepts a collection JSON file, a single .http file or a directory of .http files
+ */
+export function loadLocalCollection(source: string): Collection {
+  const resolved = path.resolve(source);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Local source not found: ${source}`);
+  }
+
+  if (fs.statSync(resolved).isDirectory()) {
+    const files = findHttpFiles(resolved);
+    if (!files.length) {
+      throw new Error(`No .http files found in ${source}`);
+    }
+    return {
+      id: `local:${path.basename(resolved)}`,
+      name: path.basename(resolved),
+      endpoints: files.flatMap((file) =>
+        loadHttpFile(file, path.relative(resolved, file)),
+      ),
+    };
+  }
+
+  if (HTTP_FILE_EXTENSIONS.includes(path.extname(resolved))) {
+    return {
+      id: `local:${path.basename(resolved)}`,
+      name: path.basename(resolved),
+      endpoints: loadHttpFile(resolved, path.basename(resolved)),
+    };
+  }
+
+  return loadCollectionJson(resolved);
+}
+
+function loadCollectionJson(file: string): Collection {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read collection ${file}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const parsed = collectionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid collection file ${file}:\n${issues}`);
+  }
+
+  return parsed.data;
+}
+
+function loadHttpFile(file: string, displayPath: string): EndpointDefinition[] {
+  const content = fs.readFileSync(file, "utf8");
+  const fileVariables = extractFileVariables(content);
+  const variables =
+    Object.keys(fileVariables).length > 0 ? fileVariables : undefined;
+
+  return splitHttpRequests(content).map((block, index) => {
+    const request = parseHttpRequest(block);
+    // .http files carry no expectations: any 2xx status passes
+    return {
+      id: `${displayPath.split(path.sep).join("/")}#${index + 1}`,
+      name: request.name,
+      url: buildRequestUrl(request),
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      variables,
+      setDirectives: request.setDirectives,
+    };
+  });
+}
+
+function findHttpFiles(dir: string): string[] {
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        files.push(...findHttpFiles(fullPath));
+      }
+    } else if (HTTP_FILE_EXTENSIONS.includes(path.extname(entry.name))) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,225 @@
+import http from "node:http";
+import type { MonitorEvent, MonitorSink } from "./monitor.js";
+import type { CheckResult, Collection, Report } from "./types.js";
+
+/** Response time buckets in seconds, Prometheus' defaults shifted for HTTP APIs */
+const RESPONSE_TIME_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface MetricLabels {
+  collection: string;
+  environment: string;
+  endpoint: string;
+  method: string;
+}
+
+interface EndpointSeries {
+  labels: MetricLabels;
+  up?: number;
+  buckets: number[];
+  sum: number;
+  count: number;
+  statuses: Map<string, number>;
+  failures: Map<string, number>;
+}
+
+/**
+ * In-memory Prometheus metrics derived from check results
+ */
+export class MetricsRegistry {
+  private series = new Map<string, EndpointSeries>();
+
+  /**
+   * Record one result; `up` defaults to whether the check passed, and null
+   * (state not known yet) leaves the gauge as it is
+   */
+  record(
+    labels: MetricLabels,
+    result: CheckResult,
+    up: boolean | null = result.status === "PASSED",
+  ): void {
+    if (result.status === "SKIPPED") return;
+
+    const key = JSON.stringify(labels);
+    const series = this.series.get(key) ?? {
+      labels,
+      buckets: RESPONSE_TIME_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+      statuses: new Map<string, number>(),
+      failures: new Map<string, number>(),
+    };
+    this.series.set(key, series);
+
+    if (up !== null) {
+      series.up = up ? 1 : 0;
+    }
+
+    const seconds = result.responseTime / 1000;
+    RESPONSE_TIME_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) series.buckets[index]++;
+    });
+    series.sum += seconds;
+    series.count++;
+
+    // Requests without a response are counted under code="error"
+    const code = result.actualStatus === undefined ? "error" : String(result.actualStatus);
+    series.statuses.set(code, (series.statuses.get(code) ?? 0) + 1);
+
+    for (const failure of result.failures ?? []) {
+      series.failures.set(
+        failure.assertion,
+        (series.failures.get(failure.assertion) ?? 0) + 1,
+      );
+    }
+  }
+
+  /**
+   * Record every result of a check report
+   */
+  recordReport(report: Report, collection: Collection): void {
+    const endpoints = new Map(collection.endpoints.map((endpoint) => [endpoint.id, endpoint]));
+    for (const result of report.results) {
+      const endpoint = endpoints.get(result.endpointId);
+      this.record(
+        {
+          collection: collection.name,
+          environment: report.environment,
+          endpoint: endpoint?.name ?? result.endpointId,
+          method: endpoint?.method ?? "",
+        },
+        result,
+      );
+    }
+  }
+
+  /**
+   * Render the text exposition format
+   */
+  render(): string {
+    const all = Array.from(this.series.values());
+    const lines: string[] = [];
+
+    lines.push(
+      "# HELP watchapi_endpoint_up Whether the endpoint is up (1) or down (0)",
+      "# TYPE watchapi_endpoint_up gauge",
+      ...all
+        .filter((series) => series.up !== undefined)
+        .map((series) => sample("watchapi_endpoint_up", series.labels, series.up!)),
+    );
+
+    lines.push(
+      "# HELP watchapi_response_time_seconds Response time of checks",
+      "# TYPE watchapi_response_time_seconds histogram",
+    );
+    for (const series of all) {
+      RESPONSE_TIME_BUCKETS.forEach((bound, index) => {
+        lines.push(
+          sample("watchapi_response_time_seconds_bucket", series.labels, series.buckets[index], {
+            le: String(bound),
+          }),
+        );
+      });
+      lines.push(
+        sample("watchapi_response_time_seconds_bucket", series.labels, series.count, {
+          le: "+Inf",
+        }),
+        sample("watchapi_response_time_seconds_sum", series.labels, round(series.sum)),
+        sample("watchapi_response_time_seconds_count", series.labels, series.count),
+      );
+    }
+
+    lines.push(
+      "# HELP watchapi_responses_total Checks by HTTP status code (\"error\" when no response)",
+      "# TYPE watchapi_responses_total counter",
+      ...all.flatMap((series) =>
+        Array.from(series.statuses, ([code, count]) =>
+          sample("watchapi_responses_total", series.labels, count, { code }),
+        ),
+      ),
+    );
+
+    lines.push(
+      "# HELP watchapi_assertion_failures_total Failed assertions by type",
+      "# TYPE watchapi_assertion_failures_total counter",
+      ...all.flatMap((series) =>
+        Array.from(series.failures, ([assertion, count]) =>
+          sample("watchapi_assertion_failures_total", series.labels, count, { assertion }),
+        ),
+      ),
+    );
+
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/**
+ * Monitor sink feeding the registry; `up` follows the monitor's
+ * flap-suppressed state rather than the last check
+ */
+export function createMetricsSink(registry: MetricsRegistry, collection: Collection): MonitorSink {
+  return {
+    name: "metrics",
+    write(event: MonitorEvent) {
+      if (event.type !== "check") return;
+      registry.record(
+        {
+          collection: collection.name,
+          environment: event.environment,
+          endpoint: event.endpoint.name,
+          method: event.endpoint.method,
+        },
+        event.result,
+        event.state === "unknown" ? null : event.state === "up",
+      );
+    },
+  };
+}
+
+/**
+ * Serve GET /metrics on `[host:]port`
+ */
+export function startMetricsServer(
+  registry: MetricsRegistry,
+  address: string,
+): Promise<http.Server> {
+  const match = /^(?:(.+):)?(\d+)$/.exec(address);
+  if (!match) {
+    throw new Error(`Invalid metrics address "${address}". Use <port> or <host>:<port>`);
+  }
+  const [, host, port] = match;
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE }).end(registry.render());
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(Number(port), host?.replace(/^\[|\]$/g, ""), () => resolve(server));
+  });
+}
+
+function sample(
+  name: string,
+  labels: MetricLabels,
+  value: number,
+  extra: Record<string, string> = {},
+): string {
+  const rendered = Object.entries({ ...labels, ...extra })
+    .map(([key, labelValue]) => `${key}="${escapeLabel(labelValue)}"`)
+    .join(",");
+  return `${name}{${rendered}} ${value}`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,143 @@
+import fs from "node:fs";
+import path from "node:path";
+import axios from "axios";
+import chalk from "chalk";
+import { describeFailure } from "./formats/index.js";
+import type { MonitorEvent, MonitorSink } from "./monitor.js";
+import type { NetworkAgents } from "./network.js";
+
+const WEBHOOK_TIMEOUT = 10_000;
+
+export interface SinkOptions {
+  network?: NetworkAgents;
+}
+
+type SinkFactory = (target: string, options: SinkOptions) => MonitorSink;
+
+const MONITOR_SINKS: Record<string, SinkFactory> = {
+  stdout: () => new StdoutSink(),
+  jsonl: (target) => new JsonLinesSink(target),
+  webhook: (target, options) => new WebhookSink(target, options.network),
+};
+
+/**
+ * Create a sink from a `--sink` value: `stdout`, `jsonl:<file>` or `webhook:<url>`
+ */
+export function createSink(spec: string, options: SinkOptions = {}): MonitorSink {
+  const separator = spec.indexOf(":");
+  const type = separator === -1 ? spec : spec.slice(0, separator);
+  const target = separator === -1 ? "" : spec.slice(separator + 1);
+
+  const factory = MONITOR_SINKS[type];
+  if (!factory) {
+    throw new Error(
+      `Unknown sink "${spec}". Use stdout, jsonl:<file> or webhook:<url>`,
+    );
+  }
+  if (type !== "stdout" && !target) {
+    throw new Error(`Sink "${type}" requires a target, e.g. ${type}:${
+      type === "jsonl" ? "monitor.jsonl" : "https://hooks.example.com/watchapi"
+    }`);
+  }
+  return factory(target, options);
+}
+
+/**
+ * One line per check, highlighted lines for transitions
+ */
+class StdoutSink implements MonitorSink {
+  name = "stdout";
+
+  write(event: MonitorEvent): void {
+    const { endpoint, result, window } = event;
+    const label = `${endpoint.method} ${endpoint.name}`;
+
+    if (event.type === "check") {
+      const icon =
+        result.status === "PASSED"
+          ? chalk.green("✓")
+          : result.status === "FAILED"
+          ? chalk.red("✗")
+          : chalk.yellow("⚠");
+      const outcome = result.error ?? `${result.actualStatus}`;
+      console.log(
+        `${chalk.gray(event.timestamp)} ${icon} ${label} ${outcome} ${result.responseTime}ms ${chalk.gray(
+          `(${window.availability}% of last ${window.size}, p90 ${window.p90}ms)`,
+        )}`,
+      );
+      return;
+    }
+
+    const reason = result.error ?? result.failures?.map(describeFailure).join("; ");
+    console.log(
+      event.type === "down"
+        ? chalk.bold.red(`▼ DOWN ${label}`) + (reason ? chalk.red(` - ${reason}`) : "")
+        : chalk.bold.green(`▲ UP ${label}`) + chalk.green(` (was ${event.previousState})`),
+    );
+  }
+}
+
+/**
+ * Appends every event as a JSON line
+ * Stream errors (unwritable path, full disk) fail the following writes, so
+ * they reach the monitor's onSinkError instead of crashing the process.
+ */
+class JsonLinesSink implements MonitorSink {
+  name: string;
+  private stream: fs.WriteStream;
+  private error?: Error;
+
+  constructor(file: string) {
+    const resolved = path.resolve(file);
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    this.stream = fs.createWriteStream(resolved, { flags: "a" });
+    this.stream.on("error", (error) => {
+      this.error ??= error;
+    });
+    this.name = `jsonl:${resolved}`;
+  }
+
+  write(event: MonitorEvent): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.error) {
+        reject(this.error);
+        return;
+      }
+      this.stream.write(`${JSON.stringify(event)}\n`, (error) =>
+        error ? reject(this.error ?? error) : resolve(),
+      );
+    });
+  }
+
+  close(): Promise<void> {
+    if (this.error) return Promise.resolve();
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+/**
+ * POSTs up/down transitions as JSON; individual checks are not sent
+ */
+class WebhookSink implements MonitorSink {
+  name: string;
+
+  constructor(
+    private url: string,
+    private network?: NetworkAgents,
+  ) {
+    this.name = `webhook:${new URL(url).host}`;
+  }
+
+  async write(event: MonitorEvent): Promise<void> {
+    if (event.type === "check") return;
+
+    const response = await axios.post(this.url, event, {
+      timeout: WEBHOOK_TIMEOUT,
+      validateStatus: () => true,
+      ...this.network?.forUrl(this.url),
+    });
+    if (response.status >= 400) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import type { EndpointChecker } from "./checker.js";
+import { summarizeLatency } from "./request-timing.js";
+import type { CheckResult, Collection, EndpointDefinition } from "./types.js";
+
+/** Same default as endpoints created on the platform (5 minutes) */
+export const DEFAULT_MONITOR_INTERVAL = 300_000;
+const DEFAULT_JITTER = 0.1;
+const DEFAULT_WINDOW = 20;
+const DEFAULT_FAILURE_THRESHOLD = 2;
+const DEFAULT_RECOVERY_THRESHOLD = 2;
+
+export type EndpointState = "unknown" | "up" | "down";
+
+export interface WindowStats {
+  /** Results currently in the rolling window */
+  size: number;
+  passed: number;
+  /** Share of passing results in the window, in percent */
+  availability: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Emitted after every check ("check") and on state transitions ("up"/"down")
+ */
+export interface MonitorEvent {
+  type: "check" | "up" | "down";
+  timestamp: string;
+  collectionId: string;
+  environment: string;
+  endpoint: Pick<EndpointDefinition, "id" | "name" | "method" | "url">;
+  state: EndpointState;
+  /** Only set on transitions */
+  previousState?: EndpointState;
+  result: CheckResult;
+  window: WindowStats;
+}
+
+export interface MonitorSink {
+  name: string;
+  write(event: MonitorEvent): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+export interface MonitorOptions {
+  /** Interval for endpoints without their own, in ms (default: 300000) */
+  interval?: number;
+  /** Random spread applied to every interval, as a fraction (default: 0.1) */
+  jitter?: number;
+  /** Results kept per endpoint for availability and percentiles (default: 20) */
+  window?: number;
+  /** Consecutive failures before an up endpoint is reported down (default: 2) */
+  failureThreshold?: number;
+  /** Consecutive passes before a down endpoint is reported up (default: 2) */
+  recoveryThreshold?: number;
+  /** Reports errors from sinks, which never stop the monitor */
+  onSinkError?: (sink: MonitorSink, error: unknown) => void;
+}
+
+interface EndpointMonitor {
+  endpoint: EndpointDefinition;
+  interval: number;
+  state: EndpointState;
+  results: CheckResult[];
+  consecutivePasses: number;
+  consecutiveFailures: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs each active endpoint on its own interval and turns results into
+ * up/down transitions. Thresholds suppress flapping: a single failure
+ * (or pass) does not change the reported state.
+ */
+export class Monitor {
+  private endpoints: EndpointMonitor[];
+  private inFlight = new Set<Promise<void>>();
+  private stopped = false;
+
+  constructor(
+    private collection: Collection,
+    private environment: string,
+    private checker: EndpointChecker,
+    private sinks: MonitorSink[],
+    private options: MonitorOptions = {},
+  ) {
+    this.endpoints = collection.endpoints
+      .filter((endpoint) => endpoint.isActive !== false)
+      .map((endpoint) => ({
+        endpoint,
+        interval: endpoint.interval ?? options.interval ?? DEFAULT_MONITOR_INTERVAL,
+        state: "unknown",
+        results: [],
+        consecutivePasses: 0,
+        consecutiveFailures: 0,
+      }));
+  }
+
+  /** Endpoints that will be monitored (inactive ones are left out) */
+  get monitored(): EndpointDefinition[] {
+    return this.endpoints.map((entry) => entry.endpoint);
+  }
+
+  start(): void {
+    const jitter = this.options.jitter ?? DEFAULT_JITTER;
+    // Spread the first round so endpoints do not all fire at once
+    for (const entry of this.endpoints) {
+      this.schedule(entry, Math.random() * entry.interval * jitter);
+    }
+  }
+
+  /**
+   * Cancel pending checks, wait for running ones and close the sinks
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const entry of this.endpoints) {
+      clearTimeout(entry.timer);
+    }
+    await Promise.all(this.inFlight);
+    for (const sink of this.sinks) {
+      try {
+        await sink.close?.();
+      } catch (error) {
+        this.options.onSinkError?.(sink, error);
+      }
+    }
+  }
+
+  private schedule(entry: EndpointMonitor, delay: number): void {
+    if (this.stopped) return;
+
+    entry.timer = setTimeout(() => {
+      const run = this.run(entry).finally(() => {
+        this.inFlight.delete(run);
+        const jitter = this.options.jitter ?? DEFAULT_JITTER;
+        this.schedule(entry, entry.interval * (1 + (Math.random() * 2 - 1) * jitter));
+      });
+      this.inFlight.add(run);
+    }, delay);
+  }
+
+  private async run(entry: EndpointMonitor): Promise<void> {
+    const result = await this.checker.checkEndpoint(entry.endpoint);
+
+    entry.results = [...entry.results, result].slice(-(this.options.window ?? DEFAULT_WINDOW));
+    if (result.status === "PASSED") {
+      entry.consecutivePasses++;
+      entry.consecutiveFailures = 0;
+    } else {
+      entry.consecutiveFailures++;
+      entry.consecutivePasses = 0;
+    }
+
+    const previousState = entry.state;
+    entry.state = this.nextState(entry);
+
+    const event: MonitorEvent = {
+      type: "check",
+      timestamp: result.timestamp,
+      collectionId: this.collection.id,
+      environment: this.environment,
+      endpoint: {
+        id: entry.endpoint.id,
+        name: entry.endpoint.name,
+        method: entry.endpoint.method,
+        url: entry.endpoint.url,
+      },
+      state: entry.state,
+      result,
+      window: getWindowStats(entry.results),
+    };
+
+    await this.emit(event);
+    if (entry.state !== previousState) {
+      await this.emit({ ...event, type: entry.state as "up" | "down", previousState });
+    }
+  }
+
+  private nextState(entry: EndpointMonitor): EndpointState {
+    // A first pass is enough to know an endpoint is up; going down from
+    // unknown takes as many consecutive failures as going down from up
+    if (entry.state === "unknown" && entry.consecutivePasses > 0) {
+      return "up";
+    }
+    if (
+      entry.state !== "down" &&
+      entry.consecutiveFailures >= (this.options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)
+    ) {
+      return "down";
+    }
+    if (
+      entry.state === "down" &&
+      entry.consecutivePasses >= (this.options.recoveryThreshold ?? DEFAULT_RECOVERY_THRESHOLD)
+    ) {
+      return "up";
+    }
+    return entry.state;
+  }
+
+  private async emit(event: MonitorEvent): Promise<void> {
+    await Promise.all(
+      this.sinks.map(async (sink) => {
+        try {
+          await sink.write(event);
+        } catch (error) {
+          this.options.onSinkError?.(sink, error);
+        }
+      }),
+    );
+  }
+}
+
+function getWindowStats(results: CheckResult[]): WindowStats {
+  const passed = results.filter((result) => result.status === "PASSED").length;
+  const latency = summarizeLatency(
+    results.map((result) => result.responseTime),
+    [],
+  );
+
+  return {
+    size: results.length,
+    passed,
+    availability: results.length
+      ? Math.round((passed / results.length) * 1000) / 10
+      : 0,
+    p50: latency.p50,
+    p90: latency.p90,
+    p99: latency.p99,
+  };
+}
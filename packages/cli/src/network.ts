@@ -0,0 +1,341 @@
+import fs from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import path from "node:path";
+import tls from "node:tls";
+import axios from "axios";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import {
+  networkSettingsSchema,
+  type NetworkSettings,
+  type TlsSettings,
+} from "./types.js";
+
+/** Key holding network settings inside a rest-client.env.json environment */
+export const NETWORK_ENV_KEY = "$network";
+
+export interface ResolvedNetworkSettings {
+  httpProxy?: string;
+  httpsProxy?: string;
+  noProxy: string[];
+  tls: TlsSettings;
+  hosts: Record<string, TlsSettings>;
+}
+
+/** Axios config fragment carrying the agents for one request */
+export interface RequestAgents {
+  httpAgent?: http.Agent;
+  httpsAgent?: https.Agent;
+  proxy: false;
+}
+
+/**
+ * Validate network settings and resolve certificate paths against baseDir
+ */
+export function parseNetworkSettings(
+  raw: unknown,
+  source: string,
+  baseDir: string,
+): NetworkSettings {
+  const parsed = networkSettingsSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid network settings in ${source}:\n${issues}`);
+  }
+
+  const { hosts, ...settings } = parsed.data;
+  return {
+    ...resolveTlsPaths(settings, baseDir),
+    hosts: hosts
+      ? Object.fromEntries(
+          Object.entries(hosts).map(([host, hostSettings]) => [
+            host,
+            resolveTlsPaths(hostSettings, baseDir),
+          ]),
+        )
+      : undefined,
+  };
+}
+
+/**
+ * Proxy settings from HTTP_PROXY, HTTPS_PROXY, ALL_PROXY and NO_PROXY
+ * (upper or lower case, as curl reads them)
+ */
+export function networkSettingsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): NetworkSettings {
+  const read = (name: string) => env[name] || env[name.toLowerCase()] || undefined;
+  const allProxy = read("ALL_PROXY");
+
+  return {
+    httpProxy: read("HTTP_PROXY") ?? allProxy,
+    httpsProxy: read("HTTPS_PROXY") ?? allProxy,
+    noProxy: read("NO_PROXY"),
+  };
+}
+
+/**
+ * Merge settings layers; later layers win
+ * `proxy` replaces both protocol proxies and an empty string disables them.
+ * CA bundles accumulate across layers, host entries merge per host.
+ */
+export function resolveNetworkSettings(
+  ...layers: (NetworkSettings | undefined)[]
+): ResolvedNetworkSettings {
+  const resolved: ResolvedNetworkSettings = { noProxy: [], tls: {}, hosts: {} };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+
+    if (layer.proxy !== undefined) {
+      resolved.httpProxy = resolved.httpsProxy = layer.proxy || undefined;
+    }
+    if (layer.httpProxy !== undefined) {
+      resolved.httpProxy = layer.httpProxy || undefined;
+    }
+    if (layer.httpsProxy !== undefined) {
+      resolved.httpsProxy = layer.httpsProxy || undefined;
+    }
+    if (layer.noProxy !== undefined) {
+      resolved.noProxy = toList(layer.noProxy)
+        .flatMap((entry) => entry.split(","))
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+    }
+
+    resolved.tls = mergeTlsSettings(resolved.tls, layer);
+    for (const [host, settings] of Object.entries(layer.hosts ?? {})) {
+      resolved.hosts[host] = mergeTlsSettings(resolved.hosts[host] ?? {}, settings);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Agents for the process environment's proxy settings overlaid with the given
+ * layers (env file `$network` blocks, then command-line flags)
+ */
+export function createNetworkAgents(
+  ...layers: (NetworkSettings | undefined)[]
+): NetworkAgents {
+  return new NetworkAgents(resolveNetworkSettings(networkSettingsFromEnv(), ...layers));
+}
+
+/**
+ * Builds and caches agents for proxies, extra CAs, client certificates and
+ * per-host TLS settings. Shared by every command that sends requests.
+ */
+export class NetworkAgents {
+  private agents = new Map<string, http.Agent>();
+  private files = new Map<string, Buffer>();
+
+  constructor(private settings: ResolvedNetworkSettings) {
+    // Read certificate files upfront so a bad path fails the run, not every request
+    for (const tlsSettings of [settings.tls, ...Object.values(settings.hosts)]) {
+      [...toList(tlsSettings.ca), tlsSettings.cert, tlsSettings.key, tlsSettings.pfx]
+        .filter((file): file is string => Boolean(file))
+        .forEach((file) => this.readFile(file));
+    }
+  }
+
+  /**
+   * Agents for a request URL; redirects reuse them for the target protocol
+   */
+  forUrl(url: string): RequestAgents {
+    const target = new URL(url);
+    const bypass = this.settings.noProxy.some((pattern) =>
+      matchesHost(pattern, target, true),
+    );
+    const httpProxy = bypass ? undefined : this.settings.httpProxy;
+    const httpsProxy = bypass ? undefined : this.settings.httpsProxy;
+
+    return {
+      httpAgent: httpProxy ? this.getAgent("http", httpProxy) : undefined,
+      httpsAgent: this.getAgent("https", httpsProxy, this.getTlsSettings(target)) as
+        | https.Agent
+        | undefined,
+      proxy: false,
+    };
+  }
+
+  private getTlsSettings(target: URL): TlsSettings {
+    return Object.entries(this.settings.hosts)
+      .filter(([pattern]) => matchesHost(pattern, target, false))
+      .reduce<TlsSettings>(
+        (merged, [, settings]) => mergeTlsSettings(merged, settings),
+        this.settings.tls,
+      );
+  }
+
+  private getAgent(
+    protocol: "http" | "https",
+    proxy: string | undefined,
+    settings: TlsSettings = {},
+  ): http.Agent | undefined {
+    if (!proxy && Object.keys(settings).length === 0) {
+      return undefined;
+    }
+
+    const key = JSON.stringify([protocol, proxy, settings]);
+    const cached = this.agents.get(key);
+    if (cached) return cached;
+
+    const options = this.getTlsOptions(settings);
+    const agent =
+      protocol === "http"
+        ? new HttpProxyAgent(proxy!)
+        : proxy
+          ? new TunnelAgent(proxy, options)
+          : new https.Agent(options);
+
+    this.agents.set(key, agent);
+    return agent;
+  }
+
+  private getTlsOptions(settings: TlsSettings): https.AgentOptions {
+    const ca = toList(settings.ca);
+    return {
+      // Extra CAs extend the default trust store instead of replacing it
+      ca: ca.length
+        ? [...tls.rootCertificates, ...ca.map((file) => this.readFile(file))]
+        : undefined,
+      cert: settings.cert ? this.readFile(settings.cert) : undefined,
+      key: settings.key ? this.readFile(settings.key) : undefined,
+      pfx: settings.pfx ? this.readFile(settings.pfx) : undefined,
+      passphrase: settings.passphrase,
+      rejectUnauthorized: settings.insecure ? false : undefined,
+    };
+  }
+
+  private readFile(file: string): Buffer {
+    const cached = this.files.get(file);
+    if (cached) return cached;
+
+    try {
+      const content = fs.readFileSync(file);
+      this.files.set(file, content);
+      return content;
+    } catch (error) {
+      throw new Error(
+        `Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * HttpsProxyAgent applies its constructor options to the proxy connection
+ * only, so target TLS options (CA, client certificate) are added per connect
+ */
+type TunnelConnectOpts = Parameters<HttpsProxyAgent<string>["connect"]>[1];
+
+class TunnelAgent extends HttpsProxyAgent<string> {
+  constructor(
+    proxy: string,
+    private targetOptions: tls.ConnectionOptions,
+  ) {
+    super(proxy);
+  }
+
+  override connect(req: http.ClientRequest, opts: TunnelConnectOpts) {
+    return super.connect(req, { ...opts, ...this.targetOptions } as TunnelConnectOpts);
+  }
+}
+
+/**
+ * fetch implementation routed through NetworkAgents, for clients that take a
+ * custom fetch (the platform tRPC client)
+ */
+export function createNetworkFetch(agents: NetworkAgents) {
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url =
+      typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const response = await axios.request<string>({
+      url,
+      method: init?.method ?? "GET",
+      headers: Object.fromEntries(new Headers(init?.headers).entries()),
+      data: init?.body ?? undefined,
+      signal: init?.signal ?? undefined,
+      responseType: "text",
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+      ...agents.forUrl(url),
+    });
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (value !== undefined && value !== null) {
+        headers.set(name, Array.isArray(value) ? value.join(", ") : String(value));
+      }
+    }
+
+    // Responses to these statuses must not carry a body
+    const emptyBody = [101, 204, 205, 304].includes(response.status);
+    return new Response(emptyBody ? null : response.data, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Match a host pattern: host, host:port, *.domain or .domain
+ * NO_PROXY entries also match subdomains of a plain domain, like curl
+ */
+function matchesHost(pattern: string, target: URL, includeSubdomains: boolean): boolean {
+  const entry = pattern.trim().toLowerCase();
+  if (entry === "*") return true;
+
+  const match = /^\[([^\]]+)\](?::(\d+))?$/.exec(entry) ?? /^([^:]+)(?::(\d+))?$/.exec(entry);
+  if (!match) return false;
+
+  const [, patternHost, patternPort] = match;
+  const port = target.port || (target.protocol === "https:" ? "443" : "80");
+  if (patternPort && patternPort !== port) return false;
+
+  const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const wildcard = patternHost.startsWith("*.") || patternHost.startsWith(".");
+  const domain = patternHost.replace(/^\*?\./, "");
+
+  return (
+    hostname === domain ||
+    ((wildcard || includeSubdomains) && hostname.endsWith(`.${domain}`))
+  );
+}
+
+function mergeTlsSettings(base: TlsSettings, layer: TlsSettings): TlsSettings {
+  const merged: TlsSettings = { ...base };
+  const ca = [...toList(base.ca), ...toList(layer.ca)];
+  if (ca.length) merged.ca = ca;
+  if (layer.cert !== undefined) merged.cert = layer.cert;
+  if (layer.key !== undefined) merged.key = layer.key;
+  if (layer.pfx !== undefined) merged.pfx = layer.pfx;
+  if (layer.passphrase !== undefined) merged.passphrase = layer.passphrase;
+  if (layer.insecure !== undefined) merged.insecure = layer.insecure;
+  return merged;
+}
+
+function resolveTlsPaths<T extends TlsSettings>(settings: T, baseDir: string): T {
+  const resolve = (file: string | undefined) =>
+    file === undefined ? undefined : path.resolve(baseDir, file);
+
+  return {
+    ...settings,
+    ca:
+      settings.ca === undefined
+        ? undefined
+        : toList(settings.ca).map((file) => path.resolve(baseDir, file)),
+    cert: resolve(settings.cert),
+    key: resolve(settings.key),
+    pfx: resolve(settings.pfx),
+  };
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
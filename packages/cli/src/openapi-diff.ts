@@ -0,0 +1,687 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  isHttpUrl,
+  isSpecNode,
+  loadOpenApiSpec,
+  nodeEntries,
+  readSpecLocation,
+  stringArray,
+  type SpecNode,
+} from "./analyzer/open-api/loader.js";
+
+export type ChangeLevel = "breaking" | "non-breaking";
+
+export interface SpecChange {
+  level: ChangeLevel;
+  /** "GET /users/{id}" */
+  operation: string;
+  /** Where in the operation the change is, e.g. "query.page" or "response 200 body.items[].id" */
+  location: string;
+  message: string;
+  rule: string;
+}
+
+export interface SpecDiff {
+  old: string;
+  new: string;
+  changes: SpecChange[];
+  summary: { breaking: number; nonBreaking: number };
+}
+
+export interface LoadedSpec {
+  /** File path, URL or "<ref>:<path>" */
+  source: string;
+  doc: SpecNode;
+}
+
+type Direction = "request" | "response";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/** Nesting inspected when comparing schemas (recursive schemas stop here) */
+const MAX_SCHEMA_DEPTH = 12;
+
+/**
+ * Load an OpenAPI document from a file, an http(s) URL or a git ref
+ * Git refs are "<ref>:<path>", or a bare ref when `counterpart` names the file
+ * to read at that ref (watchapi diff main openapi.yaml). $refs are resolved
+ * (at the same ref for git sources) and Swagger 2.0 is upconverted
+ */
+export async function loadSpecSource(
+  source: string,
+  counterpart?: string,
+): Promise<LoadedSpec> {
+  if (isHttpUrl(source)) {
+    const { doc } = await loadOpenApiSpec(source).catch((error: unknown) => {
+      throw new Error(
+        `Failed to load ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+    return { source, doc };
+  }
+
+  if (fs.existsSync(source)) {
+    const { doc } = await loadOpenApiSpec(path.resolve(source));
+    return { source, doc };
+  }
+
+  const separator = source.indexOf(":");
+  const [ref, file] =
+    separator > 0
+      ? [source.slice(0, separator), source.slice(separator + 1)]
+      : [source, counterpart];
+  if (!file || !isGitRef(ref)) {
+    throw new Error(
+      `Cannot read ${source}: not a file, URL or git ref (use <ref>:<path>, e.g. main:openapi.yaml)`,
+    );
+  }
+
+  const { doc } = await loadOpenApiSpec(path.resolve(file), {
+    read: async (location) =>
+      isHttpUrl(location) ? readSpecLocation(location) : readGitFile(ref, location),
+  });
+  return { source: `${ref}:${file}`, doc };
+}
+
+/**
+ * Compare two OpenAPI documents and classify every change
+ */
+export function diffOpenApi(before: LoadedSpec, after: LoadedSpec): SpecDiff {
+  const changes: SpecChange[] = [];
+  const oldOperations = collectOperations(before.doc);
+  const newOperations = collectOperations(after.doc);
+
+  for (const [key, oldOperation] of oldOperations) {
+    const newOperation = newOperations.get(key);
+    if (!newOperation) {
+      changes.push({
+        level: oldOperation.deprecated ? "non-breaking" : "breaking",
+        operation: oldOperation.label,
+        location: "operation",
+        message: oldOperation.deprecated
+          ? "Deprecated operation removed"
+          : "Operation removed",
+        rule: "operation-removed",
+      });
+      continue;
+    }
+
+    const context = {
+      operation: newOperation.label,
+      oldDoc: before.doc,
+      newDoc: after.doc,
+      changes,
+    };
+    compareParameters(context, oldOperation, newOperation);
+    compareRequestBodies(context, oldOperation.operation, newOperation.operation);
+    compareResponses(context, oldOperation.operation, newOperation.operation);
+  }
+
+  for (const [key, newOperation] of newOperations) {
+    if (!oldOperations.has(key)) {
+      changes.push({
+        level: "non-breaking",
+        operation: newOperation.label,
+        location: "operation",
+        message: "Operation added",
+        rule: "operation-added",
+      });
+    }
+  }
+
+  const breaking = changes.filter((change) => change.level === "breaking").length;
+  return {
+    old: before.source,
+    new: after.source,
+    changes: [
+      ...changes.filter((change) => change.level === "breaking"),
+      ...changes.filter((change) => change.level !== "breaking"),
+    ],
+    summary: { breaking, nonBreaking: changes.length - breaking },
+  };
+}
+
+/**
+ * Markdown report, e.g. for a pull request comment
+ */
+export function formatSpecDiffMarkdown(diff: SpecDiff): string {
+  const lines = [
+    "## OpenAPI changes",
+    "",
+    `\`${diff.old}\` → \`${diff.new}\`: **${diff.summary.breaking} breaking**, ${diff.summary.nonBreaking} non-breaking`,
+  ];
+
+  for (const level of ["breaking", "non-breaking"] as const) {
+    const changes = diff.changes.filter((change) => change.level === level);
+    if (changes.length === 0) continue;
+
+    lines.push(
+      "",
+      `### ${level === "breaking" ? "Breaking" : "Non-breaking"} changes`,
+      "",
+      "| Operation | Location | Change |",
+      "| --- | --- | --- |",
+      ...changes.map(
+        (change) =>
+          `| \`${change.operation}\` | ${escapeMarkdown(change.location)} | ${escapeMarkdown(change.message)} |`,
+      ),
+    );
+  }
+
+  if (diff.changes.length === 0) {
+    lines.push("", "No changes.");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+interface OperationEntry {
+  label: string;
+  operation: SpecNode;
+  /** Path-level parameters, which operations inherit */
+  pathParameters: unknown[];
+  deprecated: boolean;
+}
+
+interface Parameter {
+  in: string;
+  name: string;
+  required: boolean;
+  schema: unknown;
+}
+
+interface DiffContext {
+  operation: string;
+  oldDoc: SpecNode;
+  newDoc: SpecNode;
+  changes: SpecChange[];
+}
+
+/**
+ * Operations keyed by method and path, ignoring path parameter names
+ * (/users/{id} and /users/{userId} are the same operation)
+ */
+function collectOperations(doc: SpecNode): Map<string, OperationEntry> {
+  const operations = new Map<string, OperationEntry>();
+  for (const [routePath, rawItem] of nodeEntries(doc.paths)) {
+    const pathItem = resolve(doc, rawItem);
+    if (!isSpecNode(pathItem)) continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = resolve(doc, pathItem[method]);
+      if (!isSpecNode(operation)) continue;
+
+      operations.set(`${method} ${routePath.replace(/\{[^}]+\}/g, "{}")}`, {
+        label: `${method.toUpperCase()} ${routePath}`,
+        operation,
+        pathParameters: Array.isArray(pathItem.parameters) ? pathItem.parameters : [],
+        deprecated: operation.deprecated === true,
+      });
+    }
+  }
+  return operations;
+}
+
+function compareParameters(
+  context: DiffContext,
+  before: OperationEntry,
+  after: OperationEntry,
+): void {
+  const oldParameters = collectParameters(context.oldDoc, before);
+  const newParameters = collectParameters(context.newDoc, after);
+
+  for (const [key, oldParameter] of oldParameters) {
+    const newParameter = newParameters.get(key);
+    const location = `${oldParameter.in}.${oldParameter.name}`;
+    if (!newParameter) {
+      if (oldParameter.in !== "path") {
+        push(context, "non-breaking", location, "Parameter removed", "parameter-removed");
+      }
+      continue;
+    }
+
+    if (newParameter.required && !oldParameter.required) {
+      push(context, "breaking", location, "Parameter became required", "parameter-required");
+    } else if (oldParameter.required && !newParameter.required) {
+      push(context, "non-breaking", location, "Parameter became optional", "parameter-optional");
+    }
+
+    compareSchemas(
+      context,
+      "request",
+      location,
+      oldParameter.schema,
+      newParameter.schema,
+      0,
+    );
+  }
+
+  for (const [key, newParameter] of newParameters) {
+    if (oldParameters.has(key) || newParameter.in === "path") continue;
+    const location = `${newParameter.in}.${newParameter.name}`;
+    if (newParameter.required) {
+      push(context, "breaking", location, "Required parameter added", "parameter-added-required");
+    } else {
+      push(context, "non-breaking", location, "Optional parameter added", "parameter-added");
+    }
+  }
+}
+
+/**
+ * Path and operation parameters keyed by location and name (path parameters by position)
+ */
+function collectParameters(doc: SpecNode, entry: OperationEntry): Map<string, Parameter> {
+  const parameters = new Map<string, Parameter>();
+  const operationParameters = Array.isArray(entry.operation.parameters)
+    ? entry.operation.parameters
+    : [];
+  const pathNames = Array.from(
+    entry.label.matchAll(/\{([^}]+)\}/g),
+    (match) => match[1],
+  );
+
+  for (const raw of [...entry.pathParameters, ...operationParameters]) {
+    const parameter = resolve(doc, raw);
+    if (
+      !isSpecNode(parameter) ||
+      typeof parameter.name !== "string" ||
+      typeof parameter.in !== "string" ||
+      !parameter.name ||
+      !parameter.in
+    ) {
+      continue;
+    }
+    const key =
+      parameter.in === "path"
+        ? `path:${pathNames.indexOf(parameter.name)}`
+        : `${parameter.in}:${parameter.name.toLowerCase()}`;
+    parameters.set(key, {
+      in: parameter.in,
+      name: parameter.name,
+      required: parameter.required === true,
+      schema: parameter.schema,
+    });
+  }
+  return parameters;
+}
+
+function compareRequestBodies(context: DiffContext, before: SpecNode, after: SpecNode): void {
+  const resolvedOld = resolve(context.oldDoc, before.requestBody);
+  const resolvedNew = resolve(context.newDoc, after.requestBody);
+  const oldBody = isSpecNode(resolvedOld) ? resolvedOld : undefined;
+  const newBody = isSpecNode(resolvedNew) ? resolvedNew : undefined;
+
+  if (!oldBody && newBody) {
+    if (newBody.required === true) {
+      push(context, "breaking", "request body", "Required request body added", "request-body-added-required");
+    } else {
+      push(context, "non-breaking", "request body", "Optional request body added", "request-body-added");
+    }
+    return;
+  }
+  if (!oldBody || !newBody) {
+    if (oldBody) {
+      push(context, "non-breaking", "request body", "Request body removed", "request-body-removed");
+    }
+    return;
+  }
+
+  if (newBody.required === true && oldBody.required !== true) {
+    push(context, "breaking", "request body", "Request body became required", "request-body-required");
+  }
+
+  const oldContent = contentOf(oldBody);
+  const newContent = contentOf(newBody);
+  for (const [mediaType, media] of Object.entries(oldContent)) {
+    if (!newContent[mediaType]) {
+      push(
+        context,
+        "breaking",
+        "request body",
+        `Media type ${mediaType} no longer accepted`,
+        "request-media-type-removed",
+      );
+      continue;
+    }
+    compareSchemas(
+      context,
+      "request",
+      mediaTypeLabel("request body", mediaType, oldContent),
+      media.schema,
+      newContent[mediaType].schema,
+      0,
+    );
+  }
+}
+
+function compareResponses(context: DiffContext, before: SpecNode, after: SpecNode): void {
+  const oldResponses = isSpecNode(before.responses) ? before.responses : {};
+  const newResponses = isSpecNode(after.responses) ? after.responses : {};
+
+  for (const [status, rawOld] of Object.entries(oldResponses)) {
+    const rawNew = newResponses[status];
+    if (!rawNew) {
+      // Clients handle success codes; removing or replacing one breaks them
+      const isSuccess = /^2/.test(status);
+      push(
+        context,
+        isSuccess ? "breaking" : "non-breaking",
+        `response ${status}`,
+        `Response status ${status} removed`,
+        "response-status-removed",
+      );
+      continue;
+    }
+
+    const oldContent = contentOf(resolve(context.oldDoc, rawOld));
+    const newContent = contentOf(resolve(context.newDoc, rawNew));
+    for (const [mediaType, media] of Object.entries(oldContent)) {
+      if (!newContent[mediaType]) {
+        push(
+          context,
+          "breaking",
+          `response ${status}`,
+          `Media type ${mediaType} no longer returned`,
+          "response-media-type-removed",
+        );
+        continue;
+      }
+      compareSchemas(
+        context,
+        "response",
+        mediaTypeLabel(`response ${status} body`, mediaType, oldContent),
+        media.schema,
+        newContent[mediaType].schema,
+        0,
+      );
+    }
+  }
+
+  for (const status of Object.keys(newResponses)) {
+    if (!oldResponses[status]) {
+      push(
+        context,
+        "non-breaking",
+        `response ${status}`,
+        `Response status ${status} added`,
+        "response-status-added",
+      );
+    }
+  }
+}
+
+/**
+ * Compare schemas; what breaks depends on the direction
+ * Requests break when they accept less (new required fields, narrower types or enums),
+ * responses when they promise less (removed fields, wider types or enums)
+ */
+function compareSchemas(
+  context: DiffContext,
+  direction: Direction,
+  location: string,
+  rawBefore: unknown,
+  rawAfter: unknown,
+  depth: number,
+): void {
+  if (depth > MAX_SCHEMA_DEPTH) return;
+  const resolvedBefore = resolve(context.oldDoc, rawBefore);
+  const resolvedAfter = resolve(context.newDoc, rawAfter);
+  if (!isSpecNode(resolvedBefore) || !isSpecNode(resolvedAfter)) return;
+  const before = mergeAllOf(context.oldDoc, resolvedBefore);
+  const after = mergeAllOf(context.newDoc, resolvedAfter);
+
+  // Types
+  const oldTypes = schemaTypes(before);
+  const newTypes = schemaTypes(after);
+  if (oldTypes.length > 0 && newTypes.length > 0 && !sameSet(oldTypes, newTypes)) {
+    const widened = oldTypes.every((type) => acceptsType(newTypes, type));
+    const narrowed = newTypes.every((type) => acceptsType(oldTypes, type));
+    const safe = direction === "request" ? widened : narrowed;
+    push(
+      context,
+      safe ? "non-breaking" : "breaking",
+      location,
+      `Type changed from ${oldTypes.join(" | ")} to ${newTypes.join(" | ")}`,
+      "type-changed",
+    );
+    if (!widened && !narrowed) return;
+  }
+
+  // Enums
+  const oldEnum = enumValues(before);
+  const newEnum = enumValues(after);
+  if (oldEnum && newEnum) {
+    const removed = oldEnum.filter((value) => !newEnum.some((other) => sameValue(value, other)));
+    const added = newEnum.filter((value) => !oldEnum.some((other) => sameValue(value, other)));
+    if (removed.length > 0) {
+      push(
+        context,
+        direction === "request" ? "breaking" : "non-breaking",
+        location,
+        `Enum values removed: ${formatValues(removed)}`,
+        "enum-narrowed",
+      );
+    }
+    if (added.length > 0) {
+      push(
+        context,
+        direction === "response" ? "breaking" : "non-breaking",
+        location,
+        `Enum values added: ${formatValues(added)}`,
+        "enum-widened",
+      );
+    }
+  } else if (!oldEnum && newEnum) {
+    push(
+      context,
+      direction === "request" ? "breaking" : "non-breaking",
+      location,
+      `Restricted to ${formatValues(newEnum)}`,
+      "enum-narrowed",
+    );
+  } else if (oldEnum && !newEnum) {
+    push(
+      context,
+      direction === "response" ? "breaking" : "non-breaking",
+      location,
+      `No longer restricted to ${formatValues(oldEnum)}`,
+      "enum-widened",
+    );
+  }
+
+  // Object properties
+  const oldProperties = isSpecNode(before.properties) ? before.properties : {};
+  const newProperties = isSpecNode(after.properties) ? after.properties : {};
+  const oldRequired = new Set(stringArray(before.required));
+  const newRequired = new Set(stringArray(after.required));
+
+  for (const [name, property] of Object.entries(oldProperties)) {
+    const propertyLocation = `${location}.${name}`;
+    if (!(name in newProperties)) {
+      push(
+        context,
+        direction === "response" ? "breaking" : "non-breaking",
+        propertyLocation,
+        direction === "response" ? "Response field removed" : "Request field removed",
+        direction === "response" ? "response-field-removed" : "request-field-removed",
+      );
+      continue;
+    }
+
+    if (direction === "request" && newRequired.has(name) && !oldRequired.has(name)) {
+      push(context, "breaking", propertyLocation, "Request field became required", "request-field-required");
+    }
+    if (direction === "response" && oldRequired.has(name) && !newRequired.has(name)) {
+      push(context, "breaking", propertyLocation, "Response field became optional", "response-field-optional");
+    }
+
+    compareSchemas(context, direction, propertyLocation, property, newProperties[name], depth + 1);
+  }
+
+  for (const name of Object.keys(newProperties)) {
+    if (name in oldProperties) continue;
+    const propertyLocation = `${location}.${name}`;
+    if (direction === "request" && newRequired.has(name)) {
+      push(context, "breaking", propertyLocation, "Required request field added", "request-field-added-required");
+    } else {
+      push(
+        context,
+        "non-breaking",
+        propertyLocation,
+        direction === "request" ? "Optional request field added" : "Response field added",
+        direction === "request" ? "request-field-added" : "response-field-added",
+      );
+    }
+  }
+
+  // Array items
+  if (before.items && after.items) {
+    compareSchemas(context, direction, `${location}[]`, before.items, after.items, depth + 1);
+  }
+}
+
+function push(
+  context: DiffContext,
+  level: ChangeLevel,
+  location: string,
+  message: string,
+  rule: string,
+): void {
+  context.changes.push({ level, operation: context.operation, location, message, rule });
+}
+
+/**
+ * Follow a local $ref ("#/components/schemas/User")
+ */
+function resolve(doc: SpecNode, value: unknown, seen = new Set<string>()): unknown {
+  const ref = isSpecNode(value) ? value.$ref : undefined;
+  if (typeof ref !== "string" || !ref.startsWith("#/") || seen.has(ref)) {
+    return value;
+  }
+  seen.add(ref);
+
+  let target: unknown = doc;
+  for (const segment of ref.slice(2).split("/")) {
+    target = isSpecNode(target)
+      ? target[segment.replace(/~1/g, "/").replace(/~0/g, "~")]
+      : undefined;
+  }
+  return target === undefined ? value : resolve(doc, target, seen);
+}
+
+/**
+ * Flatten allOf into one schema so composed objects compare property by property
+ */
+function mergeAllOf(doc: SpecNode, schema: SpecNode): SpecNode {
+  if (!Array.isArray(schema.allOf)) return schema;
+
+  const properties: SpecNode = { ...(isSpecNode(schema.properties) ? schema.properties : {}) };
+  const required = new Set(stringArray(schema.required));
+  const merged: SpecNode = { ...schema, properties };
+  delete merged.allOf;
+
+  for (const part of schema.allOf) {
+    const resolvedPart = resolve(doc, part);
+    if (!isSpecNode(resolvedPart)) continue;
+    const resolved = mergeAllOf(doc, resolvedPart);
+    Object.assign(properties, isSpecNode(resolved.properties) ? resolved.properties : {});
+    for (const name of stringArray(resolved.required) ?? []) {
+      required.add(name);
+    }
+    merged.type ??= resolved.type;
+  }
+
+  merged.required = Array.from(required);
+  return merged;
+}
+
+/**
+ * Types as a sorted list; OpenAPI 3.0 `nullable` becomes "null"
+ */
+function schemaTypes(schema: SpecNode): string[] {
+  const types =
+    typeof schema.type === "string" ? [schema.type] : stringArray(schema.type) ?? [];
+  if (schema.nullable === true && types.length > 0 && !types.includes("null")) {
+    types.push("null");
+  }
+  return types.sort();
+}
+
+function acceptsType(types: string[], type: string): boolean {
+  return types.includes(type) || (type === "integer" && types.includes("number"));
+}
+
+function enumValues(schema: SpecNode): unknown[] | undefined {
+  if (Array.isArray(schema.enum)) return schema.enum;
+  if ("const" in schema) return [schema.const];
+  return undefined;
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatValues(values: unknown[]): string {
+  return values.map((value) => JSON.stringify(value)).join(", ");
+}
+
+/**
+ * Media type objects of a request body or response, by media type
+ */
+function contentOf(value: unknown): Record<string, SpecNode> {
+  return Object.fromEntries(nodeEntries(isSpecNode(value) ? value.content : undefined));
+}
+
+/**
+ * Mention the media type only when there is more than one
+ */
+function mediaTypeLabel(
+  location: string,
+  mediaType: string,
+  content: Record<string, unknown>,
+): string {
+  return Object.keys(content).length > 1 ? `${location} (${mediaType})` : location;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+function isGitRef(ref: string): boolean {
+  try {
+    execFileSync("git", ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], {
+      stdio: "ignore",
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a file as of a git ref; paths are relative to the current directory
+ */
+function readGitFile(ref: string, file: string): string {
+  const relative = path.relative(gitRoot(), path.resolve(file)).split(path.sep).join("/");
+  try {
+    return execFileSync("git", ["show", `${ref}:${relative}`], {
+      encoding: "utf8",
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`Failed to read ${file} at ${ref}: ${stderr || String(error)}`);
+  }
+}
+
+function gitRoot(): string {
+  return execFileSync("git", ["rev-parse", "--show-toplevel"], { encoding: "utf8" }).trim();
+}
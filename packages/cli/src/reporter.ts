@@ -1,5 +1,12 @@
 import chalk from "chalk";
-import type { CheckResult, Report } from "./types.js";
+import {
+  FAILURE_LABELS,
+  describeAttempt,
+  describeLatency,
+  describePhases,
+} from "./formats/index.js";
+import type { LoadReport, LoadStats, ThresholdResult } from "./load.js";
+import type { AssertionFailure, CheckResult, Report } from "./types.js";
 
 export class Reporter {
   printResults(report: Report, regressions: string[]): void {
@@ -13,6 +20,9 @@ export class Reporter {
     console.log(`  ${chalk.green("✓")} Passed: ${report.summary.passed}`);
     console.log(`  ${chalk.red("✗")} Failed: ${report.summary.failed}`);
     console.log(`  ${chalk.yellow("⚠")} Errors: ${report.summary.errors}`);
+    if (report.summary.skipped) {
+      console.log(`  ${chalk.gray("○")} Skipped: ${report.summary.skipped}`);
+    }
     console.log("");
 
     // Regressions
@@ -33,12 +43,89 @@ export class Reporter {
     console.log(chalk.bold("=".repeat(60)) + "\n");
   }
 
+  printLoadReport(
+    report: LoadReport,
+    environment: string,
+    thresholds: ThresholdResult[],
+  ): void {
+    console.log("\n" + chalk.bold("=".repeat(60)));
+    console.log(
+      chalk.bold(
+        `  Load Test Results - ${environment} (${report.mode}, ${(
+          report.duration / 1000
+        ).toFixed(1)}s)`
+      )
+    );
+    console.log(chalk.bold("=".repeat(60)) + "\n");
+
+    console.log(chalk.bold("Summary:"));
+    this.printLoadStats(report.total);
+    if (report.dropped > 0) {
+      console.log(
+        chalk.yellow(`  Dropped: ${report.dropped} (too many requests in flight)`)
+      );
+    }
+    console.log("");
+
+    console.log(chalk.bold("Endpoints:"));
+    report.endpoints.forEach((endpoint) => {
+      console.log(`${endpoint.method} ${endpoint.name}`);
+      this.printLoadStats(endpoint);
+      console.log("");
+    });
+
+    if (thresholds.length > 0) {
+      console.log(chalk.bold("Thresholds:"));
+      thresholds.forEach(({ threshold, actual, passed }) => {
+        const value =
+          threshold.metric === "error_rate"
+            ? `${(actual * 100).toFixed(2)}%`
+            : threshold.metric === "rps"
+            ? `${actual}/s`
+            : `${actual}ms`;
+        console.log(
+          `  ${passed ? chalk.green("✓") : chalk.red("✗")} ${
+            threshold.expression
+          } (actual ${value})`
+        );
+      });
+      console.log("");
+    }
+
+    console.log(chalk.bold("=".repeat(60)) + "\n");
+  }
+
+  private printLoadStats(stats: LoadStats): void {
+    const errorRate = `${(stats.errorRate * 100).toFixed(2)}%`;
+    console.log(
+      `  Requests: ${stats.requests} (${stats.rps}/s) | Errors: ${
+        stats.errorRate > 0 ? chalk.red(errorRate) : chalk.green(errorRate)
+      }`
+    );
+    console.log(
+      `  Latency: p50 ${this.formatResponseTime(stats.p50)} | p90 ${this.formatResponseTime(
+        stats.p90
+      )} | p95 ${this.formatResponseTime(stats.p95)} | p99 ${this.formatResponseTime(
+        stats.p99
+      )} | max ${this.formatResponseTime(stats.max)}`
+    );
+    console.log(
+      chalk.gray(
+        `  Status codes: ${Object.entries(stats.statuses)
+          .map(([code, count]) => `${code} × ${count}`)
+          .join(", ") || "none"}`
+      )
+    );
+  }
+
   private printResult(result: CheckResult): void {
     const icon =
       result.status === "PASSED"
         ? chalk.green("✓")
         : result.status === "FAILED"
         ? chalk.red("✗")
+        : result.status === "SKIPPED"
+        ? chalk.gray("○")
         : chalk.yellow("⚠");
 
     console.log(`${icon} Endpoint ${result.endpointId}`);
@@ -51,33 +138,51 @@ export class Reporter {
       );
     } else if (result.status === "FAILED") {
       console.log(`  ${chalk.red("Failed assertions:")}`);
-      if (result.assertions) {
-        if (result.assertions.statusCode === false) {
-          console.log(
-            `    • Status code: expected ${chalk.red("different")}, got ${chalk.red(
-              result.actualStatus
-            )}`
-          );
-        }
-        if (result.assertions.responseTime === false) {
-          console.log(
-            `    • Response time: ${chalk.red(result.responseTime + "ms")} (too slow)`
-          );
-        }
-        if (result.assertions.bodyContains === false) {
-          console.log(`    • Body does not contain expected content`);
-        }
-        if (result.assertions.bodySchema === false) {
-          console.log(`    • Body does not match expected schema`);
-        }
-      }
+      (result.failures ?? []).forEach((failure) => {
+        console.log(`    • ${this.formatFailure(failure)}`);
+      });
+    } else if (result.status === "SKIPPED") {
+      console.log(`  ${chalk.gray("Skipped:")} ${result.skipReason}`);
     } else {
       console.log(`  ${chalk.yellow("Error:")} ${result.error}`);
     }
 
+    if (result.latency) {
+      console.log(chalk.gray(`  Latency: ${describeLatency(result.latency)}`));
+      console.log(
+        chalk.gray(`  Phases (median): ${describePhases(result.latency.phases)}`)
+      );
+    }
+
+    if (result.attempts?.length) {
+      console.log(
+        chalk.gray(
+          `  Retried ${result.attempts.length} time${
+            result.attempts.length === 1 ? "" : "s"
+          }: ${result.attempts.map(describeAttempt).join(", ")}`
+        )
+      );
+    }
+
     console.log("");
   }
 
+  private formatFailure(failure: AssertionFailure): string {
+    const label = FAILURE_LABELS[failure.assertion];
+    const location = failure.path ? ` ${chalk.cyan(failure.path)}` : "";
+    const detail = failure.message ? ` (${failure.message})` : "";
+
+    return `${label}${location}: expected ${chalk.green(
+      this.formatValue(failure.expected)
+    )}, got ${chalk.red(this.formatValue(failure.actual))}${detail}`;
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === undefined) return "nothing";
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  }
+
   private formatResponseTime(ms: number): string {
     if (ms < 100) {
       return chalk.green(`${ms}ms`);
@@ -0,0 +1,94 @@
+/**
+ * Request pacing helpers for EndpointChecker: concurrency, rate limiting and retry backoff
+ */
+
+export const RETRYABLE_STATUSES = [429, 502, 503, 504];
+/** Network failures and timeouts; other errors (e.g. unresolved variables) repeat on every attempt */
+export const RETRYABLE_ERROR_CODES = [
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ERR_NETWORK",
+];
+export const RETRY_AFTER_STATUSES = [429, 503];
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Global requests-per-second ceiling shared by every worker
+ * Requests are spaced evenly, so bursts never exceed the ceiling
+ */
+export class RateLimiter {
+  private interval: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number) {
+    this.interval = 1000 / requestsPerSecond;
+  }
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * Map items with at most `limit` tasks in flight, preserving input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt - 1), randomized to 50-100%
+ */
+export function computeBackoff(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(Array.isArray(value) ? value[0] : value).trim();
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
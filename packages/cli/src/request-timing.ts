@@ -0,0 +1,102 @@
+import http from "node:http";
+import https from "node:https";
+import timer, { type ClientRequestWithTimings } from "@szmarczak/http-timer";
+import followRedirects from "follow-redirects";
+import type { LatencySummary, TimingPhases } from "./types.js";
+
+/**
+ * Wrap a native protocol so every request (including redirect hops) records
+ * got-style timings on `request.timings`
+ */
+function withTimings(protocol: typeof http | typeof https) {
+  return {
+    ...protocol,
+    request: (
+      options: https.RequestOptions,
+      callback?: (response: http.IncomingMessage) => void,
+    ): http.ClientRequest => {
+      const request = protocol.request(options, callback);
+      timer(request);
+      return request;
+    },
+  };
+}
+
+const timedProtocols = followRedirects.wrap({
+  http: withTimings(http),
+  https: withTimings(https),
+});
+
+/**
+ * Axios transport that keeps redirect handling but exposes phase timings
+ * on `response.request.timings`, the same breakdown got reports in the extension
+ */
+export const timedTransport = {
+  request(options: { protocol?: string }, callback: (response: http.IncomingMessage) => void) {
+    const protocol =
+      options.protocol === "https:" ? timedProtocols.https : timedProtocols.http;
+    return protocol.request(options as https.RequestOptions, callback);
+  },
+};
+
+/**
+ * Read phase timings recorded by the timed transport
+ */
+export function getTimingPhases(request: unknown): TimingPhases | undefined {
+  const timings = (request as ClientRequestWithTimings | undefined)?.timings;
+  if (!timings) return undefined;
+
+  // Phases are fractional milliseconds; whole numbers read better in reports
+  return Object.fromEntries(
+    Object.entries(timings.phases)
+      .filter(([, value]) => value !== undefined)
+      .map(([phase, value]) => [phase, Math.round(value as number)]),
+  ) as TimingPhases;
+}
+
+/**
+ * Summarize sampled response times into percentiles (nearest-rank) and
+ * median phase timings
+ */
+export function summarizeLatency(
+  responseTimes: number[],
+  phases: TimingPhases[],
+): LatencySummary {
+  const sorted = [...responseTimes].sort((a, b) => a - b);
+  const phaseNames = Array.from(
+    new Set(phases.flatMap((sample) => Object.keys(sample))),
+  ) as (keyof TimingPhases)[];
+
+  return {
+    samples: sorted.length,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    mean: sorted.length
+      ? Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length)
+      : 0,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    phases: Object.fromEntries(
+      phaseNames.map((name) => [
+        name,
+        percentile(
+          phases
+            .map((sample) => sample[name])
+            .filter((value): value is number => value !== undefined)
+            .sort((a, b) => a - b),
+          50,
+        ),
+      ]),
+    ) as TimingPhases,
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], rank: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.ceil((rank / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
@@ -0,0 +1,129 @@
+/**
+ * Extract values from responses for @set directives
+ * Mirrors the extension's extractValueFromResponse path rules:
+ * - response.body.token, response.data.token, response.items[0].name (JSON body)
+ * - response.headers.location (headers)
+ * - response.cookies.session_id (cookie value from set-cookie)
+ */
+
+export interface CapturedResponse {
+  headers: Record<string, unknown>;
+  data: unknown;
+}
+
+export function extractValueFromResponse(
+  response: CapturedResponse,
+  path: string,
+): string | undefined {
+  let cleanPath = path.startsWith("response.")
+    ? path.slice("response.".length)
+    : path;
+
+  if (cleanPath.startsWith("cookies.")) {
+    return extractCookieValue(response.headers, cleanPath.slice("cookies.".length));
+  }
+
+  if (cleanPath.startsWith("headers.")) {
+    return extractFromHeaders(
+      response.headers,
+      cleanPath.slice("headers.".length).toLowerCase(),
+    );
+  }
+
+  if (cleanPath.startsWith("body.")) {
+    cleanPath = cleanPath.slice("body.".length);
+  }
+
+  // "data." is an alias for the body in the extension, but wrapped payloads
+  // ({ data: { token } }) also use it, so try the literal path first
+  const body = parseData(response.data);
+  let value = getNestedValue(body, cleanPath);
+  if ((value === undefined || value === null) && cleanPath.startsWith("data.")) {
+    value = getNestedValue(body, cleanPath.slice("data.".length));
+  }
+
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function parseData(data: unknown): unknown {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+function findHeader(headers: Record<string, unknown>, name: string): unknown {
+  const entry = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === name,
+  );
+  return entry?.[1];
+}
+
+function extractFromHeaders(
+  headers: Record<string, unknown>,
+  headerName: string,
+): string | undefined {
+  const value = findHeader(headers, headerName);
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  // set-cookie is an array, join with semicolon for multiple cookies
+  return Array.isArray(value) ? value.join("; ") : String(value);
+}
+
+function extractCookieValue(
+  headers: Record<string, unknown>,
+  cookieName: string,
+): string | undefined {
+  const setCookieHeader = findHeader(headers, "set-cookie");
+  if (!setCookieHeader) {
+    return undefined;
+  }
+
+  const cookies = Array.isArray(setCookieHeader)
+    ? setCookieHeader.map(String)
+    : [String(setCookieHeader)];
+
+  for (const cookie of cookies) {
+    // Parse "name=value; attributes..."
+    const [nameValue] = cookie.split(";", 1);
+    const eqIndex = nameValue.indexOf("=");
+    if (eqIndex === -1) continue;
+
+    if (nameValue.slice(0, eqIndex).trim() === cookieName) {
+      return nameValue.slice(eqIndex + 1).trim();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get a nested value using dot notation with array support
+ * Examples: "data.token", "user.id", "items[0].name", "results.0.value"
+ */
+function getNestedValue(obj: unknown, path: string): unknown {
+  const parts = path.split(/\.|\[|\]/).filter(Boolean);
+  let current: unknown = obj;
+
+  for (const part of parts) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return undefined;
+    }
+
+    const index = parseInt(part, 10);
+    current =
+      !isNaN(index) && Array.isArray(current)
+        ? current[index]
+        : (current as Record<string, unknown>)[part];
+  }
+
+  return current;
+}
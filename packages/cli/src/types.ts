@@ -1,18 +1,100 @@
 import { z } from "zod";
 
+export const valueAssertionSchema = z.object({
+  path: z.string(),
+  exists: z.boolean().optional(),
+  equals: z.unknown().optional(),
+  notEquals: z.unknown().optional(),
+  contains: z.unknown().optional(),
+  matches: z.string().optional(), // regex, plain or /pattern/flags
+  lessThan: z.number().optional(),
+  greaterThan: z.number().optional(),
+});
+
+export const headerAssertionSchema = z.object({
+  name: z.string(),
+  exists: z.boolean().optional(),
+  equals: z.string().optional(),
+  contains: z.string().optional(),
+  matches: z.string().optional(),
+});
+
+export const setDirectiveSchema = z.object({
+  varName: z.string(),
+  responsePath: z.string(), // e.g. response.body.token, response.headers.location
+});
+
+// Secrets are only referenced by environment variable name (*Env fields), so
+// they never live in a collection or env file. Other strings may use {{variables}}.
+export const authConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("oauth2"), // client-credentials grant
+    tokenUrl: z.string(),
+    clientIdEnv: z.string(),
+    clientSecretEnv: z.string(),
+    scope: z.string().optional(),
+    audience: z.string().optional(),
+    clientAuthentication: z.enum(["header", "body"]).optional(), // default: header (Basic)
+  }),
+  z.object({
+    type: z.literal("basic"),
+    usernameEnv: z.string(),
+    passwordEnv: z.string(),
+  }),
+  z.object({
+    type: z.literal("apiKey"),
+    name: z.string(), // query parameter or header name
+    valueEnv: z.string(),
+    in: z.enum(["query", "header"]).optional(), // default: query
+  }),
+  z.object({
+    type: z.literal("awsSigV4"),
+    region: z.string(),
+    service: z.string(),
+    accessKeyIdEnv: z.string().optional(), // default: AWS_ACCESS_KEY_ID
+    secretAccessKeyEnv: z.string().optional(), // default: AWS_SECRET_ACCESS_KEY
+    sessionTokenEnv: z.string().optional(), // default: AWS_SESSION_TOKEN
+  }),
+  z.object({
+    type: z.literal("hmac"),
+    secretEnv: z.string(),
+    algorithm: z.enum(["sha1", "sha256", "sha512"]).optional(), // default: sha256
+    encoding: z.enum(["hex", "base64"]).optional(), // default: hex
+    signatureHeader: z.string().optional(), // default: X-Signature
+    timestampHeader: z.string().optional(), // default: X-Timestamp
+    keyIdEnv: z.string().optional(),
+    keyIdHeader: z.string().optional(), // default: X-Key-Id
+  }),
+]);
+
+export const percentileSchema = z.enum(["p50", "p90", "p99"]);
+
 export const endpointDefinitionSchema = z.object({
   id: z.string(),
   name: z.string(),
-  url: z.string().url(),
+  url: z.string().min(1), // may contain {{variables}}
   method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"]),
   headers: z.record(z.string()).optional(),
   body: z.string().optional(),
-  expectedStatus: z.number().default(200),
+  variables: z.record(z.string()).optional(), // file variables (@name = value)
+  retries: z.number().int().min(0).optional(), // overrides --retries
+  setDirectives: z.array(setDirectiveSchema).optional(), // captures for flow mode (@set)
+  expectedStatus: z.number().optional(), // any 2xx when omitted
   maxResponseTime: z.number().optional(), // in ms
+  samples: z.number().int().min(1).optional(), // overrides --samples
+  responseTimePercentile: percentileSchema.optional(), // overrides --percentile
+  timeout: z.number().int().positive().optional(), // request timeout in ms (default: 30000)
+  interval: z.number().int().positive().optional(), // monitor interval in ms, overrides --interval
+  isActive: z.boolean().optional(), // inactive endpoints are not monitored
   assertions: z
     .object({
       bodyContains: z.array(z.string()).optional(),
-      bodySchema: z.record(z.unknown()).optional(), // JSON schema
+      bodyMatches: z.array(z.string()).optional(),
+      bodySchema: z.record(z.unknown()).optional(), // JSON Schema (draft 2020-12)
+      schemas: z.array(z.record(z.unknown())).optional(), // extra schemas resolvable by $id via $ref
+      jsonPath: z.array(valueAssertionSchema).optional(),
+      jmesPath: z.array(valueAssertionSchema).optional(),
+      headers: z.array(headerAssertionSchema).optional(),
     })
     .optional(),
 });
@@ -20,12 +102,63 @@ export const endpointDefinitionSchema = z.object({
 export const collectionSchema = z.object({
   id: z.string(),
   name: z.string(),
+  auth: authConfigSchema.optional(), // overridden by the environment's $auth
   endpoints: z.array(endpointDefinitionSchema),
 });
 
+export const assertionFailureSchema = z.object({
+  assertion: z.enum([
+    "statusCode",
+    "responseTime",
+    "bodyContains",
+    "bodyMatches",
+    "bodySchema",
+    "jsonPath",
+    "jmesPath",
+    "headers",
+  ]),
+  path: z.string().optional(),
+  expected: z.unknown().optional(),
+  actual: z.unknown().optional(),
+  message: z.string().optional(),
+});
+
+export const checkAttemptSchema = z.object({
+  attempt: z.number(),
+  status: z.number().optional(),
+  error: z.string().optional(),
+  responseTime: z.number(), // in ms
+  delay: z.number(), // wait before the next attempt, in ms
+  retryAfter: z.boolean(), // delay came from a Retry-After header
+});
+
+// Same phases as got's timings.phases, in ms
+export const timingPhasesSchema = z.object({
+  wait: z.number().optional(),
+  dns: z.number().optional(),
+  tcp: z.number().optional(),
+  tls: z.number().optional(),
+  request: z.number().optional(),
+  firstByte: z.number().optional(),
+  download: z.number().optional(),
+  total: z.number().optional(),
+});
+
+export const latencySummarySchema = z.object({
+  samples: z.number(), // samples that received a response
+  min: z.number(),
+  max: z.number(),
+  mean: z.number(),
+  p50: z.number(),
+  p90: z.number(),
+  p99: z.number(),
+  phases: timingPhasesSchema, // median of each phase
+});
+
 export const checkResultSchema = z.object({
   endpointId: z.string(),
-  status: z.enum(["PASSED", "FAILED", "ERROR"]),
+  status: z.enum(["PASSED", "FAILED", "ERROR", "SKIPPED"]),
+  skipReason: z.string().optional(),
   actualStatus: z.number().optional(),
   responseTime: z.number(), // in ms
   error: z.string().optional(),
@@ -35,9 +168,17 @@ export const checkResultSchema = z.object({
       statusCode: z.boolean(),
       responseTime: z.boolean().optional(),
       bodyContains: z.boolean().optional(),
+      bodyMatches: z.boolean().optional(),
       bodySchema: z.boolean().optional(),
+      jsonPath: z.boolean().optional(),
+      jmesPath: z.boolean().optional(),
+      headers: z.boolean().optional(),
     })
     .optional(),
+  failures: z.array(assertionFailureSchema).optional(),
+  attempts: z.array(checkAttemptSchema).optional(), // earlier attempts that were retried
+  phases: timingPhasesSchema.optional(),
+  latency: latencySummarySchema.optional(), // only with --samples
 });
 
 export const reportSchema = z.object({
@@ -49,10 +190,43 @@ export const reportSchema = z.object({
     passed: z.number(),
     failed: z.number(),
     errors: z.number(),
+    skipped: z.number().optional(),
   }),
   timestamp: z.string(),
 });
 
+export const tlsSettingsSchema = z.object({
+  ca: z.union([z.string(), z.array(z.string())]).optional(), // extra PEM CA bundles
+  cert: z.string().optional(), // client certificate (PEM)
+  key: z.string().optional(), // client key (PEM)
+  pfx: z.string().optional(), // client certificate + key (PKCS#12)
+  passphrase: z.string().optional(),
+  insecure: z.boolean().optional(), // skip certificate verification
+});
+
+export const networkSettingsSchema = tlsSettingsSchema.extend({
+  proxy: z.string().optional(), // for http and https targets
+  httpProxy: z.string().optional(),
+  httpsProxy: z.string().optional(),
+  noProxy: z.union([z.string(), z.array(z.string())]).optional(),
+  hosts: z.record(tlsSettingsSchema).optional(), // keyed by host, host:port or *.domain
+});
+
+export const baselineEntrySchema = z.object({
+  name: z.string(),
+  status: z.number(),
+  responseTime: z.number(), // in ms; the chosen percentile when sampled
+  schema: z.record(z.unknown()).optional(), // JSON Schema inferred from the response body
+});
+
+export const baselineSchema = z.object({
+  version: z.literal(1),
+  collectionId: z.string(),
+  environment: z.string(),
+  updatedAt: z.string(),
+  endpoints: z.record(baselineEntrySchema), // keyed by endpoint id
+});
+
 export const syncApiDefinitionSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -73,9 +247,22 @@ export const syncPayloadSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
 });
 
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+export type SetDirective = z.infer<typeof setDirectiveSchema>;
 export type EndpointDefinition = z.infer<typeof endpointDefinitionSchema>;
 export type Collection = z.infer<typeof collectionSchema>;
+export type ValueAssertion = z.infer<typeof valueAssertionSchema>;
+export type HeaderAssertion = z.infer<typeof headerAssertionSchema>;
+export type AssertionFailure = z.infer<typeof assertionFailureSchema>;
+export type CheckAttempt = z.infer<typeof checkAttemptSchema>;
+export type Percentile = z.infer<typeof percentileSchema>;
+export type TimingPhases = z.infer<typeof timingPhasesSchema>;
+export type LatencySummary = z.infer<typeof latencySummarySchema>;
 export type CheckResult = z.infer<typeof checkResultSchema>;
 export type Report = z.infer<typeof reportSchema>;
+export type TlsSettings = z.infer<typeof tlsSettingsSchema>;
+export type NetworkSettings = z.infer<typeof networkSettingsSchema>;
+export type BaselineEntry = z.infer<typeof baselineEntrySchema>;
+export type Baseline = z.infer<typeof baselineSchema>;
 export type SyncApiDefinition = z.infer<typeof syncApiDefinitionSchema>;
 export type SyncPayload = z.infer<typeof syncPayloadSchema>;
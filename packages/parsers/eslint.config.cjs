@@ -0,0 +1,23 @@
+const js = require("@eslint/js");
+const tseslint = require("typescript-eslint");
+
+module.exports = [
+  {
+    // Examples are excluded from tsconfig, so they have no type information
+    ignores: ["dist/**", "**/*.example.ts"],
+  },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    files: ["src/**/*.ts"],
+    languageOptions: {
+      parserOptions: {
+        project: true,
+        tsconfigRootDir: __dirname,
+      },
+    },
+    rules: {
+      "@typescript-eslint/no-explicit-any": "off",
+    },
+  },
+];
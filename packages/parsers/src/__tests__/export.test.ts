@@ -0,0 +1,186 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { exportCollections, getExporter, getExporters } from "../export";
+import type { ExportCollection, ExportFormat } from "../exporters/exporter-types";
+import { parseBrunoCollection } from "../importers/bruno-importer";
+import { parseInsomniaExport } from "../importers/insomnia-importer";
+import { parsePostmanCollection } from "../importers/postman-importer";
+
+const collection: ExportCollection = {
+    name: "Shop API",
+    endpoints: [
+        {
+            name: "Auth / Login",
+            method: "POST",
+            pathTemplate: "/login",
+            requestPath: "{{baseUrl}}/login",
+            headersSchema: { "Content-Type": "application/json" },
+            bodySchema: '{"user": "", "password": ""}',
+            bodyOverrides: '{"user": "ci", "password": "{{password}}"}',
+            setDirectivesOverrides: [
+                { varName: "token", responsePath: "response.body.data.token" },
+            ],
+        },
+        {
+            name: "Orders / Get order",
+            method: "GET",
+            pathTemplate: "/orders/:id",
+            requestPath: "{{baseUrl}}/orders/42",
+            headersOverrides: { Authorization: "Bearer {{token}}" },
+            querySchema: { expand: "" },
+            queryOverrides: { expand: "items" },
+        },
+    ],
+};
+
+const environments = {
+    $shared: { baseUrl: "http://localhost:3000" },
+    local: { password: "dev" },
+    staging: { baseUrl: "https://staging.shop.test", password: "secret" },
+};
+
+const exportFiles = (format: ExportFormat) =>
+    exportCollections([collection], format, { environments, environment: "staging" });
+
+describe("exporters", () => {
+    it("registers every format once", () => {
+        expect(getExporters().map((exporter) => exporter.format)).toEqual([
+            "postman",
+            "insomnia",
+            "bruno",
+            "openapi",
+            "curl",
+        ]);
+        expect(() => getExporter("yaml" as ExportFormat)).toThrow("Unknown export format: yaml");
+    });
+
+    it("round-trips through the Postman importer", () => {
+        const { files } = exportFiles("postman");
+        const imported = parsePostmanCollection(JSON.parse(files[0].content));
+
+        expect(imported.name).toBe("Shop API");
+        expect(imported.endpoints).toEqual([
+            expect.objectContaining({
+                name: "Auth / Login",
+                method: "POST",
+                pathTemplate: "{{baseUrl}}/login",
+                bodyOverrides: '{"user": "ci", "password": "{{password}}"}',
+                setDirectivesOverrides: [
+                    { varName: "token", responsePath: "response.body.data.token" },
+                ],
+            }),
+            expect.objectContaining({
+                name: "Orders / Get order",
+                pathTemplate: "{{baseUrl}}/orders/:id",
+                requestPath: "{{baseUrl}}/orders/42",
+                queryOverrides: { expand: "items" },
+                headersOverrides: { Authorization: "Bearer {{token}}" },
+            }),
+        ]);
+    });
+
+    it("round-trips through the Insomnia importer", () => {
+        const { files } = exportFiles("insomnia");
+        const imported = parseInsomniaExport(JSON.parse(files[0].content));
+
+        expect(imported.environments).toEqual(environments);
+        expect(
+            imported.endpoints.map((endpoint) => [endpoint.name, endpoint.requestPath]),
+        ).toEqual([
+            ["Auth / Login", "{{baseUrl}}/login"],
+            ["Orders / Get order", "{{baseUrl}}/orders/42"],
+        ]);
+    });
+
+    describe("Bruno", () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-export-"));
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("round-trips through the Bruno importer", async () => {
+            const { files } = exportFiles("bruno");
+            for (const file of files) {
+                fs.mkdirSync(path.dirname(path.join(dir, file.path)), { recursive: true });
+                fs.writeFileSync(path.join(dir, file.path), file.content);
+            }
+
+            const imported = await parseBrunoCollection(path.join(dir, "Shop API"));
+
+            expect(imported.name).toBe("Shop API");
+            expect(imported.environments).toMatchObject({ staging: environments.staging });
+            expect(imported.endpoints).toEqual([
+                expect.objectContaining({
+                    name: "Auth / Login",
+                    setDirectivesOverrides: [
+                        { varName: "token", responsePath: "response.body.data.token" },
+                    ],
+                }),
+                expect.objectContaining({
+                    name: "Orders / Get order",
+                    queryOverrides: { expand: "items" },
+                }),
+            ]);
+        });
+    });
+
+    it("writes curl scripts defaulting variables to the selected environment", () => {
+        const { files } = exportFiles("curl");
+
+        expect(files.map((file) => file.path)).toEqual(["Shop API.sh"]);
+        const script = files[0].content;
+        expect(script).toContain(': "${baseUrl:=https://staging.shop.test}"');
+        // Captured variables start empty
+        expect(script).toContain(': "${token:=}"');
+        expect(script).toContain('response="$(curl -sS -X POST "${baseUrl}/login"');
+        expect(script).toContain(
+            "token=\"$(printf '%s' \"$response\" | jq -r '.data.token')\"",
+        );
+        expect(script).toContain('-X GET "${baseUrl}/orders/42?expand=items"');
+        expect(script).toContain('-H "Authorization: Bearer ${token}"');
+    });
+
+    it("warns about an unknown curl environment", () => {
+        const { warnings } = exportCollections([collection], "curl", {
+            environments,
+            environment: "prod",
+        });
+
+        expect(warnings[0]).toMatch(/^Environment "prod" not found/);
+    });
+
+    it("describes endpoints as OpenAPI with one server per environment", () => {
+        // "local" has no baseUrl of its own, so its server comes from $shared
+        const { files } = exportFiles("openapi");
+        const document = JSON.parse(files[0].content);
+
+        expect(document.openapi).toMatch(/^3\.1/);
+        expect(document.servers.map((server: { url: string }) => server.url)).toEqual([
+            "http://localhost:3000",
+            "https://staging.shop.test",
+        ]);
+        expect(Object.keys(document.paths)).toEqual(["/login", "/orders/{id}"]);
+        expect(document.paths["/orders/{id}"].get).toMatchObject({
+            tags: ["Orders"],
+            parameters: expect.arrayContaining([
+                expect.objectContaining({ name: "id", in: "path", required: true }),
+                expect.objectContaining({ name: "expand", in: "query" }),
+            ]),
+        });
+        expect(
+            document.paths["/login"].post.requestBody.content["application/json"].schema,
+        ).toMatchObject({
+            type: "object",
+            properties: { user: { type: "string" }, password: { type: "string" } },
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { hasExpress, parseExpressRoutes } from "../express/express-parser";
+import { hasFastify, parseFastifyRoutes } from "../fastify/fastify-parser";
+import { createProject, quiet, removeProject, routeKeys } from "./fixture-project";
+
+let dir: string | undefined;
+
+afterEach(() => {
+    if (dir) removeProject(dir);
+    dir = undefined;
+});
+
+describe("ExpressParser", () => {
+    it("resolves routes, route() chains and mounted routers", async () => {
+        dir = createProject(["express"], {
+            "src/users.ts": [
+                'import { Router } from "express";',
+                "",
+                "export const users = Router();",
+                'users.get("/", (req, res) => res.json([]));',
+                'users.route("/:id").get(getUser).delete(deleteUser);',
+                "",
+                "function getUser(req: any, res: any) { res.json({}); }",
+                "function deleteUser(req: any, res: any) { res.sendStatus(204); }",
+            ].join("\n"),
+            "src/app.ts": [
+                'import express from "express";',
+                'import { users } from "./users";',
+                "",
+                "const app = express();",
+                "const v1 = express.Router();",
+                'app.get("env");',
+                'app.get("/health", (req, res) => res.send("ok"));',
+                'v1.use("/users", users);',
+                'app.use("/v1", v1);',
+            ].join("\n"),
+        });
+
+        expect(await hasExpress(dir, quiet)).toBe(true);
+        const routes = await parseExpressRoutes(dir, quiet);
+
+        expect(routeKeys(routes)).toEqual([
+            "DELETE /v1/users/:id",
+            "GET /health",
+            "GET /v1/users",
+            "GET /v1/users/:id",
+        ]);
+        const getUser = routes.find(
+            (route) => route.method === "GET" && route.path === "/v1/users/:id",
+        );
+        expect(getUser).toMatchObject({ type: "express", handlerFunction: "getUser" });
+    });
+
+    it("takes body examples from validation middleware", async () => {
+        dir = createProject(["express", "zod"], {
+            "src/app.ts": [
+                'import express from "express";',
+                'import { z } from "zod";',
+                "",
+                "const app = express();",
+                "const createUserSchema = z.object({ email: z.string().email(), age: z.number() });",
+                'app.post("/users", validate(createUserSchema), (req, res) => res.json(req.body));',
+            ].join("\n"),
+        });
+
+        const [route] = await parseExpressRoutes(dir, quiet);
+
+        expect(route).toMatchObject({
+            method: "POST",
+            path: "/users",
+            headers: { "Content-Type": "application/json" },
+        });
+        expect(JSON.parse(route.body ?? "")).toEqual({
+            email: expect.any(String),
+            age: expect.any(Number),
+        });
+    });
+
+    it("is not detected without an express dependency", async () => {
+        dir = createProject(["fastify"], {});
+
+        expect(await hasExpress(dir, quiet)).toBe(false);
+    });
+});
+
+describe("FastifyParser", () => {
+    it("resolves shorthand routes, route() and register prefixes", async () => {
+        dir = createProject(["fastify", "fastify-plugin"], {
+            "src/routes/items.ts": [
+                'import type { FastifyInstance } from "fastify";',
+                "",
+                "export default async function items(app: FastifyInstance) {",
+                '    app.get("/", async () => []);',
+                "    app.route({",
+                '        method: ["PUT", "PATCH"],',
+                '        url: "/:id",',
+                "        schema: {",
+                "            body: {",
+                '                type: "object",',
+                '                properties: { name: { type: "string" }, price: { type: "number" }, note: { type: "string" } },',
+                '                required: ["name", "price"],',
+                "            },",
+                "        },",
+                "        handler: async () => ({}),",
+                "    });",
+                "}",
+            ].join("\n"),
+            "src/plugins/health.ts": [
+                'import fp from "fastify-plugin";',
+                "",
+                "export default fp(async (app) => {",
+                '    app.get("/health", async () => "ok");',
+                "});",
+            ].join("\n"),
+            "src/server.ts": [
+                'import Fastify from "fastify";',
+                'import items from "./routes/items";',
+                'import health from "./plugins/health";',
+                "",
+                "const server = Fastify();",
+                'server.register(items, { prefix: "/api/items" });',
+                'server.register(health, { prefix: "/ignored" });',
+            ].join("\n"),
+        });
+
+        expect(await hasFastify(dir, quiet)).toBe(true);
+        const routes = await parseFastifyRoutes(dir, quiet);
+
+        expect(routeKeys(routes)).toEqual([
+            "GET /api/items",
+            "GET /health",
+            "PATCH /api/items/:id",
+            "PUT /api/items/:id",
+        ]);
+        const update = routes.find((route) => route.method === "PUT");
+        expect(update?.type).toBe("fastify");
+        // Optional properties are left out of examples, as with Zod schemas
+        expect(JSON.parse(update?.body ?? "")).toEqual({
+            name: expect.any(String),
+            price: expect.any(Number),
+        });
+    });
+});
@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { Logger } from "../lib/logger";
+import type { ParsedRoute, ParserOptions } from "../lib/types";
+
+/** Parser options that keep parser logs out of the test output */
+export const quiet: ParserOptions = {
+    logger: new Logger({ output: { appendLine() {} } }),
+};
+
+/**
+ * Write a project to a temporary directory
+ * `dependencies` go into package.json, which parsers use for detection
+ */
+export function createProject(
+    dependencies: string[],
+    files: Record<string, string>,
+): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-parsers-"));
+    fs.writeFileSync(
+        path.join(dir, "package.json"),
+        JSON.stringify({
+            name: "fixture",
+            dependencies: Object.fromEntries(dependencies.map((name) => [name, "*"])),
+        }),
+    );
+    for (const [file, contents] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), contents);
+    }
+    return dir;
+}
+
+export function removeProject(dir: string): void {
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+/** "METHOD path" per route, sorted, for order-independent comparisons */
+export function routeKeys(routes: ParsedRoute[]): string[] {
+    return routes.map((route) => `${route.method} ${route.path}`).sort();
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { hasElysia, parseElysiaRoutes } from "../elysia/elysia-parser";
+import { hasHono, parseHonoRoutes } from "../hono/hono-parser";
+import { createProject, quiet, removeProject, routeKeys } from "./fixture-project";
+
+let dir: string | undefined;
+
+afterEach(() => {
+    if (dir) removeProject(dir);
+    dir = undefined;
+});
+
+describe("HonoParser", () => {
+    it("follows chained builders, route() mounts and basePath()", async () => {
+        dir = createProject(["hono"], {
+            "src/books.ts": [
+                'import { Hono } from "hono";',
+                "",
+                "export const books = new Hono()",
+                '    .get("/", (c) => c.json([]))',
+                '    .post("/", (c) => c.json({}, 201))',
+                '    .get("/:id", (c) => c.json({}));',
+            ].join("\n"),
+            "src/index.ts": [
+                'import { Hono } from "hono";',
+                'import { books } from "./books";',
+                "",
+                'const app = new Hono().basePath("/api");',
+                'app.route("/books", books);',
+                'app.get("/health", (c) => c.text("ok"));',
+                "",
+                "export default app;",
+            ].join("\n"),
+        });
+
+        expect(await hasHono(dir, quiet)).toBe(true);
+        const routes = await parseHonoRoutes(dir, quiet);
+
+        expect(routeKeys(routes)).toEqual([
+            "GET /api/books",
+            "GET /api/books/:id",
+            "GET /api/health",
+            "POST /api/books",
+        ]);
+        expect(routes.every((route) => route.type === "hono")).toBe(true);
+    });
+
+    it("takes body and query examples from zValidator", async () => {
+        dir = createProject(["hono", "@hono/zod-validator", "zod"], {
+            "src/index.ts": [
+                'import { Hono } from "hono";',
+                'import { zValidator } from "@hono/zod-validator";',
+                'import { z } from "zod";',
+                "",
+                "const app = new Hono();",
+                "app.post(",
+                '    "/posts",',
+                '    zValidator("query", z.object({ draft: z.boolean() })),',
+                '    zValidator("json", z.object({ title: z.string(), tags: z.array(z.string()) })),',
+                "    (c) => c.json({}, 201),",
+                ");",
+            ].join("\n"),
+        });
+
+        const [route] = await parseHonoRoutes(dir, quiet);
+
+        expect(route).toMatchObject({
+            method: "POST",
+            path: "/posts",
+            query: { draft: expect.any(String) },
+        });
+        expect(JSON.parse(route.body ?? "")).toEqual({
+            title: expect.any(String),
+            tags: expect.any(Array),
+        });
+        expect(route.bodyType).toMatchObject({
+            kind: "object",
+            children: { tags: { kind: "array", items: { kind: "string" } } },
+        });
+    });
+});
+
+describe("ElysiaParser", () => {
+    it("follows prefixes, group() scopes and t.Object hooks", async () => {
+        dir = createProject(["elysia"], {
+            "src/index.ts": [
+                'import { Elysia, t } from "elysia";',
+                "",
+                'new Elysia({ prefix: "/v1" })',
+                '    .get("/health", () => "ok")',
+                '    .group("/users", (app) =>',
+                "        app",
+                '            .get("/", () => [])',
+                "            .post(",
+                '                "/",',
+                "                ({ body }) => body,",
+                "                { body: t.Object({ name: t.String(), admin: t.Boolean() }) },",
+                "            ),",
+                "    )",
+                "    .listen(3000);",
+            ].join("\n"),
+        });
+
+        expect(await hasElysia(dir, quiet)).toBe(true);
+        const routes = await parseElysiaRoutes(dir, quiet);
+
+        expect(routeKeys(routes)).toEqual(["GET /v1/health", "GET /v1/users", "POST /v1/users"]);
+        const create = routes.find((route) => route.method === "POST");
+        expect(create?.type).toBe("elysia");
+        expect(JSON.parse(create?.body ?? "")).toEqual({
+            name: expect.any(String),
+            admin: expect.any(Boolean),
+        });
+    });
+});
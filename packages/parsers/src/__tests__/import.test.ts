@@ -0,0 +1,353 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { detectImportFormat, importCollection, mergeEnvironments } from "../import";
+import { parseHar } from "../importers/har-importer";
+import { parseInsomniaExport } from "../importers/insomnia-importer";
+import { parsePostmanCollection } from "../importers/postman-importer";
+
+describe("Postman import", () => {
+    const collection = {
+        info: {
+            name: "Shop",
+            schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json",
+        },
+        variable: [{ key: "baseUrl", value: "https://api.shop.test" }],
+        auth: { type: "bearer", bearer: [{ key: "token", value: "{{token}}" }] },
+        item: [
+            {
+                name: "Auth",
+                auth: { type: "noauth" },
+                item: [
+                    {
+                        name: "Login",
+                        request: {
+                            method: "POST",
+                            url: "{{baseUrl}}/login",
+                            body: {
+                                mode: "raw",
+                                raw: '{"user": "ci"}',
+                                options: { raw: { language: "json" } },
+                            },
+                        },
+                        event: [
+                            {
+                                listen: "test",
+                                script: {
+                                    exec: [
+                                        "const json = pm.response.json();",
+                                        'pm.environment.set("token", json.data.token);',
+                                        'pm.environment.set("session", pm.response.headers.get("X-Session"));',
+                                    ],
+                                },
+                            },
+                        ],
+                    },
+                ],
+            },
+            {
+                name: "Get order",
+                request: {
+                    method: "GET",
+                    url: {
+                        raw: "{{baseUrl}}/orders/:id?trace={{$guid}}",
+                        host: ["{{baseUrl}}"],
+                        path: ["orders", ":id"],
+                        query: [{ key: "trace", value: "{{$guid}}" }],
+                        variable: [{ key: "id", value: "42" }],
+                    },
+                },
+            },
+        ],
+    };
+
+    it("prefixes folder names, inherits auth and turns test scripts into @set", () => {
+        const result = parsePostmanCollection(collection);
+
+        expect(result.name).toBe("Shop");
+        expect(result.environments).toEqual({ $shared: { baseUrl: "https://api.shop.test" } });
+        expect(result.endpoints).toEqual([
+            expect.objectContaining({
+                name: "Auth / Login",
+                method: "POST",
+                pathTemplate: "{{baseUrl}}/login",
+                bodyOverrides: '{"user": "ci"}',
+                setDirectivesOverrides: [
+                    { varName: "token", responsePath: "response.body.data.token" },
+                    { varName: "session", responsePath: "response.headers.X-Session" },
+                ],
+            }),
+            expect.objectContaining({
+                name: "Get order",
+                pathTemplate: "{{baseUrl}}/orders/:id",
+                requestPath: "{{baseUrl}}/orders/42",
+                queryOverrides: { trace: "{{$guid}}" },
+                headersOverrides: { Authorization: "Bearer {{token}}" },
+            }),
+        ]);
+        // noauth on the folder disables the collection's bearer token
+        expect(result.endpoints[0].headersOverrides?.Authorization).toBeUndefined();
+    });
+
+    it("rejects other JSON", () => {
+        expect(() => parsePostmanCollection({ item: [] })).toThrow("Not a Postman collection");
+    });
+});
+
+describe("Insomnia import", () => {
+    it("converts templates, groups and sub-environments", () => {
+        const result = parseInsomniaExport({
+            _type: "export",
+            __export_format: 4,
+            resources: [
+                { _id: "wrk_1", _type: "workspace", name: "Billing" },
+                {
+                    _id: "env_base",
+                    _type: "environment",
+                    parentId: "wrk_1",
+                    data: { baseUrl: "http://localhost" },
+                },
+                {
+                    _id: "env_prod",
+                    _type: "environment",
+                    parentId: "env_base",
+                    name: "prod",
+                    data: { baseUrl: "https://billing.test" },
+                },
+                { _id: "fld_1", _type: "request_group", parentId: "wrk_1", name: "Invoices" },
+                {
+                    _id: "req_1",
+                    _type: "request",
+                    parentId: "fld_1",
+                    name: "List invoices",
+                    method: "GET",
+                    url: "{{ _.baseUrl }}/invoices",
+                    parameters: [{ name: "status", value: "open" }],
+                    authentication: { type: "apikey", key: "X-Api-Key", value: "{{ _.apiKey }}" },
+                },
+                { _id: "req_2", _type: "grpc_request", parentId: "wrk_1", name: "Stream" },
+            ],
+        });
+
+        expect(result.name).toBe("Billing");
+        expect(result.environments).toEqual({
+            $shared: { baseUrl: "http://localhost" },
+            prod: { baseUrl: "https://billing.test" },
+        });
+        expect(result.endpoints).toEqual([
+            expect.objectContaining({
+                name: "Invoices / List invoices",
+                pathTemplate: "{{baseUrl}}/invoices",
+                queryOverrides: { status: "open" },
+                headersOverrides: { "X-Api-Key": "{{apiKey}}" },
+            }),
+        ]);
+        expect(result.warnings).toContain('Skipped "Stream": gRPC requests are not supported');
+    });
+});
+
+describe("HAR import", () => {
+    const entry = (method: string, url: string, extra: Record<string, unknown> = {}) => ({
+        request: { method, url, headers: [], ...extra },
+        response: { content: { mimeType: "application/json" } },
+    });
+
+    it("keeps API calls, collapses ids and redacts credentials", () => {
+        const result = parseHar(
+            {
+                log: {
+                    entries: [
+                        entry("GET", "https://app.test/static/app.js"),
+                        entry("GET", "https://app.test/api/users/17?expand=roles", {
+                            headers: [
+                                { name: "Authorization", value: "Bearer abc.def" },
+                                { name: "Accept", value: "application/json" },
+                                { name: ":authority", value: "app.test" },
+                            ],
+                        }),
+                        entry("GET", "https://app.test/api/users/18"),
+                        entry("POST", "https://app.test/api/users", {
+                            postData: { mimeType: "application/json", text: '{"name":"Ada"}' },
+                        }),
+                    ],
+                },
+            },
+            "session",
+        );
+
+        expect(result.environments).toEqual({ $shared: { baseUrl: "https://app.test" } });
+        expect(
+            result.endpoints.map((endpoint) => `${endpoint.method} ${endpoint.requestPath}`),
+        ).toEqual([
+            "GET {{baseUrl}}/api/users/17",
+            "POST {{baseUrl}}/api/users",
+        ]);
+        expect(result.endpoints[0]).toMatchObject({
+            pathTemplate: "{{baseUrl}}/api/users/:id",
+            queryOverrides: { expand: "roles" },
+            headersOverrides: {
+                Authorization: "Bearer {{authToken}}",
+                Accept: "application/json",
+            },
+        });
+        expect(result.warnings).toContain(
+            "Captured Authorization headers were replaced with {{authToken}}",
+        );
+    });
+});
+
+describe("importCollection", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "watchapi-import-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (file: string, contents: string) => {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), contents);
+        return path.join(dir, file);
+    };
+
+    it("reads Bruno folders with folder auth, captures and environments", async () => {
+        write("bruno.json", JSON.stringify({ version: "1", name: "Shop", type: "collection" }));
+        write("collection.bru", ["headers {", "  X-Client: watchapi", "}", ""].join("\n"));
+        write(
+            "Users/folder.bru",
+            [
+                "meta {",
+                "  name: People",
+                "}",
+                "",
+                "auth {",
+                "  mode: bearer",
+                "}",
+                "",
+                "auth:bearer {",
+                "  token: {{token}}",
+                "}",
+                "",
+            ].join("\n"),
+        );
+        write(
+            "Users/Create user.bru",
+            [
+                "meta {",
+                "  name: Create user",
+                "  seq: 1",
+                "}",
+                "",
+                "post {",
+                "  url: {{baseUrl}}/users",
+                "  body: json",
+                "}",
+                "",
+                "body:json {",
+                "  {",
+                '    "name": "Ada"',
+                "  }",
+                "}",
+                "",
+                "vars:post-response {",
+                "  userId: res.body.id",
+                "  ~skipped: res.body.other",
+                "}",
+                "",
+            ].join("\n"),
+        );
+        write(
+            "environments/staging.bru",
+            [
+                "vars {",
+                "  baseUrl: https://staging.test",
+                "}",
+                "",
+                "vars:secret [",
+                "  token",
+                "]",
+                "",
+            ].join("\n"),
+        );
+
+        expect(await detectImportFormat(dir)).toBe("bruno");
+        const result = await importCollection(dir);
+
+        expect(result).toMatchObject({ format: "bruno", name: "Shop" });
+        expect(result.endpoints).toEqual([
+            expect.objectContaining({
+                name: "People / Create user",
+                method: "POST",
+                pathTemplate: "{{baseUrl}}/users",
+                headersOverrides: {
+                    "X-Client": "watchapi",
+                    "Content-Type": "application/json",
+                    Authorization: "Bearer {{token}}",
+                },
+                setDirectivesOverrides: [{ varName: "userId", responsePath: "response.body.id" }],
+            }),
+        ]);
+        expect(JSON.parse(result.endpoints[0].bodyOverrides ?? "")).toEqual({ name: "Ada" });
+        expect(result.environments.staging).toEqual({ baseUrl: "https://staging.test", token: "" });
+        expect(result.warnings).toContain(
+            'Environment "staging": secret variables token were imported without values',
+        );
+    });
+
+    it("merges Postman environment files and rejects unknown sources", async () => {
+        const collection = write(
+            "shop.json",
+            JSON.stringify({
+                info: {
+                    name: "Shop",
+                    schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json",
+                },
+                item: [{ name: "Health", request: "{{baseUrl}}/health" }],
+            }),
+        );
+        const environment = write(
+            "staging.json",
+            JSON.stringify({
+                name: "staging",
+                _postman_variable_scope: "environment",
+                values: [
+                    { key: "baseUrl", value: "https://staging.test", enabled: true },
+                    { key: "unused", value: "x", enabled: false },
+                ],
+            }),
+        );
+
+        const result = await importCollection(collection, { environmentFiles: [environment] });
+
+        // Disabled values are left out
+        expect(result.environments).toEqual({ staging: { baseUrl: "https://staging.test" } });
+        await expect(importCollection(write("other.json", "{}"))).rejects.toThrow(
+            "Unrecognised import source",
+        );
+    });
+});
+
+describe("mergeEnvironments", () => {
+    it("adds new variables and reports conflicts without overwriting", () => {
+        const result = mergeEnvironments(
+            { $shared: { baseUrl: "http://localhost:3000" }, local: { debug: true } },
+            { $shared: { baseUrl: "https://api.test", token: "" }, staging: { region: "eu" } },
+        );
+
+        expect(result).toEqual({
+            environments: {
+                $shared: { baseUrl: "http://localhost:3000", token: "" },
+                local: { debug: true },
+                staging: { region: "eu" },
+            },
+            added: 2,
+            conflicts: ["$shared.baseUrl"],
+        });
+    });
+});
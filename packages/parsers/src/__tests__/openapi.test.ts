@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { ParsedRoute } from "../lib/types";
+import { generateOpenApi, generateOpenApiDocument, typeInfoToJsonSchema } from "../openapi";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
+import { createProject, quiet, removeProject } from "./fixture-project";
+
+const route = (overrides: Partial<ParsedRoute>): ParsedRoute => ({
+    name: "route",
+    path: "/",
+    method: "GET",
+    filePath: "/project/src/app.ts",
+    type: "express",
+    ...overrides,
+});
+
+const info = (kind: ZodTypeInfo["kind"], extra: Partial<ZodTypeInfo> = {}): ZodTypeInfo => ({
+    kind,
+    optional: false,
+    nullable: false,
+    ...extra,
+});
+
+describe("typeInfoToJsonSchema", () => {
+    it("converts objects with optional, defaulted and nullable fields", () => {
+        expect(
+            typeInfoToJsonSchema(
+                info("object", {
+                    children: {
+                        id: info("number"),
+                        name: info("string", { nullable: true }),
+                        role: info("enum", { values: ["admin", "user"], nullable: true }),
+                        tags: info("array", { items: info("string"), optional: true }),
+                        active: info("boolean", { defaultValue: true }),
+                        createdAt: info("date"),
+                    },
+                }),
+            ),
+        ).toEqual({
+            type: "object",
+            properties: {
+                id: { type: "number" },
+                name: { type: ["string", "null"] },
+                role: { anyOf: [{ enum: ["admin", "user"] }, { type: "null" }] },
+                tags: { type: "array", items: { type: "string" } },
+                active: { type: "boolean", default: true },
+                createdAt: { type: "string", format: "date-time" },
+            },
+            required: ["id", "name", "role", "createdAt"],
+        });
+    });
+});
+
+describe("generateOpenApiDocument", () => {
+    it("describes paths, parameters, bodies, tags and operationIds", () => {
+        const { document, warnings } = generateOpenApiDocument(
+            [
+                route({
+                    path: "/api/v1/user-profiles/:id",
+                    handlerFunction: "ProfilesController.findOne",
+                    headers: { "X-Tenant": "acme", Accept: "application/json" },
+                }),
+                route({
+                    method: "POST",
+                    path: "/api/v1/user-profiles",
+                    handlerFunction: "OtherController.findOne",
+                    queryType: info("object", {
+                        children: { dryRun: info("boolean", { optional: true }) },
+                    }),
+                    body: '{"name": "Ada"}',
+                    bodyType: info("object", { children: { name: info("string") } }),
+                }),
+                route({ method: "DELETE", path: "/api/trpc/user.remove", body: '{"id": 1}' }),
+            ],
+            { title: "Shop", servers: ["https://api.shop.test"] },
+        );
+
+        expect(warnings).toEqual([]);
+        expect(document).toMatchObject({
+            openapi: "3.1.0",
+            info: { title: "Shop", version: "1.0.0" },
+            servers: [{ url: "https://api.shop.test" }],
+            tags: [{ name: "User Profiles" }, { name: "User" }],
+        });
+
+        const paths = document.paths as Record<string, Record<string, any>>;
+        expect(Object.keys(paths)).toEqual([
+            "/api/v1/user-profiles/{id}",
+            "/api/v1/user-profiles",
+            "/api/trpc/user.remove",
+        ]);
+        expect(paths["/api/v1/user-profiles/{id}"].get).toMatchObject({
+            operationId: "findOne",
+            tags: ["User Profiles"],
+            parameters: [
+                { name: "id", in: "path", required: true, schema: { type: "string" } },
+                { name: "X-Tenant", in: "header", example: "acme" },
+            ],
+        });
+        expect(paths["/api/v1/user-profiles"].post).toMatchObject({
+            // "findOne" is taken, so the qualified handler name is used
+            operationId: "otherControllerFindOne",
+            parameters: [{ name: "dryRun", in: "query", schema: { type: "boolean" } }],
+            requestBody: {
+                required: true,
+                content: {
+                    "application/json": {
+                        schema: {
+                            type: "object",
+                            properties: { name: { type: "string" } },
+                            required: ["name"],
+                        },
+                        example: { name: "Ada" },
+                    },
+                },
+            },
+        });
+        // Without a declared type the schema is inferred from the example
+        expect(paths["/api/trpc/user.remove"].delete).toMatchObject({
+            operationId: "deleteApiTrpcUserRemove",
+            requestBody: {
+                content: { "application/json": { schema: { type: "object" } } },
+            },
+        });
+    });
+
+    it("warns about routes that describe the same operation", () => {
+        const { document, warnings } = generateOpenApiDocument([
+            route({ path: "/items/:id" }),
+            route({ path: "/items/:itemId", filePath: "/project/src/legacy.ts" }),
+            route({ path: "/files/:path*?" }),
+        ]);
+
+        expect(Object.keys(document.paths as object)).toEqual([
+            "/items/{id}",
+            "/items/{itemId}",
+            "/files/{path}",
+        ]);
+        expect(warnings).toEqual([
+            "GET /files/:path*?: optional catch-all segments are described as required path parameters",
+        ]);
+
+        const duplicate = generateOpenApiDocument([
+            route({ path: "/items" }),
+            route({ path: "/items", filePath: "/project/src/legacy.ts" }),
+        ]);
+        expect(duplicate.warnings).toEqual([
+            "GET /items (/project/src/legacy.ts) is already described by another route and was skipped",
+        ]);
+    });
+});
+
+describe("generateOpenApi", () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) removeProject(dir);
+        dir = undefined;
+    });
+
+    it("builds request schemas from Zod schemas in source", async () => {
+        dir = createProject(["express", "zod"], {
+            "src/app.ts": [
+                'import express from "express";',
+                'import { z } from "zod";',
+                "",
+                "const app = express();",
+                "const createOrderSchema = z.object({",
+                "    sku: z.string(),",
+                "    quantity: z.number().default(1),",
+                "    note: z.string().optional(),",
+                "});",
+                'app.post("/orders", validate(createOrderSchema), createOrder);',
+                'app.get("/orders/:id", getOrder);',
+                "",
+                "function createOrder(req: any, res: any) { res.status(201).json({}); }",
+                "function getOrder(req: any, res: any) { res.json({}); }",
+            ].join("\n"),
+        });
+
+        const { document, routes } = await generateOpenApi(dir, { ...quiet, title: "Orders" });
+
+        expect(routes).toHaveLength(2);
+        const paths = document.paths as Record<string, Record<string, any>>;
+        expect(paths["/orders"].post.operationId).toBe("createOrder");
+        expect(paths["/orders"].post.requestBody.content["application/json"].schema).toEqual({
+            type: "object",
+            properties: {
+                sku: { type: "string" },
+                quantity: { type: "number", default: 1 },
+                note: { type: "string" },
+            },
+            required: ["sku"],
+        });
+        expect(paths["/orders/{id}"].get).toMatchObject({
+            operationId: "getOrder",
+            parameters: [{ name: "id", in: "path", required: true }],
+        });
+    });
+});
@@ -16,6 +16,10 @@ import {
     hasPayloadCMS,
     parsePayloadCMSRoutes,
 } from "./payload-cms/payload-cms-parser";
+import { hasExpress, parseExpressRoutes } from "./express/express-parser";
+import { hasFastify, parseFastifyRoutes } from "./fastify/fastify-parser";
+import { hasHono, parseHonoRoutes } from "./hono/hono-parser";
+import { hasElysia, parseElysiaRoutes } from "./elysia/elysia-parser";
 
 /**
  * Detected project types
@@ -26,6 +30,10 @@ export interface DetectedProjectTypes {
     trpc: boolean;
     nestjs: boolean;
     payloadCMS: boolean;
+    express: boolean;
+    fastify: boolean;
+    hono: boolean;
+    elysia: boolean;
 }
 
 /**
@@ -41,6 +49,10 @@ export interface DetectAndParseResult {
         trpc: number;
         nestjs: number;
         payloadCMS: number;
+        express: number;
+        fastify: number;
+        hono: number;
+        elysia: number;
     };
 }
 
@@ -54,12 +66,26 @@ export async function detectRoutes(
     rootDir: string,
     options?: ParserOptions,
 ): Promise<DetectedProjectTypes> {
-    const [nextApp, nextPages, trpc, nestjs, payloadCMS] = await Promise.all([
+    const [
+        nextApp,
+        nextPages,
+        trpc,
+        nestjs,
+        payloadCMS,
+        express,
+        fastify,
+        hono,
+        elysia,
+    ] = await Promise.all([
         hasNextApp(rootDir, options),
         hasNextPages(rootDir, options),
         hasTRPC(rootDir, options),
         hasNestJs(rootDir, options),
         hasPayloadCMS(rootDir, options),
+        hasExpress(rootDir, options),
+        hasFastify(rootDir, options),
+        hasHono(rootDir, options),
+        hasElysia(rootDir, options),
     ]);
 
     return {
@@ -68,6 +94,10 @@ export async function detectRoutes(
         trpc,
         nestjs,
         payloadCMS,
+        express,
+        fastify,
+        hono,
+        elysia,
     };
 }
 
@@ -82,7 +112,11 @@ export function hasAnyProjectType(detected: DetectedProjectTypes): boolean {
         detected.nextPages ||
         detected.trpc ||
         detected.nestjs ||
-        detected.payloadCMS
+        detected.payloadCMS ||
+        detected.express ||
+        detected.fastify ||
+        detected.hono ||
+        detected.elysia
     );
 }
 
@@ -107,6 +141,10 @@ export async function detectAndParseRoutes(
         trpcRoutes,
         nestRoutes,
         payloadRoutes,
+        expressRoutes,
+        fastifyRoutes,
+        honoRoutes,
+        elysiaRoutes,
     ] = await Promise.all([
         detected.nextApp
             ? parseNextAppRoutes(rootDir, options)
@@ -123,6 +161,18 @@ export async function detectAndParseRoutes(
         detected.payloadCMS
             ? parsePayloadCMSRoutes(rootDir, options)
             : Promise.resolve([]),
+        detected.express
+            ? parseExpressRoutes(rootDir, options)
+            : Promise.resolve([]),
+        detected.fastify
+            ? parseFastifyRoutes(rootDir, options)
+            : Promise.resolve([]),
+        detected.hono
+            ? parseHonoRoutes(rootDir, options)
+            : Promise.resolve([]),
+        detected.elysia
+            ? parseElysiaRoutes(rootDir, options)
+            : Promise.resolve([]),
     ]);
 
     const routes = [
@@ -131,6 +181,10 @@ export async function detectAndParseRoutes(
         ...trpcRoutes,
         ...nestRoutes,
         ...payloadRoutes,
+        ...expressRoutes,
+        ...fastifyRoutes,
+        ...honoRoutes,
+        ...elysiaRoutes,
     ];
 
     return {
@@ -142,6 +196,10 @@ export async function detectAndParseRoutes(
             trpc: trpcRoutes.length,
             nestjs: nestRoutes.length,
             payloadCMS: payloadRoutes.length,
+            express: expressRoutes.length,
+            fastify: fastifyRoutes.length,
+            hono: honoRoutes.length,
+            elysia: elysiaRoutes.length,
         },
     };
 }
@@ -0,0 +1,52 @@
+/**
+ * Elysia parser constants
+ */
+
+import { HTTP_METHODS } from "../lib/constants";
+import type { HttpMethod } from "../lib/constants";
+
+/**
+ * Default patterns for Elysia source files
+ */
+export const DEFAULT_ELYSIA_INCLUDE = [
+	"*.{ts,tsx,js,mjs}",
+	"src/**/*.{ts,tsx,js,mjs}",
+	"server/**/*.{ts,tsx,js,mjs}",
+	"routes/**/*.{ts,tsx,js,mjs}",
+	"modules/**/*.{ts,tsx,js,mjs}",
+];
+
+/**
+ * Constructors that create an Elysia instance
+ */
+export const ELYSIA_FACTORIES = ["Elysia"];
+
+/**
+ * Builder method names mapped to HTTP methods
+ */
+export const ELYSIA_ROUTE_METHODS: Record<string, HttpMethod | HttpMethod[]> = {
+	get: "GET",
+	post: "POST",
+	put: "PUT",
+	patch: "PATCH",
+	delete: "DELETE",
+	head: "HEAD",
+	options: "OPTIONS",
+	all: [...HTTP_METHODS],
+};
+
+/**
+ * Scoping methods taking a callback that receives a derived instance
+ */
+export const ELYSIA_SCOPE_METHODS = {
+	/** .group(prefix, [hook], app => app...) */
+	GROUP: "group",
+	/** .guard(hook, app => app...) */
+	GUARD: "guard",
+} as const;
+
+/**
+ * Hook keys carrying request schemas
+ */
+export const ELYSIA_BODY_HOOK = "body";
+export const ELYSIA_QUERY_HOOK = "query";
@@ -0,0 +1,585 @@
+/**
+ * Elysia route parser with AST-based detection
+ * Follows chained builders, group()/guard() scopes, instance prefixes and use() plugins
+ * Note: This module is decoupled from vscode - all functions accept rootDir as parameter
+ */
+
+import { CallExpression, Node, SourceFile, SyntaxKind } from "ts-morph";
+
+import { HTTP_METHODS, type HttpMethod } from "../lib/constants";
+import type { ParsedRoute, ParserOptions } from "../lib/types";
+import { BaseParser } from "../shared/base-parser";
+import {
+    analyzeHandler,
+    extractBodyFromHandler,
+    extractBodyTypeFromHandler,
+    shouldIncludeBody,
+} from "../shared/next-shared";
+import {
+    getBindingName,
+    getHandlerName,
+    getNodeKey,
+    joinRoutePaths,
+    resolveHandlerNode,
+    resolveMountPrefixes,
+    resolveStaticString,
+    resolveStaticStrings,
+    resolveValueDeclaration,
+    unwrapExpression,
+    type RouteMountEdge,
+} from "../shared/server-shared";
+import {
+    extractBodyFromSchema,
+    extractQueryParamsFromSchema,
+    extractTypeInfoFromSchema,
+    type ZodTypeInfo,
+} from "../shared/zod-schema-parser";
+
+import {
+    DEFAULT_ELYSIA_INCLUDE,
+    ELYSIA_BODY_HOOK,
+    ELYSIA_FACTORIES,
+    ELYSIA_QUERY_HOOK,
+    ELYSIA_ROUTE_METHODS,
+    ELYSIA_SCOPE_METHODS,
+} from "./elysia-constants";
+import type {
+    ElysiaInstance,
+    ElysiaRouteDefinition,
+    ElysiaRouteHandler,
+} from "./elysia-types";
+
+/**
+ * Elysia Parser class for extracting routes from Elysia instances
+ */
+export class ElysiaParser extends BaseParser {
+    private instances = new Map<string, ElysiaInstance>();
+    private definitions: ElysiaRouteDefinition[] = [];
+    private mounts: RouteMountEdge[] = [];
+
+    constructor(rootDir: string, options?: ParserOptions) {
+        super(
+            rootDir,
+            {
+                name: "Elysia",
+                debugPrefix: "elysia:parser",
+                dependencies: ["elysia"],
+                filePatterns: DEFAULT_ELYSIA_INCLUDE,
+                requiresTsConfig: false,
+                allowJs: true,
+            },
+            options,
+        );
+    }
+
+    /**
+     * Parse Elysia routes from instances
+     */
+    protected async parseRoutes(): Promise<ParsedRoute[]> {
+        this.instances.clear();
+        this.definitions = [];
+        this.mounts = [];
+
+        // Resolving import() can pull new files into the project,
+        // so keep scanning until no unscanned file is left
+        const scanned = new Set<string>();
+        let pending = this.getSourceFiles();
+        this.debug(`Found ${pending.length} source file(s)`);
+
+        while (pending.length > 0) {
+            for (const file of pending) {
+                scanned.add(file.getFilePath());
+                this.debug(
+                    `Scanning file ${this.relativePath(file.getFilePath())}`,
+                );
+                this.scanFile(file);
+            }
+            pending = this.getSourceFiles().filter(
+                (file) => !scanned.has(file.getFilePath()),
+            );
+        }
+
+        this.debug(
+            `Found ${this.instances.size} instance/scope(s), ${this.mounts.length} mount(s)`,
+        );
+
+        return this.convertToRoutes(this.resolveHandlers());
+    }
+
+    /**
+     * Scan a file for route registrations and plugin mounts
+     */
+    private scanFile(sourceFile: SourceFile): void {
+        const calls = sourceFile.getDescendantsOfKind(
+            SyntaxKind.CallExpression,
+        );
+
+        for (const call of calls) {
+            const expression = call.getExpression();
+            if (!Node.isPropertyAccessExpression(expression)) {
+                continue;
+            }
+
+            const name = expression.getName();
+            const receiver = expression.getExpression();
+
+            if (name === "use") {
+                this.collectPlugin(call, receiver);
+            } else if (name === "route") {
+                this.collectCustomRoute(call, receiver);
+            } else if (ELYSIA_ROUTE_METHODS[name]) {
+                this.collectRoute(call, name, receiver);
+            }
+        }
+    }
+
+    /**
+     * Collect a builder route: app.get(path, handler, hook?)
+     */
+    private collectRoute(
+        call: CallExpression,
+        methodName: string,
+        receiver: Node,
+    ): void {
+        const instance = this.resolveInstance(receiver);
+        const [pathArg, handlerArg, hookArg] = call.getArguments();
+        if (!instance || !pathArg || !handlerArg) {
+            return;
+        }
+
+        const paths = resolveStaticStrings(pathArg);
+        if (paths.length === 0) {
+            this.debug(
+                `Skipping ${methodName} on '${instance.name}' at line ${call.getStartLineNumber()} (dynamic path)`,
+            );
+            return;
+        }
+
+        const mapped = ELYSIA_ROUTE_METHODS[methodName];
+        const methods = Array.isArray(mapped) ? mapped : [mapped];
+        this.addDefinition(instance, paths, methods, call, handlerArg, hookArg);
+    }
+
+    /**
+     * Collect a custom-method route: app.route(method, path, handler, hook?)
+     */
+    private collectCustomRoute(call: CallExpression, receiver: Node): void {
+        const instance = this.resolveInstance(receiver);
+        const [methodArg, pathArg, handlerArg, hookArg] = call.getArguments();
+        if (!instance || !methodArg || !pathArg || !handlerArg) {
+            return;
+        }
+
+        const methods = resolveStaticStrings(methodArg)
+            .map((method) => method.toUpperCase())
+            .filter((method): method is HttpMethod =>
+                HTTP_METHODS.includes(method as HttpMethod),
+            );
+        const paths = resolveStaticStrings(pathArg);
+        if (methods.length === 0 || paths.length === 0) {
+            return;
+        }
+
+        this.addDefinition(instance, paths, methods, call, handlerArg, hookArg);
+    }
+
+    /**
+     * Collect a plugin mount: app.use(instance | (app) => app...)
+     */
+    private collectPlugin(call: CallExpression, receiver: Node): void {
+        const parent = this.resolveInstance(receiver);
+        const pluginArg = call.getArguments()[0];
+        if (!parent || !pluginArg) {
+            return;
+        }
+
+        const child =
+            this.resolveInstance(pluginArg) ?? this.resolvePluginFunction(pluginArg);
+        if (!child || child.id === parent.id) {
+            return;
+        }
+
+        this.mounts.push({
+            parent: parent.id,
+            prefix: parent.basePrefix,
+            child: child.id,
+        });
+        this.debug(`Mounted plugin '${child.name}' on '${parent.name}'`);
+    }
+
+    /**
+     * Resolve an expression to an Elysia instance or scope
+     * Builder methods return the same instance; group()/guard() callbacks receive a scoped one
+     */
+    private resolveInstance(node: Node): ElysiaInstance | undefined {
+        const target = unwrapExpression(node);
+
+        if (Node.isNewExpression(target)) {
+            if (!ELYSIA_FACTORIES.includes(target.getExpression().getText())) {
+                return undefined;
+            }
+            const configArg = target.getArguments()[0];
+            return this.getOrCreateInstance(
+                target,
+                "instance",
+                configArg ? this.readPrefixOption(configArg) : "",
+            ).instance;
+        }
+
+        if (Node.isCallExpression(target)) {
+            const expression = target.getExpression();
+            return Node.isPropertyAccessExpression(expression)
+                ? this.resolveInstance(expression.getExpression())
+                : undefined;
+        }
+
+        const declaration = resolveValueDeclaration(target);
+        if (!declaration || declaration === target) {
+            return undefined;
+        }
+
+        if (Node.isVariableDeclaration(declaration)) {
+            const initializer = declaration.getInitializer();
+            return initializer ? this.resolveInstance(initializer) : undefined;
+        }
+
+        if (Node.isParameterDeclaration(declaration)) {
+            return this.resolveCallbackInstance(declaration);
+        }
+
+        if (Node.isFunctionDeclaration(declaration)) {
+            return undefined;
+        }
+
+        return this.resolveInstance(declaration);
+    }
+
+    /**
+     * Resolve the instance received by a group()/guard() callback or plugin function
+     */
+    private resolveCallbackInstance(param: Node): ElysiaInstance | undefined {
+        const fn = param.getParent();
+        if (
+            !fn ||
+            !(Node.isArrowFunction(fn) || Node.isFunctionExpression(fn) || Node.isFunctionDeclaration(fn)) ||
+            fn.getParameters()[0] !== param
+        ) {
+            return undefined;
+        }
+
+        const call = fn.getParent();
+        const expression =
+            call && Node.isCallExpression(call) ? call.getExpression() : undefined;
+        const scopeMethod =
+            expression && Node.isPropertyAccessExpression(expression)
+                ? expression.getName()
+                : undefined;
+
+        if (
+            !expression ||
+            !Node.isPropertyAccessExpression(expression) ||
+            (scopeMethod !== ELYSIA_SCOPE_METHODS.GROUP &&
+                scopeMethod !== ELYSIA_SCOPE_METHODS.GUARD)
+        ) {
+            // Plain function: only counts once mounted through use()
+            return this.getOrCreateInstance(fn, "plugin", "").instance;
+        }
+
+        const parent = this.resolveInstance(expression.getExpression());
+        if (!parent) {
+            return undefined;
+        }
+
+        const { instance, created } = this.getOrCreateInstance(fn, "scope", "");
+        if (created) {
+            const prefixArg = (call as CallExpression).getArguments()[0];
+            const groupPrefix =
+                scopeMethod === ELYSIA_SCOPE_METHODS.GROUP && prefixArg
+                    ? (resolveStaticString(prefixArg) ?? "")
+                    : "";
+            this.mounts.push({
+                parent: parent.id,
+                prefix: joinRoutePaths(parent.basePrefix, groupPrefix),
+                child: instance.id,
+            });
+            this.debug(
+                `Found ${scopeMethod} scope '${groupPrefix || "/"}' on '${parent.name}'`,
+            );
+        }
+
+        return instance;
+    }
+
+    /**
+     * Resolve a use() argument to a plugin function scope
+     */
+    private resolvePluginFunction(node: Node): ElysiaInstance | undefined {
+        let target: Node | undefined = resolveValueDeclaration(node);
+        if (target && Node.isVariableDeclaration(target)) {
+            const initializer = target.getInitializer();
+            target = initializer ? unwrapExpression(initializer) : undefined;
+        }
+
+        if (
+            !target ||
+            !(Node.isArrowFunction(target) || Node.isFunctionExpression(target) || Node.isFunctionDeclaration(target)) ||
+            target.getParameters().length === 0
+        ) {
+            return undefined;
+        }
+
+        return this.getOrCreateInstance(target, "plugin", "").instance;
+    }
+
+    /**
+     * Look up or register the instance created by a node
+     */
+    private getOrCreateInstance(
+        node: Node,
+        kind: ElysiaInstance["kind"],
+        basePrefix: string,
+    ): { instance: ElysiaInstance; created: boolean } {
+        const id = getNodeKey(node);
+        const existing = this.instances.get(id);
+        if (existing) {
+            return { instance: existing, created: false };
+        }
+
+        const file = this.relativePath(node.getSourceFile().getFilePath());
+        const name =
+            (Node.isFunctionDeclaration(node) ? node.getName() : undefined) ??
+            getBindingName(node) ??
+            `${kind}@${file}:${node.getStartLineNumber()}`;
+
+        const instance: ElysiaInstance = { id, kind, name, file, basePrefix };
+        this.instances.set(id, instance);
+        this.debug(`Found Elysia ${kind} '${name}' in ${file}`);
+
+        return { instance, created: true };
+    }
+
+    /**
+     * Read the `prefix` option from new Elysia({ prefix })
+     */
+    private readPrefixOption(node: Node): string {
+        const target = unwrapExpression(node);
+        if (!Node.isObjectLiteralExpression(target)) {
+            return "";
+        }
+
+        const prop = target.getProperty("prefix");
+        const initializer =
+            prop && Node.isPropertyAssignment(prop)
+                ? prop.getInitializer()
+                : undefined;
+        return initializer ? (resolveStaticString(initializer) ?? "") : "";
+    }
+
+    /**
+     * Record a route definition for every path it is registered under
+     */
+    private addDefinition(
+        instance: ElysiaInstance,
+        paths: string[],
+        methods: HttpMethod[],
+        call: CallExpression,
+        handlerArg: Node,
+        hookArg: Node | undefined,
+    ): void {
+        const handlerNode = resolveHandlerNode(handlerArg);
+        const analysis = handlerNode
+            ? analyzeHandler(
+                  handlerNode,
+                  this.debug,
+                  (h, d) => extractBodyFromHandler(h, d, extractBodyFromSchema),
+                  (h) =>
+                      extractBodyTypeFromHandler(
+                          h,
+                          extractBodyFromSchema,
+                          extractTypeInfoFromSchema,
+                      ),
+              )
+            : undefined;
+
+        const hook = hookArg ? this.extractFromHook(hookArg) : {};
+        const bodyExample = hook.bodyExample ?? analysis?.bodyExample;
+        const bodyType = hook.bodyExample ? hook.bodyType : analysis?.bodyType;
+        const queryParams = hook.queryParams ?? analysis?.queryParams;
+
+        const headers = { ...(analysis?.headers ?? {}) };
+        if (bodyExample && !headers["Content-Type"]) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        for (const routePath of paths) {
+            this.definitions.push({
+                instanceId: instance.id,
+                path: routePath,
+                methods,
+                file: this.relativePath(call.getSourceFile().getFilePath()),
+                line: call.getStartLineNumber(),
+                handlerName: getHandlerName(handlerArg),
+                headers,
+                queryParams,
+                bodyExample,
+                queryType: hook.queryType,
+                bodyType,
+            });
+
+            this.debug(
+                `Found ${methods.join("|")} ${routePath} on '${instance.name}' (line ${call.getStartLineNumber()})`,
+            );
+        }
+    }
+
+    /**
+     * Extract body and query examples from a route hook ({ body: t.Object(...), query })
+     */
+    private extractFromHook(node: Node): {
+        bodyExample?: string;
+        queryParams?: Record<string, string>;
+        bodyType?: ZodTypeInfo;
+        queryType?: ZodTypeInfo;
+    } {
+        const target = unwrapExpression(node);
+        if (!Node.isObjectLiteralExpression(target)) {
+            return {};
+        }
+
+        const read = (key: string): Node | undefined => {
+            const prop = target.getProperty(key);
+            return prop && Node.isPropertyAssignment(prop)
+                ? prop.getInitializer()
+                : undefined;
+        };
+
+        const bodyNode = read(ELYSIA_BODY_HOOK);
+        const queryNode = read(ELYSIA_QUERY_HOOK);
+        const bodyExample = bodyNode ? extractBodyFromSchema(bodyNode) : undefined;
+
+        return {
+            bodyExample: bodyExample !== "{}" ? bodyExample : undefined,
+            queryParams: queryNode
+                ? extractQueryParamsFromSchema(queryNode)
+                : undefined,
+            bodyType: bodyNode ? extractTypeInfoFromSchema(bodyNode) : undefined,
+            queryType: queryNode
+                ? extractTypeInfoFromSchema(queryNode)
+                : undefined,
+        };
+    }
+
+    /**
+     * Combine route definitions with their resolved mount prefixes
+     * Plugin functions only count once they are mounted with use()
+     */
+    private resolveHandlers(): ElysiaRouteHandler[] {
+        const mounted = new Set(this.mounts.map((mount) => mount.child));
+        const prefixes = resolveMountPrefixes(
+            Array.from(this.instances.keys()),
+            this.mounts,
+        );
+
+        const handlers: ElysiaRouteHandler[] = [];
+        const seen = new Set<string>();
+
+        for (const definition of this.definitions) {
+            const instance = this.instances.get(definition.instanceId);
+            if (
+                !instance ||
+                (instance.kind === "plugin" && !mounted.has(instance.id))
+            ) {
+                continue;
+            }
+
+            const instancePrefixes = prefixes.get(instance.id) ?? ["/"];
+
+            for (const prefix of instancePrefixes) {
+                const routePath = joinRoutePaths(
+                    prefix,
+                    instance.basePrefix,
+                    definition.path,
+                );
+
+                for (const method of definition.methods) {
+                    const key = `${method} ${routePath}`;
+                    if (seen.has(key)) {
+                        continue;
+                    }
+                    seen.add(key);
+
+                    handlers.push({
+                        path: routePath,
+                        method,
+                        file: definition.file,
+                        line: definition.line,
+                        handlerName: definition.handlerName,
+                        headers: definition.headers,
+                        queryParams: definition.queryParams,
+                        bodyExample: shouldIncludeBody(method)
+                            ? definition.bodyExample
+                            : undefined,
+                        queryType: definition.queryType,
+                        bodyType: shouldIncludeBody(method)
+                            ? definition.bodyType
+                            : undefined,
+                    });
+                }
+            }
+        }
+
+        return handlers;
+    }
+
+    /**
+     * Convert handlers to ParsedRoute format
+     */
+    private convertToRoutes(handlers: ElysiaRouteHandler[]): ParsedRoute[] {
+        return handlers.map((handler) => ({
+            name: `${handler.method} ${handler.path}`,
+            path: handler.path,
+            method: handler.method,
+            filePath: this.joinPath(handler.file),
+            handlerFunction: handler.handlerName,
+            type: "elysia" as const,
+            headers:
+                Object.keys(handler.headers).length > 0
+                    ? handler.headers
+                    : undefined,
+            query: handler.queryParams,
+            body: handler.bodyExample,
+            queryType: handler.queryType,
+            bodyType: handler.bodyType,
+        }));
+    }
+}
+
+// =============================================================================
+// Backward-compatible function exports
+// =============================================================================
+
+/**
+ * Detect if directory has Elysia
+ * @param rootDir - The root directory to check
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function hasElysia(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<boolean> {
+    const parser = new ElysiaParser(rootDir, options);
+    return parser.detect();
+}
+
+/**
+ * Parse Elysia instances using AST analysis
+ * @param rootDir - The root directory to parse routes from
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function parseElysiaRoutes(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<ParsedRoute[]> {
+    const parser = new ElysiaParser(rootDir, options);
+    return parser.parse();
+}
@@ -0,0 +1,51 @@
+/**
+ * Elysia parser types
+ */
+
+import type { HttpMethod } from "../lib/constants";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
+
+/**
+ * Elysia instance, group/guard scope or plugin function
+ */
+export interface ElysiaInstance {
+	id: string;
+	kind: "instance" | "scope" | "plugin";
+	name: string;
+	file: string;
+	/** Prefix from `new Elysia({ prefix })`, applied to the instance's own routes and plugins */
+	basePrefix: string;
+}
+
+/**
+ * Route registered on an instance (before prefix resolution)
+ */
+export interface ElysiaRouteDefinition {
+	instanceId: string;
+	path: string;
+	methods: HttpMethod[];
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
+}
+
+/**
+ * Parsed Elysia route handler with its full path
+ */
+export interface ElysiaRouteHandler {
+	path: string;
+	method: HttpMethod;
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
+}
@@ -0,0 +1,61 @@
+/**
+ * Collection export utilities
+ * Converts endpoints and rest-client environments into other tools' formats
+ */
+
+import { ValidationError } from "./lib/errors";
+import { brunoExporter } from "./exporters/bruno-exporter";
+import { curlExporter } from "./exporters/curl-exporter";
+import { insomniaExporter } from "./exporters/insomnia-exporter";
+import { openApiExporter } from "./exporters/openapi-exporter";
+import { postmanExporter } from "./exporters/postman-exporter";
+import type {
+    CollectionExporter,
+    ExportCollection,
+    ExportFormat,
+    ExportOptions,
+    ExportResult,
+} from "./exporters/exporter-types";
+
+const EXPORTERS = new Map<ExportFormat, CollectionExporter>(
+    [
+        postmanExporter,
+        insomniaExporter,
+        brunoExporter,
+        openApiExporter,
+        curlExporter,
+    ].map((exporter) => [exporter.format, exporter]),
+);
+
+/**
+ * All registered exporters, in display order
+ */
+export function getExporters(): CollectionExporter[] {
+    return Array.from(EXPORTERS.values());
+}
+
+/**
+ * Look up the exporter for a format
+ */
+export function getExporter(format: ExportFormat): CollectionExporter {
+    const exporter = EXPORTERS.get(format);
+    if (!exporter) {
+        throw new ValidationError(`Unknown export format: ${format}`);
+    }
+    return exporter;
+}
+
+/**
+ * Export collections to another tool's format
+ * @param collections - Collections with their endpoints
+ * @param format - Target format
+ * @param options - rest-client environments and the environment for single-environment outputs
+ * @returns Files to write (paths relative to the export directory) and conversion warnings
+ */
+export function exportCollections(
+    collections: ExportCollection[],
+    format: ExportFormat,
+    options: ExportOptions = {},
+): ExportResult {
+    return getExporter(format).export(collections, options);
+}
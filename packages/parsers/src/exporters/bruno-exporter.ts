@@ -0,0 +1,239 @@
+/**
+ * Bruno collection exporter
+ * Writes one collection folder per collection: "Folder / Request" names become
+ * folders, @set directives become vars:post-response, $shared becomes
+ * collection-level vars and each environment an environments/*.bru file
+ */
+
+import type {
+    CollectionExporter,
+    ExportCollection,
+    ExportedFile,
+    ExportOptions,
+    ExportResult,
+} from "./exporter-types";
+import {
+    bodyPathSegments,
+    isJson,
+    parseResponsePath,
+    readEnvironments,
+    replacePathParams,
+    replaceSystemVariables,
+    resolveEndpoint,
+    splitFolders,
+    toFileName,
+    uniqueName,
+    type ResolvedRequest,
+} from "./exporter-utils";
+
+export const brunoExporter: CollectionExporter = {
+    format: "bruno",
+    label: "Bruno",
+    export: exportBruno,
+};
+
+/**
+ * Convert collections into Bruno collection folders
+ */
+export function exportBruno(
+    collections: ExportCollection[],
+    options: ExportOptions = {},
+): ExportResult {
+    const warnings: string[] = [];
+    const files: ExportedFile[] = [];
+    const collectionDirs = new Set<string>();
+    const { shared, environments } = readEnvironments(options.environments);
+
+    for (const collection of collections) {
+        const dir = uniqueName(toFileName(collection.name), collectionDirs);
+        files.push({
+            path: `${dir}/bruno.json`,
+            content: JSON.stringify(
+                {
+                    version: "1",
+                    name: collection.name,
+                    type: "collection",
+                    ignore: ["node_modules", ".git"],
+                },
+                null,
+                2,
+            ),
+        });
+
+        if (Object.keys(shared).length > 0) {
+            files.push({
+                path: `${dir}/collection.bru`,
+                content: formatBru([["vars:pre-request", toEntries(shared)]]),
+            });
+        }
+
+        for (const [name, variables] of Object.entries(environments)) {
+            files.push({
+                path: `${dir}/environments/${toFileName(name)}.bru`,
+                content: formatBru([["vars", toEntries(variables)]]),
+            });
+        }
+
+        const usedNames = new Map<string, Set<string>>();
+        collection.endpoints.forEach((endpoint, index) => {
+            const request = resolveEndpoint(endpoint);
+            const { folders, name } = splitFolders(request.name);
+            const folderPath = folders.map(toFileName).join("/");
+            const used = usedNames.get(folderPath) ?? new Set<string>();
+            usedNames.set(folderPath, used);
+
+            const fileName = uniqueName(toFileName(name), used);
+            files.push({
+                path: [dir, folderPath, `${fileName}.bru`]
+                    .filter(Boolean)
+                    .join("/"),
+                content: toBruRequest(request, name, index + 1, warnings),
+            });
+        });
+    }
+
+    return {
+        format: "bruno",
+        files,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+function toBruRequest(
+    request: ResolvedRequest,
+    name: string,
+    seq: number,
+    warnings: string[],
+): string {
+    const convert = (text: string) => convertVariables(text, request, warnings);
+    const contentType = Object.entries(request.headers).find(
+        ([key]) => key.toLowerCase() === "content-type",
+    )?.[1];
+    const body = request.body !== undefined ? convert(request.body) : undefined;
+    const bodyMode = body === undefined ? "none" : toBodyMode(body, contentType);
+
+    const query = Object.entries(request.query).map(
+        ([key, value]) => `${key}=${value}`,
+    );
+    // Bruno writes path params as :name and fills them from params:path
+    const path = replacePathParams(request.pathTemplate, (param) => `:${param}`);
+    const url =
+        convert(request.baseUrl + path) +
+        (query.length ? `?${convert(query.join("&"))}` : "");
+
+    const blocks: [string, string[]][] = [
+        ["meta", [`name: ${name}`, "type: http", `seq: ${seq}`]],
+        [
+            request.method.toLowerCase(),
+            [`url: ${url}`, `body: ${bodyMode}`, "auth: none"],
+        ],
+        ["params:query", toEntries(request.query, convert)],
+        ["params:path", toEntries(request.pathParams, convert)],
+        ["headers", toEntries(request.headers, convert)],
+    ];
+
+    if (body !== undefined) {
+        blocks.push(
+            bodyMode === "formUrlEncoded"
+                ? [
+                      "body:form-urlencoded",
+                      Array.from(
+                          new URLSearchParams(body),
+                          ([key, value]) => `${key}: ${value}`,
+                      ),
+                  ]
+                : [`body:${bodyMode}`, body.split("\n")],
+        );
+    }
+
+    blocks.push([
+        "vars:post-response",
+        request.setDirectives.flatMap((directive) => {
+            const expression = toResponseExpression(directive.responsePath);
+            if (expression) return [`${directive.varName}: ${expression}`];
+            warnings.push(
+                `"${request.name}": @set ${directive.varName} = ${directive.responsePath} has no Bruno equivalent and was dropped`,
+            );
+            return [];
+        }),
+    ]);
+
+    return formatBru(blocks);
+}
+
+function toBodyMode(body: string, contentType: string | undefined): string {
+    if (contentType?.startsWith("application/x-www-form-urlencoded")) {
+        return "formUrlEncoded";
+    }
+    if (contentType?.includes("xml")) return "xml";
+    if (contentType?.includes("json") || isJson(body)) return "json";
+    return "text";
+}
+
+/**
+ * vars:post-response expression (res.body.data.token, res.headers["x-id"])
+ */
+function toResponseExpression(responsePath: string): string | undefined {
+    const source = parseResponsePath(responsePath);
+    if (source.source === "cookie") return undefined;
+    if (source.source === "header") {
+        return `res.headers[${JSON.stringify(source.name.toLowerCase())}]`;
+    }
+    return `res.body${bodyPathSegments(source.path)
+        .map((segment) =>
+            typeof segment === "number" ? `[${segment}]` : `.${segment}`,
+        )
+        .join("")}`;
+}
+
+/**
+ * Map REST Client system variables onto Bruno dynamic variables
+ */
+function convertVariables(
+    text: string,
+    request: ResolvedRequest,
+    warnings: string[],
+): string {
+    return replaceSystemVariables(text, (name, args) => {
+        switch (name) {
+            case "guid":
+                return "{{$randomUUID}}";
+            case "timestamp":
+                return "{{$timestamp}}";
+            case "datetime":
+                if (args[0] === "iso8601") return "{{$isoTimestamp}}";
+                break;
+            case "processEnv":
+                if (args[0]) return `{{process.env.${args[0]}}}`;
+                break;
+        }
+        warnings.push(
+            `"${request.name}": {{$${name}}} has no Bruno equivalent and was kept as-is`,
+        );
+        return undefined;
+    });
+}
+
+function toEntries(
+    values: Record<string, string>,
+    convert: (text: string) => string = (text) => text,
+): string[] {
+    return Object.entries(values).map(
+        ([key, value]) => `${key}: ${convert(value)}`,
+    );
+}
+
+/**
+ * Render blocks with two-space indented content, skipping empty ones
+ */
+function formatBru(blocks: [string, string[]][]): string {
+    return (
+        blocks
+            .filter(([, lines]) => lines.length > 0)
+            .map(
+                ([name, lines]) =>
+                    `${name} {\n${lines.map((line) => (line ? `  ${line}` : "")).join("\n")}\n}`,
+            )
+            .join("\n\n") + "\n"
+    );
+}
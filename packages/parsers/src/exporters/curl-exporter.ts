@@ -0,0 +1,235 @@
+/**
+ * curl shell script exporter
+ * Writes one bash script per collection: {{variables}} become shell variables
+ * defaulting to the selected environment, and @set directives capture response
+ * values (with jq) for the requests that follow
+ */
+
+import type {
+    CollectionExporter,
+    ExportCollection,
+    ExportedFile,
+    ExportOptions,
+    ExportResult,
+} from "./exporter-types";
+import {
+    bodyPathSegments,
+    buildQueryString,
+    parseResponsePath,
+    readEnvironments,
+    replaceSystemVariables,
+    resolveEndpoint,
+    selectEnvironment,
+    toFileName,
+    uniqueName,
+    type ResolvedRequest,
+} from "./exporter-utils";
+
+export const curlExporter: CollectionExporter = {
+    format: "curl",
+    label: "curl script",
+    export: exportCurl,
+};
+
+/**
+ * Convert collections into bash scripts of curl commands
+ */
+export function exportCurl(
+    collections: ExportCollection[],
+    options: ExportOptions = {},
+): ExportResult {
+    const warnings: string[] = [];
+    const fileNames = new Set<string>();
+    const environment = selectEnvironment(
+        readEnvironments(options.environments),
+        options.environment,
+    );
+    if (options.environment && environment.name !== options.environment) {
+        warnings.push(
+            `Environment "${options.environment}" not found; using ${environment.name ? `"${environment.name}"` : "no environment"}`,
+        );
+    }
+
+    const files: ExportedFile[] = collections.map((collection) => ({
+        path: `${uniqueName(toFileName(collection.name), fileNames)}.sh`,
+        content: toScript(collection, environment, warnings),
+    }));
+
+    return {
+        format: "curl",
+        files,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+function toScript(
+    collection: ExportCollection,
+    environment: { name?: string; variables: Record<string, string> },
+    warnings: string[],
+): string {
+    const requests = collection.endpoints.map(resolveEndpoint);
+    const commands = requests.map((request) => toCommand(request, warnings));
+    const usesHeaders = commands.some((command) => command.includes("$headers"));
+
+    // Every referenced variable gets a default so `set -u` only trips on typos
+    const referenced = new Set<string>();
+    for (const command of commands) {
+        for (const match of command.matchAll(/\$\{(\w+)\}/g)) {
+            referenced.add(match[1]);
+        }
+    }
+    const defaults: string[] = [];
+    const defined = new Set<string>();
+    for (const [key, value] of Object.entries(environment.variables)) {
+        const name = toShellName(key);
+        defined.add(name);
+        defaults.push(`: "\${${name}:=${toShellString(value, key, warnings)}}"`);
+    }
+    for (const name of referenced) {
+        if (!defined.has(name)) defaults.push(`: "\${${name}:=}"`);
+    }
+
+    const lines = [
+        "#!/usr/bin/env bash",
+        `# ${collection.name}`,
+        `# Variables default to the ${environment.name ? `"${environment.name}" environment` : "values below"}; override them when running, e.g.`,
+        `#   baseUrl=https://staging.example.com ${toShellArgument(`./${toFileName(collection.name)}.sh`)}`,
+        "set -euo pipefail",
+        "",
+        ...defaults,
+    ];
+    if (usesHeaders) {
+        lines.push(
+            "",
+            'headers="$(mktemp)"',
+            `trap 'rm -f "$headers"' EXIT`,
+            "header_value() {",
+            `  grep -i "^$1:" "$headers" | tail -n 1 | cut -d ' ' -f 2- | tr -d '\\r'`,
+            "}",
+        );
+    }
+    for (const [index, command] of commands.entries()) {
+        lines.push("", `# ${requests[index].name}`, command);
+    }
+    return lines.join("\n") + "\n";
+}
+
+function toCommand(request: ResolvedRequest, warnings: string[]): string {
+    const quote = (text: string) => toShellString(text, request.name, warnings);
+    const query = buildQueryString(request.query);
+    const url = `${request.baseUrl}${request.path}${query ? `?${query}` : ""}`;
+
+    const captures = request.setDirectives.flatMap((directive) => {
+        const source = parseResponsePath(directive.responsePath);
+        const name = toShellName(directive.varName);
+        if (source.source === "cookie") {
+            warnings.push(
+                `"${request.name}": cookie capture for ${directive.varName} is not supported in curl scripts`,
+            );
+            return [];
+        }
+        if (source.source === "header") {
+            return [`${name}="$(header_value ${shellQuote(source.name)})"`];
+        }
+        return [
+            `${name}="$(printf '%s' "$response" | jq -r ${shellQuote(toJqPath(source.path))})"`,
+        ];
+    });
+
+    const args = [
+        `curl -sS -X ${request.method} "${quote(url)}"`,
+        ...Object.entries(request.headers).map(
+            ([key, value]) => `-H "${quote(`${key}: ${value}`)}"`,
+        ),
+    ];
+    if (request.body !== undefined) {
+        args.push(`--data-raw "${quote(request.body)}"`);
+    }
+    if (captures.some((capture) => capture.includes("header_value"))) {
+        args.push('-D "$headers"');
+    }
+
+    if (captures.length === 0) {
+        return [...args, "-w '\\n'"].join(" \\\n  ");
+    }
+    return [
+        `response="$(${args.join(" \\\n  ")})"`,
+        `printf '%s\\n' "$response"`,
+        ...captures,
+    ].join("\n");
+}
+
+/**
+ * Text for a double-quoted shell string: {{var}} becomes ${var} and system
+ * variables become command substitutions
+ */
+function toShellString(
+    text: string,
+    owner: string,
+    warnings: string[],
+): string {
+    const withSystem = replaceSystemVariables(text, (name, args) => {
+        switch (name) {
+            case "guid":
+                return "\0$(uuidgen | tr '[:upper:]' '[:lower:]')\0";
+            case "timestamp":
+                return "\0$(date +%s)\0";
+            case "randomInt": {
+                const [min = "0", max = "1000"] = args;
+                return `\0$((${min} + RANDOM % (${max} - ${min})))\0`;
+            }
+            case "datetime":
+                if (args[0] === "iso8601") {
+                    return "\0$(date -u +%Y-%m-%dT%H:%M:%SZ)\0";
+                }
+                break;
+            case "processEnv":
+                if (args[0]) return `\0\${${toShellName(args[0])}}\0`;
+                break;
+        }
+        warnings.push(
+            `"${owner}": {{$${name}}} has no shell equivalent and was left empty`,
+        );
+        return "";
+    });
+
+    // \0 marks shell syntax that must not be escaped
+    return withSystem
+        .split(/(\0[^\0]*\0|\{\{\s*[^}]+?\s*\}\})/)
+        .map((part) => {
+            if (part.startsWith("\0")) return part.slice(1, -1);
+            const variable = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(part);
+            if (variable) return `\${${toShellName(variable[1])}}`;
+            return part.replace(/["\\$`]/g, "\\$&");
+        })
+        .join("");
+}
+
+function toShellName(name: string): string {
+    const sanitized = name.replace(/\W/g, "_");
+    return /^\d/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function toShellArgument(text: string): string {
+    return /^[\w./-]+$/.test(text) ? text : shellQuote(text);
+}
+
+function shellQuote(text: string): string {
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Body path as a jq filter (".data.items[0]")
+ */
+function toJqPath(path: string): string {
+    const filter = bodyPathSegments(path)
+        .map((segment) =>
+            typeof segment === "number"
+                ? `[${segment}]`
+                : /^[A-Za-z_]\w*$/.test(segment)
+                  ? `.${segment}`
+                  : `[${JSON.stringify(segment)}]`,
+        )
+        .join("");
+    return filter.startsWith(".") ? filter : `.${filter}`;
+}
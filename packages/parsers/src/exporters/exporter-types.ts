@@ -0,0 +1,77 @@
+/**
+ * Exporter types
+ */
+
+import type { HttpMethod } from "../lib/constants";
+import type { SetDirective } from "../lib/types";
+
+export const EXPORT_FORMATS = [
+	"postman",
+	"insomnia",
+	"bruno",
+	"openapi",
+	"curl",
+] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Endpoint fields read by exporters (a subset of the extension's ApiEndpoint)
+ * Layered values are resolved the same way as .http files:
+ * query = schema + overrides, headers/body/@set = overrides ?? schema
+ */
+export interface ExportEndpoint {
+	name: string;
+	method: HttpMethod;
+	pathTemplate: string; // Route pattern (e.g., "/api/users/:id")
+	requestPath: string; // Request URL, may contain {{variables}}
+	bodySchema?: string;
+	bodyOverrides?: string;
+	headersSchema?: Record<string, string>;
+	headersOverrides?: Record<string, string>;
+	querySchema?: Record<string, string>;
+	queryOverrides?: Record<string, string>;
+	setDirectives?: SetDirective[];
+	setDirectivesOverrides?: SetDirective[];
+}
+
+export interface ExportCollection {
+	name: string;
+	description?: string;
+	endpoints: ExportEndpoint[];
+}
+
+/**
+ * Options passed to every exporter
+ */
+export interface ExportOptions {
+	/** rest-client.env.json content ("$shared" plus named environments) */
+	environments?: Record<string, unknown>;
+	/** Environment whose values become defaults in single-environment outputs (curl) */
+	environment?: string;
+}
+
+/**
+ * File produced by an exporter
+ */
+export interface ExportedFile {
+	/** Path relative to the export directory, "/"-separated */
+	path: string;
+	content: string;
+}
+
+export interface ExportResult {
+	format: ExportFormat;
+	files: ExportedFile[];
+	/** Values the target format cannot hold */
+	warnings: string[];
+}
+
+/**
+ * A target format; registered in export.ts
+ */
+export interface CollectionExporter {
+	format: ExportFormat;
+	/** Display name (e.g., "Postman v2.1") */
+	label: string;
+	export(collections: ExportCollection[], options: ExportOptions): ExportResult;
+}
@@ -0,0 +1,301 @@
+/**
+ * Shared exporter utilities
+ * Resolve layered endpoint values and rest-client environments for export
+ */
+
+import type { HttpMethod } from "../lib/constants";
+import type { SetDirective } from "../lib/types";
+import {
+    SHARED_ENVIRONMENT,
+    encodeFormBody,
+    flattenVariables,
+} from "../importers/importer-utils";
+import type { ExportEndpoint } from "./exporter-types";
+
+/** Path parameters in route patterns (":id", ":slug*", ":rest*?") */
+const PATH_PARAM = /:([A-Za-z_]\w*)\*?\??/g;
+
+/** Methods whose body is sent (matches .http export) */
+const BODY_METHODS = new Set<HttpMethod>(["POST", "PUT", "PATCH"]);
+
+/**
+ * Endpoint with layered values resolved
+ */
+export interface ResolvedRequest {
+    name: string;
+    method: HttpMethod;
+    /** Base URL ("{{baseUrl}}", "https://api.example.com") or "" for relative paths */
+    baseUrl: string;
+    /** Request path with values filled in (may contain {{variables}}) */
+    path: string;
+    /** Route pattern with :params, relative to baseUrl */
+    pathTemplate: string;
+    /** Path parameter names and their values from the request path */
+    pathParams: Record<string, string>;
+    headers: Record<string, string>;
+    query: Record<string, string>;
+    body?: string;
+    setDirectives: SetDirective[];
+}
+
+/**
+ * Variables from rest-client.env.json, flattened to dot-separated keys
+ */
+export interface ExportEnvironments {
+    shared: Record<string, string>;
+    environments: Record<string, Record<string, string>>;
+}
+
+/**
+ * Resolve an endpoint the same way .http files are written:
+ * query = schema + overrides, headers/body/@set = overrides ?? schema
+ */
+export function resolveEndpoint(endpoint: ExportEndpoint): ResolvedRequest {
+    const { baseUrl, path } = splitBaseUrl(endpoint.requestPath);
+    const template = splitBaseUrl(endpoint.pathTemplate).path;
+    // Keep the route pattern only while the request path still follows it
+    const pathParams = matchPathParams(template, path);
+    const body = endpoint.bodyOverrides ?? endpoint.bodySchema;
+
+    return {
+        name: endpoint.name,
+        method: endpoint.method,
+        baseUrl,
+        path,
+        pathTemplate: pathParams ? template : path,
+        pathParams: pathParams ?? {},
+        headers: { ...(endpoint.headersOverrides ?? endpoint.headersSchema) },
+        query: {
+            ...(endpoint.querySchema ?? {}),
+            ...(endpoint.queryOverrides ?? {}),
+        },
+        body: body && BODY_METHODS.has(endpoint.method) ? body : undefined,
+        setDirectives: endpoint.setDirectivesOverrides?.length
+            ? endpoint.setDirectivesOverrides
+            : (endpoint.setDirectives ?? []),
+    };
+}
+
+/**
+ * Split a request URL into its base ("{{baseUrl}}" or an origin) and path
+ */
+export function splitBaseUrl(url: string): { baseUrl: string; path: string } {
+    const match = url.match(/^(\{\{[^}]+\}\}|[a-z][a-z0-9+.-]*:\/\/[^/?#]+)(.*)$/i);
+    if (!match) return { baseUrl: "", path: url };
+    return { baseUrl: match[1], path: match[2] || "/" };
+}
+
+/**
+ * Names of the :params in a route pattern
+ */
+export function pathParamNames(pathTemplate: string): string[] {
+    return Array.from(pathTemplate.matchAll(PATH_PARAM), (match) => match[1]);
+}
+
+/**
+ * Replace :params in a route pattern
+ */
+export function replacePathParams(
+    pathTemplate: string,
+    replace: (name: string) => string,
+): string {
+    return pathTemplate.replace(PATH_PARAM, (_, name: string) => replace(name));
+}
+
+/**
+ * Build a query string, leaving {{variables}} readable
+ */
+export function buildQueryString(query: Record<string, string>): string {
+    return encodeFormBody(query);
+}
+
+/**
+ * Read "$shared" and named environments from rest-client.env.json content
+ * Settings blocks ("$auth", "$network") are skipped
+ */
+export function readEnvironments(
+    envFile: Record<string, unknown> | undefined,
+): ExportEnvironments {
+    const result: ExportEnvironments = { shared: {}, environments: {} };
+    for (const [name, value] of Object.entries(envFile ?? {})) {
+        if (!value || typeof value !== "object" || Array.isArray(value)) continue;
+        const variables = flattenVariables(
+            Object.fromEntries(
+                Object.entries(value).filter(([key]) => !key.startsWith("$")),
+            ),
+        );
+        if (name === SHARED_ENVIRONMENT) {
+            result.shared = variables;
+        } else if (!name.startsWith("$")) {
+            result.environments[name] = variables;
+        }
+    }
+    return result;
+}
+
+/**
+ * Pick the environment used for single-environment outputs
+ * Defaults to "local" (or the first environment), matching the extension
+ */
+export function selectEnvironment(
+    environments: ExportEnvironments,
+    preferredName?: string,
+): { name?: string; variables: Record<string, string> } {
+    const names = Object.keys(environments.environments);
+    const name =
+        (preferredName && names.includes(preferredName) && preferredName) ||
+        (names.includes("local") ? "local" : names[0]);
+    return {
+        name,
+        variables: {
+            ...environments.shared,
+            ...(name ? environments.environments[name] : {}),
+        },
+    };
+}
+
+/**
+ * Where an @set directive reads its value from
+ */
+export type ResponseSource =
+    | { source: "body"; path: string }
+    | { source: "header"; name: string }
+    | { source: "cookie"; name: string };
+
+/**
+ * Parse an @set response path (response.body.token, response.headers.location,
+ * response.cookies.session)
+ */
+export function parseResponsePath(responsePath: string): ResponseSource {
+    const path = responsePath.replace(/^response\./, "");
+    if (path.startsWith("headers.")) {
+        return { source: "header", name: path.slice("headers.".length) };
+    }
+    if (path.startsWith("cookies.")) {
+        return { source: "cookie", name: path.slice("cookies.".length) };
+    }
+    return { source: "body", path: path.replace(/^body(\.|$)/, "") };
+}
+
+/**
+ * Split a body path ("data.items[0].id") into property and index segments
+ */
+export function bodyPathSegments(path: string): (string | number)[] {
+    return Array.from(path.matchAll(/[^.[\]]+|\[(\d+)\]/g), (match) =>
+        match[1] !== undefined ? Number(match[1]) : match[0],
+    );
+}
+
+/**
+ * Split a "Folder / Sub folder / Request" name into folders and the request name
+ * (the layout produced by collection imports)
+ */
+export function splitFolders(name: string): { folders: string[]; name: string } {
+    const parts = name.split(" / ").map((part) => part.trim());
+    const requestName = parts.pop() || name;
+    return { folders: parts.filter(Boolean), name: requestName };
+}
+
+/**
+ * Rewrite REST Client system variables ({{$guid}}, {{$randomInt 1 10}}, ...)
+ * Returning undefined from `replace` keeps the variable as-is
+ */
+export function replaceSystemVariables(
+    text: string,
+    replace: (name: string, args: string[]) => string | undefined,
+): string {
+    return text.replace(
+        /\{\{\s*\$(\w+)((?:\s+[^\s}]+)*)\s*\}\}/g,
+        (match, name: string, args: string) =>
+            replace(name, args.trim() ? args.trim().split(/\s+/) : []) ??
+            match,
+    );
+}
+
+/**
+ * Script expression reading an @set value through a Postman-style sandbox API
+ * (`pm` in Postman, `insomnia` in Insomnia after-response scripts)
+ */
+export function responseValueExpression(
+    responsePath: string,
+    api: string,
+): string {
+    const source = parseResponsePath(responsePath);
+    if (source.source === "header") {
+        return `${api}.response.headers.get(${JSON.stringify(source.name)})`;
+    }
+    if (source.source === "cookie") {
+        return `${api}.cookies.get(${JSON.stringify(source.name)})`;
+    }
+    if (!source.path) return `${api}.response.text()`;
+
+    const accessor = bodyPathSegments(source.path)
+        .map((segment) =>
+            typeof segment === "number"
+                ? `[${segment}]`
+                : /^[A-Za-z_$][\w$]*$/.test(segment)
+                  ? `.${segment}`
+                  : `[${JSON.stringify(segment)}]`,
+        )
+        .join("");
+    return `${api}.response.json()${accessor}`;
+}
+
+/**
+ * Check whether a string holds JSON
+ */
+export function isJson(value: string): boolean {
+    try {
+        JSON.parse(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Make a name safe for use as a file or folder name
+ */
+export function toFileName(name: string): string {
+    return (
+        name
+            // Control characters are not allowed in Windows file names
+            // eslint-disable-next-line no-control-regex
+            .replace(/[<>:"/\\|?*\x00-\x1f]/g, "_")
+            .replace(/\s+/g, " ")
+            .trim() || "untitled"
+    );
+}
+
+/**
+ * Return a name that is not in `used` (appending " 2", " 3", ...) and record it
+ */
+export function uniqueName(name: string, used: Set<string>): string {
+    let candidate = name;
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+        candidate = `${name} ${suffix}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+function matchPathParams(
+    pathTemplate: string,
+    path: string,
+): Record<string, string> | undefined {
+    const templateSegments = pathTemplate.split("/");
+    const pathSegments = path.split("/");
+    if (templateSegments.length !== pathSegments.length) return undefined;
+
+    const params: Record<string, string> = {};
+    for (const [index, segment] of templateSegments.entries()) {
+        const value = pathSegments[index];
+        const match = segment.match(/^:([A-Za-z_]\w*)/);
+        if (!match) {
+            if (segment !== value) return undefined;
+            continue;
+        }
+        params[match[1]] = value !== segment ? value : "";
+    }
+    return params;
+}
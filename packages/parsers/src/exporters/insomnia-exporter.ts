@@ -0,0 +1,250 @@
+/**
+ * Insomnia export (v4) exporter
+ * "Folder / Request" names become request groups, @set directives become
+ * after-response scripts, $shared becomes the base environment and each
+ * environment a sub-environment
+ */
+
+import { createHash } from "crypto";
+
+import type {
+    CollectionExporter,
+    ExportCollection,
+    ExportOptions,
+    ExportResult,
+} from "./exporter-types";
+import {
+    isJson,
+    readEnvironments,
+    replaceSystemVariables,
+    resolveEndpoint,
+    responseValueExpression,
+    splitFolders,
+    toFileName,
+    uniqueName,
+    type ResolvedRequest,
+} from "./exporter-utils";
+
+interface InsomniaResource {
+    _id: string;
+    _type: string;
+    parentId: string | null;
+    name: string;
+    [field: string]: unknown;
+}
+
+export const insomniaExporter: CollectionExporter = {
+    format: "insomnia",
+    label: "Insomnia",
+    export: exportInsomnia,
+};
+
+/**
+ * Convert collections into Insomnia v4 exports (one workspace per collection)
+ */
+export function exportInsomnia(
+    collections: ExportCollection[],
+    options: ExportOptions = {},
+): ExportResult {
+    const warnings: string[] = [];
+    const fileNames = new Set<string>();
+    const { shared, environments } = readEnvironments(options.environments);
+
+    const files = collections.map((collection) => {
+        // Stable ids so re-importing updates the same workspace
+        const id = (type: string, ...keys: string[]) =>
+            `${type}_${createHash("sha1")
+                .update([collection.name, ...keys].join("\0"))
+                .digest("hex")
+                .slice(0, 32)}`;
+
+        const workspaceId = id("wrk");
+        const baseEnvironmentId = id("env", "$base");
+        const resources: InsomniaResource[] = [
+            {
+                _id: workspaceId,
+                _type: "workspace",
+                parentId: null,
+                name: collection.name,
+                description: collection.description ?? "",
+                scope: "collection",
+            },
+            {
+                _id: baseEnvironmentId,
+                _type: "environment",
+                parentId: workspaceId,
+                name: "Base Environment",
+                data: unflatten(shared),
+            },
+            ...Object.entries(environments).map(([name, variables]) => ({
+                _id: id("env", name),
+                _type: "environment",
+                parentId: baseEnvironmentId,
+                name,
+                data: unflatten(variables),
+            })),
+        ];
+
+        const groups = new Map<string, string>();
+        collection.endpoints.forEach((endpoint, index) => {
+            const request = resolveEndpoint(endpoint);
+            const { folders, name } = splitFolders(request.name);
+
+            let parentId = workspaceId;
+            folders.forEach((folder, depth) => {
+                const key = folders.slice(0, depth + 1).join("\0");
+                let groupId = groups.get(key);
+                if (!groupId) {
+                    groupId = id("fld", key);
+                    groups.set(key, groupId);
+                    resources.push({
+                        _id: groupId,
+                        _type: "request_group",
+                        parentId,
+                        name: folder,
+                    });
+                }
+                parentId = groupId;
+            });
+
+            resources.push({
+                _id: id("req", String(index), request.name),
+                _type: "request",
+                parentId,
+                name,
+                ...toInsomniaRequest(request, warnings),
+            });
+        });
+
+        return {
+            path: `${uniqueName(toFileName(collection.name), fileNames)}.insomnia.json`,
+            content: JSON.stringify(
+                {
+                    _type: "export",
+                    __export_format: 4,
+                    __export_source: "watchapi",
+                    resources,
+                },
+                null,
+                2,
+            ),
+        };
+    });
+
+    return {
+        format: "insomnia",
+        files,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+function toInsomniaRequest(
+    request: ResolvedRequest,
+    warnings: string[],
+): Record<string, unknown> {
+    const convert = (text: string) => convertVariables(text, request, warnings);
+    const contentType = Object.entries(request.headers).find(
+        ([key]) => key.toLowerCase() === "content-type",
+    )?.[1];
+
+    return {
+        method: request.method,
+        url: convert(request.baseUrl + request.path),
+        headers: Object.entries(request.headers).map(([name, value]) => ({
+            name,
+            value: convert(value),
+        })),
+        parameters: Object.entries(request.query).map(([name, value]) => ({
+            name: convert(name),
+            value: convert(value),
+        })),
+        body: toBody(request.body, contentType, convert),
+        afterResponseScript: request.setDirectives
+            .map(
+                (directive) =>
+                    `insomnia.environment.set(${JSON.stringify(directive.varName)}, ${responseValueExpression(directive.responsePath, "insomnia")});`,
+            )
+            .join("\n"),
+    };
+}
+
+function toBody(
+    body: string | undefined,
+    contentType: string | undefined,
+    convert: (text: string) => string,
+): Record<string, unknown> {
+    if (body === undefined) return {};
+
+    if (contentType?.startsWith("application/x-www-form-urlencoded")) {
+        return {
+            mimeType: "application/x-www-form-urlencoded",
+            params: Array.from(new URLSearchParams(body), ([name, value]) => ({
+                name: convert(name),
+                value: convert(value),
+            })),
+        };
+    }
+    return {
+        mimeType:
+            contentType?.split(";")[0] ??
+            (isJson(body) ? "application/json" : "text/plain"),
+        text: convert(body),
+    };
+}
+
+/**
+ * Rewrite {{var}} as {{ _.var }} and system variables as template tags
+ */
+function convertVariables(
+    text: string,
+    request: ResolvedRequest,
+    warnings: string[],
+): string {
+    const withTags = replaceSystemVariables(text, (name, args) => {
+        switch (name) {
+            case "guid":
+                return "{% uuid 'v4' %}";
+            case "timestamp":
+                return "{% now 'unix' %}";
+            case "datetime":
+                if (args[0] === "iso8601") return "{% now 'iso-8601' %}";
+                break;
+        }
+        warnings.push(
+            `"${request.name}": {{$${name}}} has no Insomnia equivalent and was kept as-is`,
+        );
+        return undefined;
+    });
+
+    return withTags.replace(
+        /\{\{\s*([^$\s}][^}]*?)\s*\}\}/g,
+        (_, name: string) =>
+            `{{ _${name
+                .split(".")
+                .map((part) =>
+                    /^[A-Za-z_$][\w$]*$/.test(part)
+                        ? `.${part}`
+                        : `[${JSON.stringify(part)}]`,
+                )
+                .join("")} }}`,
+    );
+}
+
+/**
+ * Nest dot-separated keys so {{ _.api.key }} resolves
+ */
+function unflatten(variables: Record<string, string>): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(variables)) {
+        const parts = key.split(".");
+        let target = data;
+        for (const part of parts.slice(0, -1)) {
+            if (typeof target[part] !== "object" || target[part] === null) {
+                target[part] = {};
+            }
+            target = target[part] as Record<string, unknown>;
+        }
+        target[parts[parts.length - 1]] = value;
+    }
+    return data;
+}
@@ -0,0 +1,311 @@
+/**
+ * OpenAPI 3.1 exporter
+ * Route patterns become paths, request values become examples (with schemas
+ * inferred from JSON bodies), "Folder / Request" folders become tags and
+ * {{baseUrl}}-style prefixes become one server per environment
+ */
+
+import type {
+    CollectionExporter,
+    ExportCollection,
+    ExportedFile,
+    ExportOptions,
+    ExportResult,
+} from "./exporter-types";
+import {
+    readEnvironments,
+    replacePathParams,
+    resolveEndpoint,
+    splitFolders,
+    toFileName,
+    uniqueName,
+    type ExportEnvironments,
+    type ResolvedRequest,
+} from "./exporter-utils";
+
+/** Headers described elsewhere in the document (security schemes, media types) */
+const DESCRIBED_HEADERS = new Set(["authorization", "content-type", "accept"]);
+
+const SECURITY_SCHEMES: Record<string, Record<string, string>> = {
+    bearerAuth: { type: "http", scheme: "bearer" },
+    basicAuth: { type: "http", scheme: "basic" },
+};
+
+export const openApiExporter: CollectionExporter = {
+    format: "openapi",
+    label: "OpenAPI 3.1",
+    export: exportOpenApi,
+};
+
+/**
+ * Convert collections into OpenAPI 3.1 documents (one per collection)
+ */
+export function exportOpenApi(
+    collections: ExportCollection[],
+    options: ExportOptions = {},
+): ExportResult {
+    const warnings: string[] = [];
+    const fileNames = new Set<string>();
+    const environments = readEnvironments(options.environments);
+
+    const files: ExportedFile[] = collections.map((collection) => ({
+        path: `${uniqueName(toFileName(collection.name), fileNames)}.openapi.json`,
+        content: JSON.stringify(
+            buildDocument(collection, environments, warnings),
+            null,
+            2,
+        ),
+    }));
+
+    return {
+        format: "openapi",
+        files,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+/**
+ * Infer a JSON Schema from an example value
+ */
+export function inferJsonSchema(value: unknown): Record<string, unknown> {
+    if (value === null) return { type: "null" };
+    if (Array.isArray(value)) {
+        return value.length > 0
+            ? { type: "array", items: inferJsonSchema(value[0]) }
+            : { type: "array" };
+    }
+    switch (typeof value) {
+        case "object":
+            return {
+                type: "object",
+                properties: Object.fromEntries(
+                    Object.entries(value as Record<string, unknown>).map(
+                        ([key, property]) => [key, inferJsonSchema(property)],
+                    ),
+                ),
+            };
+        case "number":
+            return { type: Number.isInteger(value) ? "integer" : "number" };
+        case "boolean":
+            return { type: "boolean" };
+        default:
+            return { type: "string" };
+    }
+}
+
+function buildDocument(
+    collection: ExportCollection,
+    environments: ExportEnvironments,
+    warnings: string[],
+): Record<string, unknown> {
+    const requests = collection.endpoints.map(resolveEndpoint);
+
+    // The most common base URL becomes the document server; others are set per operation
+    const baseUrlCounts = new Map<string, number>();
+    for (const request of requests) {
+        baseUrlCounts.set(
+            request.baseUrl,
+            (baseUrlCounts.get(request.baseUrl) ?? 0) + 1,
+        );
+    }
+    const defaultBaseUrl =
+        Array.from(baseUrlCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    const operationIds = new Set<string>();
+    const tags = new Set<string>();
+    const securitySchemes = new Set<string>();
+
+    for (const request of requests) {
+        const { folders, name } = splitFolders(request.name);
+        const { path, parameters } = toPathItem(request);
+        const pathItem = (paths[path] ??= {});
+        const method = request.method.toLowerCase();
+        if (pathItem[method]) {
+            warnings.push(
+                `"${request.name}": ${request.method} ${path} is already described by another endpoint and was skipped`,
+            );
+            continue;
+        }
+
+        const security = toSecurity(request.headers);
+        if (security) securitySchemes.add(security);
+        if (folders[0]) tags.add(folders[0]);
+
+        const operationParameters = [
+            ...parameters,
+            ...Object.entries(request.query).map(([key, value]) =>
+                toParameter(key, "query", value),
+            ),
+            ...Object.entries(request.headers)
+                .filter(([key]) => !DESCRIBED_HEADERS.has(key.toLowerCase()))
+                .map(([key, value]) => toParameter(key, "header", value)),
+        ];
+
+        pathItem[method] = {
+            operationId: uniqueOperationId(
+                `${method} ${request.name}`,
+                operationIds,
+            ),
+            summary: name,
+            tags: folders[0] ? [folders[0]] : undefined,
+            servers:
+                request.baseUrl !== defaultBaseUrl
+                    ? toServers(request.baseUrl, environments)
+                    : undefined,
+            parameters: operationParameters.length
+                ? operationParameters
+                : undefined,
+            requestBody: toRequestBody(request),
+            responses: { "200": { description: "Successful response" } },
+            security: security ? [{ [security]: [] }] : undefined,
+            // OpenAPI has no response captures; keep them as an extension
+            "x-watchapi-set": request.setDirectives.length
+                ? request.setDirectives
+                : undefined,
+        };
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: collection.name,
+            description: collection.description,
+            version: "1.0.0",
+        },
+        servers: toServers(defaultBaseUrl, environments),
+        tags: tags.size
+            ? Array.from(tags, (tag) => ({ name: tag }))
+            : undefined,
+        paths,
+        components: securitySchemes.size
+            ? {
+                  securitySchemes: Object.fromEntries(
+                      Array.from(securitySchemes, (scheme) => [
+                          scheme,
+                          SECURITY_SCHEMES[scheme],
+                      ]),
+                  ),
+              }
+            : undefined,
+    };
+}
+
+/**
+ * Route pattern as an OpenAPI path; :params and {{variables}} become path parameters
+ */
+function toPathItem(request: ResolvedRequest): {
+    path: string;
+    parameters: Record<string, unknown>[];
+} {
+    const parameters: Record<string, unknown>[] = [];
+    const path = replacePathParams(request.pathTemplate, (name) => {
+        parameters.push(
+            toParameter(name, "path", request.pathParams[name] ?? ""),
+        );
+        return `{${name}}`;
+    }).replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+        parameters.push(toParameter(name, "path", ""));
+        return `{${name}}`;
+    });
+    return { path, parameters };
+}
+
+function toParameter(
+    name: string,
+    location: "path" | "query" | "header",
+    example: string,
+): Record<string, unknown> {
+    // Values that reference {{variables}} are not useful examples
+    const hasExample = example !== "" && !example.includes("{{");
+    return {
+        name,
+        in: location,
+        required: location === "path" ? true : undefined,
+        schema: { type: "string" },
+        example: hasExample ? example : undefined,
+    };
+}
+
+function toRequestBody(
+    request: ResolvedRequest,
+): Record<string, unknown> | undefined {
+    if (request.body === undefined) return undefined;
+
+    const contentType =
+        Object.entries(request.headers)
+            .find(([key]) => key.toLowerCase() === "content-type")?.[1]
+            ?.split(";")[0]
+            .trim() ?? "application/json";
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(request.body);
+    } catch {
+        return { content: { [contentType]: { example: request.body } } };
+    }
+    return {
+        content: {
+            [contentType]: { schema: inferJsonSchema(parsed), example: parsed },
+        },
+    };
+}
+
+function toSecurity(headers: Record<string, string>): string | undefined {
+    const authorization = Object.entries(headers).find(
+        ([key]) => key.toLowerCase() === "authorization",
+    )?.[1];
+    if (!authorization) return undefined;
+    if (/^bearer\s/i.test(authorization)) return "bearerAuth";
+    if (/^basic\s/i.test(authorization)) return "basicAuth";
+    return undefined;
+}
+
+/**
+ * Servers for a base URL: "{{baseUrl}}" resolves once per environment that defines it
+ */
+function toServers(
+    baseUrl: string,
+    environments: ExportEnvironments,
+): Record<string, unknown>[] | undefined {
+    if (!baseUrl) return undefined;
+
+    const variable = /^\{\{\s*([\w.-]+)\s*\}\}$/.exec(baseUrl)?.[1];
+    if (!variable) return [{ url: baseUrl }];
+
+    const servers = Object.entries(environments.environments)
+        .map(([name, variables]) => ({
+            url: variables[variable] ?? environments.shared[variable],
+            description: name,
+        }))
+        .filter((server) => server.url && !server.url.includes("{{"));
+    if (servers.length > 0) return servers;
+
+    return [
+        {
+            url: `{${variable}}`,
+            variables: {
+                [variable]: { default: environments.shared[variable] ?? "/" },
+            },
+        },
+    ];
+}
+
+function uniqueOperationId(value: string, used: Set<string>): string {
+    const words = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const base =
+        words
+            .map((word, index) =>
+                index === 0
+                    ? word.toLowerCase()
+                    : word[0].toUpperCase() + word.slice(1),
+            )
+            .join("") || "operation";
+
+    let operationId = base;
+    for (let suffix = 2; used.has(operationId); suffix++) {
+        operationId = `${base}${suffix}`;
+    }
+    used.add(operationId);
+    return operationId;
+}
@@ -0,0 +1,248 @@
+/**
+ * Postman collection (v2.1) exporter
+ * "Folder / Request" names become folders, @set directives become test scripts,
+ * $shared becomes collection variables and each environment a Postman environment
+ */
+
+import type {
+    CollectionExporter,
+    ExportCollection,
+    ExportedFile,
+    ExportOptions,
+    ExportResult,
+} from "./exporter-types";
+import {
+    isJson,
+    readEnvironments,
+    replacePathParams,
+    replaceSystemVariables,
+    resolveEndpoint,
+    responseValueExpression,
+    splitFolders,
+    toFileName,
+    uniqueName,
+    type ResolvedRequest,
+} from "./exporter-utils";
+
+const POSTMAN_SCHEMA =
+    "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+interface PostmanKeyValue {
+    key: string;
+    value: string;
+}
+
+interface PostmanItem {
+    name: string;
+    item?: PostmanItem[];
+    request?: Record<string, unknown>;
+    event?: { listen: "test"; script: { type: string; exec: string[] } }[];
+}
+
+export const postmanExporter: CollectionExporter = {
+    format: "postman",
+    label: "Postman v2.1",
+    export: exportPostman,
+};
+
+/**
+ * Convert collections into Postman v2.1 collections and environments
+ */
+export function exportPostman(
+    collections: ExportCollection[],
+    options: ExportOptions = {},
+): ExportResult {
+    const warnings: string[] = [];
+    const files: ExportedFile[] = [];
+    const fileNames = new Set<string>();
+    const { shared, environments } = readEnvironments(options.environments);
+
+    for (const collection of collections) {
+        const root: PostmanItem[] = [];
+        for (const endpoint of collection.endpoints) {
+            const request = resolveEndpoint(endpoint);
+            const { folders, name } = splitFolders(request.name);
+            findFolder(root, folders).push({
+                name,
+                request: toPostmanRequest(request, warnings),
+                event: toTestEvent(request),
+            });
+        }
+
+        const content = {
+            info: {
+                name: collection.name,
+                description: collection.description,
+                schema: POSTMAN_SCHEMA,
+            },
+            item: root,
+            variable: toKeyValues(shared),
+        };
+        const fileName = uniqueName(toFileName(collection.name), fileNames);
+        files.push({
+            path: `${fileName}.postman_collection.json`,
+            content: JSON.stringify(content, null, 2),
+        });
+    }
+
+    for (const [name, variables] of Object.entries(environments)) {
+        files.push({
+            path: `${toFileName(name)}.postman_environment.json`,
+            content: JSON.stringify(
+                {
+                    name,
+                    values: Object.entries(variables).map(([key, value]) => ({
+                        key,
+                        value,
+                        type: "default",
+                        enabled: true,
+                    })),
+                    _postman_variable_scope: "environment",
+                },
+                null,
+                2,
+            ),
+        });
+    }
+
+    return {
+        format: "postman",
+        files,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+function findFolder(root: PostmanItem[], folders: string[]): PostmanItem[] {
+    let items = root;
+    for (const folder of folders) {
+        let item = items.find((entry) => entry.item && entry.name === folder);
+        if (!item) {
+            item = { name: folder, item: [] };
+            items.push(item);
+        }
+        items = item.item!;
+    }
+    return items;
+}
+
+function toPostmanRequest(
+    request: ResolvedRequest,
+    warnings: string[],
+): Record<string, unknown> {
+    const convert = (text: string) => convertVariables(text, request, warnings);
+    const query = Object.entries(request.query).map(([key, value]) => ({
+        key: convert(key),
+        value: convert(value),
+    }));
+    const path = convert(
+        replacePathParams(request.pathTemplate, (name) => `:${name}`),
+    );
+    const raw =
+        convert(request.baseUrl) +
+        path +
+        (query.length
+            ? `?${query.map(({ key, value }) => `${key}=${value}`).join("&")}`
+            : "");
+
+    const body = request.body !== undefined ? convert(request.body) : undefined;
+    return {
+        method: request.method,
+        header: Object.entries(request.headers).map(([key, value]) => ({
+            key,
+            value: convert(value),
+        })),
+        url: {
+            raw,
+            ...toHost(convert(request.baseUrl)),
+            path: path.split("/").filter(Boolean),
+            query: query.length ? query : undefined,
+            variable: Object.keys(request.pathParams).length
+                ? toKeyValues(request.pathParams)
+                : undefined,
+        },
+        body:
+            body === undefined
+                ? undefined
+                : {
+                      mode: "raw",
+                      raw: body,
+                      options: {
+                          raw: { language: isJson(body) ? "json" : "text" },
+                      },
+                  },
+    };
+}
+
+function toHost(baseUrl: string): Record<string, unknown> {
+    if (!baseUrl) return {};
+    if (!URL.canParse(baseUrl)) return { host: [baseUrl] };
+
+    const url = new URL(baseUrl);
+    return {
+        protocol: url.protocol.replace(/:$/, ""),
+        host: url.hostname.split("."),
+        port: url.port || undefined,
+    };
+}
+
+/**
+ * @set directives run as a test script after the response arrives
+ */
+function toTestEvent(request: ResolvedRequest): PostmanItem["event"] {
+    if (request.setDirectives.length === 0) return undefined;
+
+    const exec = request.setDirectives.map(
+        (directive) =>
+            `pm.collectionVariables.set(${JSON.stringify(directive.varName)}, ${responseValueExpression(directive.responsePath, "pm")});`,
+    );
+    return [{ listen: "test", script: { type: "text/javascript", exec } }];
+}
+
+/**
+ * Map REST Client system variables onto Postman dynamic variables
+ */
+function convertVariables(
+    text: string,
+    request: ResolvedRequest,
+    warnings: string[],
+): string {
+    return replaceSystemVariables(text, (name, args) => {
+        switch (name) {
+            case "guid":
+                return "{{$guid}}";
+            case "timestamp":
+                return "{{$timestamp}}";
+            case "randomInt":
+                if (args.join(" ") !== "0 1000") {
+                    warnings.push(
+                        `"${request.name}": {{$randomInt ${args.join(" ")}}} became {{$randomInt}} (0-1000)`,
+                    );
+                }
+                return "{{$randomInt}}";
+            case "datetime":
+                if (args[0] === "iso8601") return "{{$isoTimestamp}}";
+                break;
+            case "processEnv":
+                if (args[0]) {
+                    warnings.push(
+                        `"${request.name}": {{$processEnv ${args[0]}}} became the variable {{${args[0]}}}`,
+                    );
+                    return `{{${args[0]}}}`;
+                }
+                break;
+        }
+        warnings.push(
+            `"${request.name}": {{$${name}}} has no Postman equivalent and was kept as-is`,
+        );
+        return undefined;
+    });
+}
+
+function toKeyValues(
+    variables: Record<string, string>,
+): PostmanKeyValue[] | undefined {
+    const entries = Object.entries(variables);
+    return entries.length
+        ? entries.map(([key, value]) => ({ key, value }))
+        : undefined;
+}
@@ -0,0 +1,41 @@
+/**
+ * Express parser constants
+ */
+
+import { HTTP_METHODS } from "../lib/constants";
+import type { HttpMethod } from "../lib/constants";
+
+/**
+ * Default patterns for Express source files
+ */
+export const DEFAULT_EXPRESS_INCLUDE = [
+	"*.{ts,js,mjs,cjs}",
+	"src/**/*.{ts,js,mjs,cjs}",
+	"server/**/*.{ts,js,mjs,cjs}",
+	"routes/**/*.{ts,js,mjs,cjs}",
+	"api/**/*.{ts,js,mjs,cjs}",
+];
+
+/**
+ * Factory calls that create an Express application
+ */
+export const EXPRESS_APP_FACTORIES = ["express"];
+
+/**
+ * Factory calls that create an Express router
+ */
+export const EXPRESS_ROUTER_FACTORIES = ["Router", "express.Router"];
+
+/**
+ * Router method names mapped to HTTP methods
+ */
+export const EXPRESS_ROUTE_METHODS: Record<string, HttpMethod | HttpMethod[]> = {
+	get: "GET",
+	post: "POST",
+	put: "PUT",
+	patch: "PATCH",
+	delete: "DELETE",
+	head: "HEAD",
+	options: "OPTIONS",
+	all: [...HTTP_METHODS],
+};
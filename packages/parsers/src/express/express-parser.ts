@@ -0,0 +1,464 @@
+/**
+ * Express route parser with AST-based detection
+ * Resolves app/router registrations and mounted sub-routers into full paths
+ * Note: This module is decoupled from vscode - all functions accept rootDir as parameter
+ */
+
+import { CallExpression, Node, SourceFile, SyntaxKind } from "ts-morph";
+
+import type { HttpMethod } from "../lib/constants";
+import type { ParsedRoute, ParserOptions } from "../lib/types";
+import { BaseParser } from "../shared/base-parser";
+import {
+    analyzeHandler,
+    extractBodyFromHandler,
+    extractBodyTypeFromHandler,
+    shouldIncludeBody,
+} from "../shared/next-shared";
+import {
+    getHandlerName,
+    getNodeKey,
+    joinRoutePaths,
+    resolveHandlerNode,
+    resolveMountPrefixes,
+    resolveStaticStrings,
+    resolveValueDeclaration,
+    unwrapExpression,
+    type RouteMountEdge,
+} from "../shared/server-shared";
+import {
+    extractBodyFromSchema,
+    extractTypeInfoFromSchema,
+    type ZodTypeInfo,
+} from "../shared/zod-schema-parser";
+
+import {
+    DEFAULT_EXPRESS_INCLUDE,
+    EXPRESS_APP_FACTORIES,
+    EXPRESS_ROUTE_METHODS,
+    EXPRESS_ROUTER_FACTORIES,
+} from "./express-constants";
+import type {
+    ExpressRouteDefinition,
+    ExpressRouteHandler,
+    ExpressRouterInstance,
+} from "./express-types";
+
+/**
+ * Express Parser class for extracting routes from apps and routers
+ */
+export class ExpressParser extends BaseParser {
+    private instances = new Map<string, ExpressRouterInstance>();
+    private definitions: ExpressRouteDefinition[] = [];
+    private mounts: RouteMountEdge[] = [];
+
+    constructor(rootDir: string, options?: ParserOptions) {
+        super(
+            rootDir,
+            {
+                name: "Express",
+                debugPrefix: "express:parser",
+                dependencies: ["express"],
+                filePatterns: DEFAULT_EXPRESS_INCLUDE,
+                requiresTsConfig: false,
+                allowJs: true,
+            },
+            options,
+        );
+    }
+
+    /**
+     * Parse Express routes from apps and routers
+     */
+    protected async parseRoutes(): Promise<ParsedRoute[]> {
+        this.instances.clear();
+        this.definitions = [];
+        this.mounts = [];
+
+        // Resolving require()/import() can pull new files into the project,
+        // so keep scanning until no unscanned file is left
+        const scanned = new Set<string>();
+        let pending = this.getSourceFiles();
+        this.debug(`Found ${pending.length} source file(s)`);
+
+        while (pending.length > 0) {
+            for (const file of pending) {
+                scanned.add(file.getFilePath());
+                this.debug(
+                    `Scanning file ${this.relativePath(file.getFilePath())}`,
+                );
+                this.scanFile(file);
+            }
+            pending = this.getSourceFiles().filter(
+                (file) => !scanned.has(file.getFilePath()),
+            );
+        }
+
+        this.debug(
+            `Found ${this.instances.size} app/router instance(s), ${this.mounts.length} mount(s)`,
+        );
+
+        return this.convertToRoutes(this.resolveHandlers());
+    }
+
+    /**
+     * Scan a file for route registrations and router mounts
+     */
+    private scanFile(sourceFile: SourceFile): void {
+        const calls = sourceFile.getDescendantsOfKind(
+            SyntaxKind.CallExpression,
+        );
+
+        for (const call of calls) {
+            const expression = call.getExpression();
+            if (!Node.isPropertyAccessExpression(expression)) {
+                continue;
+            }
+
+            const name = expression.getName();
+            if (name === "use") {
+                this.collectMount(call, expression.getExpression());
+            } else if (EXPRESS_ROUTE_METHODS[name]) {
+                this.collectRoute(call, name, expression.getExpression());
+            }
+        }
+    }
+
+    /**
+     * Collect a route registered via router.get(path, ...) or router.route(path).get(...)
+     */
+    private collectRoute(
+        call: CallExpression,
+        methodName: string,
+        receiver: Node,
+    ): void {
+        const mapped = EXPRESS_ROUTE_METHODS[methodName];
+        const methods = Array.isArray(mapped) ? mapped : [mapped];
+        const args = call.getArguments();
+
+        const router = this.resolveInstance(receiver);
+        if (router) {
+            // app.get('setting') reads an application setting
+            if (args.length < 2) {
+                return;
+            }
+
+            const paths = resolveStaticStrings(args[0]);
+            if (paths.length === 0) {
+                this.debug(
+                    `Skipping ${methodName} on '${router.name}' at line ${call.getStartLineNumber()} (dynamic path)`,
+                );
+                return;
+            }
+
+            this.addDefinition(router, paths, methods, call, args.slice(1));
+            return;
+        }
+
+        const chain = this.resolveRouteChain(receiver);
+        if (chain && args.length > 0) {
+            this.addDefinition(chain.router, chain.paths, methods, call, args);
+        }
+    }
+
+    /**
+     * Resolve the router and path behind a router.route(path) chain
+     */
+    private resolveRouteChain(
+        node: Node,
+    ): { router: ExpressRouterInstance; paths: string[] } | undefined {
+        const target = unwrapExpression(node);
+        if (!Node.isCallExpression(target)) {
+            return undefined;
+        }
+
+        const expression = target.getExpression();
+        if (!Node.isPropertyAccessExpression(expression)) {
+            return undefined;
+        }
+
+        const name = expression.getName();
+        if (name === "route") {
+            const router = this.resolveInstance(expression.getExpression());
+            const pathArg = target.getArguments()[0];
+            const paths = pathArg ? resolveStaticStrings(pathArg) : [];
+            return router && paths.length > 0 ? { router, paths } : undefined;
+        }
+
+        if (EXPRESS_ROUTE_METHODS[name]) {
+            return this.resolveRouteChain(expression.getExpression());
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Collect router mounts from app.use([prefix], ...routers)
+     */
+    private collectMount(call: CallExpression, receiver: Node): void {
+        const parent = this.resolveInstance(receiver);
+        if (!parent) {
+            return;
+        }
+
+        const args = call.getArguments();
+        if (args.length === 0) {
+            return;
+        }
+
+        const prefixes = resolveStaticStrings(args[0]);
+        const targets = prefixes.length > 0 ? args.slice(1) : args;
+
+        for (const target of targets) {
+            const child = this.resolveInstance(target);
+            if (!child) {
+                continue;
+            }
+
+            for (const prefix of prefixes.length > 0 ? prefixes : ["/"]) {
+                this.mounts.push({ parent: parent.id, prefix, child: child.id });
+                this.debug(
+                    `Mounted router '${child.name}' at '${prefix}' on '${parent.name}'`,
+                );
+            }
+        }
+    }
+
+    /**
+     * Resolve an expression to an Express app/router instance
+     */
+    private resolveInstance(node: Node): ExpressRouterInstance | undefined {
+        const declaration = resolveValueDeclaration(node);
+        if (!declaration || !Node.isVariableDeclaration(declaration)) {
+            return undefined;
+        }
+
+        const id = getNodeKey(declaration);
+        const existing = this.instances.get(id);
+        if (existing) {
+            return existing;
+        }
+
+        const initializer = declaration.getInitializer();
+        const factoryCall = initializer
+            ? unwrapExpression(initializer)
+            : undefined;
+        if (!factoryCall || !Node.isCallExpression(factoryCall)) {
+            return undefined;
+        }
+
+        const callee = factoryCall.getExpression().getText();
+        const kind = EXPRESS_APP_FACTORIES.includes(callee)
+            ? "app"
+            : EXPRESS_ROUTER_FACTORIES.includes(callee)
+              ? "router"
+              : null;
+        if (!kind) {
+            return undefined;
+        }
+
+        const instance: ExpressRouterInstance = {
+            id,
+            kind,
+            name: declaration.getName(),
+            file: this.relativePath(declaration.getSourceFile().getFilePath()),
+        };
+        this.instances.set(id, instance);
+        this.debug(
+            `Found Express ${kind} '${instance.name}' in ${instance.file}`,
+        );
+
+        return instance;
+    }
+
+    /**
+     * Record a route definition for every path it is registered under
+     */
+    private addDefinition(
+        router: ExpressRouterInstance,
+        paths: string[],
+        methods: HttpMethod[],
+        call: CallExpression,
+        handlerArgs: Node[],
+    ): void {
+        const handlerArg = handlerArgs[handlerArgs.length - 1];
+        const handlerNode = handlerArg
+            ? resolveHandlerNode(handlerArg)
+            : undefined;
+        const analysis = handlerNode
+            ? analyzeHandler(
+                  handlerNode,
+                  this.debug,
+                  (h, d) => extractBodyFromHandler(h, d, extractBodyFromSchema),
+                  (h) =>
+                      extractBodyTypeFromHandler(
+                          h,
+                          extractBodyFromSchema,
+                          extractTypeInfoFromSchema,
+                      ),
+              )
+            : undefined;
+
+        const middlewareBody = analysis?.bodyExample
+            ? undefined
+            : this.extractBodyFromMiddleware(handlerArgs.slice(0, -1));
+        const bodyExample = analysis?.bodyExample ?? middlewareBody?.bodyExample;
+        const bodyType = analysis?.bodyType ?? middlewareBody?.bodyType;
+
+        const headers = { ...(analysis?.headers ?? {}) };
+        if (bodyExample && !headers["Content-Type"]) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        for (const routePath of paths) {
+            this.definitions.push({
+                routerId: router.id,
+                path: routePath,
+                methods,
+                file: this.relativePath(call.getSourceFile().getFilePath()),
+                line: call.getStartLineNumber(),
+                handlerName: getHandlerName(handlerArg),
+                headers,
+                queryParams: analysis?.queryParams,
+                bodyExample,
+                bodyType,
+            });
+
+            this.debug(
+                `Found ${methods.join("|")} ${routePath} on '${router.name}' (line ${call.getStartLineNumber()})`,
+            );
+        }
+    }
+
+    /**
+     * Extract a body example from validation middleware, e.g. validate(createUserSchema)
+     */
+    private extractBodyFromMiddleware(
+        middlewares: Node[],
+    ): { bodyExample: string; bodyType?: ZodTypeInfo } | undefined {
+        for (const middleware of middlewares) {
+            const target = unwrapExpression(middleware);
+            if (!Node.isCallExpression(target)) {
+                continue;
+            }
+
+            for (const arg of target.getArguments()) {
+                const text = arg.getText();
+                if (!text.startsWith("z.") && !/schema/i.test(text)) {
+                    continue;
+                }
+
+                const bodyExample = extractBodyFromSchema(arg);
+                if (bodyExample && bodyExample !== "{}") {
+                    this.debug(
+                        `Found Zod schema body example in middleware: ${target.getExpression().getText()}`,
+                    );
+                    return {
+                        bodyExample,
+                        bodyType: extractTypeInfoFromSchema(arg),
+                    };
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Combine route definitions with their resolved mount prefixes
+     */
+    private resolveHandlers(): ExpressRouteHandler[] {
+        const prefixes = resolveMountPrefixes(
+            Array.from(this.instances.keys()),
+            this.mounts,
+        );
+
+        const handlers: ExpressRouteHandler[] = [];
+        const seen = new Set<string>();
+
+        for (const definition of this.definitions) {
+            const routerPrefixes = prefixes.get(definition.routerId) ?? ["/"];
+
+            for (const prefix of routerPrefixes) {
+                const routePath = joinRoutePaths(prefix, definition.path);
+
+                for (const method of definition.methods) {
+                    const key = `${method} ${routePath}`;
+                    if (seen.has(key)) {
+                        continue;
+                    }
+                    seen.add(key);
+
+                    handlers.push({
+                        path: routePath,
+                        method,
+                        file: definition.file,
+                        line: definition.line,
+                        handlerName: definition.handlerName,
+                        headers: definition.headers,
+                        queryParams: definition.queryParams,
+                        bodyExample: shouldIncludeBody(method)
+                            ? definition.bodyExample
+                            : undefined,
+                        bodyType: shouldIncludeBody(method)
+                            ? definition.bodyType
+                            : undefined,
+                    });
+                }
+            }
+        }
+
+        return handlers;
+    }
+
+    /**
+     * Convert handlers to ParsedRoute format
+     */
+    private convertToRoutes(handlers: ExpressRouteHandler[]): ParsedRoute[] {
+        return handlers.map((handler) => ({
+            name: `${handler.method} ${handler.path}`,
+            path: handler.path,
+            method: handler.method,
+            filePath: this.joinPath(handler.file),
+            handlerFunction: handler.handlerName,
+            type: "express" as const,
+            headers:
+                Object.keys(handler.headers).length > 0
+                    ? handler.headers
+                    : undefined,
+            query: handler.queryParams,
+            body: handler.bodyExample,
+            bodyType: handler.bodyType,
+        }));
+    }
+}
+
+// =============================================================================
+// Backward-compatible function exports
+// =============================================================================
+
+/**
+ * Detect if directory has Express
+ * @param rootDir - The root directory to check
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function hasExpress(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<boolean> {
+    const parser = new ExpressParser(rootDir, options);
+    return parser.detect();
+}
+
+/**
+ * Parse Express apps and routers using AST analysis
+ * @param rootDir - The root directory to parse routes from
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function parseExpressRoutes(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<ParsedRoute[]> {
+    const parser = new ExpressParser(rootDir, options);
+    return parser.parse();
+}
@@ -0,0 +1,47 @@
+/**
+ * Express parser types
+ */
+
+import type { HttpMethod } from "../lib/constants";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
+
+/**
+ * Express application or router instance
+ */
+export interface ExpressRouterInstance {
+	id: string;
+	kind: "app" | "router";
+	name: string;
+	file: string;
+}
+
+/**
+ * Route registered directly on an app or router (before prefix resolution)
+ */
+export interface ExpressRouteDefinition {
+	routerId: string;
+	path: string;
+	methods: HttpMethod[];
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	bodyType?: ZodTypeInfo;
+}
+
+/**
+ * Parsed Express route handler with its full path
+ */
+export interface ExpressRouteHandler {
+	path: string;
+	method: HttpMethod;
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	bodyType?: ZodTypeInfo;
+}
@@ -0,0 +1,46 @@
+/**
+ * Fastify parser constants
+ */
+
+import { HTTP_METHODS } from "../lib/constants";
+import type { HttpMethod } from "../lib/constants";
+
+/**
+ * Default patterns for Fastify source files
+ */
+export const DEFAULT_FASTIFY_INCLUDE = [
+	"*.{ts,js,mjs,cjs}",
+	"src/**/*.{ts,js,mjs,cjs}",
+	"server/**/*.{ts,js,mjs,cjs}",
+	"routes/**/*.{ts,js,mjs,cjs}",
+	"plugins/**/*.{ts,js,mjs,cjs}",
+];
+
+/**
+ * Factory calls that create a Fastify instance
+ */
+export const FASTIFY_FACTORIES = ["fastify", "Fastify", "fastify.default", "Fastify.default"];
+
+/**
+ * Wrappers that skip plugin encapsulation (routes inherit the parent prefix)
+ */
+export const FASTIFY_PLUGIN_WRAPPERS = ["fp", "fastifyPlugin"];
+
+/**
+ * Type name identifying a plugin's instance parameter
+ */
+export const FASTIFY_INSTANCE_TYPE = "FastifyInstance";
+
+/**
+ * Shorthand route method names mapped to HTTP methods
+ */
+export const FASTIFY_ROUTE_METHODS: Record<string, HttpMethod | HttpMethod[]> = {
+	get: "GET",
+	post: "POST",
+	put: "PUT",
+	patch: "PATCH",
+	delete: "DELETE",
+	head: "HEAD",
+	options: "OPTIONS",
+	all: [...HTTP_METHODS],
+};
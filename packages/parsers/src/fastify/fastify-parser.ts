@@ -0,0 +1,715 @@
+/**
+ * Fastify route parser with AST-based detection
+ * Resolves shorthand/route() registrations and register() plugin prefixes into full paths
+ * Note: This module is decoupled from vscode - all functions accept rootDir as parameter
+ */
+
+import {
+    CallExpression,
+    Node,
+    ObjectLiteralExpression,
+    SourceFile,
+    SyntaxKind,
+} from "ts-morph";
+
+import { HTTP_METHODS, type HttpMethod } from "../lib/constants";
+import type { ParsedRoute, ParserOptions } from "../lib/types";
+import { BaseParser } from "../shared/base-parser";
+import {
+    extractBodyFromJsonSchema,
+    extractJsonSchemaTypeInfo,
+    extractQueryParamsFromJsonSchema,
+} from "../shared/json-schema-parser";
+import {
+    analyzeHandler,
+    extractBodyFromHandler,
+    extractBodyTypeFromHandler,
+    shouldIncludeBody,
+} from "../shared/next-shared";
+import {
+    getHandlerName,
+    getNodeKey,
+    joinRoutePaths,
+    resolveHandlerNode,
+    resolveMountPrefixes,
+    resolveStaticString,
+    resolveStaticStrings,
+    resolveValueDeclaration,
+    unwrapExpression,
+    type RouteMountEdge,
+} from "../shared/server-shared";
+import {
+    extractBodyFromSchema,
+    extractQueryParamsFromSchema,
+    extractTypeInfoFromSchema,
+    type ZodTypeInfo,
+} from "../shared/zod-schema-parser";
+
+import {
+    DEFAULT_FASTIFY_INCLUDE,
+    FASTIFY_FACTORIES,
+    FASTIFY_INSTANCE_TYPE,
+    FASTIFY_PLUGIN_WRAPPERS,
+    FASTIFY_ROUTE_METHODS,
+} from "./fastify-constants";
+import type {
+    FastifyRouteDefinition,
+    FastifyRouteHandler,
+    FastifyScope,
+} from "./fastify-types";
+
+/**
+ * Function-like nodes that can act as Fastify plugins
+ */
+type PluginFunction = Node & {
+    getParameters(): Node[];
+};
+
+/**
+ * Fastify Parser class for extracting routes from instances and plugins
+ */
+export class FastifyParser extends BaseParser {
+    private scopes = new Map<string, FastifyScope>();
+    private definitions: FastifyRouteDefinition[] = [];
+    private mounts: RouteMountEdge[] = [];
+
+    constructor(rootDir: string, options?: ParserOptions) {
+        super(
+            rootDir,
+            {
+                name: "Fastify",
+                debugPrefix: "fastify:parser",
+                dependencies: ["fastify"],
+                filePatterns: DEFAULT_FASTIFY_INCLUDE,
+                requiresTsConfig: false,
+                allowJs: true,
+            },
+            options,
+        );
+    }
+
+    /**
+     * Parse Fastify routes from instances and plugins
+     */
+    protected async parseRoutes(): Promise<ParsedRoute[]> {
+        this.scopes.clear();
+        this.definitions = [];
+        this.mounts = [];
+
+        // Resolving require()/import() can pull new files into the project,
+        // so keep scanning until no unscanned file is left
+        const scanned = new Set<string>();
+        let pending = this.getSourceFiles();
+        this.debug(`Found ${pending.length} source file(s)`);
+
+        while (pending.length > 0) {
+            for (const file of pending) {
+                scanned.add(file.getFilePath());
+                this.debug(
+                    `Scanning file ${this.relativePath(file.getFilePath())}`,
+                );
+                this.scanFile(file);
+            }
+            pending = this.getSourceFiles().filter(
+                (file) => !scanned.has(file.getFilePath()),
+            );
+        }
+
+        this.debug(
+            `Found ${this.scopes.size} instance/plugin scope(s), ${this.mounts.length} register call(s)`,
+        );
+
+        return this.convertToRoutes(this.resolveHandlers());
+    }
+
+    /**
+     * Scan a file for route registrations and plugin registrations
+     */
+    private scanFile(sourceFile: SourceFile): void {
+        const calls = sourceFile.getDescendantsOfKind(
+            SyntaxKind.CallExpression,
+        );
+
+        for (const call of calls) {
+            const expression = call.getExpression();
+            if (!Node.isPropertyAccessExpression(expression)) {
+                continue;
+            }
+
+            const name = expression.getName();
+            const receiver = expression.getExpression();
+
+            if (name === "register") {
+                this.collectRegister(call, receiver);
+            } else if (name === "route") {
+                this.collectFullRoute(call, receiver);
+            } else if (FASTIFY_ROUTE_METHODS[name]) {
+                this.collectShorthandRoute(call, name, receiver);
+            }
+        }
+    }
+
+    /**
+     * Collect a shorthand route: fastify.get(path, [options], handler)
+     */
+    private collectShorthandRoute(
+        call: CallExpression,
+        methodName: string,
+        receiver: Node,
+    ): void {
+        const scope = this.resolveScope(receiver);
+        const args = call.getArguments();
+        if (!scope || args.length < 2) {
+            return;
+        }
+
+        const paths = resolveStaticStrings(args[0]);
+        if (paths.length === 0) {
+            this.debug(
+                `Skipping ${methodName} on '${scope.name}' at line ${call.getStartLineNumber()} (dynamic path)`,
+            );
+            return;
+        }
+
+        const mapped = FASTIFY_ROUTE_METHODS[methodName];
+        const methods = Array.isArray(mapped) ? mapped : [mapped];
+        const options = args.length > 2 ? args[1] : args[args.length - 1];
+        const optionsLiteral = this.asObjectLiteral(options);
+        const handlerArg =
+            args.length > 2
+                ? args[args.length - 1]
+                : optionsLiteral
+                  ? this.getProperty(optionsLiteral, "handler")
+                  : args[1];
+
+        this.addDefinition(scope, paths, methods, call, optionsLiteral, handlerArg);
+    }
+
+    /**
+     * Collect a full declaration: fastify.route({ method, url, handler })
+     */
+    private collectFullRoute(call: CallExpression, receiver: Node): void {
+        const scope = this.resolveScope(receiver);
+        const options = call.getArguments()[0];
+        const optionsLiteral = options ? this.asObjectLiteral(options) : undefined;
+        if (!scope || !optionsLiteral) {
+            return;
+        }
+
+        const urlNode =
+            this.getProperty(optionsLiteral, "url") ??
+            this.getProperty(optionsLiteral, "path");
+        const methodNode = this.getProperty(optionsLiteral, "method");
+        const paths = urlNode ? resolveStaticStrings(urlNode) : [];
+        const methods = methodNode
+            ? resolveStaticStrings(methodNode)
+                  .map((method) => method.toUpperCase())
+                  .filter((method): method is HttpMethod =>
+                      HTTP_METHODS.includes(method as HttpMethod),
+                  )
+            : [];
+
+        if (paths.length === 0 || methods.length === 0) {
+            this.debug(
+                `Skipping route() on '${scope.name}' at line ${call.getStartLineNumber()} (dynamic url or method)`,
+            );
+            return;
+        }
+
+        this.addDefinition(
+            scope,
+            paths,
+            methods,
+            call,
+            optionsLiteral,
+            this.getProperty(optionsLiteral, "handler"),
+        );
+    }
+
+    /**
+     * Collect a plugin registration: fastify.register(plugin, { prefix })
+     */
+    private collectRegister(call: CallExpression, receiver: Node): void {
+        const parent = this.resolveScope(receiver);
+        const [pluginArg, optionsArg] = call.getArguments();
+        if (!parent || !pluginArg) {
+            return;
+        }
+
+        const plugin = this.resolvePlugin(pluginArg);
+        if (!plugin) {
+            return;
+        }
+
+        const optionsLiteral = optionsArg
+            ? this.asObjectLiteral(optionsArg)
+            : undefined;
+        const prefixNode = optionsLiteral
+            ? this.getProperty(optionsLiteral, "prefix")
+            : undefined;
+        const prefix =
+            plugin.encapsulated && prefixNode
+                ? (resolveStaticString(prefixNode) ?? "")
+                : "";
+
+        const child = this.registerPlugin(plugin.fn);
+        this.mounts.push({ parent: parent.id, prefix, child: child.id });
+        this.debug(
+            `Registered plugin '${child.name}' with prefix '${prefix || "/"}' on '${parent.name}'`,
+        );
+    }
+
+    /**
+     * Resolve a register() argument to its plugin function
+     */
+    private resolvePlugin(
+        node: Node,
+    ): { fn: PluginFunction; encapsulated: boolean } | undefined {
+        let target = unwrapExpression(node);
+        let encapsulated = true;
+
+        // fp(plugin) skips encapsulation, so prefixes do not apply
+        if (
+            Node.isCallExpression(target) &&
+            FASTIFY_PLUGIN_WRAPPERS.includes(target.getExpression().getText())
+        ) {
+            encapsulated = false;
+            const [inner] = target.getArguments();
+            if (!inner) {
+                return undefined;
+            }
+            target = unwrapExpression(inner);
+        }
+
+        const declaration = resolveValueDeclaration(target);
+        if (!declaration) {
+            return undefined;
+        }
+
+        if (Node.isVariableDeclaration(declaration)) {
+            const initializer = declaration.getInitializer();
+            if (!initializer) {
+                return undefined;
+            }
+            const resolved = this.resolvePlugin(initializer);
+            return resolved
+                ? {
+                      fn: resolved.fn,
+                      encapsulated: encapsulated && resolved.encapsulated,
+                  }
+                : undefined;
+        }
+
+        if (this.isPluginFunction(declaration)) {
+            return { fn: declaration, encapsulated };
+        }
+
+        if (declaration !== target) {
+            return this.resolvePlugin(declaration);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolve an expression to a Fastify instance or plugin scope
+     */
+    private resolveScope(node: Node): FastifyScope | undefined {
+        const declaration = resolveValueDeclaration(node);
+        if (!declaration) {
+            return undefined;
+        }
+
+        if (Node.isParameterDeclaration(declaration)) {
+            const fn = declaration.getParent();
+            if (
+                !this.isPluginFunction(fn) ||
+                fn.getParameters()[0] !== declaration
+            ) {
+                return undefined;
+            }
+            return this.registerPlugin(fn);
+        }
+
+        if (!Node.isVariableDeclaration(declaration)) {
+            return undefined;
+        }
+
+        const id = getNodeKey(declaration);
+        const existing = this.scopes.get(id);
+        if (existing) {
+            return existing;
+        }
+
+        const initializer = declaration.getInitializer();
+        const factoryCall = initializer
+            ? unwrapExpression(initializer)
+            : undefined;
+        if (
+            !factoryCall ||
+            !Node.isCallExpression(factoryCall) ||
+            !this.isFastifyFactory(factoryCall)
+        ) {
+            return undefined;
+        }
+
+        const scope: FastifyScope = {
+            id,
+            kind: "instance",
+            name: declaration.getName(),
+            file: this.relativePath(declaration.getSourceFile().getFilePath()),
+            isTyped: true,
+        };
+        this.scopes.set(id, scope);
+        this.debug(`Found Fastify instance '${scope.name}' in ${scope.file}`);
+
+        return scope;
+    }
+
+    /**
+     * Register (or look up) the scope for a plugin function
+     */
+    private registerPlugin(fn: PluginFunction): FastifyScope {
+        const id = getNodeKey(fn);
+        const existing = this.scopes.get(id);
+        if (existing) {
+            return existing;
+        }
+
+        const instanceParam = fn.getParameters()[0];
+        const typeNode =
+            instanceParam && Node.isParameterDeclaration(instanceParam)
+                ? instanceParam.getTypeNode()
+                : undefined;
+
+        const scope: FastifyScope = {
+            id,
+            kind: "plugin",
+            name: this.getPluginName(fn),
+            file: this.relativePath(fn.getSourceFile().getFilePath()),
+            isTyped: typeNode?.getText().includes(FASTIFY_INSTANCE_TYPE) ?? false,
+        };
+        this.scopes.set(id, scope);
+
+        return scope;
+    }
+
+    /**
+     * Record a route definition for every path it is registered under
+     */
+    private addDefinition(
+        scope: FastifyScope,
+        paths: string[],
+        methods: HttpMethod[],
+        call: CallExpression,
+        options: ObjectLiteralExpression | undefined,
+        handlerArg: Node | undefined,
+    ): void {
+        const handlerNode = handlerArg
+            ? resolveHandlerNode(handlerArg)
+            : undefined;
+        const analysis = handlerNode
+            ? analyzeHandler(
+                  handlerNode,
+                  this.debug,
+                  (h, d) => extractBodyFromHandler(h, d, extractBodyFromSchema),
+                  (h) =>
+                      extractBodyTypeFromHandler(
+                          h,
+                          extractBodyFromSchema,
+                          extractTypeInfoFromSchema,
+                      ),
+              )
+            : undefined;
+
+        const schema = options ? this.getRouteSchema(options) : undefined;
+        const bodyExample = schema?.bodyExample ?? analysis?.bodyExample;
+        const bodyType = schema?.bodyExample
+            ? schema.bodyType
+            : analysis?.bodyType;
+        const queryParams = schema?.queryParams ?? analysis?.queryParams;
+        const queryType = schema?.queryParams ? schema.queryType : undefined;
+
+        const headers = { ...(analysis?.headers ?? {}) };
+        if (bodyExample && !headers["Content-Type"]) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        for (const routePath of paths) {
+            this.definitions.push({
+                scopeId: scope.id,
+                path: routePath,
+                methods,
+                file: this.relativePath(call.getSourceFile().getFilePath()),
+                line: call.getStartLineNumber(),
+                handlerName: getHandlerName(handlerArg),
+                headers,
+                queryParams,
+                bodyExample,
+                queryType,
+                bodyType,
+            });
+
+            this.debug(
+                `Found ${methods.join("|")} ${routePath} on '${scope.name}' (line ${call.getStartLineNumber()})`,
+            );
+        }
+    }
+
+    /**
+     * Extract body and query examples from the route `schema` option
+     * Supports JSON Schema literals and Zod schemas (type providers)
+     */
+    private getRouteSchema(
+        options: ObjectLiteralExpression,
+    ): {
+        bodyExample?: string;
+        queryParams?: Record<string, string>;
+        bodyType?: ZodTypeInfo;
+        queryType?: ZodTypeInfo;
+    } {
+        const schemaNode = this.getProperty(options, "schema");
+        const schema = schemaNode ? this.asObjectLiteral(schemaNode) : undefined;
+        if (!schema) {
+            return {};
+        }
+
+        const bodyNode = this.getProperty(schema, "body");
+        const queryNode =
+            this.getProperty(schema, "querystring") ??
+            this.getProperty(schema, "query");
+
+        const isZod = (node: Node) => /^z\./.test(node.getText());
+        const typeInfo = (node: Node) =>
+            isZod(node)
+                ? extractTypeInfoFromSchema(node)
+                : extractJsonSchemaTypeInfo(node);
+
+        const bodyExample = bodyNode
+            ? isZod(bodyNode)
+                ? extractBodyFromSchema(bodyNode)
+                : extractBodyFromJsonSchema(bodyNode)
+            : undefined;
+        const queryParams = queryNode
+            ? isZod(queryNode)
+                ? extractQueryParamsFromSchema(queryNode)
+                : extractQueryParamsFromJsonSchema(queryNode)
+            : undefined;
+
+        return {
+            bodyExample: bodyExample !== "{}" ? bodyExample : undefined,
+            queryParams,
+            bodyType: bodyNode ? typeInfo(bodyNode) : undefined,
+            queryType: queryNode ? typeInfo(queryNode) : undefined,
+        };
+    }
+
+    /**
+     * Combine route definitions with their resolved register prefixes
+     * Untyped plugins only count once they are registered somewhere
+     */
+    private resolveHandlers(): FastifyRouteHandler[] {
+        const registered = new Set(this.mounts.map((mount) => mount.child));
+        const prefixes = resolveMountPrefixes(
+            Array.from(this.scopes.keys()),
+            this.mounts,
+        );
+
+        const handlers: FastifyRouteHandler[] = [];
+        const seen = new Set<string>();
+
+        for (const definition of this.definitions) {
+            const scope = this.scopes.get(definition.scopeId);
+            if (!scope || (!scope.isTyped && !registered.has(scope.id))) {
+                continue;
+            }
+
+            const scopePrefixes = prefixes.get(definition.scopeId) ?? ["/"];
+
+            for (const prefix of scopePrefixes) {
+                const routePath = joinRoutePaths(prefix, definition.path);
+
+                for (const method of definition.methods) {
+                    const key = `${method} ${routePath}`;
+                    if (seen.has(key)) {
+                        continue;
+                    }
+                    seen.add(key);
+
+                    handlers.push({
+                        path: routePath,
+                        method,
+                        file: definition.file,
+                        line: definition.line,
+                        handlerName: definition.handlerName,
+                        headers: definition.headers,
+                        queryParams: definition.queryParams,
+                        bodyExample: shouldIncludeBody(method)
+                            ? definition.bodyExample
+                            : undefined,
+                        queryType: definition.queryType,
+                        bodyType: shouldIncludeBody(method)
+                            ? definition.bodyType
+                            : undefined,
+                    });
+                }
+            }
+        }
+
+        return handlers;
+    }
+
+    /**
+     * Check whether a call creates a Fastify instance
+     */
+    private isFastifyFactory(call: CallExpression): boolean {
+        const callee = unwrapExpression(call.getExpression());
+        if (FASTIFY_FACTORIES.includes(callee.getText())) {
+            return true;
+        }
+
+        // require('fastify')()
+        return (
+            Node.isCallExpression(callee) &&
+            callee.getExpression().getText() === "require" &&
+            resolveStaticString(callee.getArguments()[0] ?? callee) ===
+                "fastify"
+        );
+    }
+
+    /**
+     * Check whether a node is a function that can act as a plugin
+     */
+    private isPluginFunction(node: Node | undefined): node is PluginFunction {
+        return (
+            !!node &&
+            (Node.isFunctionDeclaration(node) ||
+                Node.isArrowFunction(node) ||
+                Node.isFunctionExpression(node)) &&
+            node.getParameters().length > 0
+        );
+    }
+
+    /**
+     * Get a readable name for a plugin function
+     */
+    private getPluginName(fn: PluginFunction): string {
+        if (Node.isFunctionDeclaration(fn) || Node.isFunctionExpression(fn)) {
+            const name = fn.getName();
+            if (name) {
+                return name;
+            }
+        }
+
+        const parent = fn.getParent();
+        if (parent && Node.isVariableDeclaration(parent)) {
+            return parent.getName();
+        }
+
+        return `plugin@${this.relativePath(fn.getSourceFile().getFilePath())}:${fn.getStartLineNumber()}`;
+    }
+
+    /**
+     * Resolve an options argument to an object literal
+     */
+    private asObjectLiteral(
+        node: Node | undefined,
+    ): ObjectLiteralExpression | undefined {
+        if (!node) {
+            return undefined;
+        }
+
+        const target = unwrapExpression(node);
+        if (Node.isObjectLiteralExpression(target)) {
+            return target;
+        }
+
+        const declaration = resolveValueDeclaration(target);
+        if (declaration && Node.isVariableDeclaration(declaration)) {
+            const initializer = declaration.getInitializer();
+            const unwrapped = initializer
+                ? unwrapExpression(initializer)
+                : undefined;
+            if (unwrapped && Node.isObjectLiteralExpression(unwrapped)) {
+                return unwrapped;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get a property initializer from an object literal (including shorthand)
+     */
+    private getProperty(
+        literal: ObjectLiteralExpression,
+        name: string,
+    ): Node | undefined {
+        const prop = literal.getProperty(name);
+        if (!prop) {
+            return undefined;
+        }
+        if (Node.isPropertyAssignment(prop)) {
+            return prop.getInitializer();
+        }
+        if (Node.isShorthandPropertyAssignment(prop)) {
+            return prop.getNameNode();
+        }
+        if (Node.isMethodDeclaration(prop)) {
+            return prop;
+        }
+        return undefined;
+    }
+
+    /**
+     * Convert handlers to ParsedRoute format
+     */
+    private convertToRoutes(handlers: FastifyRouteHandler[]): ParsedRoute[] {
+        return handlers.map((handler) => ({
+            name: `${handler.method} ${handler.path}`,
+            path: handler.path,
+            method: handler.method,
+            filePath: this.joinPath(handler.file),
+            handlerFunction: handler.handlerName,
+            type: "fastify" as const,
+            headers:
+                Object.keys(handler.headers).length > 0
+                    ? handler.headers
+                    : undefined,
+            query: handler.queryParams,
+            body: handler.bodyExample,
+            queryType: handler.queryType,
+            bodyType: handler.bodyType,
+        }));
+    }
+}
+
+// =============================================================================
+// Backward-compatible function exports
+// =============================================================================
+
+/**
+ * Detect if directory has Fastify
+ * @param rootDir - The root directory to check
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function hasFastify(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<boolean> {
+    const parser = new FastifyParser(rootDir, options);
+    return parser.detect();
+}
+
+/**
+ * Parse Fastify instances and plugins using AST analysis
+ * @param rootDir - The root directory to parse routes from
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function parseFastifyRoutes(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<ParsedRoute[]> {
+    const parser = new FastifyParser(rootDir, options);
+    return parser.parse();
+}
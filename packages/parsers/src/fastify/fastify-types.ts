@@ -0,0 +1,51 @@
+/**
+ * Fastify parser types
+ */
+
+import type { HttpMethod } from "../lib/constants";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
+
+/**
+ * Fastify root instance or plugin scope
+ */
+export interface FastifyScope {
+	id: string;
+	kind: "instance" | "plugin";
+	name: string;
+	file: string;
+	/** Plugin instance parameter is typed as FastifyInstance */
+	isTyped: boolean;
+}
+
+/**
+ * Route registered on an instance or plugin (before prefix resolution)
+ */
+export interface FastifyRouteDefinition {
+	scopeId: string;
+	path: string;
+	methods: HttpMethod[];
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
+}
+
+/**
+ * Parsed Fastify route handler with its full path
+ */
+export interface FastifyRouteHandler {
+	path: string;
+	method: HttpMethod;
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
+}
@@ -0,0 +1,51 @@
+/**
+ * Hono parser constants
+ */
+
+import { HTTP_METHODS } from "../lib/constants";
+import type { HttpMethod } from "../lib/constants";
+
+/**
+ * Default patterns for Hono source files (including edge function folders)
+ */
+export const DEFAULT_HONO_INCLUDE = [
+	"*.{ts,tsx,js,mjs}",
+	"src/**/*.{ts,tsx,js,mjs}",
+	"server/**/*.{ts,tsx,js,mjs}",
+	"routes/**/*.{ts,tsx,js,mjs}",
+	"api/**/*.{ts,tsx,js,mjs}",
+	"functions/**/*.{ts,tsx,js,mjs}",
+];
+
+/**
+ * Constructors that create a Hono application
+ */
+export const HONO_FACTORIES = ["Hono", "OpenAPIHono"];
+
+/**
+ * Builder method names mapped to HTTP methods
+ */
+export const HONO_ROUTE_METHODS: Record<string, HttpMethod | HttpMethod[]> = {
+	get: "GET",
+	post: "POST",
+	put: "PUT",
+	patch: "PATCH",
+	delete: "DELETE",
+	options: "OPTIONS",
+	all: [...HTTP_METHODS],
+};
+
+/**
+ * Validator middleware factories that take (target, schema)
+ */
+export const HONO_VALIDATORS = ["zValidator", "tbValidator", "validator"];
+
+/**
+ * Validator targets carrying a request body
+ */
+export const HONO_BODY_TARGETS = ["json", "form"];
+
+/**
+ * Validator target carrying query parameters
+ */
+export const HONO_QUERY_TARGET = "query";
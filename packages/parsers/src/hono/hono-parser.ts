@@ -0,0 +1,554 @@
+/**
+ * Hono route parser with AST-based detection
+ * Follows chained builders, app.route() mounts and basePath() prefixes
+ * Note: This module is decoupled from vscode - all functions accept rootDir as parameter
+ */
+
+import { CallExpression, Node, SourceFile, SyntaxKind } from "ts-morph";
+
+import { HTTP_METHODS, type HttpMethod } from "../lib/constants";
+import type { ParsedRoute, ParserOptions } from "../lib/types";
+import { BaseParser } from "../shared/base-parser";
+import {
+    analyzeHandler,
+    extractBodyFromHandler,
+    extractBodyTypeFromHandler,
+    shouldIncludeBody,
+} from "../shared/next-shared";
+import {
+    getBindingName,
+    getHandlerName,
+    getNodeKey,
+    joinRoutePaths,
+    resolveHandlerNode,
+    resolveMountPrefixes,
+    resolveStaticString,
+    resolveStaticStrings,
+    resolveValueDeclaration,
+    unwrapExpression,
+    type RouteMountEdge,
+} from "../shared/server-shared";
+import {
+    extractBodyFromSchema,
+    extractQueryParamsFromSchema,
+    extractTypeInfoFromSchema,
+    type ZodTypeInfo,
+} from "../shared/zod-schema-parser";
+
+import {
+    DEFAULT_HONO_INCLUDE,
+    HONO_BODY_TARGETS,
+    HONO_FACTORIES,
+    HONO_QUERY_TARGET,
+    HONO_ROUTE_METHODS,
+    HONO_VALIDATORS,
+} from "./hono-constants";
+import type {
+    HonoInstance,
+    HonoRouteDefinition,
+    HonoRouteHandler,
+} from "./hono-types";
+
+/**
+ * Hono Parser class for extracting routes from Hono applications
+ */
+export class HonoParser extends BaseParser {
+    private instances = new Map<string, HonoInstance>();
+    private definitions: HonoRouteDefinition[] = [];
+    private mounts: RouteMountEdge[] = [];
+
+    constructor(rootDir: string, options?: ParserOptions) {
+        super(
+            rootDir,
+            {
+                name: "Hono",
+                debugPrefix: "hono:parser",
+                dependencies: ["hono", "@hono/zod-openapi"],
+                filePatterns: DEFAULT_HONO_INCLUDE,
+                requiresTsConfig: false,
+                allowJs: true,
+            },
+            options,
+        );
+    }
+
+    /**
+     * Parse Hono routes from applications
+     */
+    protected async parseRoutes(): Promise<ParsedRoute[]> {
+        this.instances.clear();
+        this.definitions = [];
+        this.mounts = [];
+
+        // Resolving import() can pull new files into the project,
+        // so keep scanning until no unscanned file is left
+        const scanned = new Set<string>();
+        let pending = this.getSourceFiles();
+        this.debug(`Found ${pending.length} source file(s)`);
+
+        while (pending.length > 0) {
+            for (const file of pending) {
+                scanned.add(file.getFilePath());
+                this.debug(
+                    `Scanning file ${this.relativePath(file.getFilePath())}`,
+                );
+                this.scanFile(file);
+            }
+            pending = this.getSourceFiles().filter(
+                (file) => !scanned.has(file.getFilePath()),
+            );
+        }
+
+        this.debug(
+            `Found ${this.instances.size} app instance(s), ${this.mounts.length} mount(s)`,
+        );
+
+        return this.convertToRoutes(this.resolveHandlers());
+    }
+
+    /**
+     * Scan a file for route registrations and app.route() mounts
+     */
+    private scanFile(sourceFile: SourceFile): void {
+        const calls = sourceFile.getDescendantsOfKind(
+            SyntaxKind.CallExpression,
+        );
+
+        for (const call of calls) {
+            const expression = call.getExpression();
+            if (!Node.isPropertyAccessExpression(expression)) {
+                continue;
+            }
+
+            const name = expression.getName();
+            const receiver = expression.getExpression();
+
+            if (name === "route") {
+                this.collectMount(call, receiver);
+            } else if (name === "on") {
+                this.collectOnRoute(call, receiver);
+            } else if (HONO_ROUTE_METHODS[name]) {
+                this.collectRoute(call, name, receiver);
+            }
+        }
+    }
+
+    /**
+     * Collect a builder route: app.get(path, ...handlers) or chained .post(...handlers)
+     */
+    private collectRoute(
+        call: CallExpression,
+        methodName: string,
+        receiver: Node,
+    ): void {
+        const instance = this.resolveInstance(receiver);
+        const args = call.getArguments();
+        if (!instance || args.length === 0) {
+            return;
+        }
+
+        const mapped = HONO_ROUTE_METHODS[methodName];
+        const methods = Array.isArray(mapped) ? mapped : [mapped];
+
+        // app.get('/a', h).post(h2) reuses the previous path
+        const omitsPath = this.isHandlerLike(args[0]);
+        const paths = omitsPath
+            ? this.inheritPaths(receiver)
+            : resolveStaticStrings(args[0]);
+        const handlerArgs = omitsPath ? args : args.slice(1);
+
+        if (paths.length === 0 || handlerArgs.length === 0) {
+            this.debug(
+                `Skipping ${methodName} on '${instance.name}' at line ${call.getStartLineNumber()} (dynamic path)`,
+            );
+            return;
+        }
+
+        this.addDefinition(instance, paths, methods, call, handlerArgs);
+    }
+
+    /**
+     * Collect a custom-method route: app.on(method | methods, path | paths, ...handlers)
+     */
+    private collectOnRoute(call: CallExpression, receiver: Node): void {
+        const instance = this.resolveInstance(receiver);
+        const [methodArg, pathArg, ...handlerArgs] = call.getArguments();
+        if (!instance || !methodArg || !pathArg || handlerArgs.length === 0) {
+            return;
+        }
+
+        const methods = resolveStaticStrings(methodArg)
+            .map((method) => method.toUpperCase())
+            .filter((method): method is HttpMethod =>
+                HTTP_METHODS.includes(method as HttpMethod),
+            );
+        const paths = resolveStaticStrings(pathArg);
+        if (methods.length === 0 || paths.length === 0) {
+            return;
+        }
+
+        this.addDefinition(instance, paths, methods, call, handlerArgs);
+    }
+
+    /**
+     * Collect a sub-application mount: app.route('/prefix', subApp)
+     */
+    private collectMount(call: CallExpression, receiver: Node): void {
+        const [prefixArg, childArg] = call.getArguments();
+        if (!prefixArg || !childArg) {
+            return;
+        }
+
+        const parent = this.resolveInstance(receiver);
+        const child = this.resolveInstance(childArg);
+        const prefix = resolveStaticString(prefixArg);
+        if (!parent || !child || prefix === undefined) {
+            return;
+        }
+
+        this.mounts.push({ parent: parent.id, prefix, child: child.id });
+        this.debug(
+            `Mounted app '${child.name}' at '${prefix}' on '${parent.name}'`,
+        );
+    }
+
+    /**
+     * Resolve an expression to a Hono application instance
+     * Builder methods return the same app, basePath() derives a prefixed one
+     */
+    private resolveInstance(node: Node): HonoInstance | undefined {
+        const target = unwrapExpression(node);
+
+        if (Node.isNewExpression(target)) {
+            if (!HONO_FACTORIES.includes(target.getExpression().getText())) {
+                return undefined;
+            }
+            return this.getOrCreateInstance(target).instance;
+        }
+
+        if (Node.isCallExpression(target)) {
+            const expression = target.getExpression();
+            if (!Node.isPropertyAccessExpression(expression)) {
+                return undefined;
+            }
+
+            const parent = this.resolveInstance(expression.getExpression());
+            if (!parent || expression.getName() !== "basePath") {
+                return parent;
+            }
+
+            const { instance, created } = this.getOrCreateInstance(target);
+            if (created) {
+                const prefixArg = target.getArguments()[0];
+                const prefix = prefixArg ? resolveStaticString(prefixArg) : "";
+                this.mounts.push({
+                    parent: parent.id,
+                    prefix: prefix ?? "",
+                    child: instance.id,
+                });
+            }
+            return instance;
+        }
+
+        const declaration = resolveValueDeclaration(target);
+        if (!declaration || declaration === target) {
+            return undefined;
+        }
+
+        if (Node.isVariableDeclaration(declaration)) {
+            const initializer = declaration.getInitializer();
+            return initializer ? this.resolveInstance(initializer) : undefined;
+        }
+
+        if (
+            Node.isParameterDeclaration(declaration) ||
+            Node.isFunctionDeclaration(declaration)
+        ) {
+            return undefined;
+        }
+
+        return this.resolveInstance(declaration);
+    }
+
+    /**
+     * Look up or register the instance created by a node
+     */
+    private getOrCreateInstance(node: Node): {
+        instance: HonoInstance;
+        created: boolean;
+    } {
+        const id = getNodeKey(node);
+        const existing = this.instances.get(id);
+        if (existing) {
+            return { instance: existing, created: false };
+        }
+
+        const file = this.relativePath(node.getSourceFile().getFilePath());
+        const instance: HonoInstance = {
+            id,
+            name:
+                getBindingName(node) ?? `app@${file}:${node.getStartLineNumber()}`,
+            file,
+        };
+        this.instances.set(id, instance);
+        this.debug(`Found Hono app '${instance.name}' in ${file}`);
+
+        return { instance, created: true };
+    }
+
+    /**
+     * Find the path of the previous route in a builder chain
+     */
+    private inheritPaths(receiver: Node): string[] {
+        const target = unwrapExpression(receiver);
+        if (!Node.isCallExpression(target)) {
+            return [];
+        }
+
+        const expression = target.getExpression();
+        if (!Node.isPropertyAccessExpression(expression)) {
+            return [];
+        }
+
+        const name = expression.getName();
+        const args = target.getArguments();
+
+        if (name === "on" && args[1]) {
+            return resolveStaticStrings(args[1]);
+        }
+
+        if (HONO_ROUTE_METHODS[name] && args[0] && !this.isHandlerLike(args[0])) {
+            return resolveStaticStrings(args[0]);
+        }
+
+        return HONO_ROUTE_METHODS[name]
+            ? this.inheritPaths(expression.getExpression())
+            : [];
+    }
+
+    /**
+     * Check whether an argument is a handler/middleware rather than a path
+     */
+    private isHandlerLike(node: Node): boolean {
+        const target = unwrapExpression(node);
+        return (
+            Node.isArrowFunction(target) ||
+            Node.isFunctionExpression(target) ||
+            Node.isCallExpression(target)
+        );
+    }
+
+    /**
+     * Record a route definition for every path it is registered under
+     */
+    private addDefinition(
+        instance: HonoInstance,
+        paths: string[],
+        methods: HttpMethod[],
+        call: CallExpression,
+        handlerArgs: Node[],
+    ): void {
+        const handlerArg = handlerArgs[handlerArgs.length - 1];
+        const handlerNode = handlerArg
+            ? resolveHandlerNode(handlerArg)
+            : undefined;
+        const analysis = handlerNode
+            ? analyzeHandler(
+                  handlerNode,
+                  this.debug,
+                  (h, d) => extractBodyFromHandler(h, d, extractBodyFromSchema),
+                  (h) =>
+                      extractBodyTypeFromHandler(
+                          h,
+                          extractBodyFromSchema,
+                          extractTypeInfoFromSchema,
+                      ),
+              )
+            : undefined;
+
+        const validated = this.extractFromValidators(handlerArgs.slice(0, -1));
+        const bodyExample = validated.bodyExample ?? analysis?.bodyExample;
+        const bodyType = validated.bodyExample
+            ? validated.bodyType
+            : analysis?.bodyType;
+        const queryParams = validated.queryParams ?? analysis?.queryParams;
+
+        const headers = { ...(analysis?.headers ?? {}) };
+        if (bodyExample && !headers["Content-Type"]) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        for (const routePath of paths) {
+            this.definitions.push({
+                instanceId: instance.id,
+                path: routePath,
+                methods,
+                file: this.relativePath(call.getSourceFile().getFilePath()),
+                line: call.getStartLineNumber(),
+                handlerName: getHandlerName(handlerArg),
+                headers,
+                queryParams,
+                bodyExample,
+                queryType: validated.queryType,
+                bodyType,
+            });
+
+            this.debug(
+                `Found ${methods.join("|")} ${routePath} on '${instance.name}' (line ${call.getStartLineNumber()})`,
+            );
+        }
+    }
+
+    /**
+     * Extract body and query examples from zValidator('json' | 'query', schema) middleware
+     */
+    private extractFromValidators(middlewares: Node[]): {
+        bodyExample?: string;
+        queryParams?: Record<string, string>;
+        bodyType?: ZodTypeInfo;
+        queryType?: ZodTypeInfo;
+    } {
+        const result: {
+            bodyExample?: string;
+            queryParams?: Record<string, string>;
+            bodyType?: ZodTypeInfo;
+            queryType?: ZodTypeInfo;
+        } = {};
+
+        for (const middleware of middlewares) {
+            const target = unwrapExpression(middleware);
+            if (
+                !Node.isCallExpression(target) ||
+                !HONO_VALIDATORS.includes(target.getExpression().getText())
+            ) {
+                continue;
+            }
+
+            const [targetArg, schemaArg] = target.getArguments();
+            const validationTarget = targetArg
+                ? resolveStaticString(targetArg)
+                : undefined;
+            if (!validationTarget || !schemaArg) {
+                continue;
+            }
+
+            if (HONO_BODY_TARGETS.includes(validationTarget)) {
+                const bodyExample = extractBodyFromSchema(schemaArg);
+                if (bodyExample && bodyExample !== "{}") {
+                    this.debug(
+                        `Found ${validationTarget} validator body example`,
+                    );
+                    result.bodyExample = bodyExample;
+                    result.bodyType = extractTypeInfoFromSchema(schemaArg);
+                }
+            } else if (validationTarget === HONO_QUERY_TARGET) {
+                result.queryParams = extractQueryParamsFromSchema(schemaArg);
+                result.queryType = extractTypeInfoFromSchema(schemaArg);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Combine route definitions with their resolved mount prefixes
+     */
+    private resolveHandlers(): HonoRouteHandler[] {
+        const prefixes = resolveMountPrefixes(
+            Array.from(this.instances.keys()),
+            this.mounts,
+        );
+
+        const handlers: HonoRouteHandler[] = [];
+        const seen = new Set<string>();
+
+        for (const definition of this.definitions) {
+            const instancePrefixes = prefixes.get(definition.instanceId) ?? [
+                "/",
+            ];
+
+            for (const prefix of instancePrefixes) {
+                const routePath = joinRoutePaths(prefix, definition.path);
+
+                for (const method of definition.methods) {
+                    const key = `${method} ${routePath}`;
+                    if (seen.has(key)) {
+                        continue;
+                    }
+                    seen.add(key);
+
+                    handlers.push({
+                        path: routePath,
+                        method,
+                        file: definition.file,
+                        line: definition.line,
+                        handlerName: definition.handlerName,
+                        headers: definition.headers,
+                        queryParams: definition.queryParams,
+                        bodyExample: shouldIncludeBody(method)
+                            ? definition.bodyExample
+                            : undefined,
+                        queryType: definition.queryType,
+                        bodyType: shouldIncludeBody(method)
+                            ? definition.bodyType
+                            : undefined,
+                    });
+                }
+            }
+        }
+
+        return handlers;
+    }
+
+    /**
+     * Convert handlers to ParsedRoute format
+     */
+    private convertToRoutes(handlers: HonoRouteHandler[]): ParsedRoute[] {
+        return handlers.map((handler) => ({
+            name: `${handler.method} ${handler.path}`,
+            path: handler.path,
+            method: handler.method,
+            filePath: this.joinPath(handler.file),
+            handlerFunction: handler.handlerName,
+            type: "hono" as const,
+            headers:
+                Object.keys(handler.headers).length > 0
+                    ? handler.headers
+                    : undefined,
+            query: handler.queryParams,
+            body: handler.bodyExample,
+            queryType: handler.queryType,
+            bodyType: handler.bodyType,
+        }));
+    }
+}
+
+// =============================================================================
+// Backward-compatible function exports
+// =============================================================================
+
+/**
+ * Detect if directory has Hono
+ * @param rootDir - The root directory to check
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function hasHono(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<boolean> {
+    const parser = new HonoParser(rootDir, options);
+    return parser.detect();
+}
+
+/**
+ * Parse Hono applications using AST analysis
+ * @param rootDir - The root directory to parse routes from
+ * @param options - Optional parser options (e.g., custom logger)
+ */
+export async function parseHonoRoutes(
+    rootDir: string,
+    options?: ParserOptions,
+): Promise<ParsedRoute[]> {
+    const parser = new HonoParser(rootDir, options);
+    return parser.parse();
+}
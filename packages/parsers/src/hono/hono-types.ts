@@ -0,0 +1,48 @@
+/**
+ * Hono parser types
+ */
+
+import type { HttpMethod } from "../lib/constants";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
+
+/**
+ * Hono application (or basePath-derived application)
+ */
+export interface HonoInstance {
+	id: string;
+	name: string;
+	file: string;
+}
+
+/**
+ * Route registered on an application (before prefix resolution)
+ */
+export interface HonoRouteDefinition {
+	instanceId: string;
+	path: string;
+	methods: HttpMethod[];
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
+}
+
+/**
+ * Parsed Hono route handler with its full path
+ */
+export interface HonoRouteHandler {
+	path: string;
+	method: HttpMethod;
+	file: string;
+	line: number;
+	handlerName?: string;
+	headers: Record<string, string>;
+	queryParams?: Record<string, string>;
+	bodyExample?: string;
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
+}
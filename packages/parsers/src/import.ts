@@ -0,0 +1,154 @@
+/**
+ * Collection import utilities
+ * Detects Postman, Insomnia, Bruno and HAR sources and converts them into endpoint inputs
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { ValidationError } from "./lib/errors";
+import { isBrunoCollection, parseBrunoCollection } from "./importers/bruno-importer";
+import { isHar, parseHar } from "./importers/har-importer";
+import {
+    isInsomniaExport,
+    parseInsomniaExport,
+} from "./importers/insomnia-importer";
+import {
+    isPostmanCollection,
+    isPostmanEnvironment,
+    parsePostmanCollection,
+    parsePostmanEnvironment,
+} from "./importers/postman-importer";
+import type {
+    ImportedEnvironments,
+    ImportFormat,
+    ImportOptions,
+    ImportResult,
+} from "./importers/importer-types";
+
+/**
+ * Result of merging imported environments into an existing env file
+ */
+export interface MergeEnvironmentsResult {
+    environments: Record<string, Record<string, unknown>>;
+    /** Number of variables added */
+    added: number;
+    /** "env.key" entries whose existing value differs from the imported one (kept) */
+    conflicts: string[];
+}
+
+/**
+ * Detect the format of an import source
+ * @param source - Path to an export file, or a Bruno collection folder
+ * @returns The detected format, or undefined for unrecognised sources
+ */
+export async function detectImportFormat(
+    source: string,
+): Promise<ImportFormat | undefined> {
+    const stat = await fs.promises.stat(source);
+    if (stat.isDirectory()) {
+        return isBrunoCollection(source) ? "bruno" : undefined;
+    }
+
+    const content = await readJson(source).catch(() => undefined);
+    if (isPostmanCollection(content)) return "postman";
+    if (isInsomniaExport(content)) return "insomnia";
+    if (isHar(content)) return "har";
+    return undefined;
+}
+
+/**
+ * Check whether a file is a Postman environment export
+ */
+export async function isPostmanEnvironmentFile(source: string): Promise<boolean> {
+    return isPostmanEnvironment(await readJson(source).catch(() => undefined));
+}
+
+/**
+ * Import a collection from a file or Bruno folder
+ * @param source - Path to the export file or Bruno collection folder
+ * @param options - Format override and Postman environment files
+ * @returns Endpoint inputs, environments and conversion warnings
+ */
+export async function importCollection(
+    source: string,
+    options: ImportOptions = {},
+): Promise<ImportResult> {
+    if (!fs.existsSync(source)) {
+        throw new ValidationError(`Import source not found: ${source}`);
+    }
+    const format = options.format ?? (await detectImportFormat(source));
+    if (!format) {
+        throw new ValidationError(
+            `Unrecognised import source ${source}: expected a Postman v2.1 collection, Insomnia v4 export, HAR file or Bruno collection folder`,
+        );
+    }
+
+    let result: ImportResult;
+    switch (format) {
+        case "bruno":
+            result = await parseBrunoCollection(source);
+            break;
+        case "postman":
+            result = parsePostmanCollection(await readJson(source));
+            break;
+        case "insomnia":
+            result = parseInsomniaExport(await readJson(source));
+            break;
+        case "har":
+            result = parseHar(
+                await readJson(source),
+                path.basename(source, path.extname(source)),
+            );
+            break;
+    }
+
+    for (const file of options.environmentFiles ?? []) {
+        const environment = parsePostmanEnvironment(await readJson(file));
+        result.environments[environment.name] = {
+            ...(result.environments[environment.name] ?? {}),
+            ...environment.variables,
+        };
+    }
+
+    return result;
+}
+
+/**
+ * Merge imported environments into rest-client.env.json content
+ * Existing values are never overwritten; differing values are reported as conflicts
+ */
+export function mergeEnvironments(
+    existing: Record<string, Record<string, unknown>>,
+    imported: ImportedEnvironments,
+): MergeEnvironmentsResult {
+    const environments = { ...existing };
+    const conflicts: string[] = [];
+    let added = 0;
+
+    for (const [name, variables] of Object.entries(imported)) {
+        const target = { ...(environments[name] ?? {}) };
+        for (const [key, value] of Object.entries(variables)) {
+            if (!(key in target)) {
+                target[key] = value;
+                added++;
+            } else if (String(target[key]) !== value) {
+                conflicts.push(`${name}.${key}`);
+            }
+        }
+        environments[name] = target;
+    }
+
+    return { environments, added, conflicts };
+}
+
+async function readJson(file: string): Promise<unknown> {
+    const content = await fs.promises.readFile(file, "utf-8");
+    try {
+        return JSON.parse(content);
+    } catch (error) {
+        throw new ValidationError(
+            `Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+}
@@ -0,0 +1,467 @@
+/**
+ * Bruno collection importer
+ * Reads a collection folder (bruno.json, collection.bru, folder.bru, request
+ * .bru files and environments/*.bru); folders become name prefixes and
+ * vars:post-response captures become @set directives
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { ValidationError } from "../lib/errors";
+import type { CreateApiEndpointInput, SetDirective } from "../lib/types";
+import type {
+    ImportedAuth,
+    ImportedEnvironments,
+    ImportResult,
+} from "./importer-types";
+import {
+    SHARED_ENVIRONMENT,
+    addEnvironmentVariables,
+    encodeFormBody,
+    hasHeader,
+    prefixName,
+    toEndpointInput,
+} from "./importer-utils";
+
+/**
+ * Block of a .bru file, e.g. `headers { ... }` or `vars:secret [ ... ]`
+ */
+export interface BruBlock {
+    name: string;
+    /** `key: value` lines; entries prefixed with ~ are disabled */
+    entries: { key: string; value: string; enabled: boolean }[];
+    /** Raw content without the two-space indent (bodies, scripts, docs) */
+    text: string;
+}
+
+export type BruDocument = Map<string, BruBlock>;
+
+const HTTP_METHOD_BLOCKS = [
+    "get",
+    "post",
+    "put",
+    "patch",
+    "delete",
+    "head",
+    "options",
+    "connect",
+    "trace",
+];
+
+const BODY_BLOCKS: Record<string, { block: string; contentType?: string }> = {
+    json: { block: "body:json", contentType: "application/json" },
+    text: { block: "body:text", contentType: "text/plain" },
+    xml: { block: "body:xml", contentType: "application/xml" },
+    sparql: { block: "body:sparql", contentType: "application/sparql-query" },
+    formUrlEncoded: {
+        block: "body:form-urlencoded",
+        contentType: "application/x-www-form-urlencoded",
+    },
+    graphql: { block: "body:graphql", contentType: "application/json" },
+};
+
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+/**
+ * Parse the blocks of a .bru file
+ */
+export function parseBruFile(content: string): BruDocument {
+    const blocks: BruDocument = new Map();
+    const lines = content.replace(/\r\n/g, "\n").split("\n");
+
+    for (let i = 0; i < lines.length; i++) {
+        const header = /^([\w:.-]+)\s*([{[])\s*$/.exec(lines[i]);
+        if (!header) continue;
+
+        // Content is indented by two spaces, so the closing bracket is the first unindented one
+        const closing = header[2] === "{" ? "}" : "]";
+        const body: string[] = [];
+        for (i++; i < lines.length && lines[i].trimEnd() !== closing; i++) {
+            body.push(lines[i].replace(/^ {2}/, ""));
+        }
+
+        blocks.set(header[1], {
+            name: header[1],
+            entries: body.flatMap((line) => {
+                const trimmed = line.trim().replace(/,$/, "");
+                if (!trimmed) return [];
+                if (closing === "]") {
+                    return [{ key: trimmed, value: "", enabled: true }];
+                }
+                const entry = /^(~?)([^:]+?)\s*:\s?(.*)$/.exec(trimmed);
+                return entry
+                    ? [{ key: entry[2], value: entry[3], enabled: !entry[1] }]
+                    : [];
+            }),
+            text: body.join("\n").trim(),
+        });
+    }
+
+    return blocks;
+}
+
+/**
+ * Check whether a directory is a Bruno collection
+ */
+export function isBrunoCollection(dir: string): boolean {
+    return fs.existsSync(path.join(dir, "bruno.json"));
+}
+
+/**
+ * Convert a Bruno collection folder into endpoint inputs
+ */
+export async function parseBrunoCollection(
+    rootDir: string,
+): Promise<ImportResult> {
+    if (!isBrunoCollection(rootDir)) {
+        throw new ValidationError(
+            `Not a Bruno collection: ${rootDir} has no bruno.json`,
+        );
+    }
+
+    const warnings: string[] = [];
+    const endpoints: CreateApiEndpointInput[] = [];
+    const environments: ImportedEnvironments = {};
+
+    let name = path.basename(rootDir);
+    try {
+        const config = JSON.parse(
+            await fs.promises.readFile(path.join(rootDir, "bruno.json"), "utf-8"),
+        );
+        if (typeof config.name === "string") name = config.name;
+    } catch {
+        warnings.push("bruno.json could not be read; using the folder name");
+    }
+
+    const collection = await readBru(path.join(rootDir, "collection.bru"));
+    addEnvironmentVariables(
+        environments,
+        SHARED_ENVIRONMENT,
+        enabledEntries(collection?.get("vars:pre-request")),
+    );
+
+    const walk = async (
+        dir: string,
+        folders: string[],
+        inheritedHeaders: Record<string, string>,
+        inheritedAuth: ImportedAuth | undefined,
+    ): Promise<void> => {
+        const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        const requests: { file: string; document: BruDocument }[] = [];
+
+        for (const entry of entries) {
+            if (
+                !entry.isFile() ||
+                !entry.name.endsWith(".bru") ||
+                entry.name === "collection.bru" ||
+                entry.name === "folder.bru"
+            ) {
+                continue;
+            }
+            const document = await readBru(path.join(dir, entry.name));
+            if (document) requests.push({ file: entry.name, document });
+        }
+
+        requests.sort(
+            (a, b) =>
+                Number(meta(a.document).seq ?? Infinity) -
+                    Number(meta(b.document).seq ?? Infinity) ||
+                a.file.localeCompare(b.file),
+        );
+
+        for (const { file, document } of requests) {
+            const requestName = prefixName(
+                folders,
+                meta(document).name ?? path.basename(file, ".bru"),
+            );
+            const endpoint = convertRequest(
+                document,
+                requestName,
+                inheritedHeaders,
+                inheritedAuth,
+                environments,
+                warnings,
+            );
+            if (endpoint) endpoints.push(endpoint);
+        }
+
+        const subdirectories = entries
+            .filter(
+                (entry) =>
+                    entry.isDirectory() &&
+                    !IGNORED_DIRECTORIES.has(entry.name) &&
+                    !(dir === rootDir && entry.name === "environments"),
+            )
+            .sort((a, b) => a.name.localeCompare(b.name));
+        for (const subdirectory of subdirectories) {
+            const folderDir = path.join(dir, subdirectory.name);
+            const folder = await readBru(path.join(folderDir, "folder.bru"));
+            const folderName =
+                (folder && meta(folder).name) ?? subdirectory.name;
+            await walk(
+                folderDir,
+                [...folders, folderName],
+                { ...inheritedHeaders, ...enabledEntries(folder?.get("headers")) },
+                resolveAuth(folder, folderName, inheritedAuth, warnings),
+            );
+        }
+    };
+
+    await walk(
+        rootDir,
+        [],
+        enabledEntries(collection?.get("headers")),
+        resolveAuth(collection, name, undefined, warnings),
+    );
+
+    await readEnvironments(rootDir, environments, warnings);
+
+    return {
+        format: "bruno",
+        name,
+        endpoints,
+        environments,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+function convertRequest(
+    document: BruDocument,
+    name: string,
+    inheritedHeaders: Record<string, string>,
+    inheritedAuth: ImportedAuth | undefined,
+    environments: ImportedEnvironments,
+    warnings: string[],
+): CreateApiEndpointInput | undefined {
+    const methodBlock = HTTP_METHOD_BLOCKS.map((method) =>
+        document.get(method),
+    ).find(Boolean);
+    if (!methodBlock) {
+        warnings.push(`Skipped "${name}": no HTTP method block`);
+        return undefined;
+    }
+    const settings = enabledEntries(methodBlock);
+
+    const headers = {
+        ...inheritedHeaders,
+        ...enabledEntries(document.get("headers")),
+    };
+    const body = convertBody(document, settings.body, headers, name, warnings);
+
+    // The request's auth mode may inherit from folders and the collection
+    const auth =
+        settings.auth === "inherit" || settings.auth === undefined
+            ? inheritedAuth
+            : convertAuth(document, settings.auth, name, warnings);
+
+    addEnvironmentVariables(
+        environments,
+        SHARED_ENVIRONMENT,
+        enabledEntries(document.get("vars:pre-request")),
+    );
+    if (document.get("script:pre-request")?.text) {
+        warnings.push(`"${name}": pre-request scripts are not imported`);
+    }
+
+    return toEndpointInput(
+        {
+            name,
+            method: methodBlock.name,
+            url: settings.url ?? "",
+            query: enabledEntries(
+                document.get("params:query") ?? document.get("query"),
+            ),
+            pathParams: enabledEntries(document.get("params:path")),
+            headers,
+            body,
+            auth,
+            setDirectives: responseCaptures(document, name, warnings),
+        },
+        warnings,
+    );
+}
+
+function convertBody(
+    document: BruDocument,
+    mode: string | undefined,
+    headers: Record<string, string>,
+    requestName: string,
+    warnings: string[],
+): string | undefined {
+    if (!mode || mode === "none") return undefined;
+
+    const target = BODY_BLOCKS[mode];
+    if (!target) {
+        warnings.push(
+            `"${requestName}": ${mode} bodies are not supported; the body was dropped`,
+        );
+        return undefined;
+    }
+    const block = document.get(target.block);
+    if (!block) return undefined;
+
+    if (target.contentType && !hasHeader(headers, "Content-Type")) {
+        headers["Content-Type"] = target.contentType;
+    }
+
+    if (mode === "formUrlEncoded") {
+        return encodeFormBody(enabledEntries(block));
+    }
+    if (mode === "graphql") {
+        let variables: unknown;
+        const rawVariables = document.get("body:graphql:vars")?.text;
+        try {
+            variables = rawVariables ? JSON.parse(rawVariables) : undefined;
+        } catch {
+            warnings.push(
+                `"${requestName}": GraphQL variables are not valid JSON and were dropped`,
+            );
+        }
+        return JSON.stringify({ query: block.text, variables }, null, 2);
+    }
+    return block.text;
+}
+
+function resolveAuth(
+    document: BruDocument | undefined,
+    owner: string,
+    inheritedAuth: ImportedAuth | undefined,
+    warnings: string[],
+): ImportedAuth | undefined {
+    const mode = enabledEntries(document?.get("auth")).mode;
+    if (!document || !mode || mode === "inherit") return inheritedAuth;
+    return convertAuth(document, mode, owner, warnings);
+}
+
+function convertAuth(
+    document: BruDocument,
+    mode: string,
+    owner: string,
+    warnings: string[],
+): ImportedAuth | undefined {
+    const params = enabledEntries(document.get(`auth:${mode}`));
+
+    switch (mode) {
+        case "none":
+            return undefined;
+        case "bearer":
+            return { type: "bearer", token: params.token ?? "" };
+        case "basic":
+            return {
+                type: "basic",
+                username: params.username ?? "",
+                password: params.password ?? "",
+            };
+        case "apikey":
+            return {
+                type: "apikey",
+                key: params.key ?? "X-API-Key",
+                value: params.value ?? "",
+                in: params.placement === "queryparams" ? "query" : "header",
+            };
+        default:
+            warnings.push(
+                `"${owner}": ${mode} auth is not supported; configure it in the environment instead`,
+            );
+            return undefined;
+    }
+}
+
+/**
+ * vars:post-response entries such as `token: res.body.data.token`
+ */
+function responseCaptures(
+    document: BruDocument,
+    requestName: string,
+    warnings: string[],
+): SetDirective[] | undefined {
+    const directives: SetDirective[] = [];
+    for (const [varName, expression] of Object.entries(
+        enabledEntries(document.get("vars:post-response")),
+    )) {
+        const body = /^res\.body((?:\.\w+|\[\d+\])*)$/.exec(expression);
+        const shorthand = /^res\(\s*(["'])([\w.[\]]+)\1\s*\)$/.exec(expression);
+        const header =
+            /^res\.headers(?:\.([\w-]+)|\[\s*(["'])([^"']+)\2\s*\])$/.exec(
+                expression,
+            );
+
+        if (body) {
+            directives.push({ varName, responsePath: `response.body${body[1]}` });
+        } else if (shorthand) {
+            directives.push({
+                varName,
+                responsePath: `response.body.${shorthand[2]}`,
+            });
+        } else if (header) {
+            directives.push({
+                varName,
+                responsePath: `response.headers.${header[1] ?? header[3]}`,
+            });
+        } else {
+            warnings.push(
+                `"${requestName}": post-response variable "${varName}" could not be converted to @set`,
+            );
+        }
+    }
+    return directives.length > 0 ? directives : undefined;
+}
+
+async function readEnvironments(
+    rootDir: string,
+    environments: ImportedEnvironments,
+    warnings: string[],
+): Promise<void> {
+    const dir = path.join(rootDir, "environments");
+    let files: string[];
+    try {
+        files = (await fs.promises.readdir(dir)).filter((file) =>
+            file.endsWith(".bru"),
+        );
+    } catch {
+        return;
+    }
+
+    for (const file of files.sort()) {
+        const document = await readBru(path.join(dir, file));
+        if (!document) continue;
+        const name = path.basename(file, ".bru");
+
+        // Secret values never leave Bruno, so only their names are imported
+        const secrets = document
+            .get("vars:secret")
+            ?.entries.map((entry) => entry.key.replace(/^~/, ""));
+        if (secrets?.length) {
+            warnings.push(
+                `Environment "${name}": secret variables ${secrets.join(", ")} were imported without values`,
+            );
+        }
+
+        environments[name] = {
+            ...(environments[name] ?? {}),
+            ...Object.fromEntries((secrets ?? []).map((key) => [key, ""])),
+            ...enabledEntries(document.get("vars")),
+        };
+    }
+}
+
+async function readBru(file: string): Promise<BruDocument | undefined> {
+    try {
+        return parseBruFile(await fs.promises.readFile(file, "utf-8"));
+    } catch {
+        return undefined;
+    }
+}
+
+function meta(document: BruDocument): Record<string, string> {
+    return enabledEntries(document.get("meta"));
+}
+
+function enabledEntries(block: BruBlock | undefined): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const entry of block?.entries ?? []) {
+        if (entry.enabled) values[entry.key] = entry.value;
+    }
+    return values;
+}
@@ -0,0 +1,232 @@
+/**
+ * HAR capture importer
+ * Keeps API calls (XHR/fetch, or non-asset responses when the browser does not
+ * tag resource types), drops browser-generated headers, collapses calls to the
+ * same route and replaces a single origin with {{baseUrl}}
+ */
+
+import { ValidationError } from "../lib/errors";
+import type { CreateApiEndpointInput } from "../lib/types";
+import { humanizeRouteName } from "../lib/utils";
+import type { ImportedEnvironments, ImportResult } from "./importer-types";
+import {
+    SHARED_ENVIRONMENT,
+    addEnvironmentVariables,
+    encodeFormBody,
+    toEndpointInput,
+} from "./importer-utils";
+
+interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+interface HarEntry {
+    _resourceType?: string;
+    request: {
+        method: string;
+        url: string;
+        headers?: HarNameValue[];
+        postData?: {
+            mimeType?: string;
+            text?: string;
+            params?: (HarNameValue & { fileName?: string })[];
+        };
+    };
+    response?: { status?: number; content?: { mimeType?: string } };
+}
+
+interface Har {
+    log?: { creator?: { name?: string }; entries?: HarEntry[] };
+}
+
+/** Headers set by the browser or transport rather than the application */
+const IGNORED_HEADERS = new Set([
+    "accept-encoding",
+    "accept-language",
+    "cache-control",
+    "connection",
+    "content-length",
+    "cookie",
+    "dnt",
+    "host",
+    "if-modified-since",
+    "if-none-match",
+    "origin",
+    "pragma",
+    "priority",
+    "referer",
+    "te",
+    "upgrade-insecure-requests",
+    "user-agent",
+]);
+
+const API_RESOURCE_TYPES = new Set(["xhr", "fetch"]);
+
+const ASSET_EXTENSION =
+    /\.(?:js|mjs|css|map|png|jpe?g|gif|svg|webp|avif|ico|woff2?|ttf|otf|eot|mp4|webm|mp3|wasm)$/i;
+
+const ASSET_MIME_TYPE =
+    /^(?:image|font|audio|video)\/|^text\/(?:css|html|javascript)|javascript/i;
+
+/** Numeric ids, UUIDs and long hex ids that vary between calls to the same route */
+const ID_SEGMENT =
+    /^(?:\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24,})$/i;
+
+/**
+ * Check whether parsed JSON is a HAR capture
+ */
+export function isHar(content: unknown): boolean {
+    return Array.isArray((content as Har | null)?.log?.entries);
+}
+
+/**
+ * Convert a HAR capture into endpoint inputs
+ */
+export function parseHar(content: unknown, name = "HAR import"): ImportResult {
+    if (!isHar(content)) {
+        throw new ValidationError("Not a HAR file (expected log.entries)");
+    }
+
+    const entries = ((content as Har).log?.entries ?? []).filter(isApiCall);
+    const warnings: string[] = [];
+    const endpoints: CreateApiEndpointInput[] = [];
+    const environments: ImportedEnvironments = {};
+    const seen = new Set<string>();
+
+    const origins = new Set(entries.map((entry) => new URL(entry.request.url).origin));
+    const baseUrl = origins.size === 1 ? Array.from(origins)[0] : undefined;
+    if (baseUrl) {
+        addEnvironmentVariables(environments, SHARED_ENVIRONMENT, { baseUrl });
+    }
+
+    for (const entry of entries) {
+        const url = new URL(entry.request.url);
+        const template = templatePath(url.pathname);
+        const key = `${entry.request.method.toUpperCase()} ${url.origin}${template.path}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const origin = baseUrl ? "{{baseUrl}}" : url.origin;
+        const requestName = humanizeRouteName({
+            path: template.path,
+            method: entry.request.method,
+        });
+        const headers = convertHeaders(entry, warnings);
+
+        const endpoint = toEndpointInput(
+            {
+                name: requestName,
+                method: entry.request.method,
+                url: `${origin}${template.path}${url.search}`,
+                pathParams: template.params,
+                headers,
+                body: convertBody(entry, requestName, warnings),
+            },
+            warnings,
+        );
+        if (endpoint) endpoints.push(endpoint);
+    }
+
+    if (entries.length === 0) {
+        warnings.push("No API calls found (only static assets or non-HTTP entries)");
+    }
+
+    return {
+        format: "har",
+        name,
+        endpoints,
+        environments,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+function isApiCall(entry: HarEntry): boolean {
+    if (!/^https?:/i.test(entry.request?.url ?? "")) return false;
+    if (entry.request.method.toUpperCase() === "OPTIONS") return false;
+
+    // Chromium tags every entry with its resource type
+    if (entry._resourceType) {
+        return API_RESOURCE_TYPES.has(entry._resourceType.toLowerCase());
+    }
+
+    const { pathname } = new URL(entry.request.url);
+    const mimeType = entry.response?.content?.mimeType ?? "";
+    return !ASSET_EXTENSION.test(pathname) && !ASSET_MIME_TYPE.test(mimeType);
+}
+
+/**
+ * Replace id-like segments with :id params so repeated calls collapse
+ */
+function templatePath(pathname: string): {
+    path: string;
+    params: Record<string, string>;
+} {
+    const params: Record<string, string> = {};
+    const segments = pathname.split("/").map((segment) => {
+        if (!ID_SEGMENT.test(segment)) return segment;
+        const count = Object.keys(params).length;
+        const name = count === 0 ? "id" : `id${count + 1}`;
+        params[name] = segment;
+        return `:${name}`;
+    });
+    return { path: segments.join("/"), params };
+}
+
+function convertHeaders(
+    entry: HarEntry,
+    warnings: string[],
+): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const header of entry.request.headers ?? []) {
+        const lower = header.name.toLowerCase();
+        // HTTP/2 pseudo-headers (:authority, :path) and sec-* hints
+        if (
+            lower.startsWith(":") ||
+            lower.startsWith("sec-") ||
+            IGNORED_HEADERS.has(lower)
+        ) {
+            continue;
+        }
+
+        // Never copy captured credentials into the collection
+        if (lower === "authorization") {
+            const scheme = header.value.split(" ")[0];
+            headers[header.name] =
+                scheme && scheme !== header.value
+                    ? `${scheme} {{authToken}}`
+                    : "{{authToken}}";
+            warnings.push(
+                "Captured Authorization headers were replaced with {{authToken}}",
+            );
+            continue;
+        }
+        headers[header.name] = header.value;
+    }
+    return headers;
+}
+
+function convertBody(
+    entry: HarEntry,
+    requestName: string,
+    warnings: string[],
+): string | undefined {
+    const postData = entry.request.postData;
+    if (!postData) return undefined;
+
+    if (postData.mimeType?.startsWith("multipart/form-data")) {
+        warnings.push(
+            `"${requestName}": multipart bodies are not supported; the body was dropped`,
+        );
+        return undefined;
+    }
+    if (postData.text !== undefined) return postData.text;
+    if (postData.params?.length) {
+        return encodeFormBody(
+            Object.fromEntries(
+                postData.params.map((param) => [param.name, param.value]),
+            ),
+        );
+    }
+    return undefined;
+}
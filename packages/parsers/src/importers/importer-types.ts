@@ -0,0 +1,64 @@
+/**
+ * Importer types
+ */
+
+import type { CreateApiEndpointInput, SetDirective } from "../lib/types";
+
+export const IMPORT_FORMATS = ["postman", "insomnia", "bruno", "har"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/**
+ * Variables per environment, laid out like rest-client.env.json
+ * ("$shared" holds collection-level variables)
+ */
+export type ImportedEnvironments = Record<string, Record<string, string>>;
+
+/**
+ * Result of converting a foreign collection
+ */
+export interface ImportResult {
+	format: ImportFormat;
+	/** Collection name from the source */
+	name: string;
+	endpoints: CreateApiEndpointInput[];
+	environments: ImportedEnvironments;
+	/** Requests, auth schemes and scripts that could not be converted */
+	warnings: string[];
+}
+
+/**
+ * Options for importCollection
+ */
+export interface ImportOptions {
+	/** Skip format detection */
+	format?: ImportFormat;
+	/** Postman environment exports to merge into the result */
+	environmentFiles?: string[];
+}
+
+/**
+ * Auth settings shared by all sources, applied as headers or query parameters
+ */
+export type ImportedAuth =
+	| { type: "bearer"; token: string; prefix?: string }
+	| { type: "basic"; username: string; password: string }
+	| { type: "apikey"; key: string; value: string; in: "header" | "query" };
+
+/**
+ * Request in a source-neutral shape, before it becomes an endpoint
+ */
+export interface ImportedRequest {
+	/** Name including folder prefixes */
+	name: string;
+	method: string;
+	/** URL with {{variables}} and an optional query string */
+	url: string;
+	headers?: Record<string, string>;
+	query?: Record<string, string>;
+	/** Values for :param path segments */
+	pathParams?: Record<string, string>;
+	body?: string;
+	/** Resolved auth; null disables inherited auth */
+	auth?: ImportedAuth | null;
+	setDirectives?: SetDirective[];
+}
@@ -0,0 +1,222 @@
+/**
+ * Shared importer utilities
+ * Turn source-neutral requests into endpoint inputs
+ */
+
+import { HTTP_METHODS, type HttpMethod } from "../lib/constants";
+import type { CreateApiEndpointInput } from "../lib/types";
+import type {
+    ImportedAuth,
+    ImportedEnvironments,
+    ImportedRequest,
+} from "./importer-types";
+
+/** Environment holding collection-level variables */
+export const SHARED_ENVIRONMENT = "$shared";
+
+/**
+ * Convert a request into an endpoint input
+ * Returns undefined (and records a warning) for methods endpoints cannot hold
+ */
+export function toEndpointInput(
+    request: ImportedRequest,
+    warnings: string[],
+): CreateApiEndpointInput | undefined {
+    const method = request.method.toUpperCase();
+    if (!(HTTP_METHODS as readonly string[]).includes(method)) {
+        warnings.push(
+            `Skipped "${request.name}": unsupported method ${request.method}`,
+        );
+        return undefined;
+    }
+
+    if (!request.url.trim()) {
+        warnings.push(`Skipped "${request.name}": no URL`);
+        return undefined;
+    }
+
+    const { path, query } = splitUrl(request.url.trim());
+    const headers = { ...(request.headers ?? {}) };
+    const queryParams = { ...query, ...(request.query ?? {}) };
+    if (request.auth) {
+        applyAuth(request.auth, headers, queryParams, request.name, warnings);
+    }
+
+    return {
+        name: request.name,
+        method: method as HttpMethod,
+        // Keep :params in the template, send the example values
+        pathTemplate: path,
+        requestPath: fillPathParams(path, request.pathParams),
+        headersOverrides: nonEmpty(headers),
+        queryOverrides: nonEmpty(queryParams),
+        bodyOverrides: request.body?.trim() ? request.body : undefined,
+        setDirectivesOverrides: request.setDirectives?.length
+            ? request.setDirectives
+            : undefined,
+    };
+}
+
+/**
+ * Split a URL into its path (with origin) and decoded query parameters
+ */
+export function splitUrl(url: string): {
+    path: string;
+    query: Record<string, string>;
+} {
+    const withoutFragment = url.split("#")[0];
+    const queryIndex = withoutFragment.indexOf("?");
+    if (queryIndex === -1) {
+        return { path: withoutFragment, query: {} };
+    }
+
+    const query: Record<string, string> = {};
+    for (const pair of withoutFragment.slice(queryIndex + 1).split("&")) {
+        if (!pair) continue;
+        const [key, ...value] = pair.split("=");
+        query[safeDecode(key)] = safeDecode(value.join("="));
+    }
+    return { path: withoutFragment.slice(0, queryIndex), query };
+}
+
+/**
+ * Prefix a request name with its folders ("Users / Get user")
+ */
+export function prefixName(folders: string[], name: string): string {
+    return [...folders, name].filter(Boolean).join(" / ");
+}
+
+/**
+ * Add variables to an environment, creating it when needed
+ */
+export function addEnvironmentVariables(
+    environments: ImportedEnvironments,
+    name: string,
+    variables: Record<string, string>,
+): void {
+    if (Object.keys(variables).length === 0) return;
+    environments[name] = { ...(environments[name] ?? {}), ...variables };
+}
+
+/**
+ * Flatten nested variable objects into dot-separated string values
+ */
+export function flattenVariables(
+    data: Record<string, unknown>,
+    prefix = "",
+): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const [key, value] of Object.entries(data)) {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (value && typeof value === "object" && !Array.isArray(value)) {
+            Object.assign(
+                variables,
+                flattenVariables(value as Record<string, unknown>, name),
+            );
+        } else if (value !== undefined && value !== null) {
+            variables[name] =
+                typeof value === "string" ? value : JSON.stringify(value);
+        }
+    }
+    return variables;
+}
+
+/**
+ * Encode form fields as an application/x-www-form-urlencoded body,
+ * leaving {{variables}} readable
+ */
+export function encodeFormBody(fields: Record<string, string>): string {
+    return Object.entries(fields)
+        .map(([key, value]) => `${encodeFormValue(key)}=${encodeFormValue(value)}`)
+        .join("&");
+}
+
+/**
+ * Map every value of a string record
+ */
+export function mapValues(
+    record: Record<string, string>,
+    map: (value: string) => string,
+): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(record).map(([key, value]) => [key, map(value)]),
+    );
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+export function hasHeader(
+    headers: Record<string, string>,
+    name: string,
+): boolean {
+    const lower = name.toLowerCase();
+    return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
+
+function applyAuth(
+    auth: ImportedAuth,
+    headers: Record<string, string>,
+    query: Record<string, string>,
+    requestName: string,
+    warnings: string[],
+): void {
+    if (auth.type === "apikey") {
+        if (auth.in === "query") {
+            query[auth.key] ??= auth.value;
+        } else if (!hasHeader(headers, auth.key)) {
+            headers[auth.key] = auth.value;
+        }
+        return;
+    }
+
+    // An explicit Authorization header wins over inherited auth
+    if (hasHeader(headers, "Authorization")) return;
+
+    if (auth.type === "bearer") {
+        headers.Authorization = `${auth.prefix ?? "Bearer"} ${auth.token}`;
+        return;
+    }
+
+    // The encoded value cannot be built from variables at import time
+    if (/\{\{/.test(auth.username + auth.password)) {
+        warnings.push(
+            `"${requestName}": basic auth uses variables; add an Authorization header manually`,
+        );
+        return;
+    }
+    headers.Authorization = `Basic ${Buffer.from(
+        `${auth.username}:${auth.password}`,
+    ).toString("base64")}`;
+}
+
+function fillPathParams(
+    path: string,
+    params: Record<string, string> | undefined,
+): string {
+    if (!params) return path;
+    return path.replace(/\/:([A-Za-z_][\w-]*)(?=\/|$)/g, (segment, name) =>
+        params[name] ? `/${params[name]}` : segment,
+    );
+}
+
+function encodeFormValue(value: string): string {
+    return value
+        .split(/(\{\{.*?\}\})/)
+        .map((part) => (part.startsWith("{{") ? part : encodeURIComponent(part)))
+        .join("");
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, " "));
+    } catch {
+        return value;
+    }
+}
+
+function nonEmpty(
+    record: Record<string, string>,
+): Record<string, string> | undefined {
+    return Object.keys(record).length > 0 ? record : undefined;
+}
@@ -0,0 +1,279 @@
+/**
+ * Insomnia v4 export importer (JSON)
+ * Request groups become name prefixes; the base environment and request group
+ * variables go to $shared, sub-environments keep their names
+ */
+
+import { ValidationError } from "../lib/errors";
+import type { CreateApiEndpointInput } from "../lib/types";
+import type {
+    ImportedAuth,
+    ImportedEnvironments,
+    ImportResult,
+} from "./importer-types";
+import {
+    SHARED_ENVIRONMENT,
+    addEnvironmentVariables,
+    encodeFormBody,
+    flattenVariables,
+    hasHeader,
+    mapValues,
+    prefixName,
+    toEndpointInput,
+} from "./importer-utils";
+
+interface InsomniaPair {
+    name?: string;
+    value?: string;
+    disabled?: boolean;
+}
+
+interface InsomniaAuthentication {
+    type?: string;
+    disabled?: boolean;
+    token?: string;
+    prefix?: string;
+    username?: string;
+    password?: string;
+    key?: string;
+    value?: string;
+    addTo?: "header" | "queryParams";
+}
+
+interface InsomniaResource {
+    _id: string;
+    _type: string;
+    parentId?: string | null;
+    name?: string;
+    metaSortKey?: number;
+    // request
+    method?: string;
+    url?: string;
+    headers?: InsomniaPair[];
+    parameters?: InsomniaPair[];
+    body?: { mimeType?: string; text?: string; params?: InsomniaPair[] };
+    authentication?: InsomniaAuthentication;
+    // request_group and environment
+    environment?: Record<string, unknown>;
+    data?: Record<string, unknown>;
+}
+
+interface InsomniaExport {
+    _type?: string;
+    __export_format?: number;
+    resources?: InsomniaResource[];
+}
+
+const SKIPPED_RESOURCE_TYPES: Record<string, string> = {
+    grpc_request: "gRPC",
+    websocket_request: "WebSocket",
+};
+
+/**
+ * Check whether parsed JSON is an Insomnia v4 export
+ */
+export function isInsomniaExport(content: unknown): boolean {
+    const exported = content as InsomniaExport | null;
+    return (
+        exported?._type === "export" &&
+        exported.__export_format === 4 &&
+        Array.isArray(exported.resources)
+    );
+}
+
+/**
+ * Convert an Insomnia v4 export into endpoint inputs
+ */
+export function parseInsomniaExport(content: unknown): ImportResult {
+    if (!isInsomniaExport(content)) {
+        throw new ValidationError(
+            "Not an Insomnia v4 export (expected _type \"export\" and __export_format 4)",
+        );
+    }
+
+    const resources = (content as InsomniaExport).resources ?? [];
+    const warnings: string[] = [];
+    const endpoints: CreateApiEndpointInput[] = [];
+    const environments: ImportedEnvironments = {};
+    const byId = new Map(resources.map((resource) => [resource._id, resource]));
+    const workspace = resources.find(
+        (resource) => resource._type === "workspace",
+    );
+
+    // Base environments hang off the workspace, sub-environments off a base environment
+    for (const resource of resources) {
+        if (resource._type !== "environment") continue;
+        const variables = mapValues(
+            flattenVariables(resource.data ?? {}),
+            convertTemplate,
+        );
+        const parent = resource.parentId ? byId.get(resource.parentId) : undefined;
+        addEnvironmentVariables(
+            environments,
+            parent?._type === "environment"
+                ? resource.name ?? resource._id
+                : SHARED_ENVIRONMENT,
+            variables,
+        );
+    }
+
+    const requests = resources
+        .filter(
+            (resource) =>
+                resource._type === "request" ||
+                resource._type in SKIPPED_RESOURCE_TYPES,
+        )
+        .sort((a, b) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0));
+
+    for (const resource of requests) {
+        const groups = ancestors(resource, byId);
+        const name = prefixName(
+            groups.map((group) => group.name ?? "Untitled"),
+            resource.name ?? "Untitled",
+        );
+
+        if (resource._type !== "request") {
+            warnings.push(
+                `Skipped "${name}": ${SKIPPED_RESOURCE_TYPES[resource._type]} requests are not supported`,
+            );
+            continue;
+        }
+
+        // Request group environments apply to everything inside the group
+        for (const group of groups) {
+            addEnvironmentVariables(
+                environments,
+                SHARED_ENVIRONMENT,
+                mapValues(flattenVariables(group.environment ?? {}), convertTemplate),
+            );
+        }
+
+        const headers = pairs(resource.headers);
+        const body = convertBody(resource, headers, name, warnings);
+        const endpoint = toEndpointInput(
+            {
+                name,
+                method: resource.method ?? "GET",
+                url: convertTemplate(resource.url ?? ""),
+                headers: mapValues(headers, convertTemplate),
+                query: mapValues(pairs(resource.parameters), convertTemplate),
+                body,
+                auth: convertAuth(resource.authentication, name, warnings),
+            },
+            warnings,
+        );
+        if (endpoint) endpoints.push(endpoint);
+    }
+
+    for (const endpoint of endpoints) {
+        if (JSON.stringify(endpoint).includes("{%")) {
+            warnings.push(
+                `"${endpoint.name}": Insomnia template tags ({% %}) are not supported and were left as is`,
+            );
+        }
+    }
+
+    return {
+        format: "insomnia",
+        name: workspace?.name ?? "Insomnia collection",
+        endpoints,
+        environments,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+/**
+ * Convert Insomnia's Nunjucks variables ({{ _.baseUrl }}) to {{baseUrl}}
+ */
+function convertTemplate(text: string): string {
+    return text.replace(
+        /\{\{\s*(?:_\.)?([\w.-]+)\s*\}\}/g,
+        (_match, name: string) => `{{${name}}}`,
+    );
+}
+
+function convertBody(
+    resource: InsomniaResource,
+    headers: Record<string, string>,
+    requestName: string,
+    warnings: string[],
+): string | undefined {
+    const body = resource.body;
+    if (!body || (!body.text && !body.params)) return undefined;
+
+    if (body.mimeType === "application/x-www-form-urlencoded") {
+        return encodeFormBody(mapValues(pairs(body.params), convertTemplate));
+    }
+    if (body.mimeType === "multipart/form-data") {
+        warnings.push(
+            `"${requestName}": multipart bodies are not supported; the body was dropped`,
+        );
+        return undefined;
+    }
+    if (body.mimeType === "application/graphql" && body.text) {
+        // Insomnia stores GraphQL as {"query": ..., "variables": ...} and sends it as JSON
+        if (!hasHeader(headers, "Content-Type")) {
+            headers["Content-Type"] = "application/json";
+        }
+    } else if (body.mimeType && !hasHeader(headers, "Content-Type")) {
+        headers["Content-Type"] = body.mimeType;
+    }
+    return body.text === undefined ? undefined : convertTemplate(body.text);
+}
+
+function convertAuth(
+    auth: InsomniaAuthentication | undefined,
+    requestName: string,
+    warnings: string[],
+): ImportedAuth | undefined {
+    if (!auth?.type || auth.type === "none" || auth.disabled) return undefined;
+
+    switch (auth.type) {
+        case "bearer":
+            return {
+                type: "bearer",
+                token: convertTemplate(auth.token ?? ""),
+                prefix: auth.prefix || undefined,
+            };
+        case "basic":
+            return {
+                type: "basic",
+                username: convertTemplate(auth.username ?? ""),
+                password: convertTemplate(auth.password ?? ""),
+            };
+        case "apikey":
+            return {
+                type: "apikey",
+                key: auth.key ?? "X-API-Key",
+                value: convertTemplate(auth.value ?? ""),
+                in: auth.addTo === "queryParams" ? "query" : "header",
+            };
+        default:
+            warnings.push(
+                `"${requestName}": ${auth.type} auth is not supported; configure it in the environment instead`,
+            );
+            return undefined;
+    }
+}
+
+function ancestors(
+    resource: InsomniaResource,
+    byId: Map<string, InsomniaResource>,
+): InsomniaResource[] {
+    const groups: InsomniaResource[] = [];
+    let parent = resource.parentId ? byId.get(resource.parentId) : undefined;
+    while (parent?._type === "request_group") {
+        groups.unshift(parent);
+        parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return groups;
+}
+
+function pairs(entries: InsomniaPair[] | undefined): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const entry of entries ?? []) {
+        if (!entry.name || entry.disabled) continue;
+        values[entry.name] = entry.value ?? "";
+    }
+    return values;
+}
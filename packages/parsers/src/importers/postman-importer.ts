@@ -0,0 +1,498 @@
+/**
+ * Postman collection (v2.1 and v2.0) importer
+ * Folders become name prefixes, collection variables and static pre-request
+ * variables go to $shared, and test scripts that store response values become @set directives
+ */
+
+import { ValidationError } from "../lib/errors";
+import type { CreateApiEndpointInput, SetDirective } from "../lib/types";
+import type {
+    ImportedAuth,
+    ImportedEnvironments,
+    ImportResult,
+} from "./importer-types";
+import {
+    SHARED_ENVIRONMENT,
+    addEnvironmentVariables,
+    encodeFormBody,
+    hasHeader,
+    mapValues,
+    prefixName,
+    toEndpointInput,
+} from "./importer-utils";
+
+interface PostmanKeyValue {
+    key: string;
+    value?: unknown;
+    disabled?: boolean;
+    /** Environment exports mark disabled values with enabled: false */
+    enabled?: boolean;
+    type?: string;
+}
+
+/** v2.1 stores auth parameters as arrays, v2.0 as objects */
+type PostmanAuthParams = PostmanKeyValue[] | Record<string, unknown>;
+
+interface PostmanAuth {
+    type: string;
+    [scheme: string]: PostmanAuthParams | string | undefined;
+}
+
+interface PostmanEvent {
+    listen: "prerequest" | "test";
+    script?: { exec?: string[] | string };
+}
+
+interface PostmanUrl {
+    raw?: string;
+    protocol?: string;
+    host?: string[] | string;
+    port?: string;
+    path?: string[] | string;
+    query?: PostmanKeyValue[];
+    variable?: PostmanKeyValue[];
+}
+
+interface PostmanBody {
+    mode?: "raw" | "urlencoded" | "formdata" | "file" | "graphql";
+    raw?: string;
+    urlencoded?: PostmanKeyValue[];
+    formdata?: PostmanKeyValue[];
+    graphql?: { query?: string; variables?: string };
+    disabled?: boolean;
+    options?: { raw?: { language?: string } };
+}
+
+interface PostmanRequest {
+    method?: string;
+    url?: PostmanUrl | string;
+    header?: PostmanKeyValue[] | string;
+    body?: PostmanBody;
+    auth?: PostmanAuth;
+}
+
+interface PostmanItem {
+    name?: string;
+    item?: PostmanItem[];
+    request?: PostmanRequest | string;
+    auth?: PostmanAuth;
+    event?: PostmanEvent[];
+}
+
+interface PostmanCollection {
+    info?: { name?: string; schema?: string };
+    item?: PostmanItem[];
+    variable?: PostmanKeyValue[];
+    auth?: PostmanAuth;
+    event?: PostmanEvent[];
+}
+
+/** Postman dynamic variables with a REST Client equivalent */
+const DYNAMIC_VARIABLES: Record<string, string> = {
+    $guid: "$guid",
+    $randomUUID: "$guid",
+    $timestamp: "$timestamp",
+    $isoTimestamp: "$datetime iso8601",
+    $randomInt: "$randomInt 0 1000",
+};
+
+const SET_CALL =
+    /(?:pm\.(?:environment|collectionVariables|globals|variables)\.set|postman\.set(?:Environment|Global)Variable)\(\s*(["'`])([^"'`]+)\1\s*,\s*([^;\n]+?)\s*\)\s*;?\s*$/gm;
+
+/**
+ * Check whether parsed JSON is a Postman collection
+ */
+export function isPostmanCollection(content: unknown): boolean {
+    const collection = content as PostmanCollection | null;
+    return (
+        typeof collection?.info?.schema === "string" &&
+        collection.info.schema.includes("schema.getpostman.com") &&
+        Array.isArray(collection.item)
+    );
+}
+
+/**
+ * Check whether parsed JSON is a Postman environment export
+ */
+export function isPostmanEnvironment(content: unknown): boolean {
+    const environment = content as {
+        name?: unknown;
+        values?: unknown;
+        _postman_variable_scope?: unknown;
+    } | null;
+    return (
+        typeof environment?.name === "string" &&
+        Array.isArray(environment.values) &&
+        (environment._postman_variable_scope === undefined ||
+            environment._postman_variable_scope === "environment")
+    );
+}
+
+/**
+ * Convert a Postman collection into endpoint inputs
+ */
+export function parsePostmanCollection(content: unknown): ImportResult {
+    if (!isPostmanCollection(content)) {
+        throw new ValidationError(
+            "Not a Postman collection (expected info.schema from schema.getpostman.com)",
+        );
+    }
+
+    const collection = content as PostmanCollection;
+    const warnings: string[] = [];
+    const endpoints: CreateApiEndpointInput[] = [];
+    const environments: ImportedEnvironments = {};
+
+    addEnvironmentVariables(
+        environments,
+        SHARED_ENVIRONMENT,
+        keyValues(collection.variable),
+    );
+
+    // Pre-request variables are read once where the script is defined
+    const addScriptVariables = (events: PostmanEvent[] | undefined, owner: string) =>
+        addEnvironmentVariables(
+            environments,
+            SHARED_ENVIRONMENT,
+            scriptVariables(events ?? [], owner, warnings),
+        );
+
+    const walk = (
+        items: PostmanItem[],
+        folders: string[],
+        inheritedAuth: ImportedAuth | null | undefined,
+    ): void => {
+        for (const item of items) {
+            const name = item.name ?? "Untitled";
+            const fullName = prefixName(folders, name);
+            addScriptVariables(item.event, fullName);
+
+            if (Array.isArray(item.item)) {
+                const folderAuth =
+                    item.auth !== undefined
+                        ? convertAuth(item.auth, fullName, warnings)
+                        : inheritedAuth;
+                walk(item.item, [...folders, name], folderAuth);
+                continue;
+            }
+            if (item.request === undefined) continue;
+
+            const request: PostmanRequest =
+                typeof item.request === "string"
+                    ? { method: "GET", url: item.request }
+                    : item.request;
+            const auth =
+                request.auth !== undefined
+                    ? convertAuth(request.auth, fullName, warnings)
+                    : inheritedAuth;
+
+            const headers = keyValues(request.header);
+            const body = convertBody(request.body, headers, fullName, warnings);
+            const url = convertUrl(request.url);
+
+            const endpoint = toEndpointInput(
+                {
+                    name: fullName,
+                    method: request.method ?? "GET",
+                    url: convertDynamicVariables(url.url, fullName, warnings),
+                    query:
+                        url.query &&
+                        mapValues(url.query, (value) =>
+                            convertDynamicVariables(value, fullName, warnings),
+                        ),
+                    pathParams: url.pathParams,
+                    headers: mapValues(headers, (value) =>
+                        convertDynamicVariables(value, fullName, warnings),
+                    ),
+                    body:
+                        body === undefined
+                            ? undefined
+                            : convertDynamicVariables(body, fullName, warnings),
+                    auth,
+                    setDirectives: responseCaptures(item.event ?? [], fullName, warnings),
+                },
+                warnings,
+            );
+            if (endpoint) endpoints.push(endpoint);
+        }
+    };
+
+    const collectionName = collection.info?.name ?? "Postman collection";
+    addScriptVariables(collection.event, collectionName);
+    walk(
+        collection.item ?? [],
+        [],
+        collection.auth
+            ? convertAuth(collection.auth, collectionName, warnings)
+            : undefined,
+    );
+
+    return {
+        format: "postman",
+        name: collectionName,
+        endpoints,
+        environments,
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+/**
+ * Convert a Postman environment export into one named environment
+ */
+export function parsePostmanEnvironment(content: unknown): {
+    name: string;
+    variables: Record<string, string>;
+} {
+    if (!isPostmanEnvironment(content)) {
+        throw new ValidationError(
+            "Not a Postman environment (expected name and values)",
+        );
+    }
+    const environment = content as { name: string; values: PostmanKeyValue[] };
+    return {
+        name: environment.name,
+        variables: keyValues(environment.values),
+    };
+}
+
+function convertUrl(url: PostmanUrl | string | undefined): {
+    url: string;
+    query?: Record<string, string>;
+    pathParams?: Record<string, string>;
+} {
+    if (url === undefined) return { url: "" };
+    if (typeof url === "string") return { url };
+
+    // The structured query (which drops disabled params) wins over raw's query string
+    let base = url.raw?.split("?")[0];
+    if (!base) {
+        const host = Array.isArray(url.host) ? url.host.join(".") : url.host ?? "";
+        const path = Array.isArray(url.path) ? url.path.join("/") : url.path ?? "";
+        base = `${url.protocol ? `${url.protocol}://` : ""}${host}${
+            url.port ? `:${url.port}` : ""
+        }${path ? `/${path}` : ""}`;
+    }
+
+    return {
+        url: url.query ? base : url.raw ?? base,
+        query: url.query ? keyValues(url.query) : undefined,
+        pathParams: url.variable ? keyValues(url.variable) : undefined,
+    };
+}
+
+function convertBody(
+    body: PostmanBody | undefined,
+    headers: Record<string, string>,
+    requestName: string,
+    warnings: string[],
+): string | undefined {
+    if (!body?.mode || body.disabled) return undefined;
+
+    switch (body.mode) {
+        case "raw":
+            if (
+                body.options?.raw?.language === "json" &&
+                !hasHeader(headers, "Content-Type")
+            ) {
+                headers["Content-Type"] = "application/json";
+            }
+            return body.raw;
+        case "urlencoded":
+            if (!hasHeader(headers, "Content-Type")) {
+                headers["Content-Type"] = "application/x-www-form-urlencoded";
+            }
+            return encodeFormBody(keyValues(body.urlencoded));
+        case "graphql": {
+            if (!hasHeader(headers, "Content-Type")) {
+                headers["Content-Type"] = "application/json";
+            }
+            let variables: unknown;
+            try {
+                variables = body.graphql?.variables
+                    ? JSON.parse(body.graphql.variables)
+                    : undefined;
+            } catch {
+                warnings.push(
+                    `"${requestName}": GraphQL variables are not valid JSON and were dropped`,
+                );
+            }
+            return JSON.stringify(
+                { query: body.graphql?.query ?? "", variables },
+                null,
+                2,
+            );
+        }
+        default:
+            warnings.push(
+                `"${requestName}": ${body.mode} bodies are not supported; the body was dropped`,
+            );
+            return undefined;
+    }
+}
+
+function convertAuth(
+    auth: PostmanAuth,
+    owner: string,
+    warnings: string[],
+): ImportedAuth | null | undefined {
+    const params = authParams(auth[auth.type]);
+
+    switch (auth.type) {
+        case "noauth":
+            return null;
+        case "inherit":
+            return undefined;
+        case "bearer":
+            return { type: "bearer", token: params.token ?? "" };
+        case "basic":
+            return {
+                type: "basic",
+                username: params.username ?? "",
+                password: params.password ?? "",
+            };
+        case "apikey":
+            return {
+                type: "apikey",
+                key: params.key ?? "X-API-Key",
+                value: params.value ?? "",
+                in: params.in === "query" ? "query" : "header",
+            };
+        default:
+            warnings.push(
+                `"${owner}": ${auth.type} auth is not supported; configure it in the environment instead`,
+            );
+            return null;
+    }
+}
+
+function authParams(
+    params: PostmanAuthParams | string | undefined,
+): Record<string, string> {
+    if (!params || typeof params === "string") return {};
+    if (Array.isArray(params)) return keyValues(params, true);
+    return Object.fromEntries(
+        Object.entries(params).map(([key, value]) => [key, String(value)]),
+    );
+}
+
+/**
+ * Static values set by pre-request scripts, e.g. pm.environment.set("tenant", "acme")
+ */
+function scriptVariables(
+    events: PostmanEvent[],
+    owner: string,
+    warnings: string[],
+): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const source of scriptSources(events, "prerequest")) {
+        for (const [, , name, expression] of source.matchAll(SET_CALL)) {
+            const literal = /^(["'`])(.*)\1$/.exec(expression);
+            if (literal && !literal[2].includes("${")) {
+                variables[name] = literal[2];
+            } else {
+                warnings.push(
+                    `"${owner}": pre-request script sets "${name}" dynamically; it was not imported`,
+                );
+            }
+        }
+    }
+    return variables;
+}
+
+/**
+ * Test-script assignments from the response body or headers, e.g.
+ * pm.environment.set("token", pm.response.json().data.token)
+ */
+function responseCaptures(
+    events: PostmanEvent[],
+    requestName: string,
+    warnings: string[],
+): SetDirective[] | undefined {
+    const directives: SetDirective[] = [];
+    for (const source of scriptSources(events, "test")) {
+        // Variables holding the parsed body: const json = pm.response.json();
+        const aliases = Array.from(
+            source.matchAll(
+                /(?:const|let|var)\s+(\w+)\s*=\s*(?:pm\.response\.json\(\)|JSON\.parse\(responseBody\))/g,
+            ),
+            (match) => match[1],
+        );
+        const bodyRoot = [
+            "pm\\.response\\.json\\(\\)",
+            "JSON\\.parse\\(responseBody\\)",
+            ...aliases,
+        ].join("|");
+
+        for (const [, , name, expression] of source.matchAll(SET_CALL)) {
+            const body = new RegExp(
+                `^(?:${bodyRoot})((?:\\.\\w+|\\[\\d+\\])*)$`,
+            ).exec(expression);
+            const header =
+                /^pm\.response\.headers\.get\(\s*(["'])([^"']+)\1\s*\)$/.exec(
+                    expression,
+                );
+
+            if (body) {
+                directives.push({
+                    varName: name,
+                    responsePath: `response.body${body[1]}`,
+                });
+            } else if (header) {
+                directives.push({
+                    varName: name,
+                    responsePath: `response.headers.${header[2]}`,
+                });
+            } else if (!/^(["'`]).*\1$/.test(expression)) {
+                warnings.push(
+                    `"${requestName}": test script value for "${name}" could not be converted to @set`,
+                );
+            }
+        }
+    }
+    return directives.length > 0 ? directives : undefined;
+}
+
+function scriptSources(
+    events: PostmanEvent[],
+    listen: PostmanEvent["listen"],
+): string[] {
+    return events
+        .filter((event) => event.listen === listen)
+        .map((event) => {
+            const exec = event.script?.exec ?? [];
+            return Array.isArray(exec) ? exec.join("\n") : exec;
+        });
+}
+
+function convertDynamicVariables(
+    text: string,
+    requestName: string,
+    warnings: string[],
+): string {
+    return text.replace(/\{\{(\$\w+)\}\}/g, (match, name: string) => {
+        if (DYNAMIC_VARIABLES[name]) return `{{${DYNAMIC_VARIABLES[name]}}}`;
+        warnings.push(
+            `"${requestName}": Postman dynamic variable ${name} has no equivalent and was left as is`,
+        );
+        return match;
+    });
+}
+
+function keyValues(
+    entries: PostmanKeyValue[] | string | undefined,
+    includeDisabled = false,
+): Record<string, string> {
+    if (!Array.isArray(entries)) return {};
+    const values: Record<string, string> = {};
+    for (const entry of entries) {
+        const disabled = entry?.disabled || entry?.enabled === false;
+        if (!entry?.key || (disabled && !includeDisabled)) continue;
+        values[entry.key] =
+            entry.value === undefined || entry.value === null
+                ? ""
+                : typeof entry.value === "string"
+                  ? entry.value
+                  : JSON.stringify(entry.value);
+    }
+    return values;
+}
@@ -8,6 +8,10 @@ export * from "./next-pages/next-pages-parser";
 export * from "./nestjs/nestjs-parser";
 export * from "./trpc/trpc-parser";
 export * from "./payload-cms/payload-cms-parser";
+export * from "./express/express-parser";
+export * from "./fastify/fastify-parser";
+export * from "./hono/hono-parser";
+export * from "./elysia/elysia-parser";
 export * from "./shared/zod-schema-parser";
 
 // Base parser class for extending
@@ -17,8 +21,45 @@ export type { BaseParserConfig, DebugLogger } from "./shared/base-parser";
 // Detection and parsing utilities
 export * from "./detect";
 
+// Importers for Postman, Insomnia, Bruno and HAR
+export * from "./import";
+export { parsePostmanCollection, parsePostmanEnvironment } from "./importers/postman-importer";
+export { parseInsomniaExport } from "./importers/insomnia-importer";
+export { parseBruFile, parseBrunoCollection } from "./importers/bruno-importer";
+export type { BruBlock, BruDocument } from "./importers/bruno-importer";
+export { parseHar } from "./importers/har-importer";
+export { IMPORT_FORMATS } from "./importers/importer-types";
+export type {
+    ImportFormat,
+    ImportOptions,
+    ImportResult,
+    ImportedEnvironments,
+} from "./importers/importer-types";
+
+// Exporters for Postman, Insomnia, Bruno, OpenAPI and curl
+export * from "./export";
+export { exportPostman } from "./exporters/postman-exporter";
+export { exportInsomnia } from "./exporters/insomnia-exporter";
+export { exportBruno } from "./exporters/bruno-exporter";
+export { exportOpenApi, inferJsonSchema } from "./exporters/openapi-exporter";
+export { exportCurl } from "./exporters/curl-exporter";
+export { EXPORT_FORMATS } from "./exporters/exporter-types";
+export type {
+    CollectionExporter,
+    ExportCollection,
+    ExportedFile,
+    ExportEndpoint,
+    ExportFormat,
+    ExportOptions,
+    ExportResult,
+} from "./exporters/exporter-types";
+
+// OpenAPI 3.1 generation from parsed routes
+export * from "./openapi";
+
 // Types
 export type { ParsedRoute, ParserOptions } from "./lib/types";
+export type { CreateApiEndpointInput, SetDirective } from "./lib/types";
 
 // Logger exports for custom output handlers (e.g., VSCode OutputChannel)
 export { Logger, LogLevel } from "./lib/logger";
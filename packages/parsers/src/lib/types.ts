@@ -4,6 +4,7 @@
 
 import { HttpMethod } from "./constants";
 import type { Logger } from "./logger";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
 
 /**
  * Options for parser functions
@@ -13,6 +14,12 @@ export interface ParserOptions {
 	logger?: Logger;
 }
 
+// Set directive for extracting response values (@set varName = response.path)
+export interface SetDirective {
+	varName: string;
+	responsePath: string;
+}
+
 // API Endpoint types
 export interface ApiEndpoint {
 	id: string;
@@ -52,6 +59,7 @@ export interface CreateApiEndpointInput {
 	headersOverrides?: Record<string, string>;
 	querySchema?: Record<string, string>;
 	queryOverrides?: Record<string, string>;
+	setDirectivesOverrides?: SetDirective[];
 	// Deprecated fields (kept for backwards compatibility)
 	headers?: Record<string, string>;
 	body?: string;
@@ -107,8 +115,21 @@ export interface ParsedRoute {
 	method: HttpMethod;
 	filePath: string;
 	handlerName?: string; // For generating stable externalId
-	type: "nextjs-app" | "nextjs-page" | "trpc" | "nestjs" | "payload-cms";
+	handlerFunction?: string; // Handler function or controller method (for OpenAPI operationIds)
+	type:
+		| "nextjs-app"
+		| "nextjs-page"
+		| "trpc"
+		| "nestjs"
+		| "payload-cms"
+		| "express"
+		| "fastify"
+		| "hono"
+		| "elysia";
 	headers?: Record<string, string>;
 	query?: Record<string, string>;
 	body?: string;
+	// Structured request types from Zod/TypeBox schemas or DTO classes (for JSON Schema output)
+	queryType?: ZodTypeInfo;
+	bodyType?: ZodTypeInfo;
 }
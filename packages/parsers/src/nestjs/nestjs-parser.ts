@@ -19,6 +19,7 @@ import { FILE_PATTERNS } from "../lib/constants";
 import type { ParsedRoute, ParserOptions } from "../lib/types";
 import type { HttpMethod } from "../lib/constants";
 import { BaseParser } from "../shared/base-parser";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
 
 import {
     NESTJS_BODY_DECORATOR,
@@ -166,6 +167,14 @@ export class NestJsParser extends BaseParser {
                 const methodHeaders = this.extractHeadersFromMethod(method);
                 const bodyExample = this.extractBodyExample(method);
                 const queryParams = this.extractQueryExample(method);
+                const bodyType = this.extractParamsType(
+                    method,
+                    NESTJS_BODY_DECORATOR,
+                );
+                const queryType = this.extractParamsType(
+                    method,
+                    NESTJS_QUERY_DECORATOR,
+                );
 
                 for (const routeDecorator of routeDecorators) {
                     const decoratorPaths = this.extractDecoratorPaths(
@@ -209,9 +218,14 @@ export class NestJsParser extends BaseParser {
                                             sourceFile.getFilePath(),
                                         ),
                                         line: method.getStartLineNumber(),
+                                        handlerName: `${classDecl.getName() ?? "Controller"}.${method.getName()}`,
                                         headers: finalHeaders,
                                         queryParams: queryParams,
                                         bodyExample: effectiveBody,
+                                        queryType,
+                                        bodyType: effectiveBody
+                                            ? bodyType
+                                            : undefined,
                                     });
 
                                     this.debug(
@@ -564,6 +578,55 @@ export class NestJsParser extends BaseParser {
         return queryObject;
     }
 
+    /**
+     * Extract structured type info from @Body() or @Query() parameters
+     * Keyed decorators (@Query('page')) become properties; DTO types are merged
+     */
+    private extractParamsType(
+        method: MethodDeclaration,
+        decoratorName: string,
+    ): ZodTypeInfo | undefined {
+        const params = method.getParameters().flatMap((param) => {
+            const decorator = param.getDecorator(decoratorName);
+            return decorator ? [{ param, decorator }] : [];
+        });
+
+        if (params.length === 0) {
+            return undefined;
+        }
+
+        const children: Record<string, ZodTypeInfo> = {};
+
+        for (const entry of params) {
+            const typeInfo = this.typeToTypeInfo(
+                entry.param.getType(),
+                entry.param,
+                0,
+                new Set(),
+            );
+            if (entry.param.hasQuestionToken()) {
+                typeInfo.optional = true;
+            }
+            const decoratorArg = entry.decorator
+                .getCallExpression()
+                ?.getArguments()[0];
+            const key = decoratorArg
+                ? this.resolveStringLiteral(decoratorArg)
+                : undefined;
+
+            if (key) {
+                children[key] = typeInfo;
+            } else if (typeInfo.kind === "object" && typeInfo.children) {
+                Object.assign(children, typeInfo.children);
+            } else if (params.length === 1) {
+                // A single non-object body (e.g. @Body() ids: string[])
+                return typeInfo;
+            }
+        }
+
+        return { kind: "object", optional: false, nullable: false, children };
+    }
+
     /**
      * Serialize a value for query string
      */
@@ -698,6 +761,146 @@ export class NestJsParser extends BaseParser {
         return {};
     }
 
+    /**
+     * Convert a TypeScript type to structured type info (for JSON Schema output)
+     */
+    private typeToTypeInfo(
+        type: Type,
+        location: Node,
+        depth: number,
+        visited: Set<string>,
+    ): ZodTypeInfo {
+        const info: ZodTypeInfo = {
+            kind: "unknown",
+            optional: false,
+            nullable: false,
+        };
+
+        if (depth > 3) {
+            return { ...info, reason: "maximum depth reached" };
+        }
+
+        const literalValue = type.getLiteralValue();
+        if (literalValue !== undefined) {
+            return { ...info, kind: "literal", defaultValue: literalValue };
+        }
+
+        if (type.isString()) {
+            return { ...info, kind: "string" };
+        }
+        if (type.isNumber()) {
+            return { ...info, kind: "number" };
+        }
+        if (type.isBoolean()) {
+            return { ...info, kind: "boolean" };
+        }
+        if (type.isAny() || type.isUnknown()) {
+            return { ...info, reason: "untyped" };
+        }
+
+        if (type.isArray()) {
+            const element = type.getArrayElementType();
+            return {
+                ...info,
+                kind: "array",
+                items: element
+                    ? this.typeToTypeInfo(element, location, depth + 1, visited)
+                    : undefined,
+            };
+        }
+
+        if (type.isUnion()) {
+            const members = type.getUnionTypes();
+            const candidates = members.filter(
+                (member) => !member.isUndefined() && !member.isNull(),
+            );
+            const modifiers = {
+                optional: members.some((member) => member.isUndefined()),
+                nullable: members.some((member) => member.isNull()),
+            };
+
+            // boolean | undefined is a union of true, false and undefined
+            if (
+                candidates.length > 0 &&
+                candidates.every((member) => member.isBooleanLiteral())
+            ) {
+                return { ...info, ...modifiers, kind: "boolean" };
+            }
+
+            // Enums and literal unions ('a' | 'b')
+            const values = candidates.map((member) =>
+                member.getLiteralValue(),
+            );
+            if (
+                candidates.length > 1 &&
+                values.every((value) => value !== undefined)
+            ) {
+                return { ...info, ...modifiers, kind: "enum", values };
+            }
+
+            if (candidates.length > 0) {
+                return {
+                    ...this.typeToTypeInfo(
+                        candidates[0],
+                        location,
+                        depth + 1,
+                        visited,
+                    ),
+                    ...modifiers,
+                };
+            }
+        }
+
+        if (type.getSymbol()?.getName() === "Date") {
+            return { ...info, kind: "date" };
+        }
+
+        if (type.isObject()) {
+            const key = type.getText(location);
+            if (visited.has(key)) {
+                return { ...info, kind: "object" };
+            }
+            visited.add(key);
+
+            const children: Record<string, ZodTypeInfo> = {};
+
+            for (const prop of type.getProperties()) {
+                const name = prop.getName();
+                if (name.startsWith("__")) {
+                    continue;
+                }
+
+                const declaration =
+                    prop.getValueDeclaration() ?? prop.getDeclarations()[0];
+                if (
+                    declaration &&
+                    (Node.isMethodDeclaration(declaration) ||
+                        Node.isMethodSignature(declaration))
+                ) {
+                    continue;
+                }
+                const propType = prop.getTypeAtLocation(
+                    declaration ?? location,
+                );
+                const child = this.typeToTypeInfo(
+                    propType,
+                    declaration ?? location,
+                    depth + 1,
+                    visited,
+                );
+                if (prop.isOptional()) {
+                    child.optional = true;
+                }
+                children[name] = child;
+            }
+
+            visited.delete(key);
+            return { ...info, kind: "object", children };
+        }
+
+        return { ...info, reason: `unsupported type: ${type.getText(location)}` };
+    }
+
     /**
      * Extract a string literal from a node
      */
@@ -727,6 +930,7 @@ export class NestJsParser extends BaseParser {
             path: handler.path,
             method: handler.method,
             filePath: this.joinPath(handler.file),
+            handlerFunction: handler.handlerName,
             type: "nestjs",
             headers:
                 Object.keys(handler.headers).length > 0
@@ -734,6 +938,8 @@ export class NestJsParser extends BaseParser {
                     : undefined,
             query: handler.queryParams,
             body: handler.bodyExample,
+            queryType: handler.queryType,
+            bodyType: handler.bodyType,
         }));
     }
 
@@ -3,15 +3,19 @@
  */
 
 import type { HttpMethod } from "../lib/constants";
+import type { ZodTypeInfo } from "../shared/zod-schema-parser";
 
 export interface NestJsRouteHandler {
   path: string;
   method: HttpMethod;
   file: string;
   line: number;
+  handlerName?: string;
   headers: Record<string, string>;
   queryParams?: Record<string, string>;
   bodyExample?: string;
+  queryType?: ZodTypeInfo;
+  bodyType?: ZodTypeInfo;
 }
 
 export type DebugLogger = (message: string) => void;
@@ -19,11 +19,16 @@ import {
     isServerAction,
     shouldIncludeBody,
     extractBodyFromHandler,
+    extractBodyTypeFromHandler,
     analyzeHandler,
     NEXTJS_HTTP_METHODS,
     type DynamicSegment,
 } from "../shared/next-shared";
-import { extractBodyFromSchema } from "../shared/zod-schema-parser";
+import {
+    extractBodyFromSchema,
+    extractTypeInfoFromSchema,
+    type ZodTypeInfo,
+} from "../shared/zod-schema-parser";
 
 /**
  * Next.js App Router route type
@@ -50,6 +55,7 @@ interface NextAppRouteHandler {
     headers: Record<string, string>;
     queryParams?: Record<string, string>;
     bodyExample?: string;
+    bodyType?: ZodTypeInfo;
 }
 
 /**
@@ -338,8 +344,16 @@ export class NextAppParser extends BaseParser {
 
         methodSet.forEach((method) => {
             const handler = methodHandlers.get(method) ?? sourceFile;
-            const analysis = analyzeHandler(handler, this.debug, (h, d) =>
-                extractBodyFromHandler(h, d, extractBodyFromSchema),
+            const analysis = analyzeHandler(
+                handler,
+                this.debug,
+                (h, d) => extractBodyFromHandler(h, d, extractBodyFromSchema),
+                (h) =>
+                    extractBodyTypeFromHandler(
+                        h,
+                        extractBodyFromSchema,
+                        extractTypeInfoFromSchema,
+                    ),
             );
 
             handlers.push({
@@ -385,6 +399,7 @@ export class NextAppParser extends BaseParser {
                     Object.keys(handler.headers).length > 0 ? handler.headers : undefined,
                 query: handler.queryParams,
                 body: effectiveBody,
+                bodyType: effectiveBody ? handler.bodyType : undefined,
             };
         });
     }
@@ -18,11 +18,16 @@ import {
     hasMiddleware,
     shouldIncludeBody,
     extractBodyFromHandler,
+    extractBodyTypeFromHandler,
     analyzeHandler,
     extractMethodLiteral,
     type DynamicSegment,
 } from "../shared/next-shared";
-import { extractBodyFromSchema } from "../shared/zod-schema-parser";
+import {
+    extractBodyFromSchema,
+    extractTypeInfoFromSchema,
+    type ZodTypeInfo,
+} from "../shared/zod-schema-parser";
 
 /**
  * Next.js Pages Router route type
@@ -48,6 +53,7 @@ interface NextPagesRouteHandler {
     headers: Record<string, string>;
     queryParams?: Record<string, string>;
     bodyExample?: string;
+    bodyType?: ZodTypeInfo;
 }
 
 /**
@@ -375,8 +381,16 @@ export class NextPagesParser extends BaseParser {
         }
 
         const methods = this.detectPagesRouterMethods(handler);
-        const analysis = analyzeHandler(handler, this.debug, (h, d) =>
-            extractBodyFromHandler(h, d, extractBodyFromSchema),
+        const analysis = analyzeHandler(
+            handler,
+            this.debug,
+            (h, d) => extractBodyFromHandler(h, d, extractBodyFromSchema),
+            (h) =>
+                extractBodyTypeFromHandler(
+                    h,
+                    extractBodyFromSchema,
+                    extractTypeInfoFromSchema,
+                ),
         );
 
         const middleware = hasMiddleware(sourceFile);
@@ -424,6 +438,7 @@ export class NextPagesParser extends BaseParser {
                     Object.keys(handler.headers).length > 0 ? handler.headers : undefined,
                 query: handler.queryParams,
                 body: effectiveBody,
+                bodyType: effectiveBody ? handler.bodyType : undefined,
             };
         });
     }
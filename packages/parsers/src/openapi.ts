@@ -0,0 +1,346 @@
+/**
+ * OpenAPI generation from source code
+ * Builds an OpenAPI 3.1 document from parsed routes: Zod/TypeBox/DTO request
+ * types become JSON Schemas, dynamic segments become path parameters, handler
+ * names become operationIds and route prefixes become tags
+ */
+
+import type { ParsedRoute, ParserOptions } from "./lib/types";
+import type { ZodTypeInfo } from "./shared/zod-schema-parser";
+import { detectAndParseRoutes } from "./detect";
+import { inferJsonSchema } from "./exporters/openapi-exporter";
+import { replacePathParams } from "./exporters/exporter-utils";
+
+/** Headers described elsewhere in the document (media types) */
+const DESCRIBED_HEADERS = new Set(["content-type", "accept"]);
+
+/**
+ * Options for OpenAPI generation
+ */
+export interface OpenApiOptions extends ParserOptions {
+    /** info.title (default: "API") */
+    title?: string;
+    /** info.version (default: "1.0.0") */
+    version?: string;
+    description?: string;
+    /** Server URLs */
+    servers?: string[];
+}
+
+/**
+ * Generated document and conversion warnings
+ */
+export interface OpenApiResult {
+    document: Record<string, unknown>;
+    warnings: string[];
+}
+
+/**
+ * Detect routes in a project and describe them as an OpenAPI 3.1 document
+ * @param rootDir - The root directory to parse routes from
+ * @param options - Document info, servers and parser options
+ * @returns The document, the routes it was built from and conversion warnings
+ */
+export async function generateOpenApi(
+    rootDir: string,
+    options: OpenApiOptions = {},
+): Promise<OpenApiResult & { routes: ParsedRoute[] }> {
+    const { routes } = await detectAndParseRoutes(rootDir, options);
+    return { ...generateOpenApiDocument(routes, options), routes };
+}
+
+/**
+ * Describe parsed routes as an OpenAPI 3.1 document
+ */
+export function generateOpenApiDocument(
+    routes: ParsedRoute[],
+    options: OpenApiOptions = {},
+): OpenApiResult {
+    const warnings: string[] = [];
+    const paths: Record<string, Record<string, unknown>> = {};
+    const operationIds = new Set<string>();
+    const tags = new Set<string>();
+
+    for (const route of routes) {
+        const { path, parameters } = toPathItem(route.path);
+        const pathItem = (paths[path] ??= {});
+        const method = route.method.toLowerCase();
+        if (pathItem[method]) {
+            warnings.push(
+                `${route.method} ${path} (${route.filePath}) is already described by another route and was skipped`,
+            );
+            continue;
+        }
+        if (/:[A-Za-z_]\w*\*\?/.test(route.path)) {
+            warnings.push(
+                `${route.method} ${route.path}: optional catch-all segments are described as required path parameters`,
+            );
+        }
+
+        const tag = routeTag(route.path);
+        tags.add(tag);
+
+        const operationParameters = [
+            ...parameters,
+            ...toQueryParameters(route),
+            ...Object.entries(route.headers ?? {})
+                .filter(([key]) => !DESCRIBED_HEADERS.has(key.toLowerCase()))
+                .map(([key, value]) => ({
+                    name: key,
+                    in: "header",
+                    schema: { type: "string" },
+                    example: value || undefined,
+                })),
+        ];
+
+        pathItem[method] = {
+            operationId: toOperationId(route, operationIds),
+            tags: [tag],
+            parameters: operationParameters.length
+                ? operationParameters
+                : undefined,
+            requestBody: toRequestBody(route),
+            responses: { "200": { description: "Successful response" } },
+        };
+    }
+
+    return {
+        document: {
+            openapi: "3.1.0",
+            info: {
+                title: options.title ?? "API",
+                description: options.description,
+                version: options.version ?? "1.0.0",
+            },
+            servers: options.servers?.length
+                ? options.servers.map((url) => ({ url }))
+                : undefined,
+            tags: Array.from(tags, (tag) => ({ name: tag })),
+            paths,
+        },
+        warnings: Array.from(new Set(warnings)),
+    };
+}
+
+/**
+ * Convert type info to a JSON Schema (2020-12, as used by OpenAPI 3.1)
+ */
+export function typeInfoToJsonSchema(
+    typeInfo: ZodTypeInfo,
+): Record<string, unknown> {
+    const schema = baseJsonSchema(typeInfo);
+
+    if (typeInfo.defaultValue !== undefined && typeInfo.kind !== "literal") {
+        schema.default = typeInfo.defaultValue;
+    }
+
+    if (!typeInfo.nullable) {
+        return schema;
+    }
+    if (typeof schema.type === "string") {
+        return { ...schema, type: [schema.type, "null"] };
+    }
+    if ("const" in schema || "enum" in schema) {
+        return { anyOf: [schema, { type: "null" }] };
+    }
+    return schema;
+}
+
+function baseJsonSchema(typeInfo: ZodTypeInfo): Record<string, unknown> {
+    switch (typeInfo.kind) {
+        case "string":
+        case "number":
+        case "boolean":
+            return { type: typeInfo.kind };
+
+        case "date":
+            return { type: "string", format: "date-time" };
+
+        case "array":
+            return typeInfo.items
+                ? { type: "array", items: typeInfoToJsonSchema(typeInfo.items) }
+                : { type: "array" };
+
+        case "object": {
+            if (!typeInfo.children) {
+                return { type: "object" };
+            }
+            const entries = Object.entries(typeInfo.children);
+            const required = entries
+                .filter(([, child]) => isRequired(child))
+                .map(([key]) => key);
+            return {
+                type: "object",
+                properties: Object.fromEntries(
+                    entries.map(([key, child]) => [
+                        key,
+                        typeInfoToJsonSchema(child),
+                    ]),
+                ),
+                required: required.length ? required : undefined,
+            };
+        }
+
+        case "enum":
+            return typeInfo.values?.length ? { enum: typeInfo.values } : {};
+
+        case "literal":
+            return typeInfo.defaultValue !== undefined
+                ? { const: typeInfo.defaultValue }
+                : {};
+
+        default:
+            // Unknown types accept any value
+            return {};
+    }
+}
+
+/**
+ * Optional fields and fields with defaults may be omitted from requests
+ */
+function isRequired(typeInfo: ZodTypeInfo): boolean {
+    return !typeInfo.optional && typeInfo.defaultValue === undefined;
+}
+
+/**
+ * Route pattern as an OpenAPI path; :params (including catch-alls) become path parameters
+ */
+function toPathItem(routePath: string): {
+    path: string;
+    parameters: Record<string, unknown>[];
+} {
+    const parameters: Record<string, unknown>[] = [];
+    const path = replacePathParams(routePath, (name) => {
+        parameters.push({
+            name,
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+        });
+        return `{${name}}`;
+    });
+    return { path, parameters };
+}
+
+/**
+ * Query parameters from the query schema, falling back to detected query keys
+ */
+function toQueryParameters(route: ParsedRoute): Record<string, unknown>[] {
+    if (route.queryType?.kind === "object" && route.queryType.children) {
+        return Object.entries(route.queryType.children).map(
+            ([name, child]) => ({
+                name,
+                in: "query",
+                required: isRequired(child) ? true : undefined,
+                schema: typeInfoToJsonSchema({
+                    ...child,
+                    optional: false,
+                }),
+            }),
+        );
+    }
+
+    return Object.entries(route.query ?? {}).map(([name, value]) => ({
+        name,
+        in: "query",
+        schema: { type: "string" },
+        example: value || undefined,
+    }));
+}
+
+function toRequestBody(
+    route: ParsedRoute,
+): Record<string, unknown> | undefined {
+    if (route.body === undefined && !route.bodyType) {
+        return undefined;
+    }
+
+    const contentType =
+        Object.entries(route.headers ?? {})
+            .find(([key]) => key.toLowerCase() === "content-type")?.[1]
+            ?.split(";")[0]
+            .trim() ?? "application/json";
+
+    let example: unknown;
+    try {
+        example = route.body !== undefined ? JSON.parse(route.body) : undefined;
+    } catch {
+        example = route.body;
+    }
+
+    // Prefer the declared type; fall back to a schema inferred from the example
+    const schema =
+        route.bodyType && route.bodyType.kind !== "unknown"
+            ? typeInfoToJsonSchema(route.bodyType)
+            : example !== undefined
+              ? inferJsonSchema(example)
+              : undefined;
+
+    return {
+        required: true,
+        content: { [contentType]: { schema, example } },
+    };
+}
+
+/**
+ * Tag for a route, matching the collections routes are synced into:
+ * /api/v1/user-profiles/:id -> "User Profiles", /api/trpc/user.get -> "User"
+ */
+function routeTag(routePath: string): string {
+    if (routePath.startsWith("/api/trpc/")) {
+        const [router] = routePath.slice("/api/trpc/".length).split(".");
+        return capitalizeWords(router || "default");
+    }
+
+    const parts = routePath.split("/").filter(Boolean);
+    let startIndex = parts[0] === "api" ? 1 : 0;
+    if (parts.length > startIndex && /^v\d+$/i.test(parts[startIndex])) {
+        startIndex++;
+    }
+    return capitalizeWords(parts[startIndex] || "default");
+}
+
+function capitalizeWords(value: string): string {
+    return value
+        .split("-")
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(" ");
+}
+
+/**
+ * Unique operationId: the handler's own name (UsersController.findOne -> findOne),
+ * its qualified name when that is taken, otherwise the method and path
+ */
+function toOperationId(route: ParsedRoute, used: Set<string>): string {
+    const candidates = route.handlerFunction
+        ? [
+              route.handlerFunction.split(".").pop() ?? "",
+              route.handlerFunction,
+          ]
+        : [`${route.method.toLowerCase()} ${route.path}`];
+
+    const base =
+        candidates
+            .map(toCamelCase)
+            .find((candidate) => candidate && !used.has(candidate)) ??
+        (toCamelCase(candidates[candidates.length - 1]) || "operation");
+
+    let operationId = base;
+    for (let suffix = 2; used.has(operationId); suffix++) {
+        operationId = `${base}${suffix}`;
+    }
+    used.add(operationId);
+    return operationId;
+}
+
+function toCamelCase(value: string): string {
+    return value
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word, index) =>
+            index === 0
+                ? word.charAt(0).toLowerCase() + word.slice(1)
+                : word.charAt(0).toUpperCase() + word.slice(1),
+        )
+        .join("");
+}
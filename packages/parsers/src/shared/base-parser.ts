@@ -29,6 +29,8 @@ export interface BaseParserConfig {
 	filePatterns: string[];
 	/** Whether tsconfig is required for parsing */
 	requiresTsConfig?: boolean;
+	/** Whether plain JavaScript sources should be parsed and resolved */
+	allowJs?: boolean;
 }
 
 /**
@@ -117,12 +119,14 @@ export abstract class BaseParser {
 	 * Initialize the ts-morph project
 	 */
 	protected initializeProject(tsconfigPath: string | null): Project {
+		const compilerOptions = this.config.allowJs ? { allowJs: true } : undefined;
 		return tsconfigPath
 			? new Project({
 					tsConfigFilePath: tsconfigPath,
 					skipAddingFilesFromTsConfig: false,
+					compilerOptions,
 				})
-			: new Project({ skipAddingFilesFromTsConfig: true });
+			: new Project({ skipAddingFilesFromTsConfig: true, compilerOptions });
 	}
 
 	/**
@@ -0,0 +1,205 @@
+/**
+ * Shared JSON Schema parser
+ * Converts JSON Schema object literals (e.g. Fastify route schemas) into ZodTypeInfo
+ * so examples are generated by the same machinery as Zod schemas
+ */
+
+import { Node } from 'ts-morph';
+
+import { resolveValueDeclaration, unwrapExpression } from './server-shared';
+import { zodTypeInfoToExample, type ZodTypeInfo } from './zod-schema-parser';
+
+/**
+ * Maximum nesting depth followed when reading schemas
+ */
+const MAX_SCHEMA_DEPTH = 6;
+
+/**
+ * Extract body example from a JSON Schema object literal
+ */
+export function extractBodyFromJsonSchema(schemaNode: Node): string | undefined {
+	const example = zodTypeInfoToExample(extractJsonSchemaTypeInfo(schemaNode));
+	if (example !== null && typeof example === 'object' && Object.keys(example).length > 0) {
+		return JSON.stringify(example, null, 2);
+	}
+	return undefined;
+}
+
+/**
+ * Extract query parameters from a JSON Schema object literal
+ */
+export function extractQueryParamsFromJsonSchema(schemaNode: Node): Record<string, string> | undefined {
+	const typeInfo = extractJsonSchemaTypeInfo(schemaNode);
+	if (typeInfo.kind !== 'object' || !typeInfo.children) {
+		return undefined;
+	}
+
+	const queryParams: Record<string, string> = {};
+	for (const [key, childType] of Object.entries(typeInfo.children)) {
+		const value = zodTypeInfoToExample({ ...childType, optional: false });
+		if (value === null || value === undefined) {
+			queryParams[key] = '';
+		} else if (typeof value !== 'object') {
+			queryParams[key] = String(value);
+		}
+	}
+
+	return Object.keys(queryParams).length > 0 ? queryParams : undefined;
+}
+
+/**
+ * Extract structured type information from a JSON Schema object literal
+ */
+export function extractJsonSchemaTypeInfo(node: Node, depth = 0): ZodTypeInfo {
+	const schema = resolveSchemaLiteral(node);
+	if (!schema || depth > MAX_SCHEMA_DEPTH) {
+		return { kind: 'unknown', optional: false, nullable: false, reason: 'unresolvable JSON Schema' };
+	}
+
+	const property = (name: string): Node | undefined => {
+		const prop = schema.getProperty(name);
+		return prop && Node.isPropertyAssignment(prop) ? prop.getInitializer() : undefined;
+	};
+
+	const types = readTypes(property('type'));
+	const nullable = types.includes('null') || readLiteral(property('nullable')) === true;
+	const type = types.find((t) => t !== 'null');
+
+	const info: ZodTypeInfo = { kind: 'unknown', optional: false, nullable };
+
+	const defaultNode = property('default');
+	if (defaultNode) {
+		info.defaultValue = readLiteral(defaultNode);
+	}
+
+	const constNode = property('const');
+	const enumNode = property('enum');
+	if (constNode) {
+		return { ...info, kind: 'literal', defaultValue: readLiteral(constNode) };
+	}
+	if (enumNode && Node.isArrayLiteralExpression(enumNode)) {
+		const values = enumNode
+			.getElements()
+			.map((element) => readLiteral(element))
+			.filter((value) => value !== undefined);
+		return { ...info, kind: 'enum', values };
+	}
+
+	switch (type) {
+		case 'string': {
+			const format = readLiteral(property('format'));
+			return { ...info, kind: format === 'date-time' || format === 'date' ? 'date' : 'string' };
+		}
+		case 'number':
+		case 'integer':
+			return { ...info, kind: 'number' };
+		case 'boolean':
+			return { ...info, kind: 'boolean' };
+		case 'array': {
+			const itemsNode = property('items');
+			return {
+				...info,
+				kind: 'array',
+				items: itemsNode ? extractJsonSchemaTypeInfo(itemsNode, depth + 1) : undefined,
+			};
+		}
+		case 'object':
+		case undefined: {
+			const propertiesNode = property('properties');
+			const properties = propertiesNode ? resolveSchemaLiteral(propertiesNode) : undefined;
+			if (!properties) {
+				return type === 'object' ? { ...info, kind: 'object' } : { ...info, reason: 'missing JSON Schema type' };
+			}
+
+			const requiredNode = property('required');
+			const required = new Set(
+				requiredNode && Node.isArrayLiteralExpression(requiredNode)
+					? requiredNode.getElements().map((element) => readLiteral(element))
+					: [],
+			);
+
+			const children: Record<string, ZodTypeInfo> = {};
+			for (const prop of properties.getProperties()) {
+				if (!Node.isPropertyAssignment(prop)) {
+					continue;
+				}
+				const fieldName = prop.getNameNode().getText().replace(/["']/g, '');
+				const initializer = prop.getInitializer();
+				if (!initializer) {
+					continue;
+				}
+				const child = extractJsonSchemaTypeInfo(initializer, depth + 1);
+				child.optional = !required.has(fieldName);
+				children[fieldName] = child;
+			}
+
+			return { ...info, kind: 'object', children };
+		}
+		default:
+			return { ...info, reason: `unsupported JSON Schema type: ${type}` };
+	}
+}
+
+/**
+ * Resolve a node (inline or referenced) to an object literal
+ */
+function resolveSchemaLiteral(node: Node) {
+	const target = unwrapExpression(node);
+	if (Node.isObjectLiteralExpression(target)) {
+		return target;
+	}
+
+	if (Node.isIdentifier(target)) {
+		const declaration = resolveValueDeclaration(target);
+		if (declaration && Node.isVariableDeclaration(declaration)) {
+			const initializer = declaration.getInitializer();
+			const unwrapped = initializer ? unwrapExpression(initializer) : undefined;
+			if (unwrapped && Node.isObjectLiteralExpression(unwrapped)) {
+				return unwrapped;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Read the JSON Schema `type` keyword (string or array of strings)
+ */
+function readTypes(node: Node | undefined): string[] {
+	if (!node) {
+		return [];
+	}
+	const target = unwrapExpression(node);
+	if (Node.isArrayLiteralExpression(target)) {
+		return target.getElements().map((element) => String(readLiteral(element)));
+	}
+	const value = readLiteral(target);
+	return typeof value === 'string' ? [value] : [];
+}
+
+/**
+ * Read a literal value from an AST node
+ */
+function readLiteral(node: Node | undefined): unknown {
+	if (!node) {
+		return undefined;
+	}
+	const target = unwrapExpression(node);
+	if (Node.isStringLiteral(target) || Node.isNoSubstitutionTemplateLiteral(target)) {
+		return target.getLiteralValue();
+	}
+	if (Node.isNumericLiteral(target)) {
+		return target.getLiteralValue();
+	}
+	if (Node.isTrueLiteral(target)) {
+		return true;
+	}
+	if (Node.isFalseLiteral(target)) {
+		return false;
+	}
+	if (Node.isNullLiteral(target)) {
+		return null;
+	}
+	return undefined;
+}
@@ -4,6 +4,7 @@
 
 import { Node, SourceFile, SyntaxKind } from 'ts-morph';
 import type { HttpMethod } from '../lib/constants';
+import type { ZodTypeInfo } from './zod-schema-parser';
 
 /**
  * Dynamic route segment
@@ -30,6 +31,7 @@ export interface HandlerAnalysis {
 	headers: Record<string, string>;
 	queryParams?: Record<string, string>;
 	bodyExample?: string;
+	bodyType?: ZodTypeInfo;
 }
 
 /**
@@ -192,6 +194,7 @@ export function analyzeHandler(
 	handler: Node,
 	debug: DebugLogger,
 	extractBodyFn: (handler: Node, debug: DebugLogger) => string | undefined,
+	extractBodyTypeFn?: (handler: Node) => ZodTypeInfo | undefined,
 ): HandlerAnalysis {
 	const handlerText = handler.getText();
 	let handlerLines = 0;
@@ -215,6 +218,7 @@ export function analyzeHandler(
 	const headers = extractHeaders(handlerText);
 	const queryParams = extractQueryParams(handlerText);
 	const bodyExample = extractBodyFn(handler, debug);
+	const bodyType = bodyExample ? extractBodyTypeFn?.(handler) : undefined;
 
 	return {
 		handlerLines,
@@ -224,6 +228,7 @@ export function analyzeHandler(
 		headers,
 		queryParams,
 		bodyExample,
+		bodyType,
 	};
 }
 
@@ -319,6 +324,39 @@ export function extractBodyFromHandler(
 	debug: DebugLogger,
 	extractBodyFromSchema: (node: Node) => string | undefined,
 ): string | undefined {
+	const schema = findBodySchema(handler, extractBodyFromSchema);
+	if (!schema) {
+		return undefined;
+	}
+
+	debug(`Found Zod schema body example ${schema.source}`);
+	return extractBodyFromSchema(schema.node);
+}
+
+/**
+ * Extract body type info from the same Zod schema as extractBodyFromHandler
+ */
+export function extractBodyTypeFromHandler(
+	handler: Node,
+	extractBodyFromSchema: (node: Node) => string | undefined,
+	extractTypeInfoFromSchema: (node: Node) => ZodTypeInfo | undefined,
+): ZodTypeInfo | undefined {
+	const schema = findBodySchema(handler, extractBodyFromSchema);
+	return schema ? extractTypeInfoFromSchema(schema.node) : undefined;
+}
+
+/**
+ * Find the first Zod schema in a handler that yields a non-empty body
+ */
+function findBodySchema(
+	handler: Node,
+	extractBodyFromSchema: (node: Node) => string | undefined,
+): { node: Node; source: string } | undefined {
+	const hasBody = (node: Node) => {
+		const bodyExample = extractBodyFromSchema(node);
+		return Boolean(bodyExample && bodyExample !== '{}');
+	};
+
 	const variableDecls = handler.getDescendantsOfKind(SyntaxKind.VariableDeclaration);
 
 	for (const decl of variableDecls) {
@@ -333,12 +371,8 @@ export function extractBodyFromHandler(
 		const initializerText = initializer.getText();
 		const isZodSchema = initializerText.startsWith('z.') || initializerText.includes('z.object');
 
-		if (isSchemaVariable || isZodSchema) {
-			const bodyExample = extractBodyFromSchema(initializer);
-			if (bodyExample && bodyExample !== '{}') {
-				debug(`Found Zod schema body example in variable: ${name}`);
-				return bodyExample;
-			}
+		if ((isSchemaVariable || isZodSchema) && hasBody(initializer)) {
+			return { node: initializer, source: `in variable: ${name}` };
 		}
 	}
 
@@ -353,12 +387,8 @@ export function extractBodyFromHandler(
 			if (methodName === 'parse' || methodName === 'safeParse') {
 				const base = expr.getExpression();
 				const baseText = base.getText();
-				if (baseText.includes('z.') || /schema/i.test(baseText)) {
-					const bodyExample = extractBodyFromSchema(base);
-					if (bodyExample && bodyExample !== '{}') {
-						debug(`Found Zod schema body example from .${methodName}() call`);
-						return bodyExample;
-					}
+				if ((baseText.includes('z.') || /schema/i.test(baseText)) && hasBody(base)) {
+					return { node: base, source: `from .${methodName}() call` };
 				}
 			}
 		}
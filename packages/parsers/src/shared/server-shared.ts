@@ -0,0 +1,334 @@
+/**
+ * Shared utilities for code-defined server frameworks (Express, Fastify, Hono, Elysia)
+ * Resolves router/plugin references across modules and composes mount prefixes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CallExpression, Node, SourceFile, SyntaxKind } from 'ts-morph';
+
+/**
+ * Edge describing a router or plugin mounted under a parent with a prefix
+ */
+export interface RouteMountEdge {
+	parent: string;
+	prefix: string;
+	child: string;
+}
+
+/**
+ * Maximum depth when following identifiers across modules
+ */
+const MAX_RESOLVE_DEPTH = 8;
+
+/**
+ * Extensions tried when resolving relative require()/import() specifiers
+ */
+const MODULE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.mjs', '.cjs', '/index.ts', '/index.js'];
+
+/**
+ * Build a stable key for a declaration node (used to identify routers/plugins)
+ */
+export function getNodeKey(node: Node): string {
+	// Chained expressions share a start position, so include the end as well
+	return `${node.getSourceFile().getFilePath()}:${node.getStart()}-${node.getEnd()}`;
+}
+
+/**
+ * Strip parentheses, type assertions and await from an expression
+ */
+export function unwrapExpression(node: Node): Node {
+	if (
+		Node.isParenthesizedExpression(node) ||
+		Node.isAsExpression(node) ||
+		Node.isSatisfiesExpression(node) ||
+		Node.isNonNullExpression(node) ||
+		Node.isTypeAssertion(node) ||
+		Node.isAwaitExpression(node)
+	) {
+		return unwrapExpression(node.getExpression());
+	}
+	return node;
+}
+
+/**
+ * Resolve a statically known string value (literal, const reference, literal type)
+ */
+export function resolveStaticString(node: Node): string | undefined {
+	const target = unwrapExpression(node);
+
+	if (Node.isStringLiteral(target) || Node.isNoSubstitutionTemplateLiteral(target)) {
+		return target.getLiteralValue();
+	}
+
+	if (Node.isIdentifier(target)) {
+		const declaration = resolveValueDeclaration(target);
+		if (declaration && Node.isVariableDeclaration(declaration)) {
+			const initializer = declaration.getInitializer();
+			if (initializer && initializer !== target) {
+				const resolved = resolveStaticString(initializer);
+				if (resolved !== undefined) {
+					return resolved;
+				}
+			}
+		}
+	}
+
+	const literalValue = target.getType().getLiteralValue();
+	return typeof literalValue === 'string' ? literalValue : undefined;
+}
+
+/**
+ * Resolve one or more static strings (single value or array literal)
+ */
+export function resolveStaticStrings(node: Node): string[] {
+	const target = unwrapExpression(node);
+	if (Node.isArrayLiteralExpression(target)) {
+		return target
+			.getElements()
+			.map((element) => resolveStaticString(element))
+			.filter((value): value is string => value !== undefined);
+	}
+
+	const value = resolveStaticString(target);
+	return value !== undefined ? [value] : [];
+}
+
+/**
+ * Follow an expression to the node that declares its value
+ * Handles local variables, parameters, functions, ES imports, default exports and require()
+ * @returns VariableDeclaration, ParameterDeclaration, FunctionDeclaration or the expression itself
+ */
+export function resolveValueDeclaration(node: Node, depth = 0): Node | undefined {
+	if (depth > MAX_RESOLVE_DEPTH) {
+		return undefined;
+	}
+
+	const target = unwrapExpression(node);
+
+	if (Node.isIdentifier(target)) {
+		let symbol = target.getSymbol();
+		if (!symbol) {
+			return undefined;
+		}
+		if (symbol.isAlias()) {
+			symbol = symbol.getAliasedSymbol() ?? symbol;
+		}
+
+		for (const declaration of symbol.getDeclarations()) {
+			if (Node.isExportAssignment(declaration)) {
+				return resolveValueDeclaration(declaration.getExpression(), depth + 1);
+			}
+
+			if (Node.isVariableDeclaration(declaration)) {
+				// const router = require('./users') -> follow into the required module
+				const initializer = declaration.getInitializer();
+				const unwrapped = initializer ? unwrapExpression(initializer) : undefined;
+				if (unwrapped && Node.isCallExpression(unwrapped) && resolveRequiredModule(unwrapped)) {
+					return resolveValueDeclaration(unwrapped, depth + 1);
+				}
+				return declaration;
+			}
+
+			if (Node.isParameterDeclaration(declaration) || Node.isFunctionDeclaration(declaration)) {
+				return declaration;
+			}
+		}
+
+		return undefined;
+	}
+
+	if (Node.isCallExpression(target)) {
+		const moduleFile = resolveRequiredModule(target);
+		if (moduleFile) {
+			const exported = getModuleExportNode(moduleFile);
+			return exported ? resolveValueDeclaration(exported, depth + 1) : undefined;
+		}
+	}
+
+	return target;
+}
+
+/**
+ * Resolve the source file targeted by require('./x') or import('./x')
+ */
+export function resolveRequiredModule(call: CallExpression): SourceFile | undefined {
+	const callee = call.getExpression();
+	const isRequire = Node.isIdentifier(callee) && callee.getText() === 'require';
+	const isDynamicImport = callee.getKind() === SyntaxKind.ImportKeyword;
+	if (!isRequire && !isDynamicImport) {
+		return undefined;
+	}
+
+	const specifierNode = call.getArguments()[0];
+	const specifier = specifierNode ? resolveStaticString(specifierNode) : undefined;
+	if (!specifier || !specifier.startsWith('.')) {
+		return undefined;
+	}
+
+	const sourceFile = call.getSourceFile();
+	const project = sourceFile.getProject();
+	const basePath = path.resolve(path.dirname(sourceFile.getFilePath()), specifier);
+	// ESM-style specifiers point at the emitted .js file
+	const stripped = basePath.replace(/\.(m|c)?js$/, '');
+	const candidates = [basePath, stripped].flatMap((base) =>
+		MODULE_EXTENSIONS.map((extension) => `${base}${extension}`),
+	);
+
+	for (const candidate of candidates) {
+		const existing = project.getSourceFile(candidate);
+		if (existing) {
+			return existing;
+		}
+		if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+			return project.addSourceFileAtPath(candidate);
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Get the node exported as a module's default value
+ * Supports `export default x`, `export = x` and `module.exports = x`
+ */
+export function getModuleExportNode(sourceFile: SourceFile): Node | undefined {
+	const declaration = sourceFile.getDefaultExportSymbol()?.getDeclarations()[0];
+	if (declaration) {
+		return Node.isExportAssignment(declaration) ? declaration.getExpression() : declaration;
+	}
+
+	for (const statement of sourceFile.getStatements()) {
+		if (!Node.isExpressionStatement(statement)) {
+			continue;
+		}
+
+		const expression = statement.getExpression();
+		if (
+			Node.isBinaryExpression(expression) &&
+			expression.getOperatorToken().getKind() === SyntaxKind.EqualsToken &&
+			expression.getLeft().getText() === 'module.exports'
+		) {
+			return expression.getRight();
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Resolve a handler argument to the node holding its implementation
+ */
+export function resolveHandlerNode(node: Node): Node | undefined {
+	const target = unwrapExpression(node);
+	if (Node.isArrowFunction(target) || Node.isFunctionExpression(target)) {
+		return target;
+	}
+
+	if (Node.isIdentifier(target)) {
+		const declaration = resolveValueDeclaration(target);
+		if (declaration && Node.isVariableDeclaration(declaration)) {
+			const initializer = declaration.getInitializer();
+			return initializer ? unwrapExpression(initializer) : declaration;
+		}
+		return declaration;
+	}
+
+	if (Node.isPropertyAccessExpression(target)) {
+		const declaration = target.getSymbol()?.getDeclarations()[0];
+		if (declaration && (Node.isMethodDeclaration(declaration) || Node.isPropertyDeclaration(declaration))) {
+			return declaration;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Get a readable handler name for stable external IDs
+ */
+export function getHandlerName(node: Node | undefined): string | undefined {
+	if (!node) {
+		return undefined;
+	}
+	const target = unwrapExpression(node);
+	if (Node.isIdentifier(target) || Node.isPropertyAccessExpression(target)) {
+		return target.getText();
+	}
+	return undefined;
+}
+
+/**
+ * Get the variable name a builder chain is assigned to
+ * e.g. `const users = new Hono().get(...)` -> "users"
+ */
+export function getBindingName(node: Node): string | undefined {
+	let current: Node = node;
+	let parent = current.getParent();
+
+	while (
+		parent &&
+		(Node.isPropertyAccessExpression(parent) ||
+			Node.isParenthesizedExpression(parent) ||
+			(Node.isCallExpression(parent) && parent.getExpression() === current))
+	) {
+		current = parent;
+		parent = current.getParent();
+	}
+
+	return parent && Node.isVariableDeclaration(parent) ? parent.getName() : undefined;
+}
+
+/**
+ * Join route path segments into a normalized path
+ */
+export function joinRoutePaths(...segments: string[]): string {
+	const parts = segments
+		.map((segment) => segment.replace(/^\/*/, '').replace(/\/*$/, ''))
+		.filter((segment) => segment.length > 0);
+
+	return parts.length > 0 ? `/${parts.join('/')}` : '/';
+}
+
+/**
+ * Resolve every full prefix a router/plugin is reachable under
+ * Routers without incoming mounts are treated as roots served at "/"
+ */
+export function resolveMountPrefixes(ids: string[], edges: RouteMountEdge[]): Map<string, string[]> {
+	const incoming = new Map<string, RouteMountEdge[]>();
+	edges.forEach((edge) => {
+		const list = incoming.get(edge.child) ?? [];
+		list.push(edge);
+		incoming.set(edge.child, list);
+	});
+
+	const resolved = new Map<string, string[]>();
+	const resolving = new Set<string>();
+
+	const resolve = (id: string): string[] => {
+		const cached = resolved.get(id);
+		if (cached) {
+			return cached;
+		}
+		if (resolving.has(id)) {
+			return [];
+		}
+		resolving.add(id);
+
+		const mounts = incoming.get(id) ?? [];
+		const prefixes =
+			mounts.length === 0
+				? ['/']
+				: mounts.flatMap((edge) =>
+						resolve(edge.parent).map((parentPrefix) => joinRoutePaths(parentPrefix, edge.prefix)),
+					);
+
+		const unique = Array.from(new Set(prefixes));
+		resolved.set(id, unique);
+		resolving.delete(id);
+		return unique;
+	};
+
+	ids.forEach((id) => resolve(id));
+	return resolved;
+}
@@ -1,6 +1,7 @@
 /**
  * Shared Zod schema parser
  * Extracts type information and generates examples from Zod schemas
+ * TypeBox builders (t.Object / Type.Object, used by Elysia) map onto the same type info
  * Can be reused across tRPC, Next.js, and other parsers
  */
 
@@ -14,11 +15,17 @@ export type ZodTypeInfo = {
 	optional: boolean;
 	nullable: boolean;
 	defaultValue?: unknown;
+	values?: unknown[]; // for z.enum()
 	children?: Record<string, ZodTypeInfo>; // for z.object()
 	items?: ZodTypeInfo; // for z.array()
 	reason?: string; // for kind: 'unknown'
 };
 
+/**
+ * Identifiers that TypeBox builders are commonly imported as
+ */
+const TYPEBOX_NAMESPACES = ['t', 'Type'];
+
 /**
  * Extract body structure from Zod schema using AST - 100% deterministic
  */
@@ -45,6 +52,19 @@ export function extractBodyFromSchema(schemaNode: Node): string | undefined {
 	return '{}';
 }
 
+/**
+ * Extract structured type info from a schema node, resolving schema references
+ * Returns undefined when a referenced schema can't be found
+ */
+export function extractTypeInfoFromSchema(schemaNode: Node): ZodTypeInfo | undefined {
+	if (Node.isIdentifier(schemaNode)) {
+		const resolved = resolveSchemaReference(schemaNode);
+		return resolved ? extractTypeInfoFromSchema(resolved) : undefined;
+	}
+
+	return extractZodTypeInfo(schemaNode);
+}
+
 /**
  * Extract query parameters from Zod schema
  * Converts a Zod object schema into query parameter key-value pairs
@@ -170,6 +190,11 @@ export function extractZodTypeInfo(node: Node): ZodTypeInfo {
 				return extractBaseZodType(methodName, node);
 			}
 
+			// TypeBox builder: t.String(), t.Object({ ... })
+			if (Node.isIdentifier(base) && TYPEBOX_NAMESPACES.includes(base.getText())) {
+				return extractTypeBoxType(methodName, node);
+			}
+
 			// Chained call - recurse
 			if (Node.isCallExpression(base)) {
 				return extractZodTypeInfo(base);
@@ -224,8 +249,18 @@ function extractBaseZodType(typeName: string, node: CallExpression): ZodTypeInfo
 			return { kind: 'object', optional: false, nullable: false };
 		}
 
-		case 'enum':
+		case 'enum': {
+			// z.enum(['a', 'b'])
+			const args = node.getArguments();
+			if (args.length > 0 && Node.isArrayLiteralExpression(args[0])) {
+				const values = args[0]
+					.getElements()
+					.map((element) => extractLiteralValue(element))
+					.filter((value) => value !== undefined);
+				return { kind: 'enum', optional: false, nullable: false, values };
+			}
 			return { kind: 'enum', optional: false, nullable: false };
+		}
 
 		case 'literal': {
 			// z.literal('value')
@@ -252,6 +287,110 @@ function extractBaseZodType(typeName: string, node: CallExpression): ZodTypeInfo
 	}
 }
 
+/**
+ * Extract TypeBox type (t.String, t.Object, t.Optional, etc.)
+ * Options objects such as t.String({ default: 'x' }) provide default values
+ */
+function extractTypeBoxType(typeName: string, node: CallExpression): ZodTypeInfo {
+	const args = node.getArguments();
+
+	switch (typeName) {
+		case 'Optional': {
+			const baseType = args.length > 0 ? extractZodTypeInfo(args[0]) : unknownTypeBox(typeName);
+			baseType.optional = true;
+			return baseType;
+		}
+
+		case 'Nullable': {
+			const baseType = args.length > 0 ? extractZodTypeInfo(args[0]) : unknownTypeBox(typeName);
+			baseType.nullable = true;
+			return baseType;
+		}
+
+		case 'String':
+			return withTypeBoxOptions({ kind: 'string', optional: false, nullable: false }, args[0]);
+
+		case 'Number':
+		case 'Integer':
+		case 'Numeric':
+			return withTypeBoxOptions({ kind: 'number', optional: false, nullable: false }, args[0]);
+
+		case 'Boolean':
+		case 'BooleanString':
+			return withTypeBoxOptions({ kind: 'boolean', optional: false, nullable: false }, args[0]);
+
+		case 'Date':
+			return withTypeBoxOptions({ kind: 'date', optional: false, nullable: false }, args[0]);
+
+		case 'Array': {
+			const items = args.length > 0 ? extractZodTypeInfo(args[0]) : undefined;
+			return withTypeBoxOptions({ kind: 'array', optional: false, nullable: false, items }, args[1]);
+		}
+
+		case 'Object': {
+			if (args.length > 0 && Node.isObjectLiteralExpression(args[0])) {
+				const children = parseZodObjectLiteral(args[0]);
+				return withTypeBoxOptions({ kind: 'object', optional: false, nullable: false, children }, args[1]);
+			}
+			return { kind: 'object', optional: false, nullable: false };
+		}
+
+		case 'Literal':
+			return {
+				kind: 'literal',
+				optional: false,
+				nullable: false,
+				defaultValue: args.length > 0 ? extractLiteralValue(args[0]) : undefined,
+			};
+
+		case 'Union': {
+			// t.Union([t.Literal('a'), t.Literal('b')]) -> first member
+			const members = args[0];
+			if (members && Node.isArrayLiteralExpression(members) && members.getElements().length > 0) {
+				return extractZodTypeInfo(members.getElements()[0]);
+			}
+			return unknownTypeBox(typeName);
+		}
+
+		case 'Enum':
+			return withTypeBoxOptions({ kind: 'enum', optional: false, nullable: false }, args[1]);
+
+		default:
+			return unknownTypeBox(typeName);
+	}
+}
+
+/**
+ * Apply TypeBox schema options (currently `default`) to type info
+ */
+function withTypeBoxOptions(typeInfo: ZodTypeInfo, options: Node | undefined): ZodTypeInfo {
+	if (!options || !Node.isObjectLiteralExpression(options)) {
+		return typeInfo;
+	}
+
+	const defaultProp = options.getProperty('default');
+	if (defaultProp && Node.isPropertyAssignment(defaultProp)) {
+		const initializer = defaultProp.getInitializer();
+		if (initializer) {
+			typeInfo.defaultValue = extractLiteralValue(initializer);
+		}
+	}
+
+	return typeInfo;
+}
+
+/**
+ * Unknown type info for unsupported TypeBox builders
+ */
+function unknownTypeBox(typeName: string): ZodTypeInfo {
+	return {
+		kind: 'unknown',
+		optional: false,
+		nullable: false,
+		reason: `unsupported TypeBox type: ${typeName}`,
+	};
+}
+
 /**
  * Parse z.object({ ... }) object literal
  */
@@ -361,7 +500,7 @@ export function zodTypeInfoToExample(typeInfo: ZodTypeInfo): unknown {
 			return {};
 
 		case 'enum':
-			return null; // Can't determine enum values deterministically
+			return typeInfo.values?.[0] ?? null; // First value when the values are literals
 
 		case 'literal':
 			return typeInfo.defaultValue ?? null;
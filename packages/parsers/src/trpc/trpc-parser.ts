@@ -17,7 +17,10 @@ import {
 
 import type { ParsedRoute, ParserOptions } from "../lib/types";
 import { BaseParser } from "../shared/base-parser";
-import { extractBodyFromSchema } from "../shared/zod-schema-parser";
+import {
+    extractBodyFromSchema,
+    extractTypeInfoFromSchema,
+} from "../shared/zod-schema-parser";
 
 import { DEFAULT_TRPC_INCLUDE, SIDE_EFFECT_PATTERNS } from "./trpc-constants";
 import {
@@ -327,6 +330,9 @@ export class TrpcParser extends BaseParser {
             line,
             procedureType,
             bodyExample,
+            inputType: inputSchema
+                ? extractTypeInfoFromSchema(inputSchema)
+                : undefined,
             ...resolverAnalysis,
         };
     }
@@ -541,9 +547,10 @@ export class TrpcParser extends BaseParser {
      */
     private convertToRoutes(nodes: TrpcProcedureNode[]): ParsedRoute[] {
         return nodes.map((node) => {
-            const routePath = node.router
-                ? `/api/trpc/${node.router}.${node.procedure}`
-                : `/api/trpc/${node.procedure}`;
+            const procedurePath = node.router
+                ? `${node.router}.${node.procedure}`
+                : node.procedure;
+            const routePath = `/api/trpc/${procedurePath}`;
 
             const method = node.method === "query" ? "GET" : "POST";
 
@@ -560,11 +567,14 @@ export class TrpcParser extends BaseParser {
                 path: routePath,
                 method,
                 filePath: this.joinPath(node.file),
+                handlerFunction: procedurePath,
                 type: "trpc" as const,
                 headers:
                     Object.keys(node.headers).length > 0 ? node.headers : undefined,
                 query: queryParams,
                 body,
+                queryType: method === "GET" ? node.inputType : undefined,
+                bodyType: method === "POST" ? node.inputType : undefined,
             };
         });
     }
@@ -2,6 +2,8 @@
  * tRPC parser types
  */
 
+import type { ZodTypeInfo } from '../shared/zod-schema-parser';
+
 export type ProcedureMethod = 'query' | 'mutation';
 export type ProcedureVisibility = 'public' | 'private' | 'protected' | 'admin' | 'unknown';
 
@@ -24,6 +26,7 @@ export interface TrpcProcedureNode {
 	headers: Record<string, string>;
 	queryParams?: Record<string, string>;
 	bodyExample?: string;
+	inputType?: ZodTypeInfo;
 }
 
 /**
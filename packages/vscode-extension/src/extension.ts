@@ -28,7 +28,11 @@ import { openEndpointEditor } from "./modules/endpoints/endpoints.editor";
 import { OrganizationService } from "@/modules/organizations";
 import { registerAuthCommands } from "@/modules/auth/auth.commands";
 import { registerCollectionCommands } from "@/modules/collections/collections.commands";
-import { registerEndpointCommands, registerExportCommands } from "@/modules/endpoints";
+import {
+    registerEndpointCommands,
+    registerExportCommands,
+    registerImportCommands,
+} from "@/modules/endpoints";
 import { registerOrganizationCommands } from "@/modules/organizations/organization.commands";
 import { ExecutionButton } from "./modules/endpoints/ui/execution-button";
 import { HttpFileCodeLensProvider } from "./modules/endpoints/ui/code-lens-provider";
@@ -246,6 +250,12 @@ function registerCommands(
     registerNavigationCommands(context);
     registerSyncConfigCommands(context, syncConfigModal, treeProvider);
     registerExportCommands(context, collectionsService, endpointsService);
+    registerImportCommands(
+        context,
+        collectionsService,
+        endpointsService,
+        treeProvider,
+    );
 
     // Show status command (kept here as it's a simple placeholder)
     context.subscriptions.push(
@@ -384,6 +394,10 @@ async function checkProjectType(): Promise<void> {
         if (detected.trpc) types.push("tRPC");
         if (detected.nestjs) types.push("NestJS");
         if (detected.payloadCMS) types.push("Payload CMS");
+        if (detected.express) types.push("Express");
+        if (detected.fastify) types.push("Fastify");
+        if (detected.hono) types.push("Hono");
+        if (detected.elysia) types.push("Elysia");
 
         logger.info(`Detected project types: ${types.join(", ")}`);
     } else {
@@ -427,7 +427,7 @@ function inferTokenResponsePath(endpoint: ApiEndpoint): string {
  * Get effective @set directives for an endpoint
  * Returns user overrides if present, otherwise returns default directives for auth endpoints
  */
-function getEffectiveSetDirectives(
+export function getEffectiveSetDirectives(
     endpoint: ApiEndpoint,
     includeDefaultSetDirective: boolean,
 ): SetDirective[] {
@@ -6,14 +6,33 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs/promises";
+import {
+    getExporters,
+    type ExportEndpoint,
+    type ExportFormat,
+} from "@watchapi/parsers";
 import { COMMANDS } from "@/shared/constants";
+import { logger } from "@/shared";
 import { readRestClientEnvFile } from "@/modules/environments";
 import { wrapCommand } from "@/shared/command-wrapper";
 import type { CollectionsService } from "@/modules/collections";
 import type { EndpointsService } from "@/modules/endpoints";
 import type { ApiEndpoint } from "./endpoints.types";
 import type { Collection } from "@/modules/collections/collections.types";
-import { constructHttpFile } from "@/infrastructure/parsers";
+import {
+    constructHttpFile,
+    getEffectiveSetDirectives,
+} from "@/infrastructure/parsers";
+
+const EXPORT_DIR_NAME = "watchapi-export";
+
+/** .http files are written by the extension, other formats by @watchapi/parsers */
+type ExportTarget = ExportFormat | "http";
+
+interface ExportSettings {
+    includeAuthorizationHeader: boolean;
+    includeDefaultSetDirective: boolean;
+}
 
 /**
  * Register export commands
@@ -30,8 +49,6 @@ export function registerExportCommands(
                 {
                     commandName: "export",
                     errorMessagePrefix: "Failed to export collections",
-                    showSuccessMessage: true,
-                    successMessage: "Collections exported successfully",
                 },
                 async () => {
                     await exportCollections(
@@ -45,10 +62,7 @@ export function registerExportCommands(
 }
 
 /**
- * Read REST client environment from workspace
- */
-/**
- * Export all collections to .http files
+ * Export all collections as .http files or through a @watchapi/parsers exporter
  */
 async function exportCollections(
     collectionsService: CollectionsService,
@@ -60,10 +74,6 @@ async function exportCollections(
         throw new Error("No workspace folder found");
     }
 
-    // Create export directory
-    const exportDir = path.join(workspaceFolder.uri.fsPath, "watchapi-export");
-    await fs.mkdir(exportDir, { recursive: true });
-
     // Get all collections
     const collections = await collectionsService.getAll();
 
@@ -72,51 +82,113 @@ async function exportCollections(
         return;
     }
 
+    const picked = await vscode.window.showQuickPick(
+        [
+            {
+                label: ".http files",
+                description: "REST Client",
+                format: "http" as ExportTarget,
+            },
+            ...getExporters().map((exporter) => ({
+                label: exporter.label,
+                format: exporter.format as ExportTarget,
+            })),
+        ],
+        { placeHolder: "Export collections as" },
+    );
+    if (!picked) return;
+
     // Read environment and settings
     const env = await readRestClientEnvFile(workspaceFolder);
     const config = vscode.workspace.getConfiguration("watchapi");
-    const includeAuthorizationHeader = config.get<boolean>(
-        "includeAuthorizationHeader",
-        true,
-    );
-    const includeDefaultSetDirective = config.get<boolean>(
-        "includeDefaultSetDirective",
-        true,
-    );
+    const settings: ExportSettings = {
+        includeAuthorizationHeader: config.get<boolean>(
+            "includeAuthorizationHeader",
+            true,
+        ),
+        includeDefaultSetDirective: config.get<boolean>(
+            "includeDefaultSetDirective",
+            true,
+        ),
+    };
 
-    // Export each collection
+    const exportDir = path.join(workspaceFolder.uri.fsPath, EXPORT_DIR_NAME);
+    const collectionEndpoints: [Collection, ApiEndpoint[]][] = [];
     let totalEndpoints = 0;
     for (const collection of collections) {
         const endpoints = await endpointsService.getByCollectionId(
             collection.id,
         );
-
         if (endpoints.length > 0) {
-            await exportCollection(exportDir, collection, endpoints, env, {
-                includeAuthorizationHeader,
-                includeDefaultSetDirective,
-            });
+            collectionEndpoints.push([collection, endpoints]);
             totalEndpoints += endpoints.length;
         }
     }
 
-    vscode.window.showInformationMessage(
-        `Exported ${collections.length} collection(s) with ${totalEndpoints} endpoint(s) to watchapi-export`,
+    if (picked.format === "http") {
+        // Export each collection
+        for (const [collection, endpoints] of collectionEndpoints) {
+            await exportHttpCollection(
+                exportDir,
+                collection,
+                endpoints,
+                env,
+                settings,
+            );
+        }
+        vscode.window.showInformationMessage(
+            `Exported ${collections.length} collection(s) with ${totalEndpoints} endpoint(s) to ${EXPORT_DIR_NAME}`,
+        );
+        return;
+    }
+
+    const exporter = getExporters().find(
+        (candidate) => candidate.format === picked.format,
+    )!;
+    const result = exporter.export(
+        collectionEndpoints.map(([collection, endpoints]) => ({
+            name: collection.name,
+            description: collection.description,
+            endpoints: endpoints.map((endpoint) =>
+                toExportEndpoint(endpoint, settings),
+            ),
+        })),
+        { environments: env },
+    );
+
+    const targetDir = path.join(exportDir, result.format);
+    for (const file of result.files) {
+        const filePath = path.join(targetDir, ...file.path.split("/"));
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content, "utf-8");
+    }
+
+    for (const warning of result.warnings) {
+        logger.warn(`Export: ${warning}`);
+    }
+    const message = `Exported ${collectionEndpoints.length} collection(s) with ${totalEndpoints} endpoint(s) to ${EXPORT_DIR_NAME}/${result.format} as ${exporter.label}`;
+    if (result.warnings.length === 0) {
+        vscode.window.showInformationMessage(message);
+        return;
+    }
+    const action = await vscode.window.showWarningMessage(
+        `${message} with ${result.warnings.length} warning(s)`,
+        "Show Warnings",
     );
+    if (action === "Show Warnings") {
+        logger.show();
+    }
 }
 
 /**
- * Export a single collection with its endpoints
+ * Export a single collection as one .http file per endpoint
  */
-async function exportCollection(
+async function exportHttpCollection(
     exportDir: string,
     collection: Collection,
     endpoints: ApiEndpoint[],
     env: Record<string, string>,
-    options: {
-        includeAuthorizationHeader: boolean;
-        includeDefaultSetDirective: boolean;
-    },
+    options: ExportSettings,
 ): Promise<void> {
     // Sanitize collection name for filesystem
     const collectionDirName = sanitizeFilename(collection.name);
@@ -135,6 +207,34 @@ async function exportCollection(
     }
 }
 
+/**
+ * Apply the same defaults as .http export (Authorization header, token @set)
+ */
+function toExportEndpoint(
+    endpoint: ApiEndpoint,
+    settings: ExportSettings,
+): ExportEndpoint {
+    const headers = {
+        ...(endpoint.headersOverrides ?? endpoint.headersSchema),
+    };
+    if (
+        settings.includeAuthorizationHeader &&
+        !headers.Authorization &&
+        !headers.authorization
+    ) {
+        headers.Authorization = "Bearer {{authToken}}";
+    }
+
+    return {
+        ...endpoint,
+        headersOverrides: headers,
+        setDirectivesOverrides: getEffectiveSetDirectives(
+            endpoint,
+            settings.includeDefaultSetDirective,
+        ),
+    };
+}
+
 /**
  * Sanitize filename for filesystem
  */
@@ -0,0 +1,202 @@
+/**
+ * Import command handlers
+ * Commands: IMPORT
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+    detectImportFormat,
+    importCollection,
+    isPostmanEnvironmentFile,
+    type ImportResult,
+} from "@watchapi/parsers";
+import { COMMANDS, ENV_FILE_NAME } from "@/shared/constants";
+import { logger } from "@/shared";
+import { mergeEnvFileEnvironments } from "@/modules/environments";
+import { wrapCommandWithRefresh } from "@/shared/command-wrapper";
+import type {
+    CollectionsService,
+    CollectionsTreeProvider,
+} from "@/modules/collections";
+import type { EndpointsService } from "@/modules/endpoints";
+import type { Collection } from "@/modules/collections/collections.types";
+
+/**
+ * Register import commands
+ */
+export function registerImportCommands(
+    context: vscode.ExtensionContext,
+    collectionsService: CollectionsService,
+    endpointsService: EndpointsService,
+    treeProvider: CollectionsTreeProvider,
+): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            COMMANDS.IMPORT,
+            wrapCommandWithRefresh(
+                {
+                    commandName: "import",
+                    errorMessagePrefix: "Failed to import collection",
+                },
+                async () => {
+                    await importCollections(
+                        collectionsService,
+                        endpointsService,
+                    );
+                },
+                () => treeProvider.refresh(),
+            ),
+        ),
+    );
+}
+
+/**
+ * Import Postman, Insomnia, HAR or Bruno collections picked by the user
+ */
+async function importCollections(
+    collectionsService: CollectionsService,
+    endpointsService: EndpointsService,
+): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: true,
+        canSelectMany: true,
+        openLabel: "Import",
+        title: "Import a Postman or Insomnia export, HAR file or Bruno collection folder",
+    });
+    if (!uris?.length) return;
+
+    // Postman environment exports can be selected alongside their collection
+    const sources: string[] = [];
+    const environmentFiles: string[] = [];
+    for (const uri of uris) {
+        if (await detectImportFormat(uri.fsPath)) {
+            sources.push(uri.fsPath);
+        } else if (await isPostmanEnvironmentFile(uri.fsPath)) {
+            environmentFiles.push(uri.fsPath);
+        } else {
+            throw new Error(
+                `${path.basename(uri.fsPath)} is not a Postman v2.1 collection, Insomnia v4 export, HAR file or Bruno collection folder`,
+            );
+        }
+    }
+    if (sources.length === 0) {
+        throw new Error(
+            "Select the collection to import along with its environment files",
+        );
+    }
+
+    for (const source of sources) {
+        const result = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Importing ${path.basename(source)}...`,
+            },
+            () => importCollection(source, { environmentFiles }),
+        );
+
+        const collection = await pickTargetCollection(
+            collectionsService,
+            result,
+        );
+        if (!collection) return;
+
+        await endpointsService.bulkCreate(
+            result.endpoints.map((endpoint) => ({
+                ...endpoint,
+                collectionId: collection.id,
+            })),
+        );
+
+        await reportImport(result, collection);
+    }
+}
+
+/**
+ * Ask whether to import into a new collection or an existing one
+ */
+async function pickTargetCollection(
+    collectionsService: CollectionsService,
+    result: ImportResult,
+): Promise<Collection | undefined> {
+    const collections = await collectionsService.getAll();
+    const picked = await vscode.window.showQuickPick(
+        [
+            {
+                label: "$(add) New collection",
+                description: result.name,
+                collection: undefined as Collection | undefined,
+            },
+            ...collections.map((collection) => ({
+                label: collection.name,
+                description: collection.description,
+                collection: collection as Collection | undefined,
+            })),
+        ],
+        {
+            placeHolder: `Import ${result.endpoints.length} endpoint(s) from "${result.name}" into`,
+        },
+    );
+    if (!picked) return undefined;
+    if (picked.collection) return picked.collection;
+
+    const name = await vscode.window.showInputBox({
+        prompt: "Collection name",
+        value: result.name,
+        validateInput: (value) =>
+            value.trim() ? undefined : "Collection name is required",
+    });
+    if (!name) return undefined;
+
+    return collectionsService.create({ name: name.trim() });
+}
+
+/**
+ * Merge environments into the env file and summarize warnings
+ */
+async function reportImport(
+    result: ImportResult,
+    collection: Collection,
+): Promise<void> {
+    const parts = [
+        `Imported ${result.endpoints.length} endpoint(s) into "${collection.name}"`,
+    ];
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (workspaceFolder && Object.keys(result.environments).length > 0) {
+        const merged = await mergeEnvFileEnvironments(
+            result.environments,
+            workspaceFolder,
+        );
+        if (merged.added > 0) {
+            parts.push(`added ${merged.added} variable(s) to ${ENV_FILE_NAME}`);
+        }
+        for (const conflict of merged.conflicts) {
+            logger.warn(
+                `Import kept the existing ${ENV_FILE_NAME} value for ${conflict}`,
+            );
+        }
+    }
+
+    for (const warning of result.warnings) {
+        logger.warn(`Import: ${warning}`);
+    }
+
+    if (result.warnings.length === 0) {
+        vscode.window.showInformationMessage(parts.join(", "));
+        return;
+    }
+
+    // Not awaited so the tree refreshes while the message is open
+    void vscode.window
+        .showWarningMessage(
+            `${parts.join(", ")} with ${result.warnings.length} warning(s)`,
+            "Show Warnings",
+        )
+        .then((action) => {
+            if (action === "Show Warnings") {
+                logger.show();
+            }
+        });
+}
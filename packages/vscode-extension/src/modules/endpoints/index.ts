@@ -6,5 +6,6 @@ export * from "./endpoints.types";
 export * from "./endpoints.service";
 export * from "./endpoints.commands";
 export * from "./export.commands";
+export * from "./import.commands";
 export * from "./endpoints.fs";
 export * from "./endpoints.editor";
@@ -5,6 +5,7 @@
 
 import * as vscode from "vscode";
 import { flatten } from "flat";
+import { mergeEnvironments, type ImportedEnvironments } from "@watchapi/parsers";
 import { ENV_FILE_NAME, logger } from "@/shared";
 import type { Environment } from "./environments.types";
 
@@ -204,3 +205,38 @@ export async function updateEnvFileVariables(
         throw error;
     }
 }
+
+/**
+ * Merge imported environments into the environment file
+ * Existing values are kept; differing ones are returned as "env.key" conflicts
+ * @param environments Variables per environment ("$shared" included)
+ * @param workspaceFolder Workspace folder holding the environment file
+ */
+export async function mergeEnvFileEnvironments(
+    environments: ImportedEnvironments,
+    workspaceFolder: vscode.WorkspaceFolder,
+): Promise<{ added: number; conflicts: string[] }> {
+    const envUri = vscode.Uri.joinPath(workspaceFolder.uri, ENV_FILE_NAME);
+
+    let envFile: Record<string, Record<string, unknown>> = {};
+    try {
+        const bytes = await vscode.workspace.fs.readFile(envUri);
+        envFile = JSON.parse(Buffer.from(bytes).toString("utf8"));
+    } catch {
+        // File doesn't exist or is invalid, start from an empty file
+    }
+
+    const merged = mergeEnvironments(envFile, environments);
+    if (merged.added > 0) {
+        const content = JSON.stringify(merged.environments, null, 2);
+        await vscode.workspace.fs.writeFile(
+            envUri,
+            Buffer.from(content, "utf8"),
+        );
+        logger.info(
+            `Merged ${merged.added} imported variables into ${ENV_FILE_NAME}`,
+        );
+    }
+
+    return { added: merged.added, conflicts: merged.conflicts };
+}
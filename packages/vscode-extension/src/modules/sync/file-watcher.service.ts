@@ -463,6 +463,10 @@ export class FileWatcherService implements vscode.Disposable {
             /\.controller\.(ts|js)$/, // NestJS controllers
             /\.router\.(ts|js)$/, // tRPC routers
             /trpc\//, // tRPC directory
+            /routes?\//, // Express/Fastify/Hono/Elysia route modules
+            /\.routes?\.(ts|js)$/, // Express/Fastify/Hono/Elysia route files
+            /plugins\//, // Fastify plugins
+            /\/(app|server|index)\.(ts|js)$/, // Server entry files
         ];
 
         return routePatterns.some((pattern) => pattern.test(filePath));
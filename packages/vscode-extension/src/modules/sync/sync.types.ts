@@ -11,7 +11,16 @@ export interface ParsedRoute {
     method: HttpMethod;
     filePath: string;
     handlerName?: string; // For generating stable externalId
-    type: "nextjs-app" | "nextjs-page" | "trpc" | "nestjs" | "payload-cms";
+    type:
+        | "nextjs-app"
+        | "nextjs-page"
+        | "trpc"
+        | "nestjs"
+        | "payload-cms"
+        | "express"
+        | "fastify"
+        | "hono"
+        | "elysia";
     headers?: Record<string, string>;
     query?: Record<string, string>;
     body?: string;
@@ -25,6 +25,7 @@ export const COMMANDS = {
     SWITCH_ORGANIZATION: "watchapi.switchOrganization",
     WARNING: "watchapi.warning",
     EXPORT: "watchapi.export",
+    IMPORT: "watchapi.import",
 } as const;
 
 // Storage keys